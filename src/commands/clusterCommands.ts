@@ -7,6 +7,7 @@ import { KafkaClientManager } from '../kafka/kafkaClientManager';
 import { KafkaExplorerProvider } from '../providers/kafkaExplorerProvider';
 import { ConsumerGroupProvider } from '../providers/consumerGroupProvider';
 import { ClusterConnectionWebview } from '../forms/clusterConnectionWebview';
+import { KafkaFileSystemProvider } from '../providers/kafkaFileSystemProvider';
 
 export async function addCluster(
     clientManager: KafkaClientManager,
@@ -81,6 +82,23 @@ export async function removeCluster(
     }
 }
 
+/**
+ * Add the cluster to the workspace as a kafka: folder of topics, messages, configs and schemas
+ */
+export async function browseClusterAsFolder(node: any) {
+    const uri = KafkaFileSystemProvider.clusterUri(node.clusterName);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.some(folder => folder.uri.toString() === uri.toString())) {
+        await vscode.commands.executeCommand('workbench.view.explorer');
+        return;
+    }
+
+    const added = vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri, name: `Kafka: ${node.clusterName}` });
+    if (!added) {
+        vscode.window.showErrorMessage(`Could not add cluster "${node.clusterName}" to the workspace.`);
+    }
+}
+
 export async function configureExplorerSettings(node?: any) {
     const config = vscode.workspace.getConfiguration('kafka.explorer');
 
@@ -11,8 +11,10 @@ import * as kstreamCommands from './kstreamCommands';
 import * as ktableCommands from './ktableCommands';
 import * as clusterDashboardCommands from './clusterDashboardCommands';
 import * as partitionCommands from './partitionCommands';
+import * as schemaRegistryCommands from './schemaRegistryCommands';
 import { MessageProducerWebview } from '../views/MessageProducerWebview';
 import { MessageConsumerWebview } from '../views/MessageConsumerWebview';
+import { SchemaRegistryTreeItem } from '../providers/schemaRegistryProvider';
 
 /**
  * Get all command definitions for the extension
@@ -61,6 +63,12 @@ export function getCommandDefinitions(): CommandDefinition[] {
                 );
             }
         },
+        {
+            id: 'kafka.browseClusterAsFolder',
+            handler: async (_ctx, node) => {
+                await clusterCommands.browseClusterAsFolder(node);
+            }
+        },
         {
             id: 'kafka.configureExplorerSettings',
             handler: async (_ctx, node) => {
@@ -157,6 +165,24 @@ export function getCommandDefinitions(): CommandDefinition[] {
                 await TopicsWebview.getInstance().show(clusterName, topics);
             }
         },
+        {
+            id: 'kafka.copyTopic',
+            handler: async (ctx, node) => {
+                await topicCommands.copyTopic(ctx.clientManager, node, ctx.extensionContext);
+            }
+        },
+        {
+            id: 'kafka.openTopicConfigDocument',
+            handler: async (_ctx, node) => {
+                await topicCommands.openTopicConfigDocument(node);
+            }
+        },
+        {
+            id: 'kafka.openMessageDocument',
+            handler: async (ctx, node) => {
+                await topicCommands.openMessageDocument(ctx.clientManager, node);
+            }
+        },
         {
             id: 'kafka.exportTopics',
             handler: async (ctx, node) => {
@@ -211,7 +237,10 @@ export function getCommandDefinitions(): CommandDefinition[] {
                 const webview = MessageConsumerWebview.getInstance(
                     ctx.clientManager,
                     ctx.logger,
-                    ctx.eventBus
+                    ctx.eventBus,
+                    ctx.credentialManager,
+                    ctx.extensionContext.workspaceState,
+                    ctx.extensionContext.globalStorageUri
                 );
                 await webview.show(
                     node.clusterName,
@@ -220,6 +249,13 @@ export function getCommandDefinitions(): CommandDefinition[] {
                 );
             }
         },
+        {
+            id: 'kafka.replayMessages',
+            handler: async (ctx, node) => {
+                // From the command palette there is no topic; the target is picked instead
+                await topicCommands.replayMessages(ctx.clientManager, node?.topicName ? node : undefined);
+            }
+        },
 
         // ========== Consumer Group Commands ==========
         {
@@ -228,7 +264,8 @@ export function getCommandDefinitions(): CommandDefinition[] {
                 await consumerGroupCommands.showConsumerGroupDetails(
                     ctx.clientManager,
                     node,
-                    ctx.extensionContext
+                    ctx.extensionContext,
+                    ctx.lagHistory
                 );
             }
         },
@@ -238,7 +275,39 @@ export function getCommandDefinitions(): CommandDefinition[] {
                 await consumerGroupCommands.showConsumerGroupDetails(
                     ctx.clientManager,
                     node,
-                    ctx.extensionContext
+                    ctx.extensionContext,
+                    ctx.lagHistory
+                );
+            }
+        },
+        {
+            id: 'kafka.showConsumerGroupAssignments',
+            handler: async (ctx, node) => {
+                await consumerGroupCommands.showConsumerGroupAssignments(
+                    ctx.clientManager,
+                    node
+                );
+            }
+        },
+        {
+            id: 'kafka.showLagAlerts',
+            handler: async (ctx) => {
+                await consumerGroupCommands.showLagAlerts(ctx.lagMonitor);
+            }
+        },
+        {
+            id: 'kafka.muteConsumerGroupLagAlerts',
+            handler: async (_ctx, node) => {
+                await consumerGroupCommands.muteConsumerGroupLagAlerts(node);
+            }
+        },
+        {
+            id: 'kafka.cleanupExtensionConsumerGroups',
+            handler: async (ctx, node) => {
+                await consumerGroupCommands.cleanupExtensionConsumerGroups(
+                    ctx.clientManager,
+                    ctx.providers.consumerGroup,
+                    node
                 );
             }
         },
@@ -248,7 +317,7 @@ export function getCommandDefinitions(): CommandDefinition[] {
                 const groups = await ctx.clientManager.getConsumerGroups(clusterName);
                 const ConsumerGroupsWebview = (await import('../views/ConsumerGroupsWebview')).ConsumerGroupsWebview;
                 const webview = ConsumerGroupsWebview.getInstance();
-                await webview.show(clusterName, groups);
+                await webview.show(clusterName, groups, ctx.lagHistory);
             }
         },
         {
@@ -270,6 +339,27 @@ export function getCommandDefinitions(): CommandDefinition[] {
                 );
             }
         },
+        {
+            id: 'kafka.snapshotConsumerGroupOffsets',
+            handler: async (ctx, node) => {
+                await consumerGroupCommands.snapshotConsumerGroupOffsets(
+                    ctx.clientManager,
+                    node,
+                    ctx.extensionContext
+                );
+            }
+        },
+        {
+            id: 'kafka.restoreConsumerGroupOffsets',
+            handler: async (ctx, node) => {
+                await consumerGroupCommands.restoreConsumerGroupOffsets(
+                    ctx.clientManager,
+                    ctx.providers.consumerGroup,
+                    node,
+                    ctx.extensionContext
+                );
+            }
+        },
         {
             id: 'kafka.findConsumerGroup',
             handler: async (ctx) => {
@@ -401,6 +491,56 @@ export function getCommandDefinitions(): CommandDefinition[] {
             }
         },
 
+        // ========== Schema Registry Commands ==========
+        {
+            id: 'kafka.openSchemaVersion',
+            handler: async (ctx, node) => {
+                await schemaRegistryCommands.openSchemaVersion(
+                    ctx.providers.schemaRegistry,
+                    node
+                );
+            }
+        },
+        {
+            id: 'kafka.registerSchema',
+            handler: async (ctx, node) => {
+                // Invoked from the editor context menu the argument is the file URI
+                await schemaRegistryCommands.registerSchemaFromEditor(
+                    ctx.clientManager,
+                    ctx.providers.schemaRegistry,
+                    node instanceof SchemaRegistryTreeItem ? node : undefined
+                );
+            }
+        },
+        {
+            id: 'kafka.checkSchemaCompatibility',
+            handler: async (ctx, node) => {
+                await schemaRegistryCommands.checkSchemaCompatibility(
+                    ctx.clientManager,
+                    ctx.providers.schemaRegistry,
+                    node instanceof SchemaRegistryTreeItem ? node : undefined
+                );
+            }
+        },
+        {
+            id: 'kafka.setSubjectCompatibility',
+            handler: async (ctx, node) => {
+                await schemaRegistryCommands.setSubjectCompatibility(
+                    ctx.providers.schemaRegistry,
+                    node
+                );
+            }
+        },
+        {
+            id: 'kafka.deleteSchemaVersion',
+            handler: async (ctx, node) => {
+                await schemaRegistryCommands.deleteSchemaVersion(
+                    ctx.providers.schemaRegistry,
+                    node
+                );
+            }
+        },
+
         // ========== ACL Commands ==========
         {
             id: 'kafka.showACLDetails',
@@ -5,9 +5,12 @@ import { ConsumerGroupProvider } from '../providers/consumerGroupProvider';
 import { BrokerProvider } from '../providers/brokerProvider';
 import { KStreamProvider } from '../providers/kstreamProvider';
 import { KTableProvider } from '../providers/ktableProvider';
+import { SchemaRegistryProvider } from '../providers/schemaRegistryProvider';
 import { CredentialManager } from '../infrastructure/CredentialManager';
 import { Logger } from '../infrastructure/Logger';
 import { EventBus } from '../infrastructure/EventBus';
+import { LagHistoryStore } from '../services/LagHistoryStore';
+import { LagMonitor } from '../services/LagMonitor';
 
 /**
  * Context object containing all dependencies needed by commands
@@ -16,6 +19,8 @@ export interface CommandContext {
     clientManager: KafkaClientManager;
     eventBus: EventBus;
     credentialManager: CredentialManager;
+    lagHistory: LagHistoryStore;
+    lagMonitor: LagMonitor;
     extensionContext: vscode.ExtensionContext;
     providers: CommandProviders;
     treeViews: CommandTreeViews;
@@ -31,6 +36,7 @@ export interface CommandProviders {
     broker: BrokerProvider;
     kstream: KStreamProvider;
     ktable: KTableProvider;
+    schemaRegistry: SchemaRegistryProvider;
 }
 
 /**
@@ -42,6 +48,7 @@ export interface CommandTreeViews {
     broker: vscode.TreeView<any>;
     kstream: vscode.TreeView<any>;
     ktable: vscode.TreeView<any>;
+    schemaRegistry: vscode.TreeView<any>;
 }
 
 /**
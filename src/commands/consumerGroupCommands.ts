@@ -4,11 +4,24 @@
 
 import * as vscode from 'vscode';
 import { KafkaClientManager } from '../kafka/kafkaClientManager';
-import { DetailsWebview, DetailsData } from '../views/DetailsWebview';
+import { DetailsWebview, DetailsData, Section } from '../views/DetailsWebview';
 import { ErrorHandler } from '../infrastructure/ErrorHandler';
 import { AIAdvisor } from '../services/AIAdvisor';
-
-export async function showConsumerGroupDetails(clientManager: KafkaClientManager, node: any, context?: vscode.ExtensionContext) {
+import { OffsetResetPlan, OffsetResetStrategy, validateResetArgument } from '../services/ConsumerGroupService';
+import { ConsumerGroupOffsetSnapshot, OffsetSnapshotStore, parseOffsetSnapshot } from '../services/OffsetSnapshotService';
+import { OffsetResetPreviewWebview } from '../views/OffsetResetPreviewWebview';
+import { ConsumerGroupAssignmentWebview } from '../views/ConsumerGroupAssignmentWebview';
+import { LagHistoryStore, analyzeLagTrend, summarizeGroupHistory } from '../services/LagHistoryStore';
+import { LAG_TREND_BADGES, describeLagTrend, formatDrainTime, formatRate, renderLagHistoryCharts } from '../views/lagHistoryCharts';
+import { LagMonitor } from '../services/LagMonitor';
+import { LagAlertRule } from '../services/LagAlertRules';
+
+export async function showConsumerGroupDetails(
+    clientManager: KafkaClientManager,
+    node: any,
+    context?: vscode.ExtensionContext,
+    lagHistory?: LagHistoryStore
+) {
     await ErrorHandler.wrap(async () => {
         const details = await vscode.window.withProgress(
             {
@@ -83,11 +96,14 @@ export async function showConsumerGroupDetails(clientManager: KafkaClientManager
                     title: 'Members',
                     icon: '👤',
                     table: details.members && details.members.length > 0 ? {
-                        headers: ['Member ID', 'Client ID', 'Host'],
+                        headers: ['Member ID', 'Client ID', 'Host', 'Assigned Partitions'],
                         rows: details.members.map((member: any) => [
                             member.memberId || 'N/A',
                             member.clientId || 'N/A',
-                            member.clientHost || 'N/A'
+                            member.clientHost || 'N/A',
+                            (member.assignment || [])
+                                .map((a: any) => `${a.topic}: ${a.partitions.join(', ')}`)
+                                .join('; ') || 'None'
                         ])
                     } : undefined,
                     html: (!details.members || details.members.length === 0)
@@ -128,6 +144,10 @@ export async function showConsumerGroupDetails(clientManager: KafkaClientManager
             ]
         };
 
+        if (lagHistory) {
+            data.sections.splice(1, 0, await buildLagHistorySection(lagHistory, node.clusterName, details.groupId || node.groupId, details.offsets || []));
+        }
+
         // Set up AI request handler only if AI is available
         if (aiAvailable) {
             detailsView.setAIRequestHandler(async () => {
@@ -146,6 +166,43 @@ export async function showConsumerGroupDetails(clientManager: KafkaClientManager
     }, `Loading consumer group details for "${node.groupId}"`);
 }
 
+/**
+ * Record the offsets just loaded as a lag sample and chart the group's recorded history
+ */
+async function buildLagHistorySection(lagHistory: LagHistoryStore, clusterName: string, groupId: string, offsets: any[]): Promise<Section> {
+    const section: Section = { title: 'Lag Trend', icon: '📈' };
+    try {
+        await lagHistory.record(clusterName, groupId, offsets
+            .filter(offset => !offset.error)
+            .map(offset => ({
+                topic: offset.topic,
+                partition: offset.partition,
+                committedOffset: offset.currentOffset,
+                logEndOffset: offset.highWaterMark
+            })));
+        await lagHistory.flush();
+
+        const points = summarizeGroupHistory(await lagHistory.getGroupHistory(clusterName, groupId));
+        const trend = analyzeLagTrend(points);
+        section.properties = [
+            {
+                label: 'Trend',
+                value: describeLagTrend(trend),
+                badge: { type: LAG_TREND_BADGES[trend.status], text: trend.status.replace('-', ' ') }
+            },
+            { label: 'Produce Rate', value: trend.windowSeconds > 0 ? formatRate(trend.produceRate) : 'N/A' },
+            { label: 'Consume Rate', value: trend.windowSeconds > 0 ? formatRate(trend.consumeRate) : 'N/A' },
+            { label: 'Time to Drain', value: trend.secondsToDrain !== undefined ? `~${formatDrainTime(trend.secondsToDrain)}` : 'N/A' },
+            { label: 'Rate Window', value: trend.windowSeconds > 0 ? formatDrainTime(trend.windowSeconds) : 'N/A' },
+            { label: 'Samples', value: String(points.length) }
+        ];
+        section.html = renderLagHistoryCharts(points);
+    } catch (error: any) {
+        section.properties = [{ label: 'Lag History', value: `Unavailable: ${error?.message || 'Unknown error'}` }];
+    }
+    return section;
+}
+
 export async function deleteConsumerGroup(
     clientManager: KafkaClientManager,
     provider: any,
@@ -195,6 +252,16 @@ export async function deleteConsumerGroup(
     }
 }
 
+/**
+ * Input prompts for the strategies that take a typed argument
+ */
+const RESET_ARGUMENT_PROMPTS: Partial<Record<OffsetResetStrategy, { prompt: string; placeHolder: string }>> = {
+    'specific offset': { prompt: 'Enter offset value', placeHolder: '0' },
+    'to-datetime': { prompt: 'Enter a datetime (ISO 8601)', placeHolder: '2024-01-31T09:00:00Z' },
+    'by-duration': { prompt: 'Enter how far back to reset (ISO 8601 duration)', placeHolder: 'PT30M' },
+    'shift-by': { prompt: 'Enter how many offsets to shift by (negative to move back)', placeHolder: '-100' }
+};
+
 export async function resetConsumerGroupOffsets(clientManager: KafkaClientManager, node: any) {
     // Ask for topic
     const topicInput = await vscode.window.showInputBox({
@@ -209,9 +276,14 @@ export async function resetConsumerGroupOffsets(clientManager: KafkaClientManage
     // Ask for reset strategy
     const resetOption = await vscode.window.showQuickPick(
         [
-            { label: 'Beginning', description: 'Reset to earliest offset' },
-            { label: 'End', description: 'Reset to latest offset' },
-            { label: 'Specific Offset', description: 'Reset to a specific offset' }
+            { label: 'Beginning', description: 'Reset to earliest offset', strategy: 'beginning' as OffsetResetStrategy },
+            { label: 'End', description: 'Reset to latest offset', strategy: 'end' as OffsetResetStrategy },
+            { label: 'Specific Offset', description: 'Reset to a specific offset', strategy: 'specific offset' as OffsetResetStrategy },
+            { label: 'To Datetime', description: 'Reset to the first message at or after a point in time', strategy: 'to-datetime' as OffsetResetStrategy },
+            { label: 'By Duration', description: 'Reset to a period before now', strategy: 'by-duration' as OffsetResetStrategy },
+            { label: 'Shift By', description: 'Move committed offsets forward or back by N', strategy: 'shift-by' as OffsetResetStrategy },
+            { label: 'To Current', description: 'Keep committed offsets, committing the log end where there are none', strategy: 'to-current' as OffsetResetStrategy },
+            { label: 'From CSV File', description: 'Per-partition offsets as topic,partition,offset rows', strategy: 'from-file' as OffsetResetStrategy }
         ],
         { placeHolder: 'Select reset strategy' }
     );
@@ -220,68 +292,418 @@ export async function resetConsumerGroupOffsets(clientManager: KafkaClientManage
         return;
     }
 
-    let offset: string | undefined;
-    if (resetOption.label === 'Specific Offset') {
-        offset = await vscode.window.showInputBox({
-            prompt: 'Enter offset value',
-            placeHolder: '0',
-            validateInput: (value) => {
-                return isNaN(Number(value)) ? 'Must be a number' : undefined;
+    const strategy = resetOption.strategy;
+    let argument: string | undefined;
+    let offsetsFile: string | undefined;
+
+    if (strategy === 'from-file') {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Preview Reset',
+            filters: {
+                'CSV': ['csv'],
+                'All Files': ['*']
             }
         });
-        if (!offset) {
+        if (!uris || uris.length === 0) {
+            return;
+        }
+        offsetsFile = uris[0].fsPath;
+        argument = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8');
+    } else if (RESET_ARGUMENT_PROMPTS[strategy]) {
+        argument = await vscode.window.showInputBox({
+            ...RESET_ARGUMENT_PROMPTS[strategy],
+            validateInput: (value) => validateResetArgument(strategy, value)
+        });
+        if (!argument) {
             return;
         }
     }
 
-    const confirm = await vscode.window.showWarningMessage(
-        `Reset offsets for consumer group "${node.groupId}"${topicInput ? ` on topic "${topicInput}"` : ' on all topics'} to ${resetOption.label}?`,
-        { modal: true },
-        'Yes',
-        'No'
-    );
+    const topic = topicInput || undefined;
+
+    // Dry run first: nothing is committed until the plan is applied from the preview
+    const buildPlan = async (): Promise<OffsetResetPlan> => ({
+        clusterName: node.clusterName,
+        groupId: node.groupId,
+        strategy,
+        argument: offsetsFile ?? argument,
+        createdAt: new Date().toISOString(),
+        entries: await clientManager.previewConsumerGroupOffsetReset(
+            node.clusterName,
+            node.groupId,
+            topic,
+            strategy,
+            argument
+        )
+    });
 
-    if (confirm === 'Yes') {
-        try {
-            await clientManager.resetConsumerGroupOffsets(
-                node.clusterName,
-                node.groupId,
-                topicInput || undefined,
-                resetOption.label.toLowerCase(),
-                offset
+    let plan: OffsetResetPlan;
+    try {
+        plan = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Previewing offset reset for consumer group "${node.groupId}"`,
+                cancellable: false
+            },
+            buildPlan
+        );
+    } catch (error: any) {
+        showOffsetResetError(error, node);
+        return;
+    }
+
+    OffsetResetPreviewWebview.getInstance().show(plan, {
+        apply: async (entries) => {
+            try {
+                await clientManager.applyConsumerGroupOffsetReset(node.clusterName, node.groupId, entries);
+                vscode.window.showInformationMessage(
+                    `✓ Offsets reset successfully for consumer group "${node.groupId}"`
+                );
+                return true;
+            } catch (error: any) {
+                showOffsetResetError(error, node);
+                return false;
+            }
+        },
+        refresh: buildPlan
+    });
+}
+
+/**
+ * Explain a failed offset reset, with a follow-up action where one helps
+ */
+function showOffsetResetError(error: any, node: any) {
+    const errorMsg = error?.message || error?.toString() || 'Unknown error';
+
+    if (errorMsg.includes('expired') || errorMsg.includes('credentials')) {
+        vscode.window.showErrorMessage(
+            `⚠️ AWS credentials expired. Please reconnect the cluster.`,
+            'Reconnect'
+        ).then(selection => {
+            if (selection === 'Reconnect') {
+                vscode.commands.executeCommand('kafka.addCluster');
+            }
+        });
+    } else if (errorMsg.includes('GROUP_SUBSCRIBED_TO_TOPIC') || errorMsg.includes('active members')) {
+        vscode.window.showErrorMessage(
+            `Cannot reset offsets for consumer group "${node.groupId}": Group has active members. Stop all consumers first.`
+        );
+    } else if (errorMsg.includes('COORDINATOR_NOT_AVAILABLE') || errorMsg.includes('not found')) {
+        vscode.window.showWarningMessage(
+            `Consumer group "${node.groupId}" not found or coordinator unavailable.`,
+            'Refresh'
+        ).then(selection => {
+            if (selection === 'Refresh') {
+                vscode.commands.executeCommand('kafka.refreshCluster', node);
+            }
+        });
+    } else {
+        vscode.window.showErrorMessage(`Failed to reset offsets: ${errorMsg}`);
+    }
+}
+
+/**
+ * Save a consumer group's committed offsets to extension storage or a JSON file
+ */
+export async function snapshotConsumerGroupOffsets(
+    clientManager: KafkaClientManager,
+    node: any,
+    context: vscode.ExtensionContext
+) {
+    await ErrorHandler.wrap(
+        async () => {
+            const destination = await vscode.window.showQuickPick(
+                [
+                    { label: 'Extension Storage', description: 'Listed when restoring offsets', value: 'storage' },
+                    { label: 'JSON File', description: 'Save anywhere, e.g. to share or keep with a deployment', value: 'file' }
+                ],
+                { placeHolder: 'Where should the snapshot be saved?' }
             );
-            vscode.window.showInformationMessage(
-                `✓ Offsets reset successfully for consumer group "${node.groupId}"`
+
+            if (!destination) {
+                return;
+            }
+
+            const snapshot = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Taking offset snapshot of consumer group "${node.groupId}"...`,
+                    cancellable: false
+                },
+                () => clientManager.snapshotConsumerGroupOffsets(node.clusterName, node.groupId)
             );
-        } catch (error: any) {
-            const errorMsg = error?.message || error?.toString() || 'Unknown error';
 
-            if (errorMsg.includes('expired') || errorMsg.includes('credentials')) {
-                vscode.window.showErrorMessage(
-                    `⚠️ AWS credentials expired. Please reconnect the cluster.`,
-                    'Reconnect'
-                ).then(selection => {
-                    if (selection === 'Reconnect') {
-                        vscode.commands.executeCommand('kafka.addCluster');
+            let uri: vscode.Uri | undefined;
+            if (destination.value === 'storage') {
+                uri = await new OffsetSnapshotStore(context.globalStorageUri).save(snapshot);
+            } else {
+                uri = await vscode.window.showSaveDialog({
+                    defaultUri: vscode.Uri.file(`${node.groupId}-offsets-${Date.now()}.json`),
+                    filters: {
+                        'JSON': ['json'],
+                        'All Files': ['*']
                     }
                 });
-            } else if (errorMsg.includes('GROUP_SUBSCRIBED_TO_TOPIC') || errorMsg.includes('active members')) {
-                vscode.window.showErrorMessage(
-                    `Cannot reset offsets for consumer group "${node.groupId}": Group has active members. Stop all consumers first.`
-                );
-            } else if (errorMsg.includes('COORDINATOR_NOT_AVAILABLE') || errorMsg.includes('not found')) {
-                vscode.window.showWarningMessage(
-                    `Consumer group "${node.groupId}" not found or coordinator unavailable.`,
-                    'Refresh'
-                ).then(selection => {
-                    if (selection === 'Refresh') {
-                        vscode.commands.executeCommand('kafka.refreshCluster', node);
+                if (!uri) {
+                    return;
+                }
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(snapshot, null, 2) + '\n', 'utf8'));
+            }
+
+            const action = await vscode.window.showInformationMessage(
+                `✓ Saved snapshot of ${snapshot.offsets.length} offsets for consumer group "${node.groupId}"`,
+                'Open File'
+            );
+            if (action === 'Open File') {
+                await vscode.window.showTextDocument(uri);
+            }
+        },
+        `Taking offset snapshot of consumer group "${node.groupId}"`
+    );
+}
+
+/**
+ * Commit the offsets of a snapshot to the selected consumer group or to another group ID
+ */
+export async function restoreConsumerGroupOffsets(
+    clientManager: KafkaClientManager,
+    provider: any,
+    node: any,
+    context: vscode.ExtensionContext
+) {
+    const snapshot = await ErrorHandler.wrap(
+        () => pickOffsetSnapshot(node, context),
+        'Loading offset snapshot'
+    );
+
+    if (!snapshot) {
+        return;
+    }
+
+    const targetGroupId = await vscode.window.showInputBox({
+        prompt: 'Consumer group to restore the offsets to (enter a new group ID to clone)',
+        value: node.groupId,
+        validateInput: (value) => value.trim() ? undefined : 'Consumer group ID is required'
+    });
+
+    if (!targetGroupId) {
+        return;
+    }
+
+    const target = targetGroupId.trim();
+    const otherCluster = snapshot.clusterName !== node.clusterName
+        ? ` The snapshot was taken on cluster "${snapshot.clusterName}".`
+        : '';
+    const confirm = await vscode.window.showWarningMessage(
+        `Restore ${snapshot.offsets.length} offsets from the ${new Date(snapshot.createdAt).toLocaleString()} snapshot of "${snapshot.groupId}" to consumer group "${target}"?${otherCluster}`,
+        { modal: true },
+        'Restore'
+    );
+
+    if (confirm !== 'Restore') {
+        return;
+    }
+
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Restoring offsets to consumer group "${target}"...`,
+                cancellable: false
+            },
+            () => clientManager.restoreConsumerGroupOffsets(node.clusterName, target, snapshot)
+        );
+        if (target !== node.groupId) {
+            provider.refresh();
+        }
+        vscode.window.showInformationMessage(
+            `✓ Restored ${snapshot.offsets.length} offsets to consumer group "${target}"`
+        );
+    } catch (error: any) {
+        showOffsetResetError(error, { ...node, groupId: target });
+    }
+}
+
+/**
+ * Choose a stored snapshot of the node's cluster, or load one from a file
+ */
+async function pickOffsetSnapshot(node: any, context: vscode.ExtensionContext): Promise<ConsumerGroupOffsetSnapshot | undefined> {
+    const stored = await new OffsetSnapshotStore(context.globalStorageUri).list(node.clusterName);
+    // Snapshots of the selected group first, newest first within each group
+    const ordered = [
+        ...stored.filter(s => s.snapshot.groupId === node.groupId),
+        ...stored.filter(s => s.snapshot.groupId !== node.groupId)
+    ];
+
+    const choice = await vscode.window.showQuickPick(
+        [
+            ...ordered.map(({ snapshot }) => ({
+                label: snapshot.groupId,
+                description: new Date(snapshot.createdAt).toLocaleString(),
+                detail: `${snapshot.offsets.length} partitions${snapshot.state ? ` · ${snapshot.state}` : ''}`,
+                snapshot
+            })),
+            { label: 'Load from JSON File...', description: 'A snapshot saved elsewhere', snapshot: undefined }
+        ],
+        { placeHolder: 'Select an offset snapshot to restore' }
+    );
+
+    if (!choice) {
+        return undefined;
+    }
+    if (choice.snapshot) {
+        return choice.snapshot;
+    }
+
+    const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Restore',
+        filters: {
+            'JSON': ['json'],
+            'All Files': ['*']
+        }
+    });
+    if (!uris || uris.length === 0) {
+        return undefined;
+    }
+    return parseOffsetSnapshot(JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8')));
+}
+
+/**
+ * Show which member owns which partition, refreshed live with a rebalance timeline
+ */
+export async function showConsumerGroupAssignments(clientManager: KafkaClientManager, node: any) {
+    await ErrorHandler.wrap(
+        () => ConsumerGroupAssignmentWebview.getInstance().show(clientManager, node.clusterName, node.groupId),
+        `Loading member assignments for "${node.groupId}"`
+    );
+}
+
+/**
+ * List the groups the lag monitor flagged at its latest poll and open the selected one
+ */
+export async function showLagAlerts(lagMonitor: LagMonitor) {
+    const states = lagMonitor.getAlertStates();
+    if (states.length === 0) {
+        vscode.window.showInformationMessage('No consumer groups are over their lag thresholds or stuck.');
+        return;
+    }
+
+    const severityOrder = { critical: 0, warning: 1, ok: 2 };
+    const selected = await vscode.window.showQuickPick(
+        states
+            .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity] || b.totalLag - a.totalLag)
+            .map(state => ({
+                label: `${state.severity === 'critical' ? '$(error)' : '$(warning)'} ${state.groupId}`,
+                description: `${state.clusterName} · ${state.totalLag.toLocaleString()} behind`,
+                detail: state.stuckPartitions.length > 0 ? `Stuck: no commits on ${state.stuckPartitions.join(', ')}` : undefined,
+                state
+            })),
+        { placeHolder: 'Select a lagging consumer group to view its details', matchOnDescription: true }
+    );
+
+    if (selected) {
+        await vscode.commands.executeCommand('kafka.showConsumerGroupDetails', {
+            clusterName: selected.state.clusterName,
+            groupId: selected.state.groupId
+        });
+    }
+}
+
+/**
+ * Add a rule muting lag alerts for one group; rules are matched in order, so it goes first
+ */
+export async function muteConsumerGroupLagAlerts(node: any) {
+    const config = vscode.workspace.getConfiguration('kafka.lagAlerts');
+    const rules = config.get<LagAlertRule[]>('rules', []) || [];
+    const rule: LagAlertRule = {
+        cluster: `^${escapeRegExp(node.clusterName)}$`,
+        group: `^${escapeRegExp(node.groupId)}$`,
+        muted: true
+    };
+
+    await config.update('rules', [rule, ...rules], vscode.ConfigurationTarget.Global);
+    vscode.window.showInformationMessage(
+        `Lag alerts muted for "${node.groupId}". Remove the rule from "kafka.lagAlerts.rules" to unmute.`
+    );
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Delete the consumer groups the extension created for its own reads, on one cluster or all of them
+ */
+export async function cleanupExtensionConsumerGroups(clientManager: KafkaClientManager, provider: any, node?: any) {
+    const clusters: string[] = node?.clusterName ? [node.clusterName] : clientManager.getClusters();
+    if (clusters.length === 0) {
+        vscode.window.showInformationMessage('No clusters configured.');
+        return;
+    }
+
+    const found: Array<{ clusterName: string; groupIds: string[] }> = [];
+    const errors: string[] = [];
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Looking for consumer groups created by the extension...' },
+        async () => {
+            for (const clusterName of clusters) {
+                try {
+                    const groupIds = await clientManager.findExtensionConsumerGroups(clusterName);
+                    if (groupIds.length > 0) {
+                        found.push({ clusterName, groupIds });
                     }
-                });
-            } else {
-                vscode.window.showErrorMessage(`Failed to reset offsets: ${errorMsg}`);
+                } catch (error: any) {
+                    errors.push(`${clusterName}: ${error?.message || 'Unknown error'}`);
+                }
             }
         }
+    );
+
+    const total = found.reduce((sum, f) => sum + f.groupIds.length, 0);
+    if (total === 0) {
+        const message = 'No consumer groups created by the extension were found.';
+        if (errors.length > 0) {
+            vscode.window.showWarningMessage(`${message} Some clusters could not be checked: ${errors.join('; ')}`);
+        } else {
+            vscode.window.showInformationMessage(message);
+        }
+        return;
+    }
+
+    const listed = found.flatMap(f => f.groupIds.map(groupId => `${f.clusterName} / ${groupId}`));
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete ${total} consumer group(s) created by the extension?`,
+        {
+            modal: true,
+            detail: listed.slice(0, 20).join('\n') + (listed.length > 20 ? `\n... and ${listed.length - 20} more` : '')
+        },
+        'Delete'
+    );
+    if (confirm !== 'Delete') {
+        return;
+    }
+
+    let deleted = 0;
+    const failed: string[] = [...errors];
+    for (const { clusterName, groupIds } of found) {
+        try {
+            const result = await clientManager.deleteExtensionConsumerGroups(clusterName, groupIds);
+            deleted += result.deleted.length;
+            failed.push(...result.failed.map(f => `${clusterName} / ${f.groupId}: ${f.error}`));
+        } catch (error: any) {
+            failed.push(`${clusterName}: ${error?.message || 'Unknown error'}`);
+        }
+    }
+
+    provider?.refresh();
+    if (failed.length > 0) {
+        vscode.window.showWarningMessage(
+            `Deleted ${deleted} consumer group(s). Could not clean up: ${failed.join('; ')}`
+        );
+    } else {
+        vscode.window.showInformationMessage(`✓ Deleted ${deleted} consumer group(s) created by the extension.`);
     }
 }
 
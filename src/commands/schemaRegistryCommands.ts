@@ -0,0 +1,337 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { KafkaClientManager } from '../kafka/kafkaClientManager';
+import { SchemaRegistryProvider, SchemaRegistryTreeItem } from '../providers/schemaRegistryProvider';
+import { SchemaDocumentProvider } from '../providers/schemaDocumentProvider';
+import { ErrorHandler } from '../infrastructure/ErrorHandler';
+import {
+    COMPATIBILITY_LEVELS,
+    CompatibilityLevel,
+    SchemaRegistryService,
+    SchemaType
+} from '../services/SchemaRegistryService';
+import { detectSchemaType } from '../utils/schemaSamples';
+
+/**
+ * Schema taken from the active editor, ready to be checked or registered
+ */
+interface SchemaDraft {
+    clusterName: string;
+    service: SchemaRegistryService;
+    subject: string;
+    schema: string;
+    schemaType: SchemaType;
+}
+
+/**
+ * Open a registered schema version as a read-only, syntax-highlighted document
+ */
+export async function openSchemaVersion(
+    schemaRegistryProvider: SchemaRegistryProvider,
+    node: SchemaRegistryTreeItem
+) {
+    await ErrorHandler.wrap(
+        async () => {
+            if (!node?.subject || node.version === undefined) {
+                vscode.window.showErrorMessage('No schema version selected');
+                return;
+            }
+
+            const service = schemaRegistryProvider.getService(node.clusterName);
+            if (!service) {
+                vscode.window.showErrorMessage(`No Schema Registry configured for cluster "${node.clusterName}"`);
+                return;
+            }
+
+            const schema = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Loading ${node.subject} v${node.version}`,
+                    cancellable: false
+                },
+                async () => service.getSchemaVersion(node.subject!, node.version!)
+            );
+
+            const uri = SchemaDocumentProvider.buildUri(node.clusterName, node.subject, node.version, schema.schemaType);
+            const document = await vscode.workspace.openTextDocument(uri);
+            await vscode.window.showTextDocument(document, { preview: true });
+        },
+        'Opening schema version'
+    );
+}
+
+/**
+ * Register the schema in the active editor as a new version of a subject
+ * The schema is tested against the latest version first and rejected if incompatible
+ */
+export async function registerSchemaFromEditor(
+    clientManager: KafkaClientManager,
+    schemaRegistryProvider: SchemaRegistryProvider,
+    node?: SchemaRegistryTreeItem
+) {
+    await ErrorHandler.wrap(
+        async () => {
+            const draft = await promptForSchemaDraft(clientManager, schemaRegistryProvider, node);
+            if (!draft) {
+                return;
+            }
+
+            const compatibility = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Checking compatibility with "${draft.subject}"`,
+                    cancellable: false
+                },
+                async () => draft.service.testCompatibility(draft.subject, draft.schema, draft.schemaType)
+            );
+
+            if (!compatibility.isCompatible) {
+                await showIncompatibleSchema(draft.subject, compatibility.messages);
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                `Register a new ${draft.schemaType} schema version for subject "${draft.subject}" on cluster "${draft.clusterName}"?`,
+                { modal: true },
+                'Register'
+            );
+
+            if (confirm !== 'Register') {
+                return;
+            }
+
+            const schemaId = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Registering schema for "${draft.subject}"`,
+                    cancellable: false
+                },
+                async () => draft.service.registerSchema(draft.subject, draft.schema, draft.schemaType)
+            );
+
+            schemaRegistryProvider.refresh();
+            vscode.window.showInformationMessage(`✓ Schema registered for subject "${draft.subject}" (ID ${schemaId})`);
+        },
+        'Registering schema'
+    );
+}
+
+/**
+ * Test the schema in the active editor against the latest version of a subject
+ */
+export async function checkSchemaCompatibility(
+    clientManager: KafkaClientManager,
+    schemaRegistryProvider: SchemaRegistryProvider,
+    node?: SchemaRegistryTreeItem
+) {
+    await ErrorHandler.wrap(
+        async () => {
+            const draft = await promptForSchemaDraft(clientManager, schemaRegistryProvider, node);
+            if (!draft) {
+                return;
+            }
+
+            const compatibility = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Checking compatibility with "${draft.subject}"`,
+                    cancellable: false
+                },
+                async () => draft.service.testCompatibility(draft.subject, draft.schema, draft.schemaType)
+            );
+
+            if (compatibility.isCompatible) {
+                vscode.window.showInformationMessage(`✓ Schema is compatible with the latest version of "${draft.subject}"`);
+            } else {
+                await showIncompatibleSchema(draft.subject, compatibility.messages);
+            }
+        },
+        'Checking schema compatibility'
+    );
+}
+
+/**
+ * Set the compatibility level of a subject
+ */
+export async function setSubjectCompatibility(
+    schemaRegistryProvider: SchemaRegistryProvider,
+    node: SchemaRegistryTreeItem
+) {
+    await ErrorHandler.wrap(
+        async () => {
+            if (!node?.subject) {
+                vscode.window.showErrorMessage('No subject selected');
+                return;
+            }
+
+            const service = schemaRegistryProvider.getService(node.clusterName);
+            if (!service) {
+                vscode.window.showErrorMessage(`No Schema Registry configured for cluster "${node.clusterName}"`);
+                return;
+            }
+
+            const current = await service.getSubjectCompatibility(node.subject);
+            const selected = await vscode.window.showQuickPick(
+                COMPATIBILITY_LEVELS.map(level => ({
+                    label: level,
+                    description: level === current ? '(current)' : undefined
+                })),
+                { placeHolder: `Compatibility level for "${node.subject}" (currently ${current || 'inherited'})` }
+            );
+
+            if (!selected || selected.label === current) {
+                return;
+            }
+
+            await service.setSubjectCompatibility(node.subject, selected.label as CompatibilityLevel);
+
+            schemaRegistryProvider.refresh();
+            vscode.window.showInformationMessage(`✓ Compatibility for "${node.subject}" set to ${selected.label}`);
+        },
+        `Setting compatibility for subject "${node?.subject}"`
+    );
+}
+
+/**
+ * Soft or hard delete a schema version
+ */
+export async function deleteSchemaVersion(
+    schemaRegistryProvider: SchemaRegistryProvider,
+    node: SchemaRegistryTreeItem
+) {
+    await ErrorHandler.wrap(
+        async () => {
+            if (!node?.subject || node.version === undefined) {
+                vscode.window.showErrorMessage('No schema version selected');
+                return;
+            }
+
+            const service = schemaRegistryProvider.getService(node.clusterName);
+            if (!service) {
+                vscode.window.showErrorMessage(`No Schema Registry configured for cluster "${node.clusterName}"`);
+                return;
+            }
+
+            const mode = await vscode.window.showQuickPick(
+                [
+                    { label: 'Soft Delete', description: 'Hide the version; its schema ID stays resolvable', permanent: false },
+                    { label: 'Hard Delete', description: 'Permanently remove the version and its schema', permanent: true }
+                ],
+                { placeHolder: `Delete ${node.subject} v${node.version}` }
+            );
+
+            if (!mode) {
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                mode.permanent
+                    ? `Permanently delete version ${node.version} of "${node.subject}"? Consumers will no longer be able to decode messages written with it. This action cannot be undone.`
+                    : `Soft delete version ${node.version} of "${node.subject}"?`,
+                { modal: true },
+                mode.label
+            );
+
+            if (confirm !== mode.label) {
+                return;
+            }
+
+            await service.deleteSchemaVersion(node.subject, node.version, mode.permanent);
+
+            schemaRegistryProvider.refresh();
+            vscode.window.showInformationMessage(`✓ Version ${node.version} of "${node.subject}" deleted`);
+        },
+        `Deleting schema version ${node?.subject} v${node?.version}`
+    );
+}
+
+/**
+ * Collect cluster, subject and schema for a register/compatibility command
+ * Uses the selected tree node when available, otherwise prompts
+ */
+async function promptForSchemaDraft(
+    clientManager: KafkaClientManager,
+    schemaRegistryProvider: SchemaRegistryProvider,
+    node?: SchemaRegistryTreeItem
+): Promise<SchemaDraft | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showErrorMessage('Open a .avsc, .proto or .json schema file first');
+        return undefined;
+    }
+
+    const schema = editor.document.getText();
+    if (!schema.trim()) {
+        vscode.window.showErrorMessage('The active editor is empty');
+        return undefined;
+    }
+
+    const detectedType = detectSchemaType(editor.document.fileName, schema);
+    if (detectedType !== 'PROTOBUF') {
+        try {
+            JSON.parse(schema);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Schema is not valid JSON: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    let clusterName = node?.clusterName;
+    if (!clusterName) {
+        const clusters = clientManager.getClusters()
+            .filter(name => schemaRegistryProvider.getService(name) !== undefined);
+        if (clusters.length === 0) {
+            vscode.window.showErrorMessage('No cluster has a Schema Registry configured');
+            return undefined;
+        }
+        clusterName = clusters.length === 1
+            ? clusters[0]
+            : await vscode.window.showQuickPick(clusters, { placeHolder: 'Select the cluster whose Schema Registry to use' });
+        if (!clusterName) {
+            return undefined;
+        }
+    }
+
+    const service = schemaRegistryProvider.getService(clusterName);
+    if (!service) {
+        vscode.window.showErrorMessage(`No Schema Registry configured for cluster "${clusterName}"`);
+        return undefined;
+    }
+
+    const typePick = await vscode.window.showQuickPick(
+        (['AVRO', 'PROTOBUF', 'JSON'] as SchemaType[]).map(type => ({
+            label: type,
+            description: type === detectedType ? '(detected)' : undefined
+        })).sort((a, b) => (a.label === detectedType ? -1 : b.label === detectedType ? 1 : 0)),
+        { placeHolder: 'Schema type' }
+    );
+    if (!typePick) {
+        return undefined;
+    }
+
+    const baseName = path.basename(editor.document.fileName).split('.')[0];
+    const subject = node?.subject || await vscode.window.showInputBox({
+        prompt: 'Subject to register the schema under',
+        value: baseName ? `${baseName}-value` : '',
+        validateInput: (value) => value.trim() ? undefined : 'Subject is required'
+    });
+    if (!subject) {
+        return undefined;
+    }
+
+    return {
+        clusterName,
+        service,
+        subject: subject.trim(),
+        schema,
+        schemaType: typePick.label as SchemaType
+    };
+}
+
+async function showIncompatibleSchema(subject: string, messages: string[]): Promise<void> {
+    const details = messages.length > 0 ? `\n\n${messages.join('\n')}` : '';
+    await vscode.window.showErrorMessage(
+        `Schema is not compatible with the latest version of "${subject}".${details}`,
+        { modal: true }
+    );
+}
@@ -15,6 +15,18 @@ import { ConfigSourceMapper } from '../utils/configSourceMapper';
 import { PartitionService } from '../services/PartitionService';
 import { ConfigurationEditorService } from '../services/ConfigurationEditorService';
 import { AuditLog, AuditOperation } from '../infrastructure/AuditLog';
+import {
+    ReplayOptions,
+    ReplayPartitioning,
+    parseHeaderList,
+    parsePartitionMap,
+    readReplayFile,
+    replayMessages as runReplay
+} from '../services/MessageReplay';
+import { TopicCopier, TopicCopyCheck, TopicCopySummary, selectTopicConfigs, verifyTopicCopy } from '../services/TopicCopier';
+import { ConsumeRange, ConsumeStart } from '../kafka/consumeRange';
+import { MessageFilter, compileMessageFilter } from '../utils/messageFilter';
+import { KafkaFileSystemProvider } from '../providers/kafkaFileSystemProvider';
 
 export async function createTopic(
     clientManager: KafkaClientManager,
@@ -328,29 +340,23 @@ export async function showTopicDetails(clientManager: KafkaClientManager, node:
             let schemaSection = null;
             try {
                 // Get cluster configuration to check for Schema Registry settings
-                const clusterConfig = clientManager.getClusterConfig(node.clusterName);
-                const schemaRegistryUrl = clusterConfig?.schemaRegistryUrl;
-                
-                if (schemaRegistryUrl && context) {
-                    const { SchemaRegistryService } = await import('../services/SchemaRegistryService');
+                if (context) {
+                    const { createSchemaRegistryClient } = await import('../services/SchemaRegistryClient');
                     const { CredentialManager } = await import('../infrastructure/CredentialManager');
                     const credentialManager = new CredentialManager(context.secrets);
-                    const schemaService = new SchemaRegistryService(
-                        { 
-                            url: schemaRegistryUrl,
-                            username: clusterConfig.schemaRegistryApiKey,
-                            password: clusterConfig.schemaRegistryApiSecret
-                        },
-                        credentialManager,
-                        node.clusterName
+                    const schemaService = createSchemaRegistryClient(
+                        clientManager.getClusterConfig(node.clusterName),
+                        credentialManager
                     );
 
                     // Check if schema registry is available
-                    const isAvailable = await schemaService.isAvailable();
+                    const isAvailable = await schemaService?.isAvailable();
                     
-                    if (isAvailable) {
-                        // Try to get schema for value subject (most common)
-                        const valueSubject = `${node.topicName}-value`;
+                    if (schemaService && isAvailable) {
+                        // Try to get schema for value subject (most common; Glue schemas are named after the topic)
+                        const valueSubject = schemaService.registryType === 'aws-glue'
+                            ? node.topicName
+                            : `${node.topicName}-value`;
                         try {
                             const schema = await schemaService.getLatestSchema(valueSubject);
                             const schemaObj = JSON.parse(schema.schema);
@@ -728,6 +734,630 @@ export async function exportTopics(clientManager: KafkaClientManager, node: Clus
     );
 }
 
+/**
+ * Replay messages exported by the consumer into a topic, on this cluster or another
+ * Started from a topic it replays into that topic; from the command palette the target is picked
+ */
+export async function replayMessages(clientManager: KafkaClientManager, node?: TopicNode) {
+    await ErrorHandler.wrap(
+        async () => {
+            const files = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: 'Replay',
+                filters: {
+                    'Message exports': ['ndjson', 'jsonl', 'json'],
+                    'All Files': ['*']
+                }
+            });
+            if (!files || files.length === 0) {
+                return;
+            }
+            const file = files[0].fsPath;
+
+            let clusterName = node?.clusterName;
+            let topicName = node?.topicName;
+            if (!clusterName || !topicName) {
+                const clusters = clientManager.getClusters();
+                if (clusters.length === 0) {
+                    vscode.window.showInformationMessage('No clusters configured. Please add a cluster first.');
+                    return;
+                }
+                clusterName = clusters.length === 1
+                    ? clusters[0]
+                    : await vscode.window.showQuickPick(clusters, { placeHolder: 'Cluster to replay into', ignoreFocusOut: true });
+                if (!clusterName) {
+                    return;
+                }
+                const topics = (await clientManager.getTopics(clusterName)).sort((a, b) => a.localeCompare(b));
+                topicName = await vscode.window.showQuickPick(topics, {
+                    placeHolder: `Topic in ${clusterName} to replay into`,
+                    ignoreFocusOut: true
+                });
+                if (!topicName) {
+                    return;
+                }
+            }
+            const targetCluster = clusterName;
+            const targetTopic = topicName;
+
+            const partitioning = await vscode.window.showQuickPick(
+                [
+                    { label: 'Keep partitions', description: 'Produce to the partition each message was read from', value: 'keep' as ReplayPartitioning },
+                    { label: 'Let the partitioner choose', description: 'Partition by key, as a normal producer would', value: 'partitioner' as ReplayPartitioning },
+                    { label: 'Map partitions...', description: 'e.g. 0=3, 1=3; unmapped partitions are kept', value: 'map' as ReplayPartitioning }
+                ],
+                { placeHolder: 'Partitions in the target topic', ignoreFocusOut: true }
+            );
+            if (!partitioning) {
+                return;
+            }
+            const options: ReplayOptions = { partitioning: partitioning.value, keepTimestamps: false };
+
+            if (partitioning.value === 'map') {
+                const mapping = await vscode.window.showInputBox({
+                    prompt: 'Partition mapping as source=target, comma separated',
+                    placeHolder: '0=3, 1=3, 2=4',
+                    ignoreFocusOut: true,
+                    validateInput: value => {
+                        try {
+                            parsePartitionMap(value);
+                            return undefined;
+                        } catch (error: any) {
+                            return error.message;
+                        }
+                    }
+                });
+                if (mapping === undefined) {
+                    return;
+                }
+                options.partitionMap = parsePartitionMap(mapping);
+            }
+
+            const timestamps = await vscode.window.showQuickPick(
+                [
+                    { label: 'Use the time of replay', keep: false },
+                    { label: 'Keep original timestamps', keep: true }
+                ],
+                { placeHolder: 'Message timestamps', ignoreFocusOut: true }
+            );
+            if (!timestamps) {
+                return;
+            }
+            options.keepTimestamps = timestamps.keep;
+
+            const rate = await vscode.window.showInputBox({
+                prompt: 'Maximum messages per second (leave empty for no limit)',
+                ignoreFocusOut: true,
+                validateInput: value => {
+                    const n = Number(value);
+                    return value.trim() === '' || (Number.isFinite(n) && n > 0) ? undefined : 'Enter a positive number';
+                }
+            });
+            if (rate === undefined) {
+                return;
+            }
+            options.ratePerSecond = rate.trim() ? Number(rate) : undefined;
+
+            const addHeaders = await vscode.window.showInputBox({
+                prompt: 'Headers to add as name=value, comma separated (optional)',
+                placeHolder: 'replayed-from=incident-42, env=staging',
+                ignoreFocusOut: true,
+                validateInput: value => {
+                    try {
+                        parseHeaderList(value);
+                        return undefined;
+                    } catch (error: any) {
+                        return error.message;
+                    }
+                }
+            });
+            if (addHeaders === undefined) {
+                return;
+            }
+            options.addHeaders = parseHeaderList(addHeaders);
+
+            const removeHeaders = await vscode.window.showInputBox({
+                prompt: 'Header names to remove, comma separated (optional)',
+                placeHolder: 'traceparent, x-request-id',
+                ignoreFocusOut: true
+            });
+            if (removeHeaders === undefined) {
+                return;
+            }
+            options.removeHeaders = removeHeaders.split(',').map(name => name.trim()).filter(name => name.length > 0);
+
+            const mode = await vscode.window.showQuickPick(
+                [
+                    { label: `Replay into ${targetTopic}`, description: targetCluster, dryRun: false },
+                    { label: 'Dry run', description: 'Read the file and count messages per partition without producing', dryRun: true }
+                ],
+                { placeHolder: 'Replay or count first', ignoreFocusOut: true }
+            );
+            if (!mode) {
+                return;
+            }
+            options.dryRun = mode.dryRun;
+
+            const metadata = await clientManager.getTopicMetadata(targetCluster, targetTopic);
+            const partitionCount: number = metadata.partitions.length;
+            const startTime = Date.now();
+
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `${options.dryRun ? 'Counting' : 'Replaying'} messages into ${targetTopic}`,
+                    cancellable: true
+                },
+                (progress, token) => runReplay(
+                    readReplayFile(file),
+                    async batch => {
+                        const missing = batch.find(message => message.partition !== undefined && message.partition >= partitionCount);
+                        if (missing) {
+                            throw new Error(
+                                `Partition ${missing.partition} does not exist in ${targetTopic}, which has ${partitionCount}; ` +
+                                'map partitions or let the partitioner choose'
+                            );
+                        }
+                        await clientManager.produceAdvancedMessages(targetCluster, targetTopic, batch);
+                    },
+                    options,
+                    {
+                        isCancelled: () => token.isCancellationRequested,
+                        onProgress: ({ sent }) => progress.report({ message: `${sent.toLocaleString()} messages` })
+                    }
+                )
+            );
+
+            const perPartition = [...result.partitions.entries()]
+                .sort(([a], [b]) => (a === 'auto' ? Infinity : a) - (b === 'auto' ? Infinity : b))
+                .map(([partition, count]) => `${partition === 'auto' ? 'by key' : `partition ${partition}`}: ${count}`)
+                .join(', ');
+
+            if (options.dryRun) {
+                const outOfRange = [...result.partitions.keys()].filter(p => p !== 'auto' && p >= partitionCount);
+                vscode.window.showInformationMessage(
+                    `Dry run: ${result.read} messages would be replayed into ${targetTopic} (${perPartition || 'none'})` +
+                    (outOfRange.length > 0 ? `. Partitions ${outOfRange.join(', ')} do not exist in the target topic` : '')
+                );
+                return;
+            }
+
+            AuditLog.success(
+                AuditOperation.MESSAGE_PRODUCED,
+                targetCluster,
+                targetTopic,
+                {
+                    source: 'replay',
+                    file,
+                    messageCount: result.sent,
+                    cancelled: result.cancelled,
+                    partitioning: options.partitioning,
+                    keepTimestamps: options.keepTimestamps,
+                    ratePerSecond: options.ratePerSecond
+                },
+                Date.now() - startTime
+            );
+
+            vscode.window.showInformationMessage(result.cancelled
+                ? `Replay cancelled after ${result.sent} messages into ${targetTopic}`
+                : `Replayed ${result.sent} messages into ${targetTopic} (${perPartition || 'none'})`);
+        },
+        'Replaying messages'
+    );
+}
+
+/**
+ * Copy a topic's messages to a topic on another configured cluster (or this one), creating the
+ * destination with the source's partitions and configs unless it exists
+ */
+export async function copyTopic(clientManager: KafkaClientManager, node: TopicNode, context?: vscode.ExtensionContext) {
+    await ErrorHandler.wrap(
+        async () => {
+            const sourceCluster = node.clusterName;
+            const sourceTopic = node.topicName;
+
+            const targetCluster = await vscode.window.showQuickPick(clientManager.getClusters(), {
+                placeHolder: `Copy ${sourceTopic} to cluster`,
+                ignoreFocusOut: true
+            });
+            if (!targetCluster) {
+                return;
+            }
+            const targetTopic = await vscode.window.showInputBox({
+                prompt: `Destination topic in ${targetCluster}`,
+                value: sourceTopic,
+                ignoreFocusOut: true,
+                validateInput: value => {
+                    if (!value.trim()) {
+                        return 'Enter a topic name';
+                    }
+                    return targetCluster === sourceCluster && value.trim() === sourceTopic
+                        ? 'Choose another name to copy within the same cluster'
+                        : undefined;
+                }
+            });
+            if (!targetTopic) {
+                return;
+            }
+            const destination = targetTopic.trim();
+
+            const [sourceMetadata, targetTopics] = await Promise.all([
+                clientManager.getTopicMetadata(sourceCluster, sourceTopic),
+                clientManager.getTopics(targetCluster)
+            ]);
+            const sourcePartitions: number = sourceMetadata.partitions.length;
+            let targetPartitions: number;
+            // The destination is created after every prompt, so cancelling leaves no empty topic behind
+            let newTopic: CopyDestination | undefined;
+
+            if (targetTopics.includes(destination)) {
+                const append = await vscode.window.showWarningMessage(
+                    `Topic "${destination}" already exists in ${targetCluster}. Copy messages into it?`,
+                    { modal: true },
+                    'Copy Into Existing Topic'
+                );
+                if (!append) {
+                    return;
+                }
+                targetPartitions = (await clientManager.getTopicMetadata(targetCluster, destination)).partitions.length;
+            } else {
+                newTopic = await chooseCopyDestination(clientManager, sourceCluster, sourceTopic, targetCluster, destination, sourceMetadata);
+                if (!newTopic) {
+                    return;
+                }
+                targetPartitions = newTopic.partitions;
+            }
+
+            const start = await pickCopyStart();
+            if (!start) {
+                return;
+            }
+
+            const end = await vscode.window.showQuickPick(
+                [
+                    { label: 'Stop at the current end', description: 'Copy up to the high watermark of each partition as of now', type: 'highWatermark' as const },
+                    { label: 'Keep copying new messages', description: 'Run until stopped or the limit is reached', type: 'none' as const }
+                ],
+                { placeHolder: 'When to stop', ignoreFocusOut: true }
+            );
+            if (!end) {
+                return;
+            }
+
+            const filterText = await vscode.window.showInputBox({
+                prompt: 'Only copy messages matching a filter expression (optional)',
+                placeHolder: 'e.g. $.country == "NL" and timestamp >= "2024-05-01"',
+                ignoreFocusOut: true,
+                validateInput: value => {
+                    try {
+                        if (value.trim()) {
+                            compileMessageFilter(value);
+                        }
+                        return undefined;
+                    } catch (error: any) {
+                        return error.message;
+                    }
+                }
+            });
+            if (filterText === undefined) {
+                return;
+            }
+            const filter: MessageFilter | undefined = filterText.trim() ? compileMessageFilter(filterText) : undefined;
+
+            const limitText = await vscode.window.showInputBox({
+                prompt: 'Maximum number of messages to copy (leave empty for no limit)',
+                ignoreFocusOut: true,
+                validateInput: value => value.trim() === '' || /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive whole number'
+            });
+            if (limitText === undefined) {
+                return;
+            }
+            const limit = limitText.trim() ? Number(limitText) : undefined;
+
+            if (newTopic) {
+                await clientManager.createTopic(targetCluster, destination, newTopic.partitions, newTopic.replication, newTopic.configs);
+            }
+            const range: ConsumeRange = { start, end: { type: end.type } };
+            const ranges = await clientManager.resolveConsumeRange(sourceCluster, sourceTopic, range);
+            // Partitions are kept when the destination has them all, otherwise messages are partitioned by key
+            const keepPartitions = targetPartitions >= sourcePartitions;
+            const before = await clientManager.getTopicEndOffsets(targetCluster, destination);
+
+            const copier = new TopicCopier(
+                ranges,
+                batch => clientManager.produceAdvancedMessages(targetCluster, destination, batch),
+                { filter, limit, keepPartitions }
+            );
+
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Copying ${sourceTopic} to ${targetCluster}/${destination}`,
+                    cancellable: true
+                },
+                async (progress, token) => {
+                    const timer = setInterval(() => {
+                        // Messages trickling in on an open-ended copy are sent at least once a second
+                        copier.flush().catch(() => undefined);
+                        const { copied, filtered, throughput } = copier.getProgress();
+                        progress.report({
+                            message: `${copied.toLocaleString()} copied` +
+                                (filter ? `, ${filtered.toLocaleString()} filtered out` : '') +
+                                ` (${Math.round(throughput).toLocaleString()} msg/s)`
+                        });
+                    }, 1000);
+
+                    try {
+                        const { cancelled } = await clientManager.readRanges(
+                            sourceCluster,
+                            sourceTopic,
+                            ranges,
+                            async ({ partition, message }) => {
+                                await copier.add(partition, message);
+                                return copier.isDone;
+                            },
+                            token
+                        );
+                        return await copier.finish(cancelled);
+                    } finally {
+                        clearInterval(timer);
+                    }
+                }
+            );
+
+            const after = await clientManager.getTopicEndOffsets(targetCluster, destination);
+            const checks = verifyTopicCopy(result, before, after, keepPartitions);
+
+            AuditLog.success(
+                AuditOperation.MESSAGE_PRODUCED,
+                targetCluster,
+                destination,
+                {
+                    source: 'copy',
+                    sourceCluster,
+                    sourceTopic,
+                    messageCount: result.copied,
+                    filter: filter?.expression,
+                    stoppedEarly: result.stoppedEarly
+                },
+                result.durationMs
+            );
+
+            if (context) {
+                showCopySummary(context, { sourceCluster, sourceTopic, targetCluster, targetTopic: destination, keepPartitions }, result, checks);
+            } else {
+                vscode.window.showInformationMessage(`Copied ${result.copied} messages from ${sourceTopic} to ${targetCluster}/${destination}`);
+            }
+        },
+        `Copying topic "${node.topicName}"`
+    );
+}
+
+interface CopyDestination {
+    partitions: number;
+    replication: number;
+    configs: Array<{ name: string; value: string }>;
+}
+
+/**
+ * Choose how to create the destination of a copy: the source's partitions and topic configs, or overrides
+ * @returns The settings of the new topic, or undefined when cancelled
+ */
+async function chooseCopyDestination(
+    clientManager: KafkaClientManager,
+    sourceCluster: string,
+    sourceTopic: string,
+    targetCluster: string,
+    targetTopic: string,
+    sourceMetadata: any
+): Promise<CopyDestination | undefined> {
+    const [configEntries, brokers] = await Promise.all([
+        clientManager.getTopicConfigEntries(sourceCluster, sourceTopic),
+        clientManager.getBrokers(targetCluster)
+    ]);
+    const configs = selectTopicConfigs(configEntries);
+    const partitions: number = sourceMetadata.partitions.length;
+    // A development cluster often has fewer brokers than the source's replication factor
+    const replication = Math.max(1, Math.min(sourceMetadata.partitions[0]?.replicas?.length || 1, brokers.length || 1));
+
+    const choice = await vscode.window.showQuickPick(
+        [
+            {
+                label: 'Match the source',
+                description: `${partitions} partitions, replication factor ${replication}, ${configs.length} topic configs`,
+                override: false
+            },
+            { label: 'Choose partitions, replication and configs...', override: true }
+        ],
+        { placeHolder: `Create ${targetTopic} in ${targetCluster}`, ignoreFocusOut: true }
+    );
+    if (!choice) {
+        return undefined;
+    }
+
+    if (!choice.override) {
+        return { partitions, replication, configs };
+    }
+
+    const partitionText = await vscode.window.showInputBox({
+        prompt: 'Number of partitions',
+        value: String(partitions),
+        ignoreFocusOut: true,
+        validateInput: value => /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive whole number'
+    });
+    if (partitionText === undefined) {
+        return undefined;
+    }
+    const replicationText = await vscode.window.showInputBox({
+        prompt: 'Replication factor',
+        value: String(replication),
+        ignoreFocusOut: true,
+        validateInput: value => /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive whole number'
+    });
+    if (replicationText === undefined) {
+        return undefined;
+    }
+
+    let chosenConfigs = configs;
+    if (configs.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+            configs.map(config => ({ label: config.name, description: config.value, picked: true, config })),
+            { placeHolder: 'Topic configs to copy', canPickMany: true, ignoreFocusOut: true }
+        );
+        if (!picked) {
+            return undefined;
+        }
+        chosenConfigs = picked.map(item => item.config);
+    }
+
+    return { partitions: Number(partitionText), replication: Number(replicationText), configs: chosenConfigs };
+}
+
+async function pickCopyStart(): Promise<ConsumeStart | undefined> {
+    const choice = await vscode.window.showQuickPick(
+        [
+            { label: 'Earliest', description: 'From the oldest retained message', type: 'earliest' as const },
+            { label: 'Timestamp...', description: 'From the first message at or after a date and time', type: 'timestamp' as const },
+            { label: 'Offset...', description: 'From the same offset in every partition', type: 'offset' as const },
+            { label: 'Latest', description: 'Only messages produced from now on', type: 'latest' as const }
+        ],
+        { placeHolder: 'Copy messages starting from', ignoreFocusOut: true }
+    );
+    if (!choice) {
+        return undefined;
+    }
+
+    if (choice.type === 'timestamp') {
+        const text = await vscode.window.showInputBox({
+            prompt: 'Start date and time (ISO 8601, e.g. 2024-05-01T12:00:00Z)',
+            ignoreFocusOut: true,
+            validateInput: value => Number.isNaN(Date.parse(value)) ? 'Enter a valid date' : undefined
+        });
+        return text === undefined ? undefined : { type: 'timestamp', timestamp: Date.parse(text) };
+    }
+    if (choice.type === 'offset') {
+        const text = await vscode.window.showInputBox({
+            prompt: 'Start offset',
+            ignoreFocusOut: true,
+            validateInput: value => /^\d+$/.test(value.trim()) ? undefined : 'Enter a non-negative whole number'
+        });
+        return text === undefined ? undefined : { type: 'offset', offset: text.trim() };
+    }
+    return { type: choice.type };
+}
+
+function showCopySummary(
+    context: vscode.ExtensionContext,
+    copy: { sourceCluster: string; sourceTopic: string; targetCluster: string; targetTopic: string; keepPartitions: boolean },
+    summary: TopicCopySummary,
+    checks: TopicCopyCheck[]
+) {
+    const verified = checks.every(check => check.matches);
+    const outcome = summary.stoppedEarly ? 'Stopped' : summary.limitReached ? 'Limit reached' : 'Completed';
+
+    const data: DetailsData = {
+        title: `${copy.sourceCluster}/${copy.sourceTopic} → ${copy.targetCluster}/${copy.targetTopic}`,
+        notice: verified
+            ? { type: 'info', text: `Verified: the destination grew by exactly the ${summary.copied.toLocaleString()} messages copied.` }
+            : { type: 'warning', text: 'The destination grew by a different number of messages than were copied. Another producer may be writing to it.' },
+        showCopyButton: true,
+        sections: [
+            {
+                title: 'Overview',
+                icon: '📊',
+                properties: [
+                    { label: 'Result', value: outcome, badge: { type: summary.stoppedEarly ? 'warning' : 'success', text: outcome } },
+                    { label: 'Messages Read', value: summary.read.toLocaleString() },
+                    { label: 'Messages Copied', value: summary.copied.toLocaleString() },
+                    { label: 'Filtered Out', value: summary.filtered.toLocaleString() },
+                    { label: 'Duration', value: `${(summary.durationMs / 1000).toFixed(1)}s` },
+                    { label: 'Average Throughput', value: `${Math.round(summary.averageThroughput).toLocaleString()} msg/s` },
+                    { label: 'Partitioning', value: copy.keepPartitions ? 'Same partition as the source' : 'By key (destination has fewer partitions)' }
+                ]
+            },
+            {
+                title: 'Source Partitions',
+                icon: '📦',
+                table: {
+                    headers: ['Partition', 'Start Offset', 'End Offset', 'Read', 'Filtered Out', 'Copied'],
+                    rows: summary.partitions.map(p => [
+                        p.partition,
+                        p.startOffset,
+                        p.endOffset ?? 'open',
+                        p.read.toLocaleString(),
+                        p.filtered.toLocaleString(),
+                        p.copied.toLocaleString()
+                    ])
+                }
+            },
+            {
+                title: 'Verification',
+                icon: verified ? '✅' : '⚠️',
+                table: {
+                    headers: ['Destination Partition', 'Copied', 'Added to Destination', 'Check'],
+                    rows: checks.map(check => [
+                        check.partition === 'total' ? 'All' : check.partition,
+                        check.copied.toLocaleString(),
+                        check.added.toLocaleString(),
+                        check.matches ? '✓' : '✗'
+                    ])
+                }
+            }
+        ]
+    };
+
+    new DetailsWebview(`Copy: ${copy.sourceTopic}`, '📋', context).showDetails(data);
+}
+
+/**
+ * Open a topic's configs as a properties document; saving it applies the changes after a confirmation
+ */
+export async function openTopicConfigDocument(node: TopicNode) {
+    await ErrorHandler.wrap(
+        async () => {
+            const uri = KafkaFileSystemProvider.topicConfigUri(node.clusterName, node.topicName);
+            await vscode.window.showTextDocument(uri, { preview: false });
+        },
+        'Opening topic config document'
+    );
+}
+
+/**
+ * Open a single message as a read-only JSON document, e.g. to compare it with another message
+ */
+export async function openMessageDocument(clientManager: KafkaClientManager, node: TopicNode) {
+    await ErrorHandler.wrap(
+        async () => {
+            const metadata = await clientManager.getTopicMetadata(node.clusterName, node.topicName);
+            const partitionIds: number[] = metadata.partitions.map((p: any) => p.partitionId).sort((a: number, b: number) => a - b);
+
+            const partition = partitionIds.length === 1
+                ? partitionIds[0]
+                : (await vscode.window.showQuickPick(
+                    partitionIds.map(id => ({ label: `Partition ${id}`, id })),
+                    { placeHolder: 'Select the partition of the message', ignoreFocusOut: true }
+                ))?.id;
+            if (partition === undefined) {
+                return;
+            }
+
+            const offset = await vscode.window.showInputBox({
+                prompt: `Offset of the message in partition ${partition}`,
+                placeHolder: 'e.g. 1200',
+                ignoreFocusOut: true,
+                validateInput: value => /^\d+$/.test(value.trim()) ? undefined : 'Enter a non-negative offset'
+            });
+            if (offset === undefined) {
+                return;
+            }
+
+            const uri = KafkaFileSystemProvider.messageUri(node.clusterName, node.topicName, partition, offset.trim());
+            await vscode.window.showTextDocument(uri, { preview: false });
+        },
+        'Opening message document'
+    );
+}
+
 /**
  * Show ACL details for a specific topic ACL
  */
@@ -4,6 +4,9 @@ import { ConsumerGroupProvider } from './providers/consumerGroupProvider';
 import { BrokerProvider } from './providers/brokerProvider';
 import { KStreamProvider } from './providers/kstreamProvider';
 import { KTableProvider } from './providers/ktableProvider';
+import { SchemaRegistryProvider } from './providers/schemaRegistryProvider';
+import { SchemaDocumentProvider } from './providers/schemaDocumentProvider';
+import { KafkaFileSystemProvider } from './providers/kafkaFileSystemProvider';
 import { KafkaClientManager } from './kafka/kafkaClientManager';
 import { Logger, LogLevel } from './infrastructure/Logger';
 import { EventBus, KafkaEvents } from './infrastructure/EventBus';
@@ -11,12 +14,19 @@ import { CredentialManager } from './infrastructure/CredentialManager';
 import { FieldDescriptions } from './utils/fieldDescriptions';
 import { WebviewManager } from './views/WebviewManager';
 import { LagMonitor } from './services/LagMonitor';
+import { LagHistoryStore } from './services/LagHistoryStore';
+import { LagAlertStatusBar } from './views/LagAlertStatusBar';
+import { LagAlertDecorationProvider } from './providers/lagAlertDecorationProvider';
+import { PrometheusExporter } from './services/PrometheusExporter';
+import { ExtensionConsumerGroupRegistry } from './services/ExtensionConsumerGroupRegistry';
 
 // Global instances for cleanup on deactivation
 let clientManager: KafkaClientManager;
 let eventBus: EventBus;
 let credentialManager: CredentialManager;
 let lagMonitor: LagMonitor;
+let lagHistory: LagHistoryStore;
+let prometheusExporter: PrometheusExporter;
 const logger = Logger.getLogger('Extension');
 
 export async function activate(context: vscode.ExtensionContext) {
@@ -30,22 +40,39 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize infrastructure
     eventBus = new EventBus();
     credentialManager = new CredentialManager(context.secrets);
-    clientManager = new KafkaClientManager(credentialManager);
+    clientManager = new KafkaClientManager(credentialManager, new ExtensionConsumerGroupRegistry(context.globalState));
 
-    // Initialize lag monitoring
-    lagMonitor = new LagMonitor(clientManager, eventBus);
+    // Initialize lag monitoring and history
+    lagHistory = new LagHistoryStore(context.globalStorageUri);
+    lagMonitor = new LagMonitor(clientManager, eventBus, lagHistory);
     lagMonitor.start();
 
+    // Surface lag alert state in the status bar and on consumer group tree items
+    const lagAlertDecorations = new LagAlertDecorationProvider(lagMonitor, eventBus);
+    context.subscriptions.push(
+        new LagAlertStatusBar(lagMonitor, eventBus),
+        lagAlertDecorations,
+        vscode.window.registerFileDecorationProvider(lagAlertDecorations)
+    );
+
+    // Opt-in Prometheus endpoint on 127.0.0.1 (kafka.prometheus.enabled)
+    prometheusExporter = new PrometheusExporter(clientManager, lagMonitor);
+    prometheusExporter.start().catch(error => {
+        logger.error('Failed to start Prometheus metrics endpoint', error);
+        vscode.window.showWarningMessage(`Kafka Prometheus metrics endpoint could not start: ${error?.message || error}`);
+    });
+
     // Load field descriptions database for webview info icons
     const fieldDescriptions = FieldDescriptions.getInstance();
     fieldDescriptions.load(context.extensionPath);
 
     // Register tree data providers
     const kafkaExplorerProvider = new KafkaExplorerProvider(clientManager);
-    const consumerGroupProvider = new ConsumerGroupProvider(clientManager);
+    const consumerGroupProvider = new ConsumerGroupProvider(clientManager, lagHistory);
     const brokerProvider = new BrokerProvider(clientManager);
     const kstreamProvider = new KStreamProvider(clientManager);
     const ktableProvider = new KTableProvider(clientManager);
+    const schemaRegistryProvider = new SchemaRegistryProvider(clientManager, credentialManager, eventBus);
 
     // Create TreeView instances to enable reveal() functionality (Phase 0: 2.3)
     const kafkaExplorerTreeView = vscode.window.createTreeView('kafkaExplorer', {
@@ -68,13 +95,27 @@ export async function activate(context: vscode.ExtensionContext) {
         treeDataProvider: ktableProvider
     });
 
+    const schemaRegistryTreeView = vscode.window.createTreeView('kafkaSchemaRegistry', {
+        treeDataProvider: schemaRegistryProvider
+    });
+
     // Register TreeViews for proper disposal
     context.subscriptions.push(
         kafkaExplorerTreeView,
         consumerGroupTreeView,
         brokerTreeView,
         kstreamTreeView,
-        ktableTreeView
+        ktableTreeView,
+        schemaRegistryTreeView,
+        vscode.workspace.registerTextDocumentContentProvider(
+            SchemaDocumentProvider.scheme,
+            new SchemaDocumentProvider(schemaRegistryProvider)
+        ),
+        vscode.workspace.registerFileSystemProvider(
+            KafkaFileSystemProvider.scheme,
+            new KafkaFileSystemProvider(clientManager, schemaRegistryProvider),
+            { isCaseSensitive: true }
+        )
     );
 
     // Define providers for easy iteration and error isolation
@@ -83,7 +124,8 @@ export async function activate(context: vscode.ExtensionContext) {
         { provider: consumerGroupProvider, name: 'ConsumerGroupProvider' },
         { provider: brokerProvider, name: 'BrokerProvider' },
         { provider: kstreamProvider, name: 'KStreamProvider' },
-        { provider: ktableProvider, name: 'KTableProvider' }
+        { provider: ktableProvider, name: 'KTableProvider' },
+        { provider: schemaRegistryProvider, name: 'SchemaRegistryProvider' }
     ];
 
     /**
@@ -148,20 +190,24 @@ export async function activate(context: vscode.ExtensionContext) {
         clientManager,
         eventBus,
         credentialManager,
+        lagHistory,
+        lagMonitor,
         extensionContext: context,
         providers: {
             kafkaExplorer: kafkaExplorerProvider,
             consumerGroup: consumerGroupProvider,
             broker: brokerProvider,
             kstream: kstreamProvider,
-            ktable: ktableProvider
+            ktable: ktableProvider,
+            schemaRegistry: schemaRegistryProvider
         },
         treeViews: {
             kafkaExplorer: kafkaExplorerTreeView,
             consumerGroup: consumerGroupTreeView,
             broker: brokerTreeView,
             kstream: kstreamTreeView,
-            ktable: ktableTreeView
+            ktable: ktableTreeView,
+            schemaRegistry: schemaRegistryTreeView
         },
         logger
     };
@@ -195,6 +241,33 @@ export async function deactivate() {
         }
     }
 
+    // Stop serving metrics
+    if (prometheusExporter) {
+        try {
+            await prometheusExporter.stop();
+        } catch (error) {
+            logger.error('Error during Prometheus endpoint cleanup', error);
+        }
+    }
+
+    // Persist recorded lag samples
+    if (lagHistory) {
+        try {
+            await lagHistory.flush();
+        } catch (error) {
+            logger.error('Error during lag history cleanup', error);
+        }
+    }
+
+    // Delete the consumer groups this extension created (kafka.consumer.cleanupGroupsOnExit)
+    if (clientManager && vscode.workspace.getConfiguration('kafka.consumer').get<boolean>('cleanupGroupsOnExit', true)) {
+        try {
+            await clientManager.cleanupRegisteredConsumerGroups();
+        } catch (error) {
+            logger.error('Error during consumer group cleanup', error);
+        }
+    }
+
     // Clean up all Kafka connections
     if (clientManager) {
         try {
@@ -23,6 +23,8 @@ export enum AuditOperation {
     // Consumer Group Operations
     CONSUMER_GROUP_DELETED = 'CONSUMER_GROUP_DELETED',
     CONSUMER_GROUP_OFFSETS_RESET = 'CONSUMER_GROUP_OFFSETS_RESET',
+    CONSUMER_GROUP_OFFSETS_SNAPSHOT = 'CONSUMER_GROUP_OFFSETS_SNAPSHOT',
+    CONSUMER_GROUP_OFFSETS_RESTORED = 'CONSUMER_GROUP_OFFSETS_RESTORED',
 
     // ACL Operations
     ACL_CREATED = 'ACL_CREATED',
@@ -35,7 +37,12 @@ export enum AuditOperation {
     CREDENTIALS_RETRIEVED = 'CREDENTIALS_RETRIEVED',
 
     // Broker Operations
-    BROKER_CONFIG_UPDATED = 'BROKER_CONFIG_UPDATED'
+    BROKER_CONFIG_UPDATED = 'BROKER_CONFIG_UPDATED',
+
+    // Schema Registry Operations
+    SCHEMA_REGISTERED = 'SCHEMA_REGISTERED',
+    SCHEMA_COMPATIBILITY_UPDATED = 'SCHEMA_COMPATIBILITY_UPDATED',
+    SCHEMA_VERSION_DELETED = 'SCHEMA_VERSION_DELETED'
 }
 
 export enum AuditResult {
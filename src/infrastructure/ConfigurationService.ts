@@ -100,6 +100,14 @@ export class ConfigurationService {
             sanitized.rejectUnauthorized = cluster.rejectUnauthorized;
         }
 
+        // Save Schema Registry location (API key/secret live in SecretStorage)
+        if (cluster.schemaRegistryType) {
+            sanitized.schemaRegistryType = cluster.schemaRegistryType;
+            sanitized.schemaRegistryUrl = cluster.schemaRegistryUrl;
+            sanitized.glueRegistryName = cluster.glueRegistryName;
+            sanitized.glueRegion = cluster.glueRegion;
+        }
+
         return sanitized;
     }
 
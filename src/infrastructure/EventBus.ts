@@ -164,5 +164,6 @@ export const KafkaEvents = {
     MESSAGE_SEARCHED: 'message:searched',
     SEEK_PERFORMED: 'message:seekPerformed',
     LAG_ALERT_SENT: 'lag:alertSent',
+    LAG_ALERT_STATE_CHANGED: 'lag:alertStateChanged',
 } as const;
 
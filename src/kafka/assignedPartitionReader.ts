@@ -0,0 +1,321 @@
+import { Kafka, KafkaMessage } from 'kafkajs';
+import { Logger } from '../infrastructure/Logger';
+import { PartitionRange } from './consumeRange';
+
+// kafkajs 2.2.x internal: filters records below the fetch offset, control records and aborted transactions
+const Batch = require('kafkajs/src/consumer/batch');
+
+/** Symbol description of the Kafka instance's internal cluster factory (kafkajs 2.2.x) */
+const CREATE_CLUSTER_SYMBOL = 'private:Kafka:createCluster';
+
+/** Fetch isolation level READ_COMMITTED, matching the kafkajs consumer default */
+const READ_COMMITTED = 1;
+
+/** Fetch errors that are resolved by reloading metadata, as in the kafkajs consumer */
+const STALE_METADATA_ERRORS = [
+    'LEADER_NOT_AVAILABLE',
+    'NOT_LEADER_FOR_PARTITION',
+    'FENCED_LEADER_EPOCH',
+    'UNKNOWN_LEADER_EPOCH',
+    'UNKNOWN_TOPIC_OR_PARTITION'
+];
+const RECOVERABLE_ERROR_NAMES = ['KafkaJSTopicMetadataNotLoaded', 'KafkaJSBrokerNotFound', 'KafkaJSConnectionClosedError'];
+
+export interface AssignedMessagePayload {
+    topic: string;
+    partition: number;
+    message: KafkaMessage;
+}
+
+export interface AssignedReaderRunOptions {
+    /** Start every partition at its earliest rather than latest offset; ignored when ranges are given */
+    fromBeginning?: boolean;
+    /** Read only these partitions, each between its own start and end offset */
+    ranges?: PartitionRange[];
+    eachMessage: (payload: AssignedMessagePayload) => Promise<void>;
+    /** Called when the offset a partition is read from next moves */
+    onProgress?: (partition: number, position: string) => void;
+    /** Called once every partition reached its end offset; the reader has stopped fetching by then */
+    onEnd?: () => void;
+    /** Called once when the fetch loop stops on an error it cannot recover from */
+    onError?: (error: Error) => void;
+}
+
+export interface AssignedReaderOptions {
+    maxWaitTime?: number;
+    maxBytes?: number;
+    maxBytesPerPartition?: number;
+    /** Delay before retrying after a recoverable fetch error */
+    retryDelay?: number;
+}
+
+/**
+ * Reads a topic's partitions by manual assignment: fetch requests go straight to the partition
+ * leaders, so no consumer group is joined and no offsets are committed
+ *
+ * kafkajs has no public assign API, so this drives the client's internal cluster the same way its
+ * consumer does. It depends on kafkajs 2.2.x internals, so kafkajs is pinned to 2.2.x and a test
+ * checks the internals are present; it fails on connect if they change.
+ */
+export class AssignedPartitionReader {
+    private logger = Logger.getLogger('AssignedPartitionReader');
+    private cluster: any;
+    private fromBeginning = false;
+    private nextOffsets = new Map<number, string>();
+    private endOffsets = new Map<number, string>();
+    private pendingSeeks = new Map<number, string>();
+    private paused = false;
+    private running = false;
+    private loop: Promise<void> | null = null;
+    private wakeUp: (() => void) | null = null;
+
+    constructor(
+        private readonly kafka: Kafka,
+        readonly topic: string,
+        private readonly options: AssignedReaderOptions = {}
+    ) {}
+
+    async connect(): Promise<void> {
+        if (this.cluster) {
+            return;
+        }
+
+        const createCluster = Object.getOwnPropertySymbols(this.kafka)
+            .find(symbol => symbol.description === CREATE_CLUSTER_SYMBOL);
+        if (!createCluster) {
+            throw new Error('Reading without a consumer group is not supported by this kafkajs version; set kafka.consumer.readMode to "group"');
+        }
+
+        const cluster = (this.kafka as any)[createCluster]({ isolationLevel: READ_COMMITTED });
+        await cluster.connect();
+        await cluster.addTargetTopic(this.topic);
+        this.cluster = cluster;
+    }
+
+    /**
+     * Start reading all partitions from their earliest or latest offset, or the given partition ranges
+     * Resolves once the starting offsets are known; messages are delivered in the background
+     */
+    async run(options: AssignedReaderRunOptions): Promise<void> {
+        if (this.running) {
+            throw new Error('Reader is already running');
+        }
+
+        await this.connect();
+        this.nextOffsets.clear();
+        this.endOffsets.clear();
+
+        if (options.ranges) {
+            // Offsets deleted by retention while reading a range continue at the log start
+            this.fromBeginning = true;
+            for (const range of options.ranges) {
+                this.nextOffsets.set(range.partition, range.startOffset);
+                if (range.endOffset !== undefined) {
+                    this.endOffsets.set(range.partition, range.endOffset);
+                }
+            }
+        } else {
+            this.fromBeginning = options.fromBeginning ?? false;
+            const partitions = (this.cluster.findTopicPartitionMetadata(this.topic) as Array<{ partitionId: number }>)
+                .map(p => p.partitionId);
+            if (partitions.length === 0) {
+                throw new Error(`Topic "${this.topic}" not found or has no partitions`);
+            }
+            for (const [partition, offset] of await this.fetchDefaultOffsets(partitions, this.fromBeginning)) {
+                this.nextOffsets.set(partition, offset);
+            }
+        }
+
+        this.running = true;
+        this.loop = this.fetchLoop(options);
+    }
+
+    /**
+     * Stop fetching until resume; messages already fetched but not delivered are read again after resuming
+     */
+    pause(): void {
+        this.paused = true;
+    }
+
+    resume(): void {
+        this.paused = false;
+        this.wakeUp?.();
+    }
+
+    /**
+     * Continue reading the partition from the offset; takes effect before the next fetch
+     * As with the kafkajs consumer, -1 seeks to the latest and -2 to the earliest offset
+     */
+    seek(partition: number, offset: string): void {
+        if (!this.nextOffsets.has(partition)) {
+            throw new Error(`Partition ${partition} of topic "${this.topic}" is not being read`);
+        }
+        this.pendingSeeks.set(partition, offset);
+    }
+
+    async disconnect(): Promise<void> {
+        this.running = false;
+        this.wakeUp?.();
+        await this.loop;
+        this.loop = null;
+        if (this.cluster) {
+            const cluster = this.cluster;
+            this.cluster = null;
+            await cluster.disconnect();
+        }
+    }
+
+    private async fetchLoop(options: AssignedReaderRunOptions): Promise<void> {
+        while (this.running) {
+            if (this.pendingSeeks.size === 0 && this.getActivePartitions().length === 0) {
+                this.running = false;
+                options.onEnd?.();
+                return;
+            }
+            if (this.paused) {
+                await this.sleep(this.options.maxWaitTime ?? 1000);
+                continue;
+            }
+
+            try {
+                await this.fetchOnce(options);
+            } catch (error: any) {
+                if (!this.running) {
+                    return;
+                }
+                if (!(await this.recover(error))) {
+                    this.running = false;
+                    this.logger.error(`Stopped reading ${this.topic}`, error);
+                    options.onError?.(error);
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Partitions that have not reached their end offset
+     */
+    private getActivePartitions(): number[] {
+        return [...this.nextOffsets.keys()].filter(partition => !this.isAtEnd(partition, this.nextOffsets.get(partition)!));
+    }
+
+    private isAtEnd(partition: number, offset: string): boolean {
+        const end = this.endOffsets.get(partition);
+        return end !== undefined && BigInt(offset) >= BigInt(end);
+    }
+
+    private async fetchOnce(options: AssignedReaderRunOptions): Promise<void> {
+        for (const [partition, offset] of this.pendingSeeks) {
+            this.pendingSeeks.delete(partition);
+            const logical = offset === '-1' ? false : offset === '-2' ? true : undefined;
+            this.nextOffsets.set(partition, logical === undefined ? offset : (await this.fetchDefaultOffsets([partition], logical))[0][1]);
+            options.onProgress?.(partition, this.nextOffsets.get(partition)!);
+        }
+
+        const active = this.getActivePartitions();
+        if (active.length === 0) {
+            return;
+        }
+
+        const partitionsByLeader: Record<string, number[]> = this.cluster.findLeaderForPartitions(this.topic, active);
+        const batches = await Promise.all(Object.entries(partitionsByLeader).map(async ([nodeId, partitions]) => {
+            const requested = partitions.map(partition => ({
+                partition,
+                fetchOffset: this.nextOffsets.get(partition)!,
+                maxBytes: this.options.maxBytesPerPartition ?? 1048576
+            }));
+            const broker = await this.cluster.findBroker({ nodeId });
+            const { responses } = await broker.fetch({
+                isolationLevel: READ_COMMITTED,
+                maxWaitTime: this.options.maxWaitTime ?? 1000,
+                minBytes: 1,
+                maxBytes: this.options.maxBytes ?? 10485760,
+                topics: [{ topic: this.topic, partitions: requested }]
+            });
+
+            return (responses as any[]).flatMap(({ topicName, partitions: partitionData }) =>
+                (partitionData as any[]).map(data =>
+                    new Batch(topicName, requested.find(r => r.partition === data.partition)!.fetchOffset, data)
+                )
+            );
+        }));
+
+        for (const batch of batches.flat()) {
+            const before = this.nextOffsets.get(batch.partition);
+            await this.deliver(batch, options.eachMessage);
+            const after = this.nextOffsets.get(batch.partition)!;
+            if (after !== before) {
+                options.onProgress?.(batch.partition, after);
+            }
+        }
+    }
+
+    private async deliver(batch: any, eachMessage: AssignedReaderRunOptions['eachMessage']): Promise<void> {
+        const partition: number = batch.partition;
+        const isInterrupted = () => !this.running || this.paused || this.pendingSeeks.has(partition);
+
+        for (const message of batch.messages as KafkaMessage[]) {
+            if (isInterrupted()) {
+                return;
+            }
+            if (this.isAtEnd(partition, message.offset)) {
+                this.nextOffsets.set(partition, this.endOffsets.get(partition)!);
+                return;
+            }
+            await eachMessage({ topic: batch.topic, partition, message });
+            this.nextOffsets.set(partition, (BigInt(message.offset) + 1n).toString());
+        }
+
+        // Skip past control records, aborted transactions and compacted offsets at the end of the batch
+        if (!isInterrupted() && batch.rawMessages.length > 0) {
+            this.nextOffsets.set(partition, (BigInt(batch.lastOffset()) + 1n).toString());
+        }
+    }
+
+    /**
+     * @returns Whether reading can continue
+     */
+    private async recover(error: any): Promise<boolean> {
+        if (error?.name === 'KafkaJSOffsetOutOfRange' && this.nextOffsets.has(error.partition)) {
+            const [[, offset]] = await this.fetchDefaultOffsets([error.partition], this.fromBeginning);
+            this.logger.warn(`Offset out of range on ${this.topic}-${error.partition}, continuing from ${offset}`);
+            this.nextOffsets.set(error.partition, offset);
+            return true;
+        }
+
+        if (STALE_METADATA_ERRORS.includes(error?.type) || RECOVERABLE_ERROR_NAMES.includes(error?.name) || error?.retriable) {
+            this.logger.debug(`Fetch from ${this.topic} failed (${error?.message}), refreshing metadata and retrying`);
+            await this.sleep(this.options.retryDelay ?? 1000);
+            if (this.running) {
+                await this.cluster.refreshMetadata();
+            }
+            return true;
+        }
+
+        return false;
+    }
+
+    private async fetchDefaultOffsets(partitions: number[], fromBeginning: boolean): Promise<Array<[number, string]>> {
+        const [topicOffsets] = await this.cluster.fetchTopicsOffset([{
+            topic: this.topic,
+            fromBeginning,
+            partitions: partitions.map(partition => ({ partition }))
+        }]);
+        return (topicOffsets?.partitions ?? []).map((p: { partition: number; offset: string }) => [p.partition, String(p.offset)]);
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                this.wakeUp = null;
+                resolve();
+            }, ms);
+            this.wakeUp = () => {
+                clearTimeout(timer);
+                this.wakeUp = null;
+                resolve();
+            };
+        });
+    }
+}
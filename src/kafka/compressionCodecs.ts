@@ -0,0 +1,133 @@
+import { CompressionCodecs, CompressionTypes } from 'kafkajs';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import createSnappyCodec from 'kafkajs-snappy';
+import * as lz4 from 'lz4js';
+import { ZstdCodec, ZstdStreaming } from 'zstd-codec';
+
+export type CompressionName = 'none' | 'gzip' | 'snappy' | 'lz4' | 'zstd';
+
+export const COMPRESSION_NAMES: CompressionName[] = ['none', 'gzip', 'snappy', 'lz4', 'zstd'];
+
+const COMPRESSION_TYPES: Record<CompressionName, CompressionTypes> = {
+    none: CompressionTypes.None,
+    gzip: CompressionTypes.GZIP,
+    snappy: CompressionTypes.Snappy,
+    lz4: CompressionTypes.LZ4,
+    zstd: CompressionTypes.ZSTD
+};
+
+interface KafkaCodec {
+    compress(encoder: { buffer: Buffer }): Promise<Buffer>;
+    decompress(buffer: Buffer): Promise<Buffer>;
+}
+
+// Same default level as the Java client
+const ZSTD_LEVEL = 3;
+
+const gzip = promisify(zlib.gzip);
+const unzip = promisify(zlib.unzip);
+
+/**
+ * Codec of each decompressed batch, keyed by the batch's memory
+ * kafkajs does not expose batch attributes to consumers, but the key and value of every record
+ * are slices of the decompressed batch buffer, so they share its ArrayBuffer
+ */
+const batchCompression = new WeakMap<ArrayBuffer, CompressionName>();
+
+let registered = false;
+let zstd: Promise<ZstdStreaming> | undefined;
+
+/**
+ * Map a producer compression choice to the kafkajs compression type
+ * @returns undefined for no compression
+ */
+export function toCompressionType(compression: string | undefined): CompressionTypes | undefined {
+    if (!compression || !(compression in COMPRESSION_TYPES) || compression === 'none') {
+        return undefined;
+    }
+    return COMPRESSION_TYPES[compression as CompressionName];
+}
+
+/**
+ * Codec of the batch a consumed message was delivered in
+ * Only batches decompressed by the codecs registered here are recognized
+ */
+export function getBatchCompression(message: { key?: Buffer | null; value?: Buffer | null }): CompressionName {
+    const memory = message.value?.buffer ?? message.key?.buffer;
+    return (memory && batchCompression.get(memory as ArrayBuffer)) || 'none';
+}
+
+/**
+ * Register codecs for every standard Kafka compression type with kafkajs
+ * kafkajs only ships GZIP; snappy, lz4 and zstd batches written by other clients fail to decode without these
+ * Safe to call more than once
+ */
+export function registerCompressionCodecs(): void {
+    if (registered) {
+        return;
+    }
+    registered = true;
+
+    const snappy = createSnappyCodec();
+
+    const codecs: Record<Exclude<CompressionName, 'none'>, KafkaCodec> = {
+        gzip: {
+            compress: async (encoder) => gzip(encoder.buffer),
+            decompress: async (buffer) => track(await unzip(buffer), 'gzip')
+        },
+        snappy: {
+            compress: (encoder) => snappy.compress(encoder),
+            decompress: async (buffer) => track(await snappy.decompress(buffer), 'snappy')
+        },
+        lz4: {
+            compress: async (encoder) => Buffer.from(lz4.compress(encoder.buffer)),
+            decompress: async (buffer) => track(lz4.decompress(buffer), 'lz4')
+        },
+        zstd: {
+            compress: (encoder) => zstdCompress(encoder.buffer),
+            decompress: async (buffer) => track(await zstdDecompress(buffer), 'zstd')
+        }
+    };
+
+    for (const [name, codec] of Object.entries(codecs)) {
+        CompressionCodecs[COMPRESSION_TYPES[name as CompressionName] as keyof typeof CompressionCodecs] = () => codec;
+    }
+}
+
+/**
+ * Copy decompressed bytes into memory of their own and remember the codec that produced them
+ * The copy matters: small Buffers share Node's allocation pool, which would tag unrelated messages
+ */
+function track(decompressed: Uint8Array, compression: CompressionName): Buffer {
+    const own = new Uint8Array(decompressed);
+    batchCompression.set(own.buffer, compression);
+    return Buffer.from(own.buffer);
+}
+
+/**
+ * The zstd codec is WebAssembly and initializes asynchronously on first use
+ */
+function getZstd(): Promise<ZstdStreaming> {
+    if (!zstd) {
+        zstd = new Promise(resolve => ZstdCodec.run(binding => resolve(new binding.Streaming())));
+    }
+    return zstd;
+}
+
+async function zstdCompress(content: Buffer): Promise<Buffer> {
+    const compressed = (await getZstd()).compress(content, ZSTD_LEVEL);
+    if (!compressed) {
+        throw new Error('zstd compression failed');
+    }
+    return Buffer.from(compressed);
+}
+
+async function zstdDecompress(compressed: Buffer): Promise<Uint8Array> {
+    // The streaming decoder also handles frames without a content size, as written by the Java client
+    const content = (await getZstd()).decompress(compressed);
+    if (!content) {
+        throw new Error('Invalid zstd data');
+    }
+    return content;
+}
@@ -0,0 +1,169 @@
+import { Admin } from 'kafkajs';
+
+/**
+ * Where a bounded consume session starts reading each partition
+ */
+export type ConsumeStart =
+    | { type: 'earliest' }
+    | { type: 'latest' }
+    | { type: 'offset'; offset: string }
+    | { type: 'timestamp'; timestamp: number };
+
+/**
+ * Where a consume session stops reading each partition
+ * 'none' keeps reading new messages; 'highWatermark' stops at the end of the partition when the session started
+ */
+export type ConsumeEnd =
+    | { type: 'none' }
+    | { type: 'highWatermark' }
+    | { type: 'offset'; offset: string }
+    | { type: 'timestamp'; timestamp: number };
+
+export interface ConsumeRange {
+    start: ConsumeStart;
+    end: ConsumeEnd;
+    /** Partitions to read; all partitions when empty or missing */
+    partitions?: number[];
+}
+
+/**
+ * A partition to read from startOffset up to, but not including, endOffset
+ */
+export interface PartitionRange {
+    partition: number;
+    startOffset: string;
+    /** Exclusive; reading never stops when missing */
+    endOffset?: string;
+}
+
+const START_TYPES = ['earliest', 'latest', 'offset', 'timestamp'];
+const END_TYPES = ['none', 'highWatermark', 'offset', 'timestamp'];
+
+/**
+ * Parse a partition list such as `0,2,5-7`
+ * @throws Error naming the first invalid entry
+ */
+export function parsePartitionList(text: string): number[] {
+    const partitions = new Set<number>();
+    for (const entry of text.split(',').map(e => e.trim()).filter(Boolean)) {
+        const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(entry);
+        if (!match) {
+            throw new Error(`Invalid partition "${entry}"; use numbers and ranges such as 0,2,5-7`);
+        }
+        const from = Number(match[1]);
+        const to = match[2] !== undefined ? Number(match[2]) : from;
+        if (to < from) {
+            throw new Error(`Invalid partition range "${entry}"`);
+        }
+        for (let partition = from; partition <= to; partition++) {
+            partitions.add(partition);
+        }
+    }
+    return [...partitions].sort((a, b) => a - b);
+}
+
+/**
+ * Validate a range received from a webview
+ * @throws Error describing the first invalid field
+ */
+export function parseConsumeRange(raw: any): ConsumeRange {
+    const start = raw?.start;
+    const end = raw?.end;
+    if (!START_TYPES.includes(start?.type)) {
+        throw new Error(`Unknown start position: ${start?.type}`);
+    }
+    if (!END_TYPES.includes(end?.type)) {
+        throw new Error(`Unknown end position: ${end?.type}`);
+    }
+
+    const partitions = typeof raw.partitions === 'string'
+        ? parsePartitionList(raw.partitions)
+        : Array.isArray(raw.partitions) ? raw.partitions.map(Number) : undefined;
+    if (partitions?.some((p: number) => !Number.isInteger(p) || p < 0)) {
+        throw new Error('Partitions must be non-negative integers');
+    }
+
+    return {
+        start: parseBound(start, 'Start') as ConsumeStart,
+        end: parseBound(end, 'End') as ConsumeEnd,
+        partitions
+    };
+}
+
+function parseBound(bound: any, label: string): ConsumeStart | ConsumeEnd {
+    if (bound.type === 'offset') {
+        const offset = String(bound.offset ?? '').trim();
+        if (!/^\d+$/.test(offset)) {
+            throw new Error(`${label} offset must be a non-negative number`);
+        }
+        return { type: 'offset', offset };
+    }
+    if (bound.type === 'timestamp') {
+        const timestamp = bound.timestamp;
+        if (typeof timestamp !== 'number' || !Number.isFinite(timestamp) || timestamp < 0) {
+            throw new Error(`${label} timestamp must be a valid date`);
+        }
+        return { type: 'timestamp', timestamp };
+    }
+    return { type: bound.type };
+}
+
+/**
+ * Turn a range into start and end offsets per partition, against the partitions' current log start and end
+ * Start offsets are clamped to the log; an end offset is inclusive, a timestamp end stops before the
+ * first message at or after it, and ends never go past the high watermark so the session finishes
+ */
+export async function resolveConsumeRange(admin: Admin, topic: string, range: ConsumeRange): Promise<PartitionRange[]> {
+    const watermarks = await admin.fetchTopicOffsets(topic);
+    if (watermarks.length === 0) {
+        throw new Error(`Topic "${topic}" not found or has no partitions`);
+    }
+
+    const known = new Set(watermarks.map(w => w.partition));
+    const missing = (range.partitions ?? []).filter(p => !known.has(p));
+    if (missing.length > 0) {
+        throw new Error(`Topic "${topic}" has no partition ${missing.join(', ')}`);
+    }
+    const selected = range.partitions?.length ? new Set(range.partitions) : known;
+
+    const byTimestamp = async (timestamp: number) =>
+        new Map((await admin.fetchTopicOffsetsByTimestamp(topic, timestamp)).map(o => [o.partition, o.offset]));
+    const startTimes = range.start.type === 'timestamp' ? await byTimestamp(range.start.timestamp) : undefined;
+    const endTimes = range.end.type === 'timestamp' ? await byTimestamp(range.end.timestamp) : undefined;
+
+    return watermarks
+        .filter(w => selected.has(w.partition))
+        .sort((a, b) => a.partition - b.partition)
+        .map(({ partition, low, high }) => {
+            const lowOffset = BigInt(low);
+            const highOffset = BigInt(high);
+            const clamp = (offset: bigint) => (offset < lowOffset ? lowOffset : offset > highOffset ? highOffset : offset);
+            // fetchTopicOffsetsByTimestamp answers -1 when no message is that recent
+            const atTime = (offsets: Map<number, string>) => {
+                const offset = BigInt(offsets.get(partition) ?? '-1');
+                return offset < 0n ? highOffset : clamp(offset);
+            };
+
+            let start: bigint;
+            switch (range.start.type) {
+                case 'earliest': start = lowOffset; break;
+                case 'latest': start = highOffset; break;
+                case 'offset': start = clamp(BigInt(range.start.offset)); break;
+                case 'timestamp': start = atTime(startTimes!); break;
+            }
+
+            let end: bigint | undefined;
+            switch (range.end.type) {
+                case 'none': end = undefined; break;
+                case 'highWatermark': end = highOffset; break;
+                case 'offset': end = clamp(BigInt(range.end.offset) + 1n); break;
+                case 'timestamp': end = atTime(endTimes!); break;
+            }
+
+            return {
+                partition,
+                startOffset: start.toString(),
+                endOffset: end === undefined ? undefined : (end < start ? start : end).toString()
+            };
+        });
+}
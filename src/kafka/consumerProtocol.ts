@@ -0,0 +1,84 @@
+import { AssignerProtocol } from 'kafkajs';
+
+/**
+ * Partitions of one topic
+ */
+export interface TopicPartitions {
+    topic: string;
+    partitions: number[];
+}
+
+/**
+ * A group member with its consumer protocol metadata decoded
+ */
+export interface DecodedGroupMember {
+    memberId: string;
+    clientId: string;
+    clientHost: string;
+    /** Topics the member subscribed to */
+    subscribedTopics: string[];
+    /** Partitions the leader assigned to the member; empty while the group rebalances */
+    assignment: TopicPartitions[];
+    /** Set when the metadata is not in the consumer protocol format, e.g. Kafka Connect workers */
+    decodeError?: string;
+}
+
+/**
+ * Decode a member assignment in the consumer protocol format (versions 0-3 share the layout kafkajs reads)
+ */
+export function decodeMemberAssignment(buffer: Buffer | null | undefined): TopicPartitions[] {
+    if (!buffer || buffer.length === 0) {
+        return [];
+    }
+
+    const decoded = AssignerProtocol.MemberAssignment.decode(buffer);
+    if (!decoded) {
+        return [];
+    }
+
+    return Object.entries(decoded.assignment)
+        .map(([topic, partitions]) => ({ topic, partitions: [...partitions].sort((a, b) => a - b) }))
+        .sort((a, b) => a.topic.localeCompare(b.topic));
+}
+
+/**
+ * Decode the topics of a member subscription in the consumer protocol format
+ */
+export function decodeMemberSubscription(buffer: Buffer | null | undefined): string[] {
+    if (!buffer || buffer.length === 0) {
+        return [];
+    }
+    return [...AssignerProtocol.MemberMetadata.decode(buffer)!.topics].sort();
+}
+
+/**
+ * Decode the members of a described group
+ * Only groups with the "consumer" protocol type carry this format
+ */
+export function decodeGroupMembers(
+    protocolType: string,
+    members: Array<{ memberId: string; clientId: string; clientHost: string; memberMetadata?: Buffer; memberAssignment?: Buffer }>
+): DecodedGroupMember[] {
+    return members.map(member => {
+        const decoded: DecodedGroupMember = {
+            memberId: member.memberId,
+            clientId: member.clientId,
+            clientHost: member.clientHost,
+            subscribedTopics: [],
+            assignment: []
+        };
+
+        if (protocolType !== 'consumer') {
+            decoded.decodeError = `Assignments of "${protocolType || 'unknown'}" groups are not in the consumer protocol format`;
+            return decoded;
+        }
+
+        try {
+            decoded.subscribedTopics = decodeMemberSubscription(member.memberMetadata);
+            decoded.assignment = decodeMemberAssignment(member.memberAssignment);
+        } catch (error: any) {
+            decoded.decodeError = `Could not decode member metadata: ${error?.message || 'Unknown error'}`;
+        }
+        return decoded;
+    });
+}
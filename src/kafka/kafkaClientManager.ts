@@ -8,7 +8,9 @@ import {
     AclResourceTypes,
     AclOperationTypes,
     AclPermissionTypes,
-    ResourcePatternTypes
+    ResourcePatternTypes,
+    ConfigEntries,
+    ConfigResourceTypes
 } from 'kafkajs';
 import * as vscode from 'vscode';
 import { promises as fs } from 'fs';
@@ -20,17 +22,42 @@ import { CredentialManager } from '../infrastructure/CredentialManager';
 import { ConfigurationService } from '../infrastructure/ConfigurationService';
 import { MSKAdapter } from './adapters/MSKAdapter';
 import { TopicService } from '../services/TopicService';
-import { ConsumerGroupService } from '../services/ConsumerGroupService';
+import {
+    ConsumerGroupService,
+    OffsetResetPlanEntry,
+    OffsetResetStrategy,
+    OffsetResetTarget,
+    parseOffsetResetTarget
+} from '../services/ConsumerGroupService';
+import { ConsumerGroupOffsetSnapshot } from '../services/OffsetSnapshotService';
 import { BrokerService } from '../services/BrokerService';
 import { ProducerService } from '../services/ProducerService';
 import { ACL, ACLDetails, ACLConfig } from '../types/acl';
 import { ACLTypeMapper } from '../utils/aclTypeMapper';
 import { KafkaErrorClassifier } from '../utils/kafkaErrorClassifier';
 import { AuditLog, AuditOperation } from '../infrastructure/AuditLog';
+import { CompressionName, getBatchCompression, registerCompressionCodecs, toCompressionType } from './compressionCodecs';
+import { decodeGroupMembers } from './consumerProtocol';
+import { AssignedMessagePayload, AssignedPartitionReader, AssignedReaderRunOptions } from './assignedPartitionReader';
+import { ConsumeRange, PartitionRange, resolveConsumeRange } from './consumeRange';
+import { EXTENSION_GROUP_ID_PATTERN, ExtensionConsumerGroupRegistry } from '../services/ExtensionConsumerGroupRegistry';
 
 // Type alias for cluster configuration
 type ClusterConfig = ClusterConnection;
 
+/**
+ * How the extension reads topics: by manual partition assignment, or by joining a throwaway consumer group
+ */
+export type ConsumerReadMode = 'assign' | 'group';
+
+/**
+ * Outcome of deleting consumer groups the extension created
+ */
+export interface ExtensionGroupCleanupResult {
+    deleted: string[];
+    failed: Array<{ groupId: string; error: string }>;
+}
+
 export class KafkaClientManager {
     private logger = Logger.getLogger('KafkaClientManager');
     private clusters: Map<string, ClusterConfig> = new Map();
@@ -52,7 +79,10 @@ export class KafkaClientManager {
     private brokerService: BrokerService;
     private producerService: ProducerService;
 
-    constructor(private credentialManager?: CredentialManager) {
+    constructor(
+        private credentialManager?: CredentialManager,
+        private consumerGroupRegistry?: ExtensionConsumerGroupRegistry
+    ) {
         this.logger.info('Initializing Kafka Client Manager');
         this.connectionPool = new ConnectionPool();
         this.configurationService = new ConfigurationService();
@@ -63,6 +93,9 @@ export class KafkaClientManager {
         this.consumerGroupService = new ConsumerGroupService();
         this.brokerService = new BrokerService();
         this.producerService = new ProducerService();
+
+        // kafkajs only decodes GZIP batches out of the box
+        registerCompressionCodecs();
     }
 
     async addCluster(name: string, brokers: string[], sasl?: any) {
@@ -93,6 +126,14 @@ export class KafkaClientManager {
                 await this.credentialManager.storePassword(connection.name, 'ssl', connection.sslPassword);
                 this.logger.debug(`Stored SSL password for ${connection.name}`);
             }
+            if (connection.schemaRegistryApiKey && connection.schemaRegistryApiSecret) {
+                await this.credentialManager.storeSchemaRegistryCredentials(
+                    connection.name,
+                    connection.schemaRegistryApiKey,
+                    connection.schemaRegistryApiSecret
+                );
+                this.logger.debug(`Stored Schema Registry credentials for ${connection.name}`);
+            }
         }
 
         this.clusters.set(connection.name, connection);
@@ -457,10 +498,32 @@ export class KafkaClientManager {
         clusterName: string,
         topic: string,
         numPartitions: number,
-        replicationFactor: number
+        replicationFactor: number,
+        configEntries?: Array<{ name: string; value: string }>
     ) {
         const admin = await this.getAdmin(clusterName);
-        return await this.topicService.createTopic(admin, topic, numPartitions, replicationFactor);
+        return await this.topicService.createTopic(admin, topic, numPartitions, replicationFactor, configEntries);
+    }
+
+    /**
+     * Configs of a topic with their sources, without the synonyms
+     */
+    async getTopicConfigEntries(clusterName: string, topic: string): Promise<ConfigEntries[]> {
+        const admin = await this.getAdmin(clusterName);
+        const configs = await admin.describeConfigs({
+            resources: [{ type: ConfigResourceTypes.TOPIC, name: topic }],
+            includeSynonyms: false
+        });
+        return configs.resources[0]?.configEntries || [];
+    }
+
+    /**
+     * High watermark of each partition of a topic
+     */
+    async getTopicEndOffsets(clusterName: string, topic: string): Promise<Map<number, string>> {
+        const admin = await this.getAdmin(clusterName);
+        const offsets = await admin.fetchTopicOffsets(topic);
+        return new Map(offsets.map(({ partition, high }) => [partition, String(high)]));
     }
 
     async deleteTopic(clusterName: string, topic: string) {
@@ -486,12 +549,12 @@ export class KafkaClientManager {
         topic: string,
         messages: Array<{
             key?: string | Buffer;
-            value: string | Buffer;
+            value: string | Buffer | null;
             partition?: number;
-            headers?: Record<string, string | Buffer>;
+            headers?: Record<string, string | Buffer | Array<string | Buffer>>;
             timestamp?: string;
         }>,
-        compression?: 'gzip' | 'none'
+        compression?: CompressionName
     ) {
         const producer = await this.getProducer(clusterName);
 
@@ -510,8 +573,9 @@ export class KafkaClientManager {
             };
 
             // Add compression if specified (Sprint 3: 1.1.1)
-            if (compression === 'gzip') {
-                sendOptions.compression = 1; // CompressionTypes.GZIP
+            const compressionType = toCompressionType(compression);
+            if (compressionType !== undefined) {
+                sendOptions.compression = compressionType;
             }
 
             await producer.send(sendOptions);
@@ -536,9 +600,13 @@ export class KafkaClientManager {
             throw new Error(`Cluster ${clusterName} not found`);
         }
 
-        const consumer = kafka.consumer({
-            groupId: `vscode-kafka-consumer-${Date.now()}`
-        });
+        if (this.getConsumerReadMode() === 'assign') {
+            return await this.consumeAssigned(kafka, topic, { fromBeginning }, { limit, timeout: 30000, cancellationToken, onMessage });
+        }
+
+        const groupId = `vscode-kafka-consumer-${Date.now()}`;
+        await this.consumerGroupRegistry?.register(clusterName, groupId);
+        const consumer = kafka.consumer({ groupId });
 
         try {
             await consumer.connect();
@@ -568,7 +636,7 @@ export class KafkaClientManager {
 
                 consumer.run({
                     eachMessage: async ({ topic, partition, message }) => {
-                        const msg = { topic, partition, ...message };
+                        const msg = { topic, partition, ...message, compression: getBatchCompression(message) };
                         messages.push(msg);
 
                         // Call the callback for real-time streaming
@@ -603,6 +671,174 @@ export class KafkaClientManager {
         }
     }
 
+    /**
+     * Read a range of each selected partition without a consumer group
+     * Stops once every partition reaches its end, or on the limit or cancellation; a range without an end
+     * stops after `timeout` (30 seconds by default) instead
+     */
+    async consumeRange(
+        clusterName: string,
+        topic: string,
+        range: ConsumeRange,
+        options: {
+            limit?: number;
+            timeout?: number;
+            cancellationToken?: vscode.CancellationToken;
+            onMessage?: (message: any, count: number) => void;
+            onProgress?: (partition: number, position: string) => void;
+        } = {}
+    ): Promise<any[]> {
+        const kafka = this.kafkaInstances.get(clusterName);
+        if (!kafka) {
+            throw new Error(`Cluster ${clusterName} not found`);
+        }
+
+        const ranges = await this.resolveConsumeRange(clusterName, topic, range);
+        return await this.consumeAssigned(kafka, topic, { ranges, onProgress: options.onProgress }, {
+            ...options,
+            timeout: options.timeout ?? (range.end.type === 'none' ? 30000 : undefined)
+        });
+    }
+
+    /**
+     * Start and end offsets of each selected partition for a bounded read
+     */
+    async resolveConsumeRange(clusterName: string, topic: string, range: ConsumeRange): Promise<PartitionRange[]> {
+        const admin = await this.getAdmin(clusterName);
+        return await resolveConsumeRange(admin, topic, range);
+    }
+
+    /**
+     * Hand each message of the partition ranges to a handler without collecting them, reading without a
+     * consumer group; the handler is awaited, so a slow handler slows the reads down
+     * Resolves once every partition reaches its end, the handler returns true or on cancellation
+     * @returns Whether reading was cancelled
+     */
+    async readRanges(
+        clusterName: string,
+        topic: string,
+        ranges: PartitionRange[],
+        eachMessage: (payload: AssignedMessagePayload) => Promise<boolean | void>,
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<{ cancelled: boolean }> {
+        const reader = this.createAssignedReader(clusterName, topic);
+
+        return await new Promise((resolve, reject) => {
+            let finished = false;
+            // Not awaited from eachMessage: disconnecting waits for the message handler to return
+            const finish = async (error?: Error) => {
+                if (finished) {
+                    return;
+                }
+                finished = true;
+                try {
+                    await reader.disconnect();
+                } catch (err) {
+                    this.logger.warn(`Error disconnecting reader of ${topic}`, err);
+                }
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve({ cancelled: cancellationToken?.isCancellationRequested ?? false });
+                }
+            };
+
+            cancellationToken?.onCancellationRequested(() => finish());
+
+            reader.run({
+                ranges,
+                eachMessage: async payload => {
+                    if (!finished && await eachMessage(payload)) {
+                        finish();
+                    }
+                },
+                onEnd: () => finish(),
+                onError: error => finish(error)
+            }).catch(error => finish(error));
+        });
+    }
+
+    /**
+     * Collect messages read without a consumer group until the reader ends, the limit, cancellation or the timeout
+     */
+    private async consumeAssigned(
+        kafka: Kafka,
+        topic: string,
+        start: Pick<AssignedReaderRunOptions, 'fromBeginning' | 'ranges' | 'onProgress'>,
+        options: {
+            limit?: number;
+            timeout?: number;
+            cancellationToken?: vscode.CancellationToken;
+            onMessage?: (message: any, count: number) => void;
+        }
+    ): Promise<any[]> {
+        const { limit = Infinity, cancellationToken, onMessage } = options;
+        const reader = new AssignedPartitionReader(kafka, topic);
+        const messages: any[] = [];
+
+        return await new Promise((resolve, reject) => {
+            let finished = false;
+            // Not awaited from eachMessage: disconnecting waits for the message handler to return
+            const finish = async (error?: Error) => {
+                if (finished) {
+                    return;
+                }
+                finished = true;
+                clearTimeout(timeout);
+                try {
+                    await reader.disconnect();
+                } catch (err) {
+                    console.error('Error disconnecting reader:', err);
+                }
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(messages);
+                }
+            };
+
+            const timeout = options.timeout !== undefined ? setTimeout(() => finish(), options.timeout) : undefined;
+            cancellationToken?.onCancellationRequested(() => finish());
+
+            reader.run({
+                ...start,
+                eachMessage: async ({ topic, partition, message }) => {
+                    if (finished) {
+                        return;
+                    }
+                    const msg = { topic, partition, ...message, compression: getBatchCompression(message) };
+                    messages.push(msg);
+                    onMessage?.(msg, messages.length);
+
+                    if (messages.length >= limit) {
+                        finish();
+                    }
+                },
+                onEnd: () => finish(),
+                onError: error => finish(error)
+            }).catch(error => finish(error));
+        });
+    }
+
+    /**
+     * Read mode from `kafka.consumer.readMode`
+     */
+    getConsumerReadMode(): ConsumerReadMode {
+        const mode = vscode.workspace.getConfiguration('kafka.consumer').get<string>('readMode', 'assign');
+        return mode === 'group' ? 'group' : 'assign';
+    }
+
+    /**
+     * Reader for every partition of a topic that joins no consumer group and commits nothing
+     */
+    createAssignedReader(clusterName: string, topic: string): AssignedPartitionReader {
+        const kafka = this.kafkaInstances.get(clusterName);
+        if (!kafka) {
+            throw new Error(`Cluster ${clusterName} not found`);
+        }
+        return new AssignedPartitionReader(kafka, topic);
+    }
+
     async getConsumerGroups(clusterName: string): Promise<any[]> {
         const admin = await this.getAdmin(clusterName);
         return await this.consumerGroupService.getConsumerGroups(admin);
@@ -613,78 +849,161 @@ export class KafkaClientManager {
         return await this.consumerGroupService.deleteConsumerGroup(admin, groupId);
     }
 
-    async resetConsumerGroupOffsets(
+    /**
+     * Preview an offset reset per partition without committing anything
+     * @param topic Topic to reset, or undefined for every topic the group has committed offsets for
+     */
+    async previewConsumerGroupOffsetReset(
         clusterName: string,
         groupId: string,
-        topic?: string,
-        resetTo: string = 'beginning',
-        specificOffset?: string
-    ) {
+        topic: string | undefined,
+        resetTo: OffsetResetStrategy,
+        argument?: string
+    ): Promise<OffsetResetPlanEntry[]> {
+        const target = parseOffsetResetTarget(resetTo, argument);
+
         const admin = await this.getAdmin(clusterName);
+        const topics = await this.getResetTopics(admin, groupId, topic, target);
+        return this.consumerGroupService.planOffsetReset(admin, groupId, topics, target);
+    }
 
-        // Validate specific offset before any network calls
-        if (resetTo === 'specific offset') {
-            const offsetNum = parseInt(specificOffset ?? '', 10);
-            if (!specificOffset || isNaN(offsetNum) || offsetNum < 0) {
-                throw new Error(`Invalid offset value: "${specificOffset}". Must be a non-negative integer.`);
-            }
-        }
+    /**
+     * Commit the offsets of a reviewed reset plan
+     */
+    async applyConsumerGroupOffsetReset(
+        clusterName: string,
+        groupId: string,
+        entries: Array<Pick<OffsetResetPlanEntry, 'topic' | 'partition' | 'proposedOffset'>>
+    ): Promise<void> {
+        const admin = await this.getAdmin(clusterName);
+        const startTime = Date.now();
+        const topics = [...new Set(entries.map(entry => entry.topic))];
 
-        // Get topics for the consumer group if not specified
-        let topics: string[] = [];
-        if (topic) {
-            topics = [topic];
-        } else {
-            const offsets = await admin.fetchOffsets({ groupId });
-            const validTopics = offsets.map((o: any) => o.topic).filter(Boolean);
-            const dropped = offsets.length - validTopics.length;
-            if (dropped > 0) {
-                this.logger.warn(`resetConsumerGroupOffsets: dropped ${dropped} offset entries with undefined topic for group "${groupId}"`);
-            }
-            topics = [...new Set(validTopics)];
+        try {
+            await this.consumerGroupService.applyOffsetReset(admin, groupId, entries);
+            AuditLog.success(
+                AuditOperation.CONSUMER_GROUP_OFFSETS_RESET,
+                clusterName,
+                groupId,
+                { topics, partitionCount: entries.length },
+                Date.now() - startTime
+            );
+        } catch (error: any) {
+            AuditLog.failure(
+                AuditOperation.CONSUMER_GROUP_OFFSETS_RESET,
+                clusterName,
+                groupId,
+                error?.message || 'Unknown error',
+                { topics, partitionCount: entries.length },
+                Date.now() - startTime
+            );
+            throw error;
         }
+    }
 
-        if (topics.length === 0) {
-            throw new Error(`Consumer group "${groupId}" has no committed topic offsets to reset`);
+    /**
+     * Capture a consumer group's committed offsets
+     */
+    async snapshotConsumerGroupOffsets(clusterName: string, groupId: string): Promise<ConsumerGroupOffsetSnapshot> {
+        const admin = await this.getAdmin(clusterName);
+        const startTime = Date.now();
+
+        try {
+            const snapshot = await this.consumerGroupService.snapshotOffsets(admin, clusterName, groupId);
+            AuditLog.success(
+                AuditOperation.CONSUMER_GROUP_OFFSETS_SNAPSHOT,
+                clusterName,
+                groupId,
+                { partitionCount: snapshot.offsets.length },
+                Date.now() - startTime
+            );
+            return snapshot;
+        } catch (error: any) {
+            AuditLog.failure(
+                AuditOperation.CONSUMER_GROUP_OFFSETS_SNAPSHOT,
+                clusterName,
+                groupId,
+                error?.message || 'Unknown error',
+                undefined,
+                Date.now() - startTime
+            );
+            throw error;
         }
+    }
 
-        // Build reset spec for each topic
-        const resetSpec: any = {
-            groupId,
-            topics: []
+    /**
+     * Commit the offsets of a snapshot to a consumer group, which may differ from the group the snapshot was taken of
+     */
+    async restoreConsumerGroupOffsets(
+        clusterName: string,
+        groupId: string,
+        snapshot: ConsumerGroupOffsetSnapshot
+    ): Promise<void> {
+        const admin = await this.getAdmin(clusterName);
+        const startTime = Date.now();
+        const metadata = {
+            sourceCluster: snapshot.clusterName,
+            sourceGroup: snapshot.groupId,
+            snapshotCreatedAt: snapshot.createdAt,
+            partitionCount: snapshot.offsets.length
         };
 
-        for (const topicName of topics) {
-            const topicOffsets = await admin.fetchTopicOffsets(topicName);
-            const partitions = topicOffsets.map((p: any) => {
-                if (p.low === undefined || p.low === null || p.high === undefined || p.high === null) {
-                    throw new Error(`Missing offset bounds for partition ${p.partition} on topic "${topicName}"`);
-                }
+        try {
+            await this.consumerGroupService.applyOffsetReset(
+                admin,
+                groupId,
+                snapshot.offsets.map(({ topic, partition, offset }) => ({ topic, partition, proposedOffset: offset }))
+            );
+            AuditLog.success(
+                AuditOperation.CONSUMER_GROUP_OFFSETS_RESTORED,
+                clusterName,
+                groupId,
+                metadata,
+                Date.now() - startTime
+            );
+        } catch (error: any) {
+            AuditLog.failure(
+                AuditOperation.CONSUMER_GROUP_OFFSETS_RESTORED,
+                clusterName,
+                groupId,
+                error?.message || 'Unknown error',
+                metadata,
+                Date.now() - startTime
+            );
+            throw error;
+        }
+    }
 
-                let offset: string;
-                if (resetTo === 'beginning') {
-                    offset = p.low;
-                } else if (resetTo === 'end') {
-                    offset = p.high;
-                } else if (resetTo === 'specific offset' && specificOffset) {
-                    offset = specificOffset;
-                } else {
-                    offset = p.low; // default to beginning
-                }
+    /**
+     * Topics an offset reset applies to: the given topic, the topics of an offsets file,
+     * or every topic the group has committed offsets for
+     */
+    private async getResetTopics(admin: Admin, groupId: string, topic: string | undefined, target: OffsetResetTarget): Promise<string[]> {
+        // An offsets file names its own topics; a topic given alongside it narrows the file down
+        if (target.partitionOffsets) {
+            target.partitionOffsets = target.partitionOffsets.filter(row => !topic || row.topic === topic);
+            if (target.partitionOffsets.length === 0) {
+                throw new Error(`The offsets file has no rows for topic "${topic}"`);
+            }
+            return [...new Set(target.partitionOffsets.map(row => row.topic))];
+        }
 
-                return {
-                    partition: p.partition,
-                    offset
-                };
-            });
+        if (topic) {
+            return [topic];
+        }
 
-            resetSpec.topics.push({
-                topic: topicName,
-                partitions
-            });
+        const offsets = await admin.fetchOffsets({ groupId });
+        const validTopics = offsets.map((o: any) => o.topic).filter(Boolean);
+        const dropped = offsets.length - validTopics.length;
+        if (dropped > 0) {
+            this.logger.warn(`Offset reset: dropped ${dropped} offset entries with undefined topic for group "${groupId}"`);
         }
 
-        await admin.resetOffsets(resetSpec);
+        const topics: string[] = [...new Set<string>(validTopics)];
+        if (topics.length === 0) {
+            throw new Error(`Consumer group "${groupId}" has no committed topic offsets to reset`);
+        }
+        return topics;
     }
 
     async getConsumerGroupDetails(clusterName: string, groupId: string): Promise<any> {
@@ -770,11 +1089,9 @@ export class KafkaClientManager {
                 state: group.state,
                 protocolType: group.protocolType,
                 protocol: group.protocol,
-                members: group.members.map((member: any) => ({
-                    memberId: member.memberId,
-                    clientId: member.clientId,
-                    clientHost: member.clientHost,
-                    assignments: member.memberAssignment
+                members: decodeGroupMembers(group.protocolType, group.members).map((member, index) => ({
+                    ...member,
+                    assignments: group.members[index].memberAssignment
                 })),
                 offsets: lagInfo,
                 totalLag: lagInfo.reduce((sum, info) => sum + info.lag, 0)
@@ -828,12 +1145,17 @@ export class KafkaClientManager {
         const cluster = await admin.describeCluster();
         const topics = await admin.listTopics();
 
-        // Calculate total partitions
+        // Calculate total, under-replicated (ISR smaller than the replica set) and offline (no leader) partitions
         let totalPartitions = 0;
+        let underReplicatedPartitions = 0;
+        let offlinePartitions = 0;
         for (const topic of topics) {
             try {
                 const metadata = await admin.fetchTopicMetadata({ topics: [topic] });
-                totalPartitions += metadata.topics[0]?.partitions?.length || 0;
+                const partitions = metadata.topics[0]?.partitions || [];
+                totalPartitions += partitions.length;
+                underReplicatedPartitions += partitions.filter(p => (p.isr?.length ?? 0) < (p.replicas?.length ?? 0)).length;
+                offlinePartitions += partitions.filter(p => p.leader < 0).length;
             } catch (_error) {
                 // Skip topics we can't access
                 continue;
@@ -845,7 +1167,9 @@ export class KafkaClientManager {
             controller: cluster.controller,
             brokerCount: cluster.brokers.length,
             topicCount: topics.length,
-            totalPartitions
+            totalPartitions,
+            underReplicatedPartitions,
+            offlinePartitions
         };
     }
 
@@ -1175,6 +1499,16 @@ export class KafkaClientManager {
         return this.getAdmin(clusterName);
     }
 
+    /**
+     * Get the pooled producer for a cluster (public API)
+     * For callers that send at high rates and must not log every request, such as load tests
+     * @param clusterName The name of the cluster
+     * @returns Connected producer instance
+     */
+    public async getProducerClient(clusterName: string): Promise<Producer> {
+        return this.getProducer(clusterName);
+    }
+
     private async getProducer(clusterName: string): Promise<Producer> {
         const connection = this.clusters.get(clusterName);
         if (!connection) {
@@ -1251,9 +1585,13 @@ export class KafkaClientManager {
             const kafkaConfig = await this.buildKafkaConfig(connection, brokers);
             const kafka = new Kafka(kafkaConfig);
 
-            // Create consumer with unique group ID
+            // Create consumer with unique group ID, remembered so the group can be cleaned up
+            const consumerGroupId = groupId || `vscode-kafka-client-${Date.now()}`;
+            if (!groupId) {
+                await this.consumerGroupRegistry?.register(clusterName, consumerGroupId);
+            }
             const consumer = kafka.consumer({
-                groupId: groupId || `vscode-kafka-client-${Date.now()}`,
+                groupId: consumerGroupId,
                 // Use earliest to allow reading from beginning
                 sessionTimeout: 30000,
                 heartbeatInterval: 3000
@@ -1293,6 +1631,100 @@ export class KafkaClientManager {
         }
     }
 
+    /**
+     * Consumer groups the extension created on a cluster: the registered ones, plus empty groups
+     * with generated ids that earlier sessions left behind
+     */
+    async findExtensionConsumerGroups(clusterName: string): Promise<string[]> {
+        const admin = await this.getAdmin(clusterName);
+        const registered = new Set((this.consumerGroupRegistry?.list(clusterName) ?? []).map(g => g.groupId));
+        const { groups } = await admin.listGroups();
+        const existing = new Set(groups.map(g => g.groupId));
+
+        const candidates = groups.map(g => g.groupId).filter(id => EXTENSION_GROUP_ID_PATTERN.test(id) && !registered.has(id));
+        const leftovers = candidates.length > 0
+            ? (await admin.describeGroups(candidates)).groups.filter(g => g.state === 'Empty' || g.state === 'Dead').map(g => g.groupId)
+            : [];
+
+        // Registered groups that no longer exist need no deleting, only forgetting
+        const gone = [...registered].filter(id => !existing.has(id));
+        if (gone.length > 0) {
+            await this.consumerGroupRegistry?.unregister(clusterName, gone);
+        }
+
+        return [...[...registered].filter(id => existing.has(id)), ...leftovers];
+    }
+
+    /**
+     * Delete consumer groups the extension created; groups that cannot be deleted yet, e.g. because a
+     * consumer still uses them, stay registered for the next cleanup
+     */
+    async deleteExtensionConsumerGroups(clusterName: string, groupIds: string[]): Promise<ExtensionGroupCleanupResult> {
+        const result: ExtensionGroupCleanupResult = { deleted: [], failed: [] };
+        if (groupIds.length === 0) {
+            return result;
+        }
+
+        const admin = await this.getAdmin(clusterName);
+        try {
+            await admin.deleteGroups(groupIds);
+            result.deleted = [...groupIds];
+        } catch (error: any) {
+            if (!Array.isArray(error?.groups)) {
+                throw error;
+            }
+            // KafkaJSDeleteGroupsError lists the groups that failed; an unknown group is already gone
+            const failures = new Map<string, any>(error.groups.map((g: any) => [g.groupId, g.error]));
+            for (const groupId of groupIds) {
+                const failure = failures.get(groupId);
+                if (!failure || failure.type === 'GROUP_ID_NOT_FOUND') {
+                    result.deleted.push(groupId);
+                } else {
+                    result.failed.push({ groupId, error: failure.message || String(failure) });
+                }
+            }
+        }
+
+        await this.consumerGroupRegistry?.unregister(clusterName, result.deleted);
+        this.logger.info(`Deleted ${result.deleted.length} extension consumer group(s) on ${clusterName}`);
+        return result;
+    }
+
+    /**
+     * Disconnect cached consumers and delete the groups the extension registered on every cluster
+     * Called on deactivate when `kafka.consumer.cleanupGroupsOnExit` is set
+     */
+    async cleanupRegisteredConsumerGroups(): Promise<void> {
+        await this.disconnectAllConsumers();
+
+        const clusters = new Set((this.consumerGroupRegistry?.list() ?? []).map(g => g.clusterName));
+        for (const clusterName of clusters) {
+            if (!this.clusters.has(clusterName)) {
+                continue;
+            }
+            const groupIds = this.consumerGroupRegistry!.list(clusterName).map(g => g.groupId);
+            try {
+                const { failed } = await this.deleteExtensionConsumerGroups(clusterName, groupIds);
+                for (const { groupId, error } of failed) {
+                    this.logger.warn(`Could not delete consumer group ${groupId} on ${clusterName}: ${error}`);
+                }
+            } catch (error) {
+                this.logger.warn(`Could not clean up consumer groups on ${clusterName}`, error);
+            }
+        }
+    }
+
+    private async disconnectAllConsumers(): Promise<void> {
+        for (const [key, consumer] of this.consumers.entries()) {
+            try {
+                await consumer.disconnect();
+            } catch (error) {
+                this.logger.error(`Failed to disconnect consumer ${key}`, error);
+            }
+        }
+        this.consumers.clear();
+    }
+
     private saveConfiguration() {
         const clusters = Array.from(this.clusters.values());
         this.configurationService.save(clusters);
@@ -1337,7 +1769,13 @@ export class KafkaClientManager {
                         sslCaFile: cluster.sslCaFile,
                         sslCertFile: cluster.sslCertFile,
                         sslKeyFile: cluster.sslKeyFile,
-                        rejectUnauthorized: cluster.rejectUnauthorized
+                        rejectUnauthorized: cluster.rejectUnauthorized,
+
+                        // Schema Registry fields (credentials are read from SecretStorage)
+                        schemaRegistryType: cluster.schemaRegistryType,
+                        schemaRegistryUrl: cluster.schemaRegistryUrl,
+                        glueRegistryName: cluster.glueRegistryName,
+                        glueRegion: cluster.glueRegion
                     };
 
                     // Use the same method as adding a new cluster to ensure consistency
@@ -1455,6 +1893,8 @@ export class KafkaClientManager {
         }
         this.producers.clear();
 
+        await this.disconnectAllConsumers();
+
         // Clear other maps
         this.kafkaInstances.clear();
         this.clusters.clear();
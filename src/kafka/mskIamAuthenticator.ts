@@ -171,8 +171,9 @@ export class MSKIAMAuthenticator {
      * Get AWS credentials from multiple sources
      * If assumeRoleArn is set, this will assume the role using base profile credentials
      * This is necessary for Kafka admin operations (topics/consumer groups)
+     * and for AWS API calls made on the cluster's behalf (e.g. Glue Schema Registry)
      */
-    private async getAWSCredentials(): Promise<{
+    async getAWSCredentials(): Promise<{
         accessKeyId: string;
         secretAccessKey: string;
         sessionToken?: string;
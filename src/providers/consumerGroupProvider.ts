@@ -2,9 +2,11 @@ import * as vscode from 'vscode';
 import { KafkaClientManager } from '../kafka/kafkaClientManager';
 import { BaseProvider } from './BaseProvider';
 import { ConsumerGroupsWebview } from '../views/ConsumerGroupsWebview';
+import { LagHistoryStore } from '../services/LagHistoryStore';
+import { consumerGroupUri } from './lagAlertDecorationProvider';
 
 export class ConsumerGroupProvider extends BaseProvider<ConsumerGroupTreeItem> {
-    constructor(clientManager: KafkaClientManager) {
+    constructor(clientManager: KafkaClientManager, private lagHistory?: LagHistoryStore) {
         super(clientManager, 'ConsumerGroupProvider');
     }
 
@@ -56,7 +58,7 @@ export class ConsumerGroupProvider extends BaseProvider<ConsumerGroupTreeItem> {
                     if (groups.length > largeListThreshold) {
                         // Show webview for large lists
                         const webview = ConsumerGroupsWebview.getInstance();
-                        await webview.show(el!.clusterName, groups);
+                        await webview.show(el!.clusterName, groups, this.lagHistory);
 
                         // Return a "View All" item in the tree
                         return [
@@ -135,6 +137,10 @@ export class ConsumerGroupTreeItem extends vscode.TreeItem {
 
         // Add click command for consumer groups
         if (this.contextValue === 'consumerGroup') {
+            // Lets LagAlertDecorationProvider badge lagging or stuck groups
+            if (groupId) {
+                this.resourceUri = consumerGroupUri(clusterName, groupId);
+            }
             this.command = {
                 command: 'kafka.showConsumerGroupDetails',
                 title: 'Show Consumer Group Details',
@@ -0,0 +1,483 @@
+import * as vscode from 'vscode';
+import { KafkaClientManager } from '../kafka/kafkaClientManager';
+import { SchemaRegistryProvider } from './schemaRegistryProvider';
+import { formatSchema } from './schemaDocumentProvider';
+import { SchemaType } from '../services/SchemaRegistryService';
+import { ConfigEntry, ConfigurationEditorService } from '../services/ConfigurationEditorService';
+import { AuditLog, AuditOperation } from '../infrastructure/AuditLog';
+import { Logger } from '../infrastructure/Logger';
+
+/**
+ * A location in the kafka: file system
+ * Leaf names may carry an extension (`1200.json`, `config.properties`, `3.avsc.json`) for syntax highlighting
+ */
+export type KafkaPath = { clusterName: string } & (
+    | { kind: 'root' }
+    | { kind: 'topics' }
+    | { kind: 'topic'; topic: string }
+    | { kind: 'config'; topic: string }
+    | { kind: 'partitions'; topic: string }
+    | { kind: 'partition'; topic: string; partition: number }
+    | { kind: 'offsets'; topic: string; partition: number }
+    | { kind: 'message'; topic: string; partition: number; offset: string }
+    | { kind: 'schemas' }
+    | { kind: 'subject'; subject: string }
+    | { kind: 'schema'; subject: string; version: number }
+);
+
+/**
+ * A message read for a document, as delivered by kafkajs
+ */
+export interface DocumentMessage {
+    topic: string;
+    partition: number;
+    offset: string;
+    timestamp: string;
+    key: Buffer | null;
+    value: Buffer | null;
+    headers?: Record<string, unknown>;
+}
+
+/** ConfigSource.TOPIC_CONFIG: set on the topic rather than inherited from the broker */
+const TOPIC_CONFIG_SOURCE = 1;
+/** Offsets listed per partition, counting back from the high watermark */
+const LISTED_OFFSETS = 50;
+const CACHE_TTL_MS = 5000;
+
+const DIRECTORY_KINDS = ['root', 'topics', 'topic', 'partitions', 'partition', 'offsets', 'schemas', 'subject'];
+
+/**
+ * Serves topics, messages, topic configs and schemas as files, e.g.
+ * kafka://cluster/topics/orders/partitions/3/offsets/1200, kafka://cluster/topics/orders/config or
+ * kafka://cluster/schemas/orders-value/3
+ *
+ * Everything is read-only except topic configs: saving a config document applies it to the topic
+ * after a confirmation.
+ */
+export class KafkaFileSystemProvider implements vscode.FileSystemProvider {
+    static readonly scheme = 'kafka';
+
+    private logger = Logger.getLogger('KafkaFileSystemProvider');
+    private configService = new ConfigurationEditorService();
+    private changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    private cache = new Map<string, { content: Uint8Array; expires: number }>();
+    private mtimes = new Map<string, number>();
+
+    readonly onDidChangeFile = this.changeEmitter.event;
+
+    constructor(
+        private clientManager: KafkaClientManager,
+        private schemaRegistryProvider: SchemaRegistryProvider
+    ) {}
+
+    static topicConfigUri(clusterName: string, topic: string): vscode.Uri {
+        return KafkaFileSystemProvider.buildUri(clusterName, 'topics', topic, 'config.properties');
+    }
+
+    static messageUri(clusterName: string, topic: string, partition: number, offset: string): vscode.Uri {
+        return KafkaFileSystemProvider.buildUri(clusterName, 'topics', topic, 'partitions', String(partition), 'offsets', `${offset}.json`);
+    }
+
+    static schemaUri(clusterName: string, subject: string, version: number, schemaType?: SchemaType): vscode.Uri {
+        return KafkaFileSystemProvider.buildUri(clusterName, 'schemas', subject, `${version}.${schemaExtension(schemaType)}`);
+    }
+
+    static clusterUri(clusterName: string): vscode.Uri {
+        return KafkaFileSystemProvider.buildUri(clusterName);
+    }
+
+    private static buildUri(clusterName: string, ...segments: string[]): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: KafkaFileSystemProvider.scheme,
+            authority: clusterName,
+            // Uri encodes the path itself; only characters that would change the path's structure are escaped
+            path: `/${segments.map(segment => segment.replace(/%/g, '%25').replace(/\//g, '%2F')).join('/')}`
+        });
+    }
+
+    /**
+     * Parse a kafka: URI into the location it names
+     * @returns undefined when the path does not name anything
+     */
+    static parseUri(uri: vscode.Uri): KafkaPath | undefined {
+        const clusterName = uri.authority;
+        if (!clusterName) {
+            return undefined;
+        }
+        let segments: string[];
+        try {
+            segments = uri.path.split('/').filter(segment => segment.length > 0).map(decodeURIComponent);
+        } catch {
+            return undefined;
+        }
+
+        const [area, name, child, partition, offsets, leaf] = segments;
+        if (segments.length === 0) {
+            return { clusterName, kind: 'root' };
+        }
+
+        if (area === 'topics') {
+            switch (segments.length) {
+                case 1: return { clusterName, kind: 'topics' };
+                case 2: return { clusterName, kind: 'topic', topic: name };
+                case 3:
+                    if (/^config(\.properties)?$/.test(child)) {
+                        return { clusterName, kind: 'config', topic: name };
+                    }
+                    return child === 'partitions' ? { clusterName, kind: 'partitions', topic: name } : undefined;
+            }
+            if (child !== 'partitions' || !/^\d+$/.test(partition)) {
+                return undefined;
+            }
+            const partitionId = Number(partition);
+            if (segments.length === 4) {
+                return { clusterName, kind: 'partition', topic: name, partition: partitionId };
+            }
+            if (offsets !== 'offsets') {
+                return undefined;
+            }
+            if (segments.length === 5) {
+                return { clusterName, kind: 'offsets', topic: name, partition: partitionId };
+            }
+            const match = /^(\d+)(\.json)?$/.exec(leaf);
+            return segments.length === 6 && match
+                ? { clusterName, kind: 'message', topic: name, partition: partitionId, offset: match[1] }
+                : undefined;
+        }
+
+        if (area === 'schemas') {
+            if (segments.length === 1) {
+                return { clusterName, kind: 'schemas' };
+            }
+            if (segments.length === 2) {
+                return { clusterName, kind: 'subject', subject: name };
+            }
+            const match = /^(\d+)(\..+)?$/.exec(child);
+            return segments.length === 3 && match
+                ? { clusterName, kind: 'schema', subject: name, version: Number(match[1]) }
+                : undefined;
+        }
+
+        return undefined;
+    }
+
+    watch(): vscode.Disposable {
+        // Changes made through this provider are announced on save; Kafka itself is not watched
+        return new vscode.Disposable(() => undefined);
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const path = this.resolve(uri);
+        if (DIRECTORY_KINDS.includes(path.kind)) {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0, permissions: vscode.FilePermission.Readonly };
+        }
+
+        const content = await this.readFile(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: 0,
+            mtime: this.mtimes.get(uri.toString()) ?? 0,
+            size: content.length,
+            permissions: path.kind === 'config' ? undefined : vscode.FilePermission.Readonly
+        };
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<Array<[string, vscode.FileType]>> {
+        const path = this.resolve(uri);
+        const { Directory, File } = vscode.FileType;
+        const directories = (names: Array<string | number>): Array<[string, vscode.FileType]> => names.map(n => [String(n), Directory]);
+
+        switch (path.kind) {
+            case 'root':
+                return this.schemaRegistryProvider.getService(path.clusterName)
+                    ? [['topics', Directory], ['schemas', Directory]]
+                    : [['topics', Directory]];
+            case 'topics':
+                return directories((await this.clientManager.getTopics(path.clusterName)).sort((a, b) => a.localeCompare(b)));
+            case 'topic':
+                return [['config.properties', File], ['partitions', Directory]];
+            case 'partitions': {
+                const metadata = await this.clientManager.getTopicMetadata(path.clusterName, path.topic);
+                return directories(metadata.partitions.map((p: any) => p.partitionId).sort((a: number, b: number) => a - b));
+            }
+            case 'partition':
+                return [['offsets', Directory]];
+            case 'offsets': {
+                const admin = await this.clientManager.getAdminClient(path.clusterName);
+                const offsets = await admin.fetchTopicOffsets(path.topic);
+                const watermarks = offsets.find(o => o.partition === path.partition);
+                if (!watermarks) {
+                    throw vscode.FileSystemError.FileNotFound(uri);
+                }
+                const high = BigInt(watermarks.high);
+                const low = BigInt(watermarks.low);
+                const first = high - BigInt(LISTED_OFFSETS) > low ? high - BigInt(LISTED_OFFSETS) : low;
+                const entries: Array<[string, vscode.FileType]> = [];
+                for (let offset = first; offset < high; offset++) {
+                    entries.push([`${offset}.json`, File]);
+                }
+                return entries;
+            }
+            case 'schemas':
+                return directories((await this.getSchemaService(path.clusterName).listSubjects()).sort((a, b) => a.localeCompare(b)));
+            case 'subject': {
+                const service = this.getSchemaService(path.clusterName);
+                const [versions, latest] = await Promise.all([service.getSchemaVersions(path.subject), service.getLatestSchema(path.subject)]);
+                return versions.map(version => [`${version}.${schemaExtension(latest.schemaType)}`, File]);
+            }
+            default:
+                throw vscode.FileSystemError.FileNotADirectory(uri);
+        }
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const key = uri.toString();
+        const cached = this.cache.get(key);
+        if (cached && cached.expires > Date.now()) {
+            return cached.content;
+        }
+
+        const content = Buffer.from(await this.readText(uri, this.resolve(uri)), 'utf8');
+        this.cache.set(key, { content, expires: Date.now() + CACHE_TTL_MS });
+        return content;
+    }
+
+    /**
+     * Apply a saved topic config document; every other file is read-only
+     */
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const path = this.resolve(uri);
+        if (path.kind !== 'config') {
+            throw vscode.FileSystemError.NoPermissions(uri);
+        }
+
+        const desired = parseConfigDocument(Buffer.from(content).toString('utf8'));
+        for (const { name, value } of desired) {
+            this.configService.validateConfigValue(name, value);
+        }
+
+        const admin = await this.clientManager.getAdminClient(path.clusterName);
+        const current = getConfigOverrides(await this.configService.getTopicConfig(admin, path.topic));
+        const changes = diffTopicConfigs(current, desired);
+        if (changes.length === 0) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Apply ${changes.length} config change${changes.length === 1 ? '' : 's'} to topic "${path.topic}" on ${path.clusterName}?`,
+            { modal: true, detail: changes.map(describeConfigChange).join('\n') },
+            'Apply'
+        );
+        if (confirm !== 'Apply') {
+            throw vscode.FileSystemError.NoPermissions('The config change was not applied');
+        }
+
+        // AlterConfigs replaces every override of the topic, so the whole document is sent
+        await this.configService.alterTopicConfig(admin, path.topic, desired);
+        AuditLog.success(AuditOperation.TOPIC_CONFIG_UPDATED, path.clusterName, path.topic, { source: 'document', changes });
+        this.logger.info(`Applied ${changes.length} config changes to ${path.topic} from ${uri.toString()}`);
+
+        this.cache.delete(uri.toString());
+        this.mtimes.set(uri.toString(), Date.now());
+        this.changeEmitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    private resolve(uri: vscode.Uri): KafkaPath {
+        const path = KafkaFileSystemProvider.parseUri(uri);
+        if (!path) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return path;
+    }
+
+    private async readText(uri: vscode.Uri, path: KafkaPath): Promise<string> {
+        switch (path.kind) {
+            case 'config': {
+                const admin = await this.clientManager.getAdminClient(path.clusterName);
+                return formatConfigDocument(path.clusterName, path.topic, await this.configService.getTopicConfig(admin, path.topic));
+            }
+            case 'message': {
+                const [message] = await this.clientManager.consumeRange(
+                    path.clusterName,
+                    path.topic,
+                    {
+                        start: { type: 'offset', offset: path.offset },
+                        end: { type: 'offset', offset: path.offset },
+                        partitions: [path.partition]
+                    },
+                    { limit: 1, timeout: 30000 }
+                );
+                // A start offset below the log start is moved up to it, so a different message may come back
+                if (!message || String(message.offset) !== path.offset) {
+                    throw vscode.FileSystemError.FileNotFound(uri);
+                }
+                return formatMessageDocument(message);
+            }
+            case 'schema': {
+                const schema = await this.getSchemaService(path.clusterName).getSchemaVersion(path.subject, path.version);
+                return formatSchema(schema.schema, schema.schemaType);
+            }
+            default:
+                throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+    }
+
+    private getSchemaService(clusterName: string) {
+        const service = this.schemaRegistryProvider.getService(clusterName);
+        if (!service) {
+            throw new Error(`No Schema Registry configured for cluster "${clusterName}"`);
+        }
+        return service;
+    }
+}
+
+function schemaExtension(schemaType?: SchemaType): string {
+    return schemaType === 'PROTOBUF' ? 'proto' : schemaType === 'JSON' ? 'schema.json' : 'avsc.json';
+}
+
+/**
+ * Configs set on the topic itself, which are the ones a config document edits
+ */
+export function getConfigOverrides(entries: ConfigEntry[]): Array<{ name: string; value: string }> {
+    return entries
+        .filter(entry => entry.configSource !== undefined ? entry.configSource === TOPIC_CONFIG_SOURCE : !entry.isDefault)
+        .filter(entry => !entry.isSensitive && entry.configValue !== null)
+        .map(entry => ({ name: entry.configName, value: entry.configValue }));
+}
+
+/**
+ * Render a topic's configs as `name=value` lines: overrides as settings, everything else commented out
+ */
+export function formatConfigDocument(clusterName: string, topic: string, entries: ConfigEntry[]): string {
+    const overrides = getConfigOverrides(entries);
+    const overridden = new Set(overrides.map(o => o.name));
+    const inherited = entries
+        .filter(entry => !overridden.has(entry.configName))
+        .sort((a, b) => a.configName.localeCompare(b.configName));
+
+    const lines = [
+        `# Topic "${topic}" on cluster "${clusterName}"`,
+        '# Saving applies the settings below to the topic after a confirmation.',
+        '# Settings that are left out use the broker or Kafka default, so removing a line resets it.',
+        '',
+        ...overrides.sort((a, b) => a.name.localeCompare(b.name)).map(({ name, value }) => `${name}=${value}`),
+        '',
+        '# Defaults and broker-level values, for reference; uncomment a line to set it on the topic',
+        ...inherited.map(entry => `# ${entry.configName}=${entry.isSensitive ? '(sensitive)' : entry.configValue ?? ''}`)
+    ];
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Read the `name=value` settings of a config document; blank lines and lines starting with # or ! are ignored
+ * @throws Error naming the line of the first invalid or repeated setting
+ */
+export function parseConfigDocument(text: string): Array<{ name: string; value: string }> {
+    const settings = new Map<string, string>();
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (line.length === 0 || line.startsWith('#') || line.startsWith('!')) {
+            return;
+        }
+        const separator = line.indexOf('=');
+        const name = separator < 0 ? '' : line.slice(0, separator).trim();
+        if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+            throw new Error(`Line ${index + 1}: expected name=value, found "${line}"`);
+        }
+        if (settings.has(name)) {
+            throw new Error(`Line ${index + 1}: ${name} is set more than once`);
+        }
+        settings.set(name, line.slice(separator + 1).trim());
+    });
+    return [...settings].map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * Settings added, changed or removed between the topic's overrides and a document
+ */
+export function diffTopicConfigs(
+    current: Array<{ name: string; value: string }>,
+    desired: Array<{ name: string; value: string }>
+): Array<{ name: string; from?: string; to?: string }> {
+    const before = new Map(current.map(({ name, value }) => [name, value]));
+    const after = new Map(desired.map(({ name, value }) => [name, value]));
+    const changes: Array<{ name: string; from?: string; to?: string }> = [];
+
+    for (const [name, value] of after) {
+        if (before.get(name) !== value) {
+            changes.push({ name, from: before.get(name), to: value });
+        }
+    }
+    for (const [name, value] of before) {
+        if (!after.has(name)) {
+            changes.push({ name, from: value });
+        }
+    }
+    return changes;
+}
+
+function describeConfigChange(change: { name: string; from?: string; to?: string }): string {
+    if (change.to === undefined) {
+        return `${change.name}: ${change.from} → default`;
+    }
+    return change.from === undefined ? `${change.name}: set to ${change.to}` : `${change.name}: ${change.from} → ${change.to}`;
+}
+
+/**
+ * Render a message as JSON: a value holding JSON is embedded as such so documents diff field by field,
+ * and keys or values that are not UTF-8 text are base64 encoded
+ */
+export function formatMessageDocument(message: DocumentMessage): string {
+    const key = decodeBytes(message.key);
+    const value = decodeBytes(message.value);
+    let parsedValue: unknown = value.text;
+    if (value.text !== null && value.encoding === undefined) {
+        try {
+            parsedValue = JSON.parse(value.text);
+        } catch {
+            // Plain text
+        }
+    }
+
+    const headers: Record<string, string | string[]> = {};
+    for (const [name, raw] of Object.entries(message.headers ?? {})) {
+        if (raw !== undefined && raw !== null) {
+            headers[name] = Array.isArray(raw) ? raw.map(item => String(item)) : String(raw);
+        }
+    }
+
+    const timestamp = Number(message.timestamp);
+    const document: Record<string, unknown> = {
+        topic: message.topic,
+        partition: message.partition,
+        offset: String(message.offset),
+        timestamp: String(message.timestamp),
+        time: Number.isFinite(timestamp) ? new Date(timestamp).toISOString() : undefined,
+        key: key.text,
+        keyEncoding: key.encoding,
+        headers,
+        value: parsedValue,
+        valueEncoding: value.encoding
+    };
+    return JSON.stringify(document, null, 2) + '\n';
+}
+
+function decodeBytes(buffer: Buffer | null): { text: string | null; encoding?: 'base64' } {
+    if (!buffer) {
+        return { text: null };
+    }
+    const text = buffer.toString('utf8');
+    return Buffer.from(text, 'utf8').equals(buffer) ? { text } : { text: buffer.toString('base64'), encoding: 'base64' };
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { EventBus, KafkaEvents } from '../infrastructure/EventBus';
+import { LagMonitor } from '../services/LagMonitor';
+
+export const CONSUMER_GROUP_URI_SCHEME = 'kafka-consumer-group';
+
+/**
+ * Identifies a consumer group tree item so decorations can be attached to it
+ */
+export function consumerGroupUri(clusterName: string, groupId: string): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: CONSUMER_GROUP_URI_SCHEME,
+        path: `/${encodeURIComponent(clusterName)}/${encodeURIComponent(groupId)}`
+    });
+}
+
+/**
+ * Badges consumer groups in the tree with their lag alert state from the latest LagMonitor poll
+ */
+export class LagAlertDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    readonly onDidChangeFileDecorations = this.changeEmitter.event;
+    private readonly unsubscribe: () => void;
+
+    constructor(private readonly lagMonitor: LagMonitor, eventBus: EventBus) {
+        this.unsubscribe = eventBus.on(KafkaEvents.LAG_ALERT_STATE_CHANGED, () => this.changeEmitter.fire(undefined));
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== CONSUMER_GROUP_URI_SCHEME) {
+            return undefined;
+        }
+
+        const key = uri.toString();
+        const state = this.lagMonitor.getAlertStates().find(s => consumerGroupUri(s.clusterName, s.groupId).toString() === key);
+        if (!state) {
+            return undefined;
+        }
+
+        const stuck = state.stuckPartitions.length > 0;
+        const tooltip = [
+            state.severity !== 'ok' ? `Lag ${state.severity}: ${state.totalLag.toLocaleString()} messages behind` : '',
+            stuck ? `Stuck: no commits on ${state.stuckPartitions.join(', ')}` : ''
+        ].filter(Boolean).join('\n');
+
+        return {
+            badge: stuck ? '⏸' : '!',
+            tooltip,
+            color: new vscode.ThemeColor(state.severity === 'critical' || stuck ? 'charts.red' : 'charts.yellow')
+        };
+    }
+
+    dispose(): void {
+        this.unsubscribe();
+        this.changeEmitter.dispose();
+    }
+}
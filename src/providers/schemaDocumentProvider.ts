@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { SchemaRegistryProvider } from './schemaRegistryProvider';
+import { SchemaType } from '../services/SchemaRegistryService';
+
+/**
+ * Serves registered schema versions as read-only documents
+ * URIs look like kafka-schema:/<cluster>/<subject>/v<version>.<avsc.json|proto|schema.json>
+ */
+export class SchemaDocumentProvider implements vscode.TextDocumentContentProvider {
+    static readonly scheme = 'kafka-schema';
+
+    constructor(private schemaRegistryProvider: SchemaRegistryProvider) {}
+
+    /**
+     * Build the document URI for a schema version
+     * The file extension selects the language used for syntax highlighting
+     */
+    static buildUri(clusterName: string, subject: string, version: number, schemaType?: SchemaType): vscode.Uri {
+        const extension = schemaType === 'PROTOBUF' ? 'proto' : schemaType === 'JSON' ? 'schema.json' : 'avsc.json';
+        return vscode.Uri.from({
+            scheme: SchemaDocumentProvider.scheme,
+            path: `/${encodeURIComponent(clusterName)}/${encodeURIComponent(subject)}/v${version}.${extension}`
+        });
+    }
+
+    /**
+     * Parse a document URI back into its cluster, subject and version
+     */
+    static parseUri(uri: vscode.Uri): { clusterName: string; subject: string; version: number } | undefined {
+        const match = /^\/([^/]+)\/([^/]+)\/v(\d+)\./.exec(uri.path);
+        if (!match) {
+            return undefined;
+        }
+        return {
+            clusterName: decodeURIComponent(match[1]),
+            subject: decodeURIComponent(match[2]),
+            version: parseInt(match[3], 10)
+        };
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const parsed = SchemaDocumentProvider.parseUri(uri);
+        if (!parsed) {
+            throw new Error(`Invalid schema URI: ${uri.toString()}`);
+        }
+
+        const service = this.schemaRegistryProvider.getService(parsed.clusterName);
+        if (!service) {
+            throw new Error(`No Schema Registry configured for cluster "${parsed.clusterName}"`);
+        }
+
+        const schema = await service.getSchemaVersion(parsed.subject, parsed.version);
+        return formatSchema(schema.schema, schema.schemaType);
+    }
+}
+
+/**
+ * Pretty-print JSON based schemas (Avro and JSON Schema); Protobuf is returned as-is
+ */
+export function formatSchema(schema: string, schemaType?: SchemaType): string {
+    if (schemaType === 'PROTOBUF') {
+        return schema;
+    }
+    try {
+        return JSON.stringify(JSON.parse(schema), null, 2);
+    } catch {
+        return schema;
+    }
+}
@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import { KafkaClientManager } from '../kafka/kafkaClientManager';
+import { CredentialManager } from '../infrastructure/CredentialManager';
+import { EventBus } from '../infrastructure/EventBus';
+import { SchemaRegistryService } from '../services/SchemaRegistryService';
+import { BaseProvider } from './BaseProvider';
+
+/**
+ * Provider for Schema Registry view
+ * Lists subjects and their versions for every cluster with a registry configured
+ */
+export class SchemaRegistryProvider extends BaseProvider<SchemaRegistryTreeItem> {
+    private services: Map<string, SchemaRegistryService> = new Map();
+
+    constructor(
+        clientManager: KafkaClientManager,
+        private credentialManager: CredentialManager,
+        private eventBus?: EventBus
+    ) {
+        super(clientManager, 'SchemaRegistryProvider');
+    }
+
+    /**
+     * Refresh the tree view and drop cached registry connections
+     */
+    refresh(): void {
+        this.services.forEach(service => service.disconnect());
+        this.services.clear();
+        super.refresh();
+    }
+
+    /**
+     * Get the registry service for a cluster
+     * @returns undefined when the cluster has no Schema Registry configured
+     */
+    getService(clusterName: string): SchemaRegistryService | undefined {
+        let service = this.services.get(clusterName);
+        if (!service) {
+            service = SchemaRegistryService.fromClusterConfig(
+                this.clientManager.getClusterConfig(clusterName),
+                this.credentialManager,
+                this.eventBus
+            );
+            if (service) {
+                this.services.set(clusterName, service);
+            }
+        }
+        return service;
+    }
+
+    async getChildren(element?: SchemaRegistryTreeItem): Promise<SchemaRegistryTreeItem[]> {
+        if (!element) {
+            // Root level - show clusters
+            return this.getClusters().map(
+                cluster =>
+                    new SchemaRegistryTreeItem(
+                        cluster,
+                        vscode.TreeItemCollapsibleState.Collapsed,
+                        'cluster',
+                        cluster
+                    )
+            );
+        }
+
+        if (element.contextValue === 'cluster') {
+            const service = this.getService(element.clusterName);
+            if (!service) {
+                return [
+                    new SchemaRegistryTreeItem(
+                        'No Schema Registry configured',
+                        vscode.TreeItemCollapsibleState.None,
+                        'empty',
+                        element.clusterName
+                    )
+                ];
+            }
+
+            const items = await this.getChildrenSafely(
+                element,
+                async (el) => {
+                    const [compatibility, subjects] = await Promise.all([
+                        service.getGlobalCompatibility(),
+                        service.listSubjects()
+                    ]);
+
+                    const compatibilityItem = new SchemaRegistryTreeItem(
+                        `Compatibility: ${compatibility}`,
+                        vscode.TreeItemCollapsibleState.None,
+                        'schemaCompatibility',
+                        el!.clusterName
+                    );
+                    compatibilityItem.description = 'global';
+
+                    if (subjects.length === 0) {
+                        return [
+                            compatibilityItem,
+                            new SchemaRegistryTreeItem(
+                                'No subjects found',
+                                vscode.TreeItemCollapsibleState.None,
+                                'empty',
+                                el!.clusterName
+                            )
+                        ];
+                    }
+
+                    return [
+                        compatibilityItem,
+                        ...subjects.map(
+                            subject =>
+                                new SchemaRegistryTreeItem(
+                                    subject,
+                                    vscode.TreeItemCollapsibleState.Collapsed,
+                                    'schemaSubject',
+                                    el!.clusterName,
+                                    subject
+                                )
+                        )
+                    ];
+                },
+                `Loading Schema Registry subjects for ${element.label}`
+            );
+
+            return items.length > 0 ? items : [
+                new SchemaRegistryTreeItem(
+                    'Error: Schema Registry unavailable',
+                    vscode.TreeItemCollapsibleState.None,
+                    'error',
+                    element.clusterName
+                )
+            ];
+        }
+
+        if (element.contextValue === 'schemaSubject' && element.subject) {
+            const service = this.getService(element.clusterName);
+            if (!service) {
+                return [];
+            }
+
+            return this.getChildrenSafely(
+                element,
+                async (el) => {
+                    const [compatibility, versions] = await Promise.all([
+                        service.getSubjectCompatibility(el!.subject!),
+                        service.getSchemaVersions(el!.subject!)
+                    ]);
+
+                    const compatibilityItem = new SchemaRegistryTreeItem(
+                        `Compatibility: ${compatibility || 'inherited'}`,
+                        vscode.TreeItemCollapsibleState.None,
+                        'schemaCompatibility',
+                        el!.clusterName,
+                        el!.subject
+                    );
+                    compatibilityItem.description = compatibility ? 'subject' : 'global default';
+
+                    // Newest version first
+                    const versionItems = [...versions].reverse().map(
+                        version =>
+                            new SchemaRegistryTreeItem(
+                                `v${version}`,
+                                vscode.TreeItemCollapsibleState.None,
+                                'schemaVersion',
+                                el!.clusterName,
+                                el!.subject,
+                                version
+                            )
+                    );
+
+                    return [compatibilityItem, ...versionItems];
+                },
+                `Loading versions for subject ${element.subject}`
+            );
+        }
+
+        return [];
+    }
+}
+
+export class SchemaRegistryTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly contextValue: string,
+        public readonly clusterName: string,
+        public readonly subject?: string,
+        public readonly version?: number
+    ) {
+        super(label, collapsibleState);
+
+        this.tooltip = this.getTooltip();
+        this.iconPath = this.getIcon();
+
+        // Add click command for schema versions
+        if (this.contextValue === 'schemaVersion') {
+            this.command = {
+                command: 'kafka.openSchemaVersion',
+                title: 'Open Schema Version',
+                arguments: [this]
+            };
+        }
+    }
+
+    private getTooltip(): string {
+        if (this.contextValue === 'cluster') {
+            return `Cluster: ${this.label}`;
+        }
+        if (this.contextValue === 'schemaSubject') {
+            return `Subject: ${this.subject}\nCluster: ${this.clusterName}`;
+        }
+        if (this.contextValue === 'schemaVersion') {
+            return `Subject: ${this.subject}\nVersion: ${this.version}\nCluster: ${this.clusterName}`;
+        }
+        if (this.contextValue === 'empty' && this.label === 'No Schema Registry configured') {
+            return 'Add a Schema Registry URL to this cluster connection to browse its subjects.';
+        }
+        return this.label;
+    }
+
+    private getIcon(): vscode.ThemeIcon {
+        if (this.contextValue === 'cluster') {
+            return new vscode.ThemeIcon('database');
+        }
+        if (this.contextValue === 'schemaSubject') {
+            return new vscode.ThemeIcon('symbol-namespace', new vscode.ThemeColor('charts.purple'));
+        }
+        if (this.contextValue === 'schemaVersion') {
+            return new vscode.ThemeIcon('file-code');
+        }
+        if (this.contextValue === 'schemaCompatibility') {
+            return new vscode.ThemeIcon('shield');
+        }
+        if (this.contextValue === 'empty') {
+            return new vscode.ThemeIcon('info');
+        }
+        if (this.contextValue === 'error') {
+            return new vscode.ThemeIcon('error');
+        }
+        return new vscode.ThemeIcon('circle-outline');
+    }
+}
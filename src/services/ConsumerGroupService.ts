@@ -1,5 +1,252 @@
 import { Admin } from 'kafkajs';
 import { Logger } from '../infrastructure/Logger';
+import { ConsumerGroupOffsetSnapshot, OffsetSnapshotPartition } from './OffsetSnapshotService';
+
+/**
+ * Reset strategies, named after the kafka-consumer-groups.sh options they mirror
+ */
+export type OffsetResetStrategy =
+    | 'beginning'
+    | 'end'
+    | 'specific offset'
+    | 'to-datetime'
+    | 'by-duration'
+    | 'shift-by'
+    | 'to-current'
+    | 'from-file';
+
+/**
+ * One row of a per-partition offsets CSV (topic,partition,offset)
+ */
+export interface PartitionOffset {
+    topic: string;
+    partition: number;
+    offset: string;
+}
+
+/**
+ * A reset strategy with its argument parsed
+ */
+export interface OffsetResetTarget {
+    strategy: OffsetResetStrategy;
+    /** specific offset */
+    offset?: string;
+    /** to-datetime and by-duration, in epoch milliseconds */
+    timestamp?: number;
+    /** shift-by, negative to move back */
+    shift?: number;
+    /** from-file */
+    partitionOffsets?: PartitionOffset[];
+}
+
+/**
+ * What a partition's new offset is computed from
+ */
+export interface PartitionResetContext {
+    topic: string;
+    partition: number;
+    logStartOffset: string;
+    logEndOffset: string;
+    committedOffset: string | null;
+    /** Earliest offset at or after the target timestamp, '-1' when there is none */
+    timestampOffset?: string;
+}
+
+/**
+ * One partition of an offset reset, as shown in the preview before anything is committed
+ */
+export interface OffsetResetPlanEntry {
+    topic: string;
+    partition: number;
+    /** Committed offset, null when the group has not committed on this partition */
+    currentOffset: string | null;
+    proposedOffset: string;
+    logStartOffset: string;
+    logEndOffset: string;
+    /** Lag with the committed offset, null without a commit */
+    currentLag: number | null;
+    /** Lag once the proposed offset is committed */
+    resultingLag: number;
+}
+
+/**
+ * A reviewed offset reset, exportable as JSON
+ */
+export interface OffsetResetPlan {
+    clusterName: string;
+    groupId: string;
+    strategy: OffsetResetStrategy;
+    /** Strategy argument as entered: offset, datetime, duration, shift or offsets file */
+    argument?: string;
+    createdAt: string;
+    entries: OffsetResetPlanEntry[];
+}
+
+/**
+ * Lag of a consumer positioned at offset, clamped to the log end
+ */
+export function calculateLag(offset: string, logEndOffset: string): number {
+    return Math.max(0, Number(BigInt(logEndOffset) - BigInt(offset)));
+}
+
+/**
+ * Check an offset entered for a plan entry
+ * @returns An error message, or undefined when the offset can be committed
+ */
+export function validateResetOffset(offset: string): string | undefined {
+    return /^\d+$/.test(offset.trim()) ? undefined : `Invalid offset value: "${offset}". Must be a non-negative integer.`;
+}
+
+/**
+ * Parse an ISO 8601 duration as accepted by kafka-consumer-groups.sh, e.g. PT30M or P1DT12H
+ * @returns The duration in milliseconds, or undefined when the value is not a duration
+ */
+export function parseIsoDuration(value: string): number | undefined {
+    const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i.exec(value.trim());
+    if (!match || match.slice(1).every(part => part === undefined) || /T$/i.test(value.trim())) {
+        return undefined;
+    }
+    const [days, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+    return Math.round((((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000);
+}
+
+/**
+ * Parse per-partition offsets in the kafka-consumer-groups.sh --from-file format:
+ * one topic,partition,offset row per line; blank lines and a header row are skipped
+ */
+export function parsePartitionOffsetsCsv(text: string): PartitionOffset[] {
+    const rows: PartitionOffset[] = [];
+    const lines = text.split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || (index === 0 && /^topic\s*,/i.test(trimmed))) {
+            return;
+        }
+
+        const cells = trimmed.split(',').map(cell => cell.trim());
+        if (cells.length !== 3 || !cells[0] || !/^\d+$/.test(cells[1]) || !/^\d+$/.test(cells[2])) {
+            throw new Error(`Line ${index + 1}: expected topic,partition,offset but got "${trimmed}"`);
+        }
+        rows.push({ topic: cells[0], partition: Number(cells[1]), offset: cells[2] });
+    });
+
+    if (rows.length === 0) {
+        throw new Error('The offsets file has no topic,partition,offset rows');
+    }
+    return rows;
+}
+
+/**
+ * Parse the argument a strategy takes
+ * @param now Reference time for by-duration
+ * @throws Error describing the expected format
+ */
+export function parseOffsetResetTarget(strategy: OffsetResetStrategy, argument?: string, now: number = Date.now()): OffsetResetTarget {
+    const value = (argument ?? '').trim();
+
+    switch (strategy) {
+        case 'specific offset': {
+            const error = validateResetOffset(argument ?? '');
+            if (error) {
+                throw new Error(error);
+            }
+            return { strategy, offset: value };
+        }
+        case 'to-datetime': {
+            const timestamp = Date.parse(value);
+            if (!value || isNaN(timestamp)) {
+                throw new Error(`Invalid datetime: "${argument ?? ''}". Use ISO 8601, e.g. 2024-01-31T09:00:00Z.`);
+            }
+            return { strategy, timestamp };
+        }
+        case 'by-duration': {
+            const duration = parseIsoDuration(value);
+            if (duration === undefined) {
+                throw new Error(`Invalid duration: "${argument ?? ''}". Use ISO 8601, e.g. PT30M or P1DT12H.`);
+            }
+            return { strategy, timestamp: now - duration };
+        }
+        case 'shift-by': {
+            if (!/^[+-]?\d+$/.test(value)) {
+                throw new Error(`Invalid shift: "${argument ?? ''}". Must be an integer, negative to move back.`);
+            }
+            return { strategy, shift: Number(value) };
+        }
+        case 'from-file':
+            return { strategy, partitionOffsets: parsePartitionOffsetsCsv(argument ?? '') };
+        default:
+            return { strategy };
+    }
+}
+
+/**
+ * Check the argument entered for a strategy
+ * @returns An error message, or undefined when the argument is valid
+ */
+export function validateResetArgument(strategy: OffsetResetStrategy, argument: string): string | undefined {
+    try {
+        parseOffsetResetTarget(strategy, argument);
+        return undefined;
+    } catch (error: any) {
+        return error.message;
+    }
+}
+
+/**
+ * Offset a partition resets to, clamped to the partition's log
+ * Partitions without a committed offset shift from, and stay at, the log end, as kafka-consumer-groups.sh does
+ * @returns undefined when the partition is not part of the reset (from-file rows name other partitions)
+ */
+export function resolveResetOffset(target: OffsetResetTarget, context: PartitionResetContext): string | undefined {
+    const low = BigInt(context.logStartOffset);
+    const high = BigInt(context.logEndOffset);
+    const current = context.committedOffset !== null ? BigInt(context.committedOffset) : high;
+
+    let offset: bigint;
+    switch (target.strategy) {
+        case 'end':
+            offset = high;
+            break;
+        case 'specific offset':
+            offset = BigInt(target.offset!);
+            break;
+        case 'to-datetime':
+        case 'by-duration':
+            offset = context.timestampOffset === undefined || context.timestampOffset === '-1'
+                ? high
+                : BigInt(context.timestampOffset);
+            break;
+        case 'shift-by':
+            offset = current + BigInt(target.shift!);
+            break;
+        case 'to-current':
+            offset = current;
+            break;
+        case 'from-file': {
+            const row = target.partitionOffsets!.find(r => r.topic === context.topic && r.partition === context.partition);
+            if (!row) {
+                return undefined;
+            }
+            offset = BigInt(row.offset);
+            break;
+        }
+        default:
+            offset = low;
+    }
+
+    const clamped = offset < low ? low : offset > high ? high : offset;
+    return clamped.toString();
+}
+
+/**
+ * Whether an offset lies outside the partition's log; such offsets are accepted by Kafka
+ * but make consumers fall back to auto.offset.reset
+ */
+export function isOffsetOutOfRange(entry: Pick<OffsetResetPlanEntry, 'logStartOffset' | 'logEndOffset'>, offset: string): boolean {
+    const value = BigInt(offset);
+    return value < BigInt(entry.logStartOffset) || value > BigInt(entry.logEndOffset);
+}
 
 /**
  * Service for managing Kafka consumer group operations
@@ -100,6 +347,156 @@ export class ConsumerGroupService {
         }
     }
 
+    /**
+     * Work out the offsets a reset would commit, without changing anything
+     */
+    async planOffsetReset(
+        admin: Admin,
+        groupId: string,
+        topics: string[],
+        target: OffsetResetTarget
+    ): Promise<OffsetResetPlanEntry[]> {
+        try {
+            this.logger.debug(`Planning ${target.strategy} offset reset for consumer group: ${groupId}`);
+
+            const committed = await admin.fetchOffsets({ groupId, topics });
+            const entries: OffsetResetPlanEntry[] = [];
+
+            for (const topic of topics) {
+                const topicOffsets = await admin.fetchTopicOffsets(topic);
+                const committedPartitions = committed.find(c => c.topic === topic)?.partitions || [];
+                const timestampOffsets = target.timestamp !== undefined
+                    ? await admin.fetchTopicOffsetsByTimestamp(topic, target.timestamp)
+                    : [];
+
+                for (const p of [...topicOffsets].sort((a, b) => a.partition - b.partition)) {
+                    if (p.low === undefined || p.low === null || p.high === undefined || p.high === null) {
+                        throw new Error(`Missing offset bounds for partition ${p.partition} on topic "${topic}"`);
+                    }
+
+                    const commit = committedPartitions.find(c => c.partition === p.partition)?.offset;
+                    const currentOffset = commit !== undefined && commit !== '-1' ? commit : null;
+
+                    const proposedOffset = resolveResetOffset(target, {
+                        topic,
+                        partition: p.partition,
+                        logStartOffset: p.low,
+                        logEndOffset: p.high,
+                        committedOffset: currentOffset,
+                        timestampOffset: timestampOffsets.find(t => t.partition === p.partition)?.offset
+                    });
+                    if (proposedOffset === undefined) {
+                        continue;
+                    }
+
+                    entries.push({
+                        topic,
+                        partition: p.partition,
+                        currentOffset,
+                        proposedOffset,
+                        logStartOffset: p.low,
+                        logEndOffset: p.high,
+                        currentLag: currentOffset !== null ? calculateLag(currentOffset, p.high) : null,
+                        resultingLag: calculateLag(proposedOffset, p.high)
+                    });
+                }
+            }
+
+            for (const row of target.partitionOffsets || []) {
+                if (!entries.some(entry => entry.topic === row.topic && entry.partition === row.partition)) {
+                    throw new Error(`Partition ${row.partition} does not exist on topic "${row.topic}"`);
+                }
+            }
+
+            return entries;
+        } catch (error) {
+            this.logger.error(`Failed to plan offset reset for consumer group: ${groupId}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Commit the offsets of a reviewed plan, one request per topic
+     */
+    async applyOffsetReset(
+        admin: Admin,
+        groupId: string,
+        entries: Array<Pick<OffsetResetPlanEntry, 'topic' | 'partition' | 'proposedOffset'>>
+    ): Promise<void> {
+        try {
+            this.logger.info(`Applying offset reset for consumer group: ${groupId} (${entries.length} partitions)`);
+
+            const byTopic = new Map<string, Array<{ partition: number; offset: string }>>();
+            for (const entry of entries) {
+                const error = validateResetOffset(entry.proposedOffset);
+                if (error) {
+                    throw new Error(`${entry.topic}[${entry.partition}]: ${error}`);
+                }
+                const partitions = byTopic.get(entry.topic) || [];
+                partitions.push({ partition: entry.partition, offset: entry.proposedOffset.trim() });
+                byTopic.set(entry.topic, partitions);
+            }
+
+            for (const [topic, partitions] of byTopic) {
+                await admin.setOffsets({ groupId, topic, partitions });
+            }
+
+            this.logger.info(`Successfully reset offsets for consumer group: ${groupId}`);
+        } catch (error) {
+            this.logger.error(`Failed to reset offsets for consumer group: ${groupId}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Capture every committed offset of a group, with the group's state for reference
+     */
+    async snapshotOffsets(admin: Admin, clusterName: string, groupId: string): Promise<ConsumerGroupOffsetSnapshot> {
+        try {
+            this.logger.info(`Taking offset snapshot of consumer group: ${groupId}`);
+
+            const descriptions = await admin.describeGroups([groupId]);
+            const group = descriptions.groups[0];
+            const committed = await admin.fetchOffsets({ groupId });
+
+            const offsets: OffsetSnapshotPartition[] = [];
+            for (const { topic, partitions } of committed) {
+                const topicOffsets = await admin.fetchTopicOffsets(topic);
+                for (const p of partitions) {
+                    if (p.offset === '-1') {
+                        continue; // Nothing committed on this partition
+                    }
+                    offsets.push({
+                        topic,
+                        partition: p.partition,
+                        offset: p.offset,
+                        logEndOffset: topicOffsets.find(t => t.partition === p.partition)?.high
+                    });
+                }
+            }
+
+            if (offsets.length === 0) {
+                throw new Error(`Consumer group "${groupId}" has no committed offsets to snapshot`);
+            }
+
+            offsets.sort((a, b) => a.topic.localeCompare(b.topic) || a.partition - b.partition);
+
+            return {
+                version: 1,
+                clusterName,
+                groupId,
+                createdAt: new Date().toISOString(),
+                state: group?.state,
+                protocol: group?.protocol,
+                memberCount: group?.members.length,
+                offsets
+            };
+        } catch (error) {
+            this.logger.error(`Failed to snapshot offsets for consumer group: ${groupId}`, error);
+            throw error;
+        }
+    }
+
     /**
      * Get comprehensive consumer group info (details + offsets)
      */
@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+
+/**
+ * A consumer group the extension created for its own reads
+ */
+export interface ExtensionConsumerGroup {
+    clusterName: string;
+    groupId: string;
+    createdAt: number;
+}
+
+/**
+ * Group ids the extension generates: `vscode-kafka-<purpose>-<timestamp>`
+ * Used to find groups left behind by sessions that ended before they could clean up
+ */
+export const EXTENSION_GROUP_ID_PATTERN = /^vscode-kafka-(consumer|client)-\d+$/;
+
+/**
+ * Remembers the consumer groups the extension created, across sessions, so they can be deleted
+ * once they are no longer used
+ */
+export class ExtensionConsumerGroupRegistry {
+    static readonly STATE_KEY = 'kafka.extensionConsumerGroups';
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    list(clusterName?: string): ExtensionConsumerGroup[] {
+        const groups = this.state.get<ExtensionConsumerGroup[]>(ExtensionConsumerGroupRegistry.STATE_KEY, []);
+        return clusterName ? groups.filter(g => g.clusterName === clusterName) : groups;
+    }
+
+    async register(clusterName: string, groupId: string): Promise<void> {
+        if (this.list(clusterName).some(g => g.groupId === groupId)) {
+            return;
+        }
+        await this.state.update(ExtensionConsumerGroupRegistry.STATE_KEY, [
+            ...this.list(),
+            { clusterName, groupId, createdAt: Date.now() }
+        ]);
+    }
+
+    async unregister(clusterName: string, groupIds: string[]): Promise<void> {
+        const removed = new Set(groupIds);
+        await this.state.update(
+            ExtensionConsumerGroupRegistry.STATE_KEY,
+            this.list().filter(g => g.clusterName !== clusterName || !removed.has(g.groupId))
+        );
+    }
+}
@@ -0,0 +1,394 @@
+import * as zlib from 'zlib';
+import {
+    GetRegistryCommand,
+    GetSchemaVersionCommand,
+    GetSchemaVersionCommandInput,
+    GetSchemaVersionResponse,
+    GlueClient,
+    ListSchemaVersionsCommand
+} from '@aws-sdk/client-glue';
+import { Logger } from '../infrastructure/Logger';
+import { EventBus, KafkaEvents } from '../infrastructure/EventBus';
+import { ClusterConnection } from '../forms/clusterConnectionForm';
+import { MSKIAMAuthenticator } from '../kafka/mskIamAuthenticator';
+import { DecodedPayload, LATEST_SCHEMA_ID_TTL_MS, SchemaReferenceInfo, SchemaType } from './SchemaRegistryService';
+import { RegisteredSchema, SchemaRegistryClient } from './SchemaRegistryClient';
+import { SchemaSerde, createSchemaSerde } from '../utils/schemaSerdes';
+
+export interface GlueSchemaRegistryConfig {
+    registryName: string;
+    region: string;
+    awsProfile?: string;
+    assumeRoleArn?: string;
+}
+
+/**
+ * The subset of the Glue client used here, so tests can pass a stub
+ */
+export type GlueSendClient = Pick<GlueClient, 'send'>;
+
+/**
+ * Parsed AWS Glue wire format header
+ */
+export interface GlueWireHeader {
+    schemaVersionId: string;
+    compressed: boolean;
+}
+
+// Glue wire format: header version (3), compression byte (0 none, 5 zlib), 16-byte schema version UUID
+const GLUE_HEADER_VERSION = 3;
+const GLUE_COMPRESSION_NONE = 0;
+const GLUE_COMPRESSION_ZLIB = 5;
+const GLUE_HEADER_LENGTH = 18;
+
+interface CachedSchemaVersion {
+    reference: SchemaReferenceInfo;
+    definition: string;
+    schemaType: SchemaType;
+    serde: SchemaSerde;
+}
+
+/**
+ * Service for AWS Glue Schema Registry operations
+ * Authenticates with the cluster's AWS profile / assumed role, like MSK IAM
+ */
+export class GlueSchemaRegistryService implements SchemaRegistryClient {
+    readonly registryType = 'aws-glue';
+    private client: GlueSendClient | null;
+    private logger = Logger.getLogger('GlueSchemaRegistryService');
+    private config: GlueSchemaRegistryConfig;
+    private clusterId: string;
+    private eventBus?: EventBus;
+    private schemaVersionCache: Map<string, CachedSchemaVersion> = new Map();
+    private schemaIdCache: Map<string, { id: Promise<string>; expires: number }> = new Map();
+
+    constructor(
+        config: GlueSchemaRegistryConfig,
+        clusterId: string,
+        eventBus?: EventBus,
+        glueClient?: GlueSendClient
+    ) {
+        this.config = config;
+        this.clusterId = clusterId;
+        this.eventBus = eventBus;
+        this.client = glueClient || null;
+    }
+
+    /**
+     * Create a service for a cluster if it has a Glue Schema Registry configured
+     * @returns undefined when the registry name or region is missing
+     */
+    static fromClusterConfig(
+        clusterConfig: ClusterConnection | undefined,
+        eventBus?: EventBus
+    ): GlueSchemaRegistryService | undefined {
+        const region = clusterConfig?.glueRegion || clusterConfig?.region;
+        if (!clusterConfig?.glueRegistryName || !region) {
+            return undefined;
+        }
+
+        return new GlueSchemaRegistryService(
+            {
+                registryName: clusterConfig.glueRegistryName,
+                region,
+                awsProfile: clusterConfig.awsProfile,
+                assumeRoleArn: clusterConfig.assumeRoleArn
+            },
+            clusterConfig.name,
+            eventBus
+        );
+    }
+
+    /**
+     * Read the schema version UUID from a Glue wire format header
+     * @returns undefined if the buffer is not framed
+     */
+    static parseWireHeader(buffer: Buffer | null | undefined): GlueWireHeader | undefined {
+        if (!buffer || buffer.length < GLUE_HEADER_LENGTH) {
+            return undefined;
+        }
+
+        if (buffer.readUInt8(0) !== GLUE_HEADER_VERSION) {
+            return undefined;
+        }
+
+        const compression = buffer.readUInt8(1);
+        if (compression !== GLUE_COMPRESSION_NONE && compression !== GLUE_COMPRESSION_ZLIB) {
+            return undefined;
+        }
+
+        const hex = buffer.subarray(2, GLUE_HEADER_LENGTH).toString('hex');
+        return {
+            schemaVersionId: `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`,
+            compressed: compression === GLUE_COMPRESSION_ZLIB
+        };
+    }
+
+    /**
+     * Build the Glue wire format header for a schema version (uncompressed)
+     */
+    static buildWireHeader(schemaVersionId: string): Buffer {
+        const uuid = Buffer.from(schemaVersionId.replace(/-/g, ''), 'hex');
+        if (uuid.length !== 16) {
+            throw new Error(`Invalid schema version ID: ${schemaVersionId}`);
+        }
+        return Buffer.concat([Buffer.from([GLUE_HEADER_VERSION, GLUE_COMPRESSION_NONE]), uuid]);
+    }
+
+    /**
+     * Initialize the Glue client
+     * Credentials are resolved per request so refreshed SSO / assumed-role sessions are picked up
+     */
+    async initialize(): Promise<void> {
+        if (this.client) {
+            return;
+        }
+
+        try {
+            const authenticator = new MSKIAMAuthenticator(
+                this.config.region,
+                this.config.awsProfile,
+                this.config.assumeRoleArn
+            );
+            this.client = new GlueClient({
+                region: this.config.region,
+                credentials: () => authenticator.getAWSCredentials()
+            });
+            this.logger.info(`Glue Schema Registry initialized for cluster: ${this.clusterId}`);
+        } catch (error) {
+            this.logger.error('Failed to initialize Glue Schema Registry', error);
+            throw error;
+        }
+    }
+
+    parseSchemaId(buffer: Buffer | null | undefined): string | undefined {
+        return GlueSchemaRegistryService.parseWireHeader(buffer)?.schemaVersionId;
+    }
+
+    /**
+     * Get the latest version of a schema; the subject is the Glue schema name
+     */
+    async getLatestSchema(subject: string): Promise<RegisteredSchema> {
+        return this.getSchemaVersion(subject, 'latest');
+    }
+
+    /**
+     * Get a specific version of a schema
+     */
+    async getSchemaVersion(subject: string, version: number | 'latest'): Promise<RegisteredSchema> {
+        try {
+            this.logger.debug(`Fetching version ${version} of subject: ${subject}`);
+            const cached = await this.loadSchemaVersion({
+                SchemaId: { RegistryName: this.config.registryName, SchemaName: subject },
+                SchemaVersionNumber: version === 'latest' ? { LatestVersion: true } : { VersionNumber: version }
+            });
+
+            if (this.eventBus) {
+                this.eventBus.emitSync(KafkaEvents.SCHEMA_FETCHED, {
+                    clusterId: this.clusterId,
+                    subject,
+                    schemaId: cached.reference.id
+                });
+            }
+
+            return {
+                id: cached.reference.id,
+                version: cached.reference.version || 0,
+                schema: cached.definition,
+                subject,
+                schemaType: cached.schemaType
+            };
+        } catch (error) {
+            this.logger.error(`Failed to fetch version ${version} of subject: ${subject}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * List the version numbers of a schema, oldest first
+     */
+    async getSchemaVersions(subject: string): Promise<number[]> {
+        try {
+            await this.initialize();
+            const versions: number[] = [];
+            let nextToken: string | undefined;
+            do {
+                const response = await this.client!.send(new ListSchemaVersionsCommand({
+                    SchemaId: { RegistryName: this.config.registryName, SchemaName: subject },
+                    NextToken: nextToken
+                }));
+                for (const schema of response.Schemas || []) {
+                    if (schema.VersionNumber !== undefined) {
+                        versions.push(schema.VersionNumber);
+                    }
+                }
+                nextToken = response.NextToken;
+            } while (nextToken);
+
+            return versions.sort((a, b) => a - b);
+        } catch (error) {
+            this.logger.error(`Failed to fetch schema versions for subject: ${subject}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Validate a message against the latest version of a schema
+     */
+    async validateMessage(subject: string, payload: any): Promise<boolean> {
+        try {
+            this.logger.debug(`Validating message against schema for subject: ${subject}`);
+            await this.encodeMessage(subject, payload);
+            this.logger.info(`Message validated successfully for subject: ${subject}`);
+
+            if (this.eventBus) {
+                this.eventBus.emitSync(KafkaEvents.SCHEMA_VALIDATED, {
+                    clusterId: this.clusterId,
+                    subject,
+                    success: true
+                });
+            }
+            return true;
+        } catch (error) {
+            this.logger.error(`Message validation failed for subject: ${subject}`, error);
+
+            if (this.eventBus) {
+                this.eventBus.emitSync(KafkaEvents.SCHEMA_VALIDATED, {
+                    clusterId: this.clusterId,
+                    subject,
+                    success: false
+                });
+            }
+            return false;
+        }
+    }
+
+    /**
+     * Encode a message with a version of a schema, framed in the Glue wire format
+     * @param version - Version number, defaults to the latest
+     */
+    async encodeMessage(subject: string, payload: any, version: number | 'latest' = 'latest'): Promise<Buffer> {
+        try {
+            this.logger.debug(`Encoding message for subject: ${subject} (version ${version})`);
+            return await this.encodeWithSchemaId(await this.resolveSchemaId(subject, version), payload);
+        } catch (error) {
+            this.logger.error(`Failed to encode message for subject: ${subject}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Resolve the schema version UUID of a version of a schema
+     * Numbered versions never change and are cached for the session; the latest version for LATEST_SCHEMA_ID_TTL_MS
+     */
+    async resolveSchemaId(subject: string, version: number | 'latest' = 'latest'): Promise<string> {
+        const key = `${subject}/${version}`;
+        const cached = this.schemaIdCache.get(key);
+        if (cached && cached.expires > Date.now()) {
+            return cached.id;
+        }
+
+        // The pending lookup is cached too, so a batch encoded in parallel asks Glue once
+        const id = this.getSchemaVersion(subject, version).then(schema => String(schema.id));
+        this.schemaIdCache.set(key, { id, expires: version === 'latest' ? Date.now() + LATEST_SCHEMA_ID_TTL_MS : Infinity });
+        id.catch(() => {
+            if (this.schemaIdCache.get(key)?.id === id) {
+                this.schemaIdCache.delete(key);
+            }
+        });
+        return id;
+    }
+
+    /**
+     * Encode a message with a schema version UUID from resolveSchemaId, framed in the Glue wire format
+     */
+    async encodeWithSchemaId(schemaId: number | string, payload: any): Promise<Buffer> {
+        const cached = await this.getSchemaVersionById(String(schemaId));
+        return Buffer.concat([
+            GlueSchemaRegistryService.buildWireHeader(String(cached.reference.id)),
+            cached.serde.toBuffer(payload)
+        ]);
+    }
+
+    /**
+     * Decode a Glue-framed payload and report which schema version was used
+     * Throws if the buffer is not framed or the schema version cannot be resolved
+     */
+    async decodeWithSchema(buffer: Buffer): Promise<DecodedPayload> {
+        const header = GlueSchemaRegistryService.parseWireHeader(buffer);
+        if (!header) {
+            throw new Error('Payload is not in AWS Glue wire format');
+        }
+
+        const cached = await this.getSchemaVersionById(header.schemaVersionId);
+        let body = buffer.subarray(GLUE_HEADER_LENGTH);
+        if (header.compressed) {
+            body = zlib.inflateSync(body);
+        }
+
+        return { value: cached.serde.fromBuffer(body), schema: cached.reference };
+    }
+
+    /**
+     * Check if the registry exists and the credentials can read it
+     */
+    async isAvailable(): Promise<boolean> {
+        try {
+            await this.initialize();
+            await this.client!.send(new GetRegistryCommand({
+                RegistryId: { RegistryName: this.config.registryName }
+            }));
+            return true;
+        } catch (error) {
+            this.logger.debug('Glue Schema Registry not available', error);
+            return false;
+        }
+    }
+
+    async disconnect(): Promise<void> {
+        this.client = null;
+        this.schemaVersionCache.clear();
+        this.schemaIdCache.clear();
+        this.logger.debug('Glue Schema Registry disconnected');
+    }
+
+    /**
+     * Resolve a schema version by UUID, using the cache when possible
+     */
+    private async getSchemaVersionById(schemaVersionId: string): Promise<CachedSchemaVersion> {
+        const cached = this.schemaVersionCache.get(schemaVersionId);
+        if (cached) {
+            return cached;
+        }
+        return this.loadSchemaVersion({ SchemaVersionId: schemaVersionId });
+    }
+
+    private async loadSchemaVersion(input: GetSchemaVersionCommandInput): Promise<CachedSchemaVersion> {
+        await this.initialize();
+        const response = await this.client!.send(new GetSchemaVersionCommand(input));
+        if (!response.SchemaVersionId || response.SchemaDefinition === undefined) {
+            throw new Error('Glue returned an incomplete schema version');
+        }
+
+        const entry = this.schemaVersionCache.get(response.SchemaVersionId) || this.buildSchemaVersion(response);
+        this.schemaVersionCache.set(response.SchemaVersionId, entry);
+        return entry;
+    }
+
+    private buildSchemaVersion(response: GetSchemaVersionResponse): CachedSchemaVersion {
+        const schemaType = (response.DataFormat || 'AVRO') as SchemaType;
+        const serde = createSchemaSerde(schemaType, response.SchemaDefinition!);
+
+        return {
+            reference: {
+                id: response.SchemaVersionId!,
+                // arn:aws:glue:<region>:<account>:schema/<registry>/<schema>
+                subject: response.SchemaArn?.split('/').pop(),
+                version: response.VersionNumber
+            },
+            definition: response.SchemaDefinition!,
+            schemaType,
+            serde
+        };
+    }
+}
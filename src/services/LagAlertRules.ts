@@ -0,0 +1,163 @@
+/**
+ * A `kafka.lagAlerts.rules` entry
+ * Patterns are regular expressions matched against the cluster name and group ID; anchor them with ^ and $ for exact matches
+ */
+export interface LagAlertRule {
+    cluster?: string;
+    group?: string;
+    warningThreshold?: number;
+    criticalThreshold?: number;
+    /** Minutes a committed offset may stay unchanged while its partition has lag; 0 disables stuck detection */
+    stuckAfterMinutes?: number;
+    /** Never alert or decorate matching groups */
+    muted?: boolean;
+}
+
+/**
+ * Alert settings that apply to one group
+ */
+export interface LagAlertPolicy {
+    warningThreshold: number;
+    criticalThreshold: number;
+    stuckAfterMinutes: number;
+    muted: boolean;
+    /** Index of the matching rule, undefined when the global thresholds apply */
+    ruleIndex?: number;
+}
+
+export type LagAlertSeverity = 'ok' | 'warning' | 'critical';
+
+/**
+ * Alert state of a group after the latest poll
+ */
+export interface LagAlertState {
+    clusterName: string;
+    groupId: string;
+    totalLag: number;
+    severity: LagAlertSeverity;
+    /** Partitions whose committed offset has not moved for `stuckAfterMinutes`, as topic-partition */
+    stuckPartitions: string[];
+    timestamp: number;
+}
+
+/**
+ * When a partition's committed offset last changed
+ */
+export interface CommitProgress {
+    offset: string;
+    since: number;
+}
+
+interface CompiledLagAlertRule {
+    rule: LagAlertRule;
+    index: number;
+    cluster?: RegExp;
+    group?: RegExp;
+}
+
+/**
+ * Compiled `kafka.lagAlerts.rules`
+ * Entries with invalid patterns or thresholds are skipped and reported in `errors`
+ */
+export class LagAlertRuleSet {
+    readonly errors: string[] = [];
+    private readonly rules: CompiledLagAlertRule[] = [];
+
+    constructor(raw: unknown) {
+        if (raw === undefined || raw === null) {
+            return;
+        }
+        if (!Array.isArray(raw)) {
+            this.errors.push('kafka.lagAlerts.rules must be an array');
+            return;
+        }
+
+        raw.forEach((entry, index) => {
+            try {
+                this.rules.push(compileRule(entry, index));
+            } catch (error: any) {
+                this.errors.push(`Lag alert rule ${index + 1}: ${error.message}`);
+            }
+        });
+    }
+
+    /**
+     * Settings for a group: the first matching rule, with unset fields taken from the defaults
+     */
+    resolve(clusterName: string, groupId: string, defaults: Omit<LagAlertPolicy, 'muted' | 'ruleIndex'>): LagAlertPolicy {
+        const match = this.rules.find(r => (!r.cluster || r.cluster.test(clusterName)) && (!r.group || r.group.test(groupId)));
+        if (!match) {
+            return { ...defaults, muted: false };
+        }
+
+        return {
+            warningThreshold: match.rule.warningThreshold ?? defaults.warningThreshold,
+            criticalThreshold: match.rule.criticalThreshold ?? defaults.criticalThreshold,
+            stuckAfterMinutes: match.rule.stuckAfterMinutes ?? defaults.stuckAfterMinutes,
+            muted: match.rule.muted === true,
+            ruleIndex: match.index
+        };
+    }
+}
+
+function compileRule(entry: any, index: number): CompiledLagAlertRule {
+    if (!entry || typeof entry !== 'object') {
+        throw new Error('must be an object');
+    }
+    if (entry.cluster === undefined && entry.group === undefined) {
+        throw new Error('needs a "cluster" or "group" pattern');
+    }
+
+    const compiled: CompiledLagAlertRule = { rule: entry, index };
+    for (const field of ['cluster', 'group'] as const) {
+        if (entry[field] === undefined) {
+            continue;
+        }
+        if (typeof entry[field] !== 'string') {
+            throw new Error(`"${field}" must be a string`);
+        }
+        try {
+            compiled[field] = new RegExp(entry[field]);
+        } catch (error: any) {
+            throw new Error(`invalid "${field}" pattern: ${error.message}`);
+        }
+    }
+
+    for (const field of ['warningThreshold', 'criticalThreshold', 'stuckAfterMinutes'] as const) {
+        if (entry[field] !== undefined && (typeof entry[field] !== 'number' || entry[field] < 0)) {
+            throw new Error(`"${field}" must be a non-negative number`);
+        }
+    }
+    return compiled;
+}
+
+/**
+ * Severity of a total lag under a policy
+ */
+export function getLagSeverity(totalLag: number, policy: LagAlertPolicy): LagAlertSeverity {
+    if (totalLag >= policy.criticalThreshold) {
+        return 'critical';
+    }
+    return totalLag >= policy.warningThreshold ? 'warning' : 'ok';
+}
+
+/**
+ * Carry the time an offset was first seen forward while it does not change
+ */
+export function trackCommitProgress(previous: CommitProgress | undefined, offset: string, now: number): CommitProgress {
+    return previous && previous.offset === offset ? previous : { offset, since: now };
+}
+
+/**
+ * A partition is stuck when it has lag and its committed offset has not moved for `stuckAfterMinutes`
+ */
+export function isPartitionStuck(progress: CommitProgress, lag: number, stuckAfterMinutes: number, now: number): boolean {
+    return stuckAfterMinutes > 0 && lag > 0 && now - progress.since >= stuckAfterMinutes * 60 * 1000;
+}
+
+/**
+ * Whether a state should be surfaced in alerts, the status bar and tree decorations
+ */
+export function isAlerting(state: LagAlertState): boolean {
+    return state.severity !== 'ok' || state.stuckPartitions.length > 0;
+}
@@ -0,0 +1,288 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/Logger';
+
+/**
+ * Offsets of one partition at a point in time
+ * Offsets are kept as numbers so rates can be computed; they stay exact up to 2^53
+ */
+export interface LagSample {
+    timestamp: number;
+    committedOffset: number;
+    logEndOffset: number;
+}
+
+/**
+ * Recorded samples of one partition, oldest first
+ */
+export interface PartitionLagHistory {
+    topic: string;
+    partition: number;
+    samples: LagSample[];
+}
+
+/**
+ * Offsets summed over all partitions of a group at one poll
+ */
+export interface GroupLagPoint {
+    timestamp: number;
+    committedOffset: number;
+    logEndOffset: number;
+    lag: number;
+}
+
+export type LagTrendStatus = 'unknown' | 'caught-up' | 'catching-up' | 'falling-behind' | 'stuck';
+
+/**
+ * Produce and consume rates of a group over a recent window
+ */
+export interface LagTrend {
+    status: LagTrendStatus;
+    /** Lag at the newest point */
+    lag: number;
+    /** Messages per second written to the consumed partitions */
+    produceRate: number;
+    /** Messages per second committed by the group */
+    consumeRate: number;
+    /** Seconds until the lag reaches zero at the current rates; only set while catching up */
+    secondsToDrain?: number;
+    /** Time between the first and last point the rates were computed from */
+    windowSeconds: number;
+}
+
+/**
+ * Offsets of one partition observed by a poll
+ */
+export interface PartitionOffsetObservation {
+    topic: string;
+    partition: number;
+    committedOffset: string | number;
+    logEndOffset: string | number;
+}
+
+/**
+ * On-disk layout: one file per cluster, samples as [timestamp, committed, logEnd] tuples to keep files small
+ */
+interface LagHistoryFile {
+    version: 1;
+    clusterName: string;
+    groups: Record<string, Record<string, Array<[number, number, number]>>>;
+}
+
+export const LAG_HISTORY_FOLDER = 'lag-history';
+
+const DEFAULT_TREND_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Sum the partition series of a group into one point per poll
+ * Partitions recorded by the same poll share a timestamp
+ */
+export function summarizeGroupHistory(partitions: PartitionLagHistory[]): GroupLagPoint[] {
+    const byTimestamp = new Map<number, GroupLagPoint>();
+
+    for (const { samples } of partitions) {
+        for (const sample of samples) {
+            const point = byTimestamp.get(sample.timestamp)
+                ?? { timestamp: sample.timestamp, committedOffset: 0, logEndOffset: 0, lag: 0 };
+            point.committedOffset += sample.committedOffset;
+            point.logEndOffset += sample.logEndOffset;
+            point.lag += Math.max(0, sample.logEndOffset - sample.committedOffset);
+            byTimestamp.set(sample.timestamp, point);
+        }
+    }
+
+    return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Compare how fast a group consumes with how fast its partitions grow, over the most recent window
+ * A group with lag whose committed offsets did not move in the window is "stuck"
+ */
+export function analyzeLagTrend(points: GroupLagPoint[], windowMs: number = DEFAULT_TREND_WINDOW_MS): LagTrend {
+    if (points.length === 0) {
+        return { status: 'unknown', lag: 0, produceRate: 0, consumeRate: 0, windowSeconds: 0 };
+    }
+
+    const last = points[points.length - 1];
+    const first = points.find(p => p.timestamp >= last.timestamp - windowMs) ?? last;
+    const windowSeconds = (last.timestamp - first.timestamp) / 1000;
+
+    const produceRate = windowSeconds > 0 ? (last.logEndOffset - first.logEndOffset) / windowSeconds : 0;
+    const consumeRate = windowSeconds > 0 ? (last.committedOffset - first.committedOffset) / windowSeconds : 0;
+    const trend: LagTrend = { status: 'unknown', lag: last.lag, produceRate, consumeRate, windowSeconds };
+
+    if (last.lag === 0) {
+        trend.status = 'caught-up';
+    } else if (windowSeconds === 0) {
+        trend.status = 'unknown';
+    } else if (consumeRate <= 0) {
+        trend.status = 'stuck';
+    } else if (consumeRate > produceRate) {
+        trend.status = 'catching-up';
+        trend.secondsToDrain = last.lag / (consumeRate - produceRate);
+    } else {
+        trend.status = 'falling-behind';
+    }
+
+    return trend;
+}
+
+/**
+ * Keeps a bounded time series of per-partition consumer group offsets in the extension's global storage
+ * Samples are held in memory and written per cluster by flush()
+ */
+export class LagHistoryStore {
+    private logger = Logger.getLogger('LagHistoryStore');
+    private clusters = new Map<string, LagHistoryFile>();
+    private dirty = new Set<string>();
+
+    constructor(private readonly storageUri: vscode.Uri) {}
+
+    /**
+     * Record one poll of a group; partitions without a committed offset are skipped
+     */
+    async record(
+        clusterName: string,
+        groupId: string,
+        partitions: PartitionOffsetObservation[],
+        timestamp: number = Date.now()
+    ): Promise<void> {
+        const history = await this.load(clusterName);
+        const group = history.groups[groupId] ?? {};
+
+        for (const observation of partitions) {
+            const committed = Number(observation.committedOffset);
+            const logEnd = Number(observation.logEndOffset);
+            if (!Number.isFinite(committed) || committed < 0 || !Number.isFinite(logEnd)) {
+                continue;
+            }
+            const key = `${observation.topic}:${observation.partition}`;
+            if (!group[key]) {
+                group[key] = [];
+            }
+            group[key].push([timestamp, committed, logEnd]);
+        }
+
+        if (Object.keys(group).length > 0) {
+            history.groups[groupId] = group;
+        }
+        // Only the recorded group is trimmed here; groups that are no longer polled are dropped on flush
+        this.pruneGroup(history, groupId, this.getRetention(timestamp));
+        this.dirty.add(clusterName);
+    }
+
+    /**
+     * Recorded partitions of a group, sorted by topic and partition
+     */
+    async getGroupHistory(clusterName: string, groupId: string): Promise<PartitionLagHistory[]> {
+        const history = await this.load(clusterName);
+        return toPartitionHistory(history.groups[groupId] ?? {});
+    }
+
+    /**
+     * Recorded partitions of every group in a cluster
+     */
+    async getClusterHistory(clusterName: string): Promise<Map<string, PartitionLagHistory[]>> {
+        const history = await this.load(clusterName);
+        return new Map(Object.entries(history.groups).map(([groupId, group]) => [groupId, toPartitionHistory(group)]));
+    }
+
+    /**
+     * Write clusters with new samples to disk
+     */
+    async flush(): Promise<void> {
+        if (this.dirty.size === 0) {
+            return;
+        }
+
+        const folder = vscode.Uri.joinPath(this.storageUri, LAG_HISTORY_FOLDER);
+        await vscode.workspace.fs.createDirectory(folder);
+        const retention = this.getRetention(Date.now());
+
+        for (const clusterName of [...this.dirty]) {
+            const history = this.clusters.get(clusterName)!;
+            for (const groupId of Object.keys(history.groups)) {
+                this.pruneGroup(history, groupId, retention);
+            }
+            try {
+                await vscode.workspace.fs.writeFile(this.getFile(clusterName), Buffer.from(JSON.stringify(history), 'utf8'));
+                this.dirty.delete(clusterName);
+            } catch (error: any) {
+                this.logger.error(`Failed to write lag history of cluster ${clusterName}`, error);
+            }
+        }
+    }
+
+    private async load(clusterName: string): Promise<LagHistoryFile> {
+        const cached = this.clusters.get(clusterName);
+        if (cached) {
+            return cached;
+        }
+
+        let history: LagHistoryFile = { version: 1, clusterName, groups: {} };
+        try {
+            const raw = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(this.getFile(clusterName))).toString('utf8'));
+            if (raw?.version === 1 && raw.groups && typeof raw.groups === 'object') {
+                history = { version: 1, clusterName, groups: raw.groups };
+            } else {
+                this.logger.warn(`Ignoring lag history of cluster ${clusterName} in an unknown format`);
+            }
+        } catch {
+            // Nothing recorded yet
+        }
+
+        this.clusters.set(clusterName, history);
+        return history;
+    }
+
+    private getRetention(now: number): { cutoff: number; maxSamples: number } {
+        const config = vscode.workspace.getConfiguration('kafka.lagHistory');
+        return {
+            cutoff: now - config.get<number>('retentionHours', 24) * 60 * 60 * 1000,
+            maxSamples: config.get<number>('maxSamplesPerPartition', 2880)
+        };
+    }
+
+    /**
+     * Drop a group's samples older than the retention period and cap each partition's series
+     * Series are in recording order, so only their oldest samples are looked at
+     */
+    private pruneGroup(history: LagHistoryFile, groupId: string, retention: { cutoff: number; maxSamples: number }): void {
+        const group = history.groups[groupId];
+        if (!group) {
+            return;
+        }
+
+        for (const [key, samples] of Object.entries(group)) {
+            let expired = 0;
+            while (expired < samples.length && samples[expired][0] < retention.cutoff) {
+                expired++;
+            }
+            const dropped = Math.max(expired, samples.length - retention.maxSamples);
+            if (dropped >= samples.length) {
+                delete group[key];
+            } else if (dropped > 0) {
+                samples.splice(0, dropped);
+            }
+        }
+        if (Object.keys(group).length === 0) {
+            delete history.groups[groupId];
+        }
+    }
+
+    private getFile(clusterName: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.storageUri, LAG_HISTORY_FOLDER, `${clusterName.replace(/[^A-Za-z0-9._-]/g, '_')}.json`);
+    }
+}
+
+function toPartitionHistory(group: Record<string, Array<[number, number, number]>>): PartitionLagHistory[] {
+    return Object.entries(group)
+        .map(([key, samples]) => {
+            const separator = key.lastIndexOf(':');
+            return {
+                topic: key.slice(0, separator),
+                partition: Number(key.slice(separator + 1)),
+                samples: samples.map(([timestamp, committedOffset, logEndOffset]) => ({ timestamp, committedOffset, logEndOffset }))
+            };
+        })
+        .sort((a, b) => a.topic.localeCompare(b.topic) || a.partition - b.partition);
+}
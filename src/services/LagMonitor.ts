@@ -2,6 +2,16 @@ import * as vscode from 'vscode';
 import { KafkaClientManager } from '../kafka/kafkaClientManager';
 import { Logger } from '../infrastructure/Logger';
 import { EventBus, KafkaEvents } from '../infrastructure/EventBus';
+import { LagHistoryStore, PartitionOffsetObservation } from './LagHistoryStore';
+import {
+    CommitProgress,
+    LagAlertRuleSet,
+    LagAlertState,
+    getLagSeverity,
+    isAlerting,
+    isPartitionStuck,
+    trackCommitProgress
+} from './LagAlertRules';
 
 /**
  * Consumer Group Lag Information
@@ -16,18 +26,17 @@ export interface ConsumerGroupLag {
 }
 
 /**
- * Aggregated Lag Alert
+ * Lag of every committed partition in a cluster at the latest poll
  */
-interface LagAlert {
+export interface ClusterLagSnapshot {
     clusterName: string;
-    groupId: string;
-    totalLag: number;
-    severity: 'warning' | 'critical';
     timestamp: number;
+    partitions: ConsumerGroupLag[];
 }
 
 /**
  * Monitors consumer group lag and sends throttled alerts
+ * Thresholds, muting and stuck detection come from the first matching `kafka.lagAlerts.rules` entry
  * SEC-3.2-1: Throttle alerts (max 1 per cluster per 5 minutes)
  * SEC-3.2-2: Aggregate multiple alerts into summary
  */
@@ -36,24 +45,38 @@ export class LagMonitor {
     private intervalHandle: NodeJS.Timeout | null = null;
     private lastAlertTime: Map<string, number> = new Map(); // clusterName -> timestamp
     private readonly ALERT_THROTTLE_MS = 5 * 60 * 1000; // 5 minutes
+    private alertsEnabled = true;
+    private historyEnabled = false;
+    private alertStates: Map<string, LagAlertState[]> = new Map(); // clusterName -> alerting groups
+    private commitProgress: Map<string, Map<string, CommitProgress>> = new Map(); // clusterName -> group/partition -> progress
+    private lastRuleErrors = '';
+    private latestLag: Map<string, ClusterLagSnapshot> = new Map();
 
     constructor(
         private clientManager: KafkaClientManager,
-        private eventBus?: EventBus
+        private eventBus?: EventBus,
+        private lagHistory?: LagHistoryStore
     ) {}
 
     /**
      * Start monitoring lag for all clusters
+     * Polls when lag alerts, lag history recording or the Prometheus endpoint are enabled
      */
     public start(): void {
         const config = vscode.workspace.getConfiguration('kafka.lagAlerts');
         const enabled = config.get<boolean>('enabled', false);
+        const historyEnabled = !!this.lagHistory
+            && vscode.workspace.getConfiguration('kafka.lagHistory').get<boolean>('enabled', false);
+        const metricsEnabled = vscode.workspace.getConfiguration('kafka.prometheus').get<boolean>('enabled', false);
 
-        if (!enabled) {
+        if (!enabled && !historyEnabled && !metricsEnabled) {
             this.logger.info('Lag monitoring is disabled');
             return;
         }
 
+        this.alertsEnabled = enabled;
+        this.historyEnabled = historyEnabled;
+
         const pollIntervalSeconds = config.get<number>('pollIntervalSeconds', 30);
         const pollIntervalMs = pollIntervalSeconds * 1000;
 
@@ -89,6 +112,10 @@ export class LagMonitor {
             for (const clusterName of clusters) {
                 await this.checkClusterLag(clusterName);
             }
+
+            if (this.historyEnabled) {
+                await this.lagHistory!.flush();
+            }
         } catch (error: any) {
             this.logger.error('Error checking cluster lag', error);
         }
@@ -109,21 +136,32 @@ export class LagMonitor {
             }
 
             const config = vscode.workspace.getConfiguration('kafka.lagAlerts');
-            const warningThreshold = config.get<number>('warningThreshold', 1000);
-            const criticalThreshold = config.get<number>('criticalThreshold', 10000);
-
-            const alerts: LagAlert[] = [];
+            const defaults = {
+                warningThreshold: config.get<number>('warningThreshold', 1000),
+                criticalThreshold: config.get<number>('criticalThreshold', 10000),
+                stuckAfterMinutes: config.get<number>('stuckAfterMinutes', 15) ?? 0
+            };
+            const rules = this.getRules(config);
+
+            const alerts: LagAlertState[] = [];
+            const timestamp = Date.now();
+            const previousProgress = this.commitProgress.get(clusterName) ?? new Map<string, CommitProgress>();
+            const progress = new Map<string, CommitProgress>();
+            const lagSamples: ConsumerGroupLag[] = [];
 
             // Check each consumer group
             for (const group of groups) {
                 try {
                     const groupId = group.groupId;
+                    const policy = rules.resolve(clusterName, groupId, defaults);
                     
                     // Fetch offsets for this group
                     const offsets = await admin.fetchOffsets({ groupId });
 
                     // Calculate total lag for this group
                     let totalLag = 0;
+                    const observations: PartitionOffsetObservation[] = [];
+                    const stuckPartitions: string[] = [];
 
                     for (const topicOffsets of offsets) {
                         const topic = topicOffsets.topic;
@@ -143,27 +181,51 @@ export class LagMonitor {
                                 if (lag > 0) {
                                     totalLag += lag;
                                 }
+
+                                // Track how long the committed offset has not moved
+                                if (currentOffset >= BigInt(0)) {
+                                    lagSamples.push({
+                                        groupId,
+                                        topic,
+                                        partition,
+                                        currentOffset: partitionOffset.offset,
+                                        logEndOffset: partitionInfo.high,
+                                        lag: Math.max(0, lag)
+                                    });
+
+                                    const key = `${groupId}\n${topic}-${partition}`;
+                                    const partitionProgress = trackCommitProgress(previousProgress.get(key), partitionOffset.offset, timestamp);
+                                    progress.set(key, partitionProgress);
+                                    if (isPartitionStuck(partitionProgress, lag, policy.stuckAfterMinutes, timestamp)) {
+                                        stuckPartitions.push(`${topic}-${partition}`);
+                                    }
+                                }
+
+                                observations.push({
+                                    topic,
+                                    partition,
+                                    committedOffset: partitionOffset.offset,
+                                    logEndOffset: partitionInfo.high
+                                });
                             }
                         }
                     }
 
-                    // Check if lag exceeds thresholds
-                    if (totalLag >= criticalThreshold) {
-                        alerts.push({
-                            clusterName,
-                            groupId,
-                            totalLag,
-                            severity: 'critical',
-                            timestamp: Date.now()
-                        });
-                    } else if (totalLag >= warningThreshold) {
-                        alerts.push({
-                            clusterName,
-                            groupId,
-                            totalLag,
-                            severity: 'warning',
-                            timestamp: Date.now()
-                        });
+                    if (this.historyEnabled) {
+                        await this.lagHistory!.record(clusterName, groupId, observations, timestamp);
+                    }
+
+                    // Check if lag exceeds thresholds or partitions are stuck
+                    const state: LagAlertState = {
+                        clusterName,
+                        groupId,
+                        totalLag,
+                        severity: getLagSeverity(totalLag, policy),
+                        stuckPartitions,
+                        timestamp
+                    };
+                    if (!policy.muted && isAlerting(state)) {
+                        alerts.push(state);
                     }
                 } catch (error: any) {
                     // Skip groups that fail (might be in rebalancing, etc.)
@@ -171,6 +233,13 @@ export class LagMonitor {
                 }
             }
 
+            this.commitProgress.set(clusterName, progress);
+            this.latestLag.set(clusterName, { clusterName, timestamp, partitions: lagSamples });
+            if (!this.alertsEnabled) {
+                return;
+            }
+            this.updateAlertStates(clusterName, alerts);
+
             // Send aggregated alerts if any
             if (alerts.length > 0) {
                 this.sendAggregatedAlert(clusterName, alerts);
@@ -180,12 +249,49 @@ export class LagMonitor {
         }
     }
 
+    /**
+     * Groups that were over a threshold or stuck at the latest poll, excluding muted groups
+     */
+    public getAlertStates(clusterName?: string): LagAlertState[] {
+        if (clusterName) {
+            return [...(this.alertStates.get(clusterName) ?? [])];
+        }
+        return [...this.alertStates.values()].flat();
+    }
+
+    /**
+     * Per-partition lag of every cluster polled so far, from the latest poll of each
+     */
+    public getLatestLag(): ClusterLagSnapshot[] {
+        return [...this.latestLag.values()];
+    }
+
+    private updateAlertStates(clusterName: string, alerts: LagAlertState[]): void {
+        this.alertStates.set(clusterName, alerts);
+        if (this.eventBus) {
+            this.eventBus.emitSync(KafkaEvents.LAG_ALERT_STATE_CHANGED, { clusterName, alertCount: alerts.length });
+        }
+    }
+
+    /**
+     * Compile the configured rules, logging invalid entries once per change
+     */
+    private getRules(config: vscode.WorkspaceConfiguration): LagAlertRuleSet {
+        const rules = new LagAlertRuleSet(config.get<unknown>('rules', []));
+        const errors = rules.errors.join('; ');
+        if (errors && errors !== this.lastRuleErrors) {
+            this.logger.warn(`Ignoring invalid lag alert rules: ${errors}`);
+        }
+        this.lastRuleErrors = errors;
+        return rules;
+    }
+
     /**
      * Send aggregated alert with throttling
      * SEC-3.2-1: Max 1 alert per cluster per 5 minutes
      * SEC-3.2-2: Aggregate multiple alerts into summary
      */
-    private sendAggregatedAlert(clusterName: string, alerts: LagAlert[]): void {
+    private sendAggregatedAlert(clusterName: string, alerts: LagAlertState[]): void {
         const now = Date.now();
         const lastAlert = this.lastAlertTime.get(clusterName) || 0;
 
@@ -198,6 +304,7 @@ export class LagMonitor {
         // SEC-3.2-2: Aggregate alerts
         const criticalAlerts = alerts.filter(a => a.severity === 'critical');
         const warningAlerts = alerts.filter(a => a.severity === 'warning');
+        const stuckAlerts = alerts.filter(a => a.stuckPartitions.length > 0);
 
         let message = `⚠️ Consumer Lag Alert - ${clusterName}\n\n`;
 
@@ -220,10 +327,22 @@ export class LagMonitor {
             if (warningAlerts.length > 3) {
                 message += `  • ... and ${warningAlerts.length - 3} more\n`;
             }
+            message += '\n';
+        }
+
+        if (stuckAlerts.length > 0) {
+            message += `⏸️ Stuck (${stuckAlerts.length} groups):\n`;
+            stuckAlerts.slice(0, 3).forEach(alert => {
+                message += `  • ${alert.groupId}: no commits on ${alert.stuckPartitions.slice(0, 3).join(', ')}`
+                    + `${alert.stuckPartitions.length > 3 ? ` and ${alert.stuckPartitions.length - 3} more partitions` : ''}\n`;
+            });
+            if (stuckAlerts.length > 3) {
+                message += `  • ... and ${stuckAlerts.length - 3} more\n`;
+            }
         }
 
         // Show notification
-        if (criticalAlerts.length > 0) {
+        if (criticalAlerts.length > 0 || stuckAlerts.length > 0) {
             vscode.window.showErrorMessage(message, 'View Dashboard').then(selection => {
                 if (selection === 'View Dashboard') {
                     vscode.commands.executeCommand('kafka.showClusterDashboard', { clusterName });
@@ -239,7 +358,7 @@ export class LagMonitor {
 
         // Update last alert time
         this.lastAlertTime.set(clusterName, now);
-        this.logger.info(`Sent aggregated lag alert for cluster ${clusterName}: ${criticalAlerts.length} critical, ${warningAlerts.length} warning`);
+        this.logger.info(`Sent aggregated lag alert for cluster ${clusterName}: ${criticalAlerts.length} critical, ${warningAlerts.length} warning, ${stuckAlerts.length} stuck`);
 
         // Emit telemetry event
         if (this.eventBus) {
@@ -247,6 +366,7 @@ export class LagMonitor {
                 clusterName,
                 criticalCount: criticalAlerts.length,
                 warningCount: warningAlerts.length,
+                stuckCount: stuckAlerts.length,
                 totalGroups: alerts.length
             });
         }
@@ -0,0 +1,300 @@
+import { performance } from 'perf_hooks';
+
+/**
+ * Settings for a producer load test
+ * The run ends when the duration elapses or the total count is reached, whichever comes first
+ */
+export interface LoadTestOptions {
+    /** Target send rate in messages per second */
+    ratePerSecond: number;
+    durationSeconds?: number;
+    totalMessages?: number;
+    /** Maximum number of sends awaiting an acknowledgement */
+    concurrency: number;
+}
+
+/**
+ * Progress of a running load test, reported once per interval
+ * Throughput and latency percentiles cover the last interval only
+ */
+export interface LoadTestSnapshot {
+    elapsedMs: number;
+    sent: number;
+    errors: number;
+    inFlight: number;
+    throughput: number;
+    errorRate: number;
+    p50: number;
+    p95: number;
+    p99: number;
+}
+
+export interface LatencySummary {
+    min: number;
+    mean: number;
+    p50: number;
+    p95: number;
+    p99: number;
+    max: number;
+}
+
+/**
+ * Report produced at the end of a load test
+ */
+export interface LoadTestSummary {
+    options: LoadTestOptions;
+    durationMs: number;
+    sent: number;
+    errors: number;
+    averageThroughput: number;
+    latency: LatencySummary;
+    /** Most frequent error messages, most frequent first */
+    topErrors: Array<{ message: string; count: number }>;
+    stoppedEarly: boolean;
+}
+
+/**
+ * Time source for the generator, replaceable in tests
+ */
+export interface LoadGeneratorClock {
+    now(): number;
+    sleep(ms: number): Promise<void>;
+}
+
+export const LOAD_TEST_LIMITS = {
+    maxRatePerSecond: 100000,
+    maxConcurrency: 1000,
+    maxDurationSeconds: 3600
+};
+
+const TICK_MS = 10;
+const PROGRESS_INTERVAL_MS = 1000;
+const RESERVOIR_SIZE = 10000;
+const TOP_ERRORS = 5;
+
+const realClock: LoadGeneratorClock = {
+    now: () => performance.now(),
+    sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * Check load test settings
+ * @returns An error message, or undefined when the options are valid
+ */
+export function validateLoadTestOptions(options: LoadTestOptions): string | undefined {
+    const { ratePerSecond, durationSeconds, totalMessages, concurrency } = options;
+
+    if (!Number.isFinite(ratePerSecond) || ratePerSecond < 1 || ratePerSecond > LOAD_TEST_LIMITS.maxRatePerSecond) {
+        return `Rate must be between 1 and ${LOAD_TEST_LIMITS.maxRatePerSecond} messages/s`;
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > LOAD_TEST_LIMITS.maxConcurrency) {
+        return `Concurrency must be between 1 and ${LOAD_TEST_LIMITS.maxConcurrency}`;
+    }
+    if (durationSeconds === undefined && totalMessages === undefined) {
+        return 'Set a duration, a total message count, or both';
+    }
+    if (durationSeconds !== undefined &&
+        (!Number.isFinite(durationSeconds) || durationSeconds < 1 || durationSeconds > LOAD_TEST_LIMITS.maxDurationSeconds)) {
+        return `Duration must be between 1 and ${LOAD_TEST_LIMITS.maxDurationSeconds} seconds`;
+    }
+    if (totalMessages !== undefined && (!Number.isInteger(totalMessages) || totalMessages < 1)) {
+        return 'Total message count must be a positive integer';
+    }
+    return undefined;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+        return 0;
+    }
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Keeps a uniform sample of latencies so long runs use bounded memory
+ */
+export class LatencyReservoir {
+    private samples: number[] = [];
+    private seen = 0;
+    private sum = 0;
+    private min = Infinity;
+    private max = 0;
+
+    constructor(
+        private readonly capacity: number = RESERVOIR_SIZE,
+        private readonly random: () => number = Math.random
+    ) {}
+
+    add(latencyMs: number): void {
+        this.seen++;
+        this.sum += latencyMs;
+        this.min = Math.min(this.min, latencyMs);
+        this.max = Math.max(this.max, latencyMs);
+
+        if (this.samples.length < this.capacity) {
+            this.samples.push(latencyMs);
+        } else {
+            // Algorithm R: every value seen so far has the same chance of being kept
+            const index = Math.floor(this.random() * this.seen);
+            if (index < this.capacity) {
+                this.samples[index] = latencyMs;
+            }
+        }
+    }
+
+    summary(): LatencySummary {
+        if (this.seen === 0) {
+            return { min: 0, mean: 0, p50: 0, p95: 0, p99: 0, max: 0 };
+        }
+        const sorted = [...this.samples].sort((a, b) => a - b);
+        return {
+            min: this.min,
+            mean: this.sum / this.seen,
+            p50: percentile(sorted, 50),
+            p95: percentile(sorted, 95),
+            p99: percentile(sorted, 99),
+            max: this.max
+        };
+    }
+}
+
+/**
+ * Sends messages at a target rate with bounded concurrency and measures acknowledgement latency
+ * The caller supplies the send function, so the generator knows nothing about Kafka. It calls `markSent`
+ * once the message is built and right before the request goes out, so latency leaves out building it;
+ * without that call latency is measured from dispatch.
+ */
+export class LoadGenerator {
+    private stopped = false;
+    private dispatched = 0;
+    private sent = 0;
+    private errors = 0;
+    private inFlight = new Set<Promise<void>>();
+    private errorCounts = new Map<string, number>();
+    private latencies: LatencyReservoir;
+
+    // Counters for the current progress interval
+    private intervalSent = 0;
+    private intervalErrors = 0;
+    private intervalLatencies: number[] = [];
+
+    constructor(
+        private readonly options: LoadTestOptions,
+        private readonly send: (seq: number, markSent: () => void) => Promise<void>,
+        private readonly onProgress?: (snapshot: LoadTestSnapshot) => void,
+        private readonly clock: LoadGeneratorClock = realClock
+    ) {
+        const error = validateLoadTestOptions(options);
+        if (error) {
+            throw new Error(error);
+        }
+        this.latencies = new LatencyReservoir();
+    }
+
+    /**
+     * Request the run to end; messages already in flight are still awaited
+     */
+    stop(): void {
+        this.stopped = true;
+    }
+
+    async run(): Promise<LoadTestSummary> {
+        const { ratePerSecond, durationSeconds, totalMessages, concurrency } = this.options;
+        const start = this.clock.now();
+        const deadline = durationSeconds !== undefined ? start + durationSeconds * 1000 : Infinity;
+        const total = totalMessages ?? Infinity;
+        let intervalStart = start;
+
+        while (!this.stopped) {
+            const now = this.clock.now();
+            if (now >= deadline || this.dispatched >= total) {
+                break;
+            }
+
+            // Messages due by now on the target schedule; a backlog is caught up as concurrency allows
+            const due = Math.min(total, Math.floor(((now - start) / 1000) * ratePerSecond) + 1);
+            while (this.dispatched < due && this.inFlight.size < concurrency) {
+                this.dispatch(++this.dispatched);
+            }
+
+            if (now - intervalStart >= PROGRESS_INTERVAL_MS) {
+                this.reportProgress(now - start, now - intervalStart);
+                intervalStart = now;
+            }
+
+            await this.clock.sleep(TICK_MS);
+        }
+
+        const stoppedEarly = this.stopped;
+        this.stopped = true;
+        await Promise.all(this.inFlight);
+
+        const end = this.clock.now();
+        this.reportProgress(end - start, Math.max(end - intervalStart, 1));
+
+        const durationMs = end - start;
+        return {
+            options: this.options,
+            durationMs,
+            sent: this.sent,
+            errors: this.errors,
+            averageThroughput: durationMs > 0 ? this.sent / (durationMs / 1000) : this.sent,
+            latency: this.latencies.summary(),
+            topErrors: [...this.errorCounts.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, TOP_ERRORS)
+                .map(([message, count]) => ({ message, count })),
+            stoppedEarly
+        };
+    }
+
+    private dispatch(seq: number): void {
+        let sentAt = this.clock.now();
+        const markSent = () => {
+            sentAt = this.clock.now();
+        };
+        const pending: Promise<void> = this.send(seq, markSent)
+            .then(() => {
+                const latency = this.clock.now() - sentAt;
+                this.sent++;
+                this.intervalSent++;
+                this.latencies.add(latency);
+                this.intervalLatencies.push(latency);
+            })
+            .catch((error: any) => {
+                this.errors++;
+                this.intervalErrors++;
+                const message = error?.message || String(error);
+                this.errorCounts.set(message, (this.errorCounts.get(message) || 0) + 1);
+            })
+            .finally(() => {
+                this.inFlight.delete(pending);
+            });
+        this.inFlight.add(pending);
+    }
+
+    private reportProgress(elapsedMs: number, intervalMs: number): void {
+        const sorted = this.intervalLatencies.sort((a, b) => a - b);
+        const seconds = intervalMs / 1000;
+
+        this.onProgress?.({
+            elapsedMs,
+            sent: this.sent,
+            errors: this.errors,
+            inFlight: this.inFlight.size,
+            throughput: this.intervalSent / seconds,
+            errorRate: this.intervalErrors / seconds,
+            p50: percentile(sorted, 50),
+            p95: percentile(sorted, 95),
+            p99: percentile(sorted, 99)
+        });
+
+        this.intervalSent = 0;
+        this.intervalErrors = 0;
+        this.intervalLatencies = [];
+    }
+}
@@ -0,0 +1,278 @@
+import { createReadStream, promises as fs } from 'fs';
+import * as readline from 'readline';
+import { StoredMessage } from './MessageStore';
+import { KAFKA_ENVELOPE_FORMAT, parseKafkaEnvelope } from '../utils/kafkaEnvelope';
+
+/**
+ * How replayed messages are assigned to partitions of the target topic
+ * - keep: the partition the message was read from
+ * - partitioner: left to the producer's partitioner (by key)
+ * - map: `partitionMap` entries, with unmapped partitions kept
+ */
+export type ReplayPartitioning = 'keep' | 'partitioner' | 'map';
+
+export interface ReplayOptions {
+    partitioning: ReplayPartitioning;
+    partitionMap?: Map<number, number>;
+    /** Produce with the original timestamps instead of the time of replay */
+    keepTimestamps: boolean;
+    /** Messages per second; unlimited when unset */
+    ratePerSecond?: number;
+    /** Added to every message, replacing headers of the same name */
+    addHeaders?: Record<string, string>;
+    removeHeaders?: string[];
+    /** Count what would be produced without sending anything */
+    dryRun?: boolean;
+}
+
+/**
+ * A message as passed to produceAdvancedMessages
+ */
+export interface ReplayMessage {
+    key?: Buffer;
+    value: Buffer | null;
+    partition?: number;
+    headers?: Record<string, string | Buffer | Array<string | Buffer>>;
+    timestamp?: string;
+}
+
+export interface ReplayProgress {
+    read: number;
+    sent: number;
+    /** Messages per target partition; 'auto' for messages left to the partitioner */
+    partitions: Map<number | 'auto', number>;
+}
+
+export interface ReplayResult extends ReplayProgress {
+    cancelled: boolean;
+}
+
+/**
+ * Time source for rate limiting, replaceable in tests
+ */
+export interface ReplayClock {
+    now(): number;
+    sleep(ms: number): Promise<void>;
+}
+
+const MAX_BATCH_SIZE = 500;
+
+const realClock: ReplayClock = {
+    now: () => Date.now(),
+    sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * Parse partition remappings such as `0=3, 1=3, 2=4`
+ * @throws Error naming the first invalid entry
+ */
+export function parsePartitionMap(text: string): Map<number, number> {
+    const map = new Map<number, number>();
+    for (const entry of text.split(',').map(e => e.trim()).filter(e => e.length > 0)) {
+        const match = /^(\d+)\s*(?:=|->|:)\s*(\d+)$/.exec(entry);
+        if (!match) {
+            throw new Error(`Invalid partition mapping "${entry}", expected source=target`);
+        }
+        map.set(Number(match[1]), Number(match[2]));
+    }
+    if (map.size === 0) {
+        throw new Error('Enter at least one partition mapping, e.g. 0=3');
+    }
+    return map;
+}
+
+/**
+ * Parse headers to add, such as `replayed-from=incident-42, env=staging`
+ * @throws Error naming the first entry without a name
+ */
+export function parseHeaderList(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const entry of text.split(',').map(e => e.trim()).filter(e => e.length > 0)) {
+        const separator = entry.indexOf('=');
+        const name = separator < 0 ? '' : entry.slice(0, separator).trim();
+        if (!name) {
+            throw new Error(`Invalid header "${entry}", expected name=value`);
+        }
+        headers[name] = entry.slice(separator + 1).trim();
+    }
+    return headers;
+}
+
+/**
+ * Read messages from a file written by the consumer's export: Kafka envelope or NDJSON lines, or a JSON array
+ * Envelopes replay the exact bytes; decoded exports replay the key and value text as UTF-8
+ * @throws Error with the line or item number of the first message that cannot be read
+ */
+export async function* readReplayFile(file: string): AsyncGenerator<StoredMessage> {
+    if (await startsWithArray(file)) {
+        const items = JSON.parse(await fs.readFile(file, 'utf8'));
+        for (let i = 0; i < items.length; i++) {
+            yield parseReplayItem(items[i], `Item ${i + 1}`);
+        }
+        return;
+    }
+
+    const lines = readline.createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+    let number = 0;
+    try {
+        for await (const line of lines) {
+            number++;
+            if (line.trim().length === 0) {
+                continue;
+            }
+            let item: unknown;
+            try {
+                item = JSON.parse(line);
+            } catch {
+                throw new Error(`Line ${number} is not JSON; only JSON, NDJSON and Kafka envelope exports can be replayed`);
+            }
+            yield parseReplayItem(item, `Line ${number}`);
+        }
+    } finally {
+        lines.close();
+    }
+}
+
+/**
+ * Apply partitioning, timestamp and header options to a message read from a file
+ */
+export function toReplayMessage(message: StoredMessage, options: ReplayOptions): ReplayMessage {
+    let partition: number | undefined;
+    if (options.partitioning === 'keep') {
+        partition = message.partition;
+    } else if (options.partitioning === 'map') {
+        partition = options.partitionMap?.get(message.partition) ?? message.partition;
+    }
+
+    const headers: Record<string, string | Buffer | Array<string | Buffer>> = {};
+    const removed = new Set(options.removeHeaders ?? []);
+    for (const [name, value] of Object.entries(message.headers ?? {})) {
+        if (!removed.has(name) && value !== undefined && value !== null) {
+            headers[name] = value as string | Buffer | Array<string | Buffer>;
+        }
+    }
+    Object.assign(headers, options.addHeaders);
+
+    return {
+        key: message.key ?? undefined,
+        value: message.value,
+        partition,
+        headers: Object.keys(headers).length > 0 ? headers : undefined,
+        timestamp: options.keepTimestamps ? message.timestamp : undefined
+    };
+}
+
+/**
+ * Produce messages in batches, no faster than the configured rate
+ * The caller supplies the send function, so replay knows nothing about Kafka; a dry run never calls it
+ */
+export async function replayMessages(
+    messages: AsyncIterable<StoredMessage>,
+    send: (batch: ReplayMessage[]) => Promise<void>,
+    options: ReplayOptions,
+    control: {
+        isCancelled?: () => boolean;
+        onProgress?: (progress: ReplayProgress) => void;
+        clock?: ReplayClock;
+    } = {}
+): Promise<ReplayResult> {
+    const clock = control.clock ?? realClock;
+    const rate = options.ratePerSecond;
+    // Small batches keep a limited rate smooth: about ten sends a second
+    const batchSize = rate ? Math.max(1, Math.min(MAX_BATCH_SIZE, Math.floor(rate / 10))) : MAX_BATCH_SIZE;
+    const progress: ReplayProgress = { read: 0, sent: 0, partitions: new Map() };
+    const start = clock.now();
+    let batch: ReplayMessage[] = [];
+    let cancelled = false;
+
+    const flush = async () => {
+        if (batch.length === 0) {
+            return;
+        }
+        if (rate && !options.dryRun) {
+            // Wait until the batch is due on the target schedule
+            const due = start + ((progress.sent + batch.length - 1) / rate) * 1000;
+            const wait = due - clock.now();
+            if (wait > 0) {
+                await clock.sleep(wait);
+            }
+        }
+        if (!options.dryRun) {
+            await send(batch);
+        }
+        progress.sent += batch.length;
+        batch = [];
+        control.onProgress?.(progress);
+    };
+
+    for await (const message of messages) {
+        if (control.isCancelled?.()) {
+            cancelled = true;
+            break;
+        }
+        const replayed = toReplayMessage(message, options);
+        const target = replayed.partition ?? 'auto';
+        progress.partitions.set(target, (progress.partitions.get(target) ?? 0) + 1);
+        progress.read++;
+        batch.push(replayed);
+
+        if (batch.length >= batchSize) {
+            await flush();
+        }
+    }
+
+    if (!cancelled) {
+        await flush();
+    }
+    return { ...progress, cancelled };
+}
+
+async function startsWithArray(file: string): Promise<boolean> {
+    const handle = await fs.open(file, 'r');
+    try {
+        const buffer = Buffer.alloc(256);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+        return buffer.toString('utf8', 0, bytesRead).replace(/^\uFEFF/, '').trimStart().startsWith('[');
+    } finally {
+        await handle.close();
+    }
+}
+
+function parseReplayItem(item: any, location: string): StoredMessage {
+    try {
+        if (item?.format === KAFKA_ENVELOPE_FORMAT) {
+            return parseKafkaEnvelope(item);
+        }
+        return fromDecodedMessage(item);
+    } catch (error: any) {
+        throw new Error(`${location}: ${error.message}`);
+    }
+}
+
+/**
+ * Message from a JSON or NDJSON export; key, value and headers are the decoded text
+ */
+function fromDecodedMessage(item: any): StoredMessage {
+    if (!item || typeof item !== 'object' || Array.isArray(item) || !('value' in item)) {
+        throw new Error('Not an exported message (expected a Kafka envelope or an object with a value)');
+    }
+    if (!Number.isInteger(item.partition) || item.partition < 0) {
+        throw new Error('"partition" must be a non-negative integer');
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(item.headers ?? {})) {
+        headers[name] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+
+    return {
+        topic: String(item.topic ?? ''),
+        partition: item.partition,
+        offset: String(item.offset ?? ''),
+        timestamp: String(item.timestamp ?? Date.now()),
+        key: item.key === null || item.key === undefined ? null : Buffer.from(String(item.key), 'utf8'),
+        value: item.value === null ? null : Buffer.from(typeof item.value === 'string' ? item.value : JSON.stringify(item.value), 'utf8'),
+        headers,
+        compression: 'none'
+    };
+}
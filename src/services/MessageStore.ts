@@ -0,0 +1,382 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CompressionName } from '../kafka/compressionCodecs';
+import { Logger } from '../infrastructure/Logger';
+
+/**
+ * A consumed message as read from Kafka, before any deserializer is applied
+ */
+export interface StoredMessage {
+    topic: string;
+    partition: number;
+    offset: string;
+    timestamp: string;
+    key: Buffer | null;
+    value: Buffer | null;
+    /** Header values as kafkajs delivers them: Buffer, string or an array of those */
+    headers?: Record<string, unknown>;
+    compression: CompressionName;
+}
+
+/**
+ * One line of the spool file; bytes are base64 and header values keep whether they were strings
+ */
+interface SpooledMessage {
+    t: string;
+    p: number;
+    o: string;
+    ts: string;
+    k: string | null;
+    v: string | null;
+    h?: Record<string, SpooledHeaderValue | SpooledHeaderValue[]>;
+    c: CompressionName;
+}
+
+type SpooledHeaderValue = { b: string } | { s: string };
+
+export const MESSAGE_SPOOL_FOLDER = 'consumer-spool';
+
+const COMPACT_CHUNK_BYTES = 1024 * 1024;
+
+let sessionCount = 0;
+
+/**
+ * Messages of one consume session, appended to a file in extension storage and read back by position
+ *
+ * Only the byte range of each message is kept in memory, so a session can hold far more messages than
+ * fit in the webview. Messages are numbered in arrival order; once more than `maxMessages` are stored
+ * the oldest are dropped. When as many messages have been dropped as the store holds, the retained
+ * messages are moved to the start of the file and the index is trimmed, so neither grows without bound.
+ */
+export class MessageStore {
+    private logger = Logger.getLogger('MessageStore');
+    private positions: number[] = [];
+    private lengths: number[] = [];
+    private keys: string[] = [];
+    private locations = new Map<string, number>();
+    /** Index of the message at positions[0] */
+    private base = 0;
+    private first = 0;
+    private compacting = false;
+    private fileSize = 0;
+    /** Bytes written to the file; appended messages beyond this are pending */
+    private written = 0;
+    private pending: Buffer[] = [];
+    private writing: Promise<void> = Promise.resolve();
+    private handle: fs.FileHandle | null;
+
+    private constructor(
+        private readonly file: string,
+        handle: fs.FileHandle,
+        private readonly maxMessages: number
+    ) {
+        this.handle = handle;
+    }
+
+    /**
+     * Create an empty store in the folder, removing spool files left behind by extension hosts that exited
+     * The folder is shared by every VS Code window, so files of running processes are kept
+     */
+    static async create(folder: string, maxMessages: number): Promise<MessageStore> {
+        await fs.mkdir(folder, { recursive: true });
+        for (const name of await fs.readdir(folder)) {
+            if (name.endsWith('.ndjson') && !isProcessRunning(spoolOwner(name))) {
+                await fs.rm(path.join(folder, name), { force: true });
+            }
+        }
+
+        const file = path.join(folder, `session-${process.pid}-${Date.now()}-${++sessionCount}.ndjson`);
+        return new MessageStore(file, await fs.open(file, 'w+'), Math.max(1, maxMessages));
+    }
+
+    /** Messages currently retained */
+    get size(): number {
+        return this.base + this.positions.length - this.first;
+    }
+
+    /** Messages dropped because the store was full */
+    get dropped(): number {
+        return this.first;
+    }
+
+    /** Index of the oldest retained message */
+    get firstIndex(): number {
+        return this.first;
+    }
+
+    /** Index of the newest message, or firstIndex - 1 when empty */
+    get lastIndex(): number {
+        return this.base + this.positions.length - 1;
+    }
+
+    /**
+     * Add a message; it can be read back once the write completes, which read() waits for
+     * @returns The index of the message
+     */
+    append(message: StoredMessage): number {
+        const line = Buffer.from(JSON.stringify(toSpooled(message)) + '\n', 'utf8');
+        const index = this.base + this.positions.length;
+        this.positions.push(this.fileSize);
+        this.lengths.push(line.length);
+        this.fileSize += line.length;
+        const key = `${message.partition}:${message.offset}`;
+        this.keys.push(key);
+        this.locations.set(key, index);
+        this.pending.push(line);
+
+        while (this.size > this.maxMessages) {
+            this.dropOldest();
+        }
+        if (!this.compacting && this.first - this.base >= this.maxMessages) {
+            this.compact();
+        }
+        return index;
+    }
+
+    /**
+     * Index of the newest stored copy of a partition offset
+     */
+    indexOf(partition: number, offset: string): number | undefined {
+        return this.locations.get(`${partition}:${offset}`);
+    }
+
+    /**
+     * Read retained messages by index; indexes that were dropped or never stored are skipped
+     * Contiguous indexes are read with a single file read
+     */
+    read(indexes: number[]): Promise<Array<{ index: number; message: StoredMessage }>> {
+        this.flush();
+        // Queued behind writes and compaction, so positions match the file while reading
+        return this.enqueue(async () => {
+            const handle = this.handle;
+            const wanted = indexes.filter(i => i >= this.first && i <= this.lastIndex);
+            if (!handle || wanted.length === 0) {
+                return [];
+            }
+
+            const result: Array<{ index: number; message: StoredMessage }> = [];
+            for (const run of toRuns(wanted)) {
+                const start = this.positions[run[0] - this.base];
+                const last = run[run.length - 1] - this.base;
+                const buffer = Buffer.alloc(this.positions[last] + this.lengths[last] - start);
+                await handle.read(buffer, 0, buffer.length, start);
+
+                for (const index of run) {
+                    const from = this.positions[index - this.base] - start;
+                    const line = buffer.toString('utf8', from, from + this.lengths[index - this.base] - 1);
+                    result.push({ index, message: fromSpooled(JSON.parse(line)) });
+                }
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Visit every retained message from oldest to newest, reading the file in chunks
+     * Messages appended while iterating are included
+     */
+    async *entries(chunkSize: number = 500): AsyncGenerator<{ index: number; message: StoredMessage }> {
+        for (let index = this.first; index <= this.lastIndex; index += chunkSize) {
+            const from = Math.max(index, this.first);
+            const to = Math.min(from + chunkSize, this.lastIndex + 1);
+            yield* await this.read(range(from, to));
+        }
+    }
+
+    /**
+     * Write appended messages to disk
+     */
+    flush(): Promise<void> {
+        if (this.pending.length > 0) {
+            const batch = Buffer.concat(this.pending);
+            this.pending = [];
+            this.enqueue(async () => {
+                // Written where the previous batch ended, which compaction may have moved
+                const position = this.written;
+                this.written += batch.length;
+                if (this.handle) {
+                    await this.handle.write(batch, 0, batch.length, position);
+                }
+            }).catch(error => this.logger.error(`Failed to write ${batch.length} bytes to ${this.file}`, error));
+        }
+        return this.writing;
+    }
+
+    /**
+     * Remove every message and truncate the file
+     */
+    async clear(): Promise<void> {
+        this.pending = [];
+        await this.writing.catch(() => undefined);
+        this.positions = [];
+        this.lengths = [];
+        this.keys = [];
+        this.locations.clear();
+        this.base = 0;
+        this.first = 0;
+        this.fileSize = 0;
+        this.written = 0;
+        await this.handle?.truncate(0);
+    }
+
+    /**
+     * Close and delete the file
+     */
+    async dispose(): Promise<void> {
+        this.pending = [];
+        await this.writing.catch(() => undefined);
+        const handle = this.handle;
+        this.handle = null;
+        try {
+            await handle?.close();
+            await fs.rm(this.file, { force: true });
+        } catch (error) {
+            this.logger.warn(`Failed to remove message spool ${this.file}`, error);
+        }
+    }
+
+    /**
+     * Run file access after everything queued before it; a failed task does not stop later ones
+     */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.writing.then(task);
+        this.writing = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    /**
+     * Move the retained messages to the start of the file and drop the index entries of older ones
+     */
+    private compact(): void {
+        this.compacting = true;
+        this.flush();
+        this.enqueue(async () => {
+            const handle = this.handle;
+            const dropped = this.first - this.base;
+            if (!handle || dropped === 0) {
+                return;
+            }
+
+            // Batches flushed while copying are queued behind this task, so the copied range is fixed
+            const start = this.positions[dropped];
+            const end = this.written;
+            const buffer = Buffer.alloc(Math.min(COMPACT_CHUNK_BYTES, end - start));
+            for (let from = start; from < end; from += buffer.length) {
+                const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, end - from), from);
+                await handle.write(buffer, 0, bytesRead, from - start);
+            }
+            await handle.truncate(end - start);
+            this.written = end - start;
+
+            const trimmed = this.first - this.base;
+            this.positions = this.positions.slice(trimmed).map(position => position - start);
+            this.lengths = this.lengths.slice(trimmed);
+            this.keys = this.keys.slice(trimmed);
+            this.base = this.first;
+            this.fileSize -= start;
+        })
+            .catch(error => this.logger.error(`Failed to compact ${this.file}`, error))
+            .finally(() => {
+                this.compacting = false;
+            });
+    }
+
+    private dropOldest(): void {
+        const index = this.first++;
+        const key = this.keys[index - this.base];
+        // A later copy of the same offset keeps its entry
+        if (this.locations.get(key) === index) {
+            this.locations.delete(key);
+        }
+    }
+}
+
+/**
+ * Process ID in a spool file name, or undefined for names written before it was included
+ */
+function spoolOwner(name: string): number | undefined {
+    const match = /^session-(\d+)-\d+-\d+\.ndjson$/.exec(name);
+    return match ? Number(match[1]) : undefined;
+}
+
+function isProcessRunning(pid: number | undefined): boolean {
+    if (pid === undefined) {
+        return false;
+    }
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        // EPERM: the process exists but belongs to another user
+        return error?.code === 'EPERM';
+    }
+}
+
+function toRuns(indexes: number[]): number[][] {
+    const runs: number[][] = [];
+    for (const index of [...indexes].sort((a, b) => a - b)) {
+        const run = runs[runs.length - 1];
+        if (run && run[run.length - 1] + 1 === index) {
+            run.push(index);
+        } else if (!run || run[run.length - 1] !== index) {
+            runs.push([index]);
+        }
+    }
+    return runs;
+}
+
+function range(from: number, to: number): number[] {
+    return Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+}
+
+function toSpooled(message: StoredMessage): SpooledMessage {
+    let headers: SpooledMessage['h'];
+    if (message.headers) {
+        headers = {};
+        for (const [name, value] of Object.entries(message.headers)) {
+            if (value !== undefined) {
+                headers[name] = Array.isArray(value) ? value.map(toSpooledHeader) : toSpooledHeader(value);
+            }
+        }
+    }
+
+    return {
+        t: message.topic,
+        p: message.partition,
+        o: message.offset,
+        ts: message.timestamp,
+        k: message.key ? message.key.toString('base64') : null,
+        v: message.value ? message.value.toString('base64') : null,
+        h: headers,
+        c: message.compression
+    };
+}
+
+function toSpooledHeader(value: unknown): SpooledHeaderValue {
+    return Buffer.isBuffer(value) ? { b: value.toString('base64') } : { s: String(value) };
+}
+
+function fromSpooled(spooled: SpooledMessage): StoredMessage {
+    let headers: Record<string, unknown> | undefined;
+    if (spooled.h) {
+        headers = {};
+        for (const [name, value] of Object.entries(spooled.h)) {
+            headers[name] = Array.isArray(value) ? value.map(fromSpooledHeader) : fromSpooledHeader(value);
+        }
+    }
+
+    return {
+        topic: spooled.t,
+        partition: spooled.p,
+        offset: spooled.o,
+        timestamp: spooled.ts,
+        key: spooled.k === null ? null : Buffer.from(spooled.k, 'base64'),
+        value: spooled.v === null ? null : Buffer.from(spooled.v, 'base64'),
+        headers,
+        compression: spooled.c
+    };
+}
+
+function fromSpooledHeader(value: SpooledHeaderValue): Buffer | string {
+    return 'b' in value ? Buffer.from(value.b, 'base64') : value.s;
+}
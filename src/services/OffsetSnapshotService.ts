@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/Logger';
+
+/**
+ * One committed offset in a snapshot
+ */
+export interface OffsetSnapshotPartition {
+    topic: string;
+    partition: number;
+    offset: string;
+    /** Log end offset when the snapshot was taken, for reference */
+    logEndOffset?: string;
+}
+
+/**
+ * A consumer group's committed offsets at a point in time
+ */
+export interface ConsumerGroupOffsetSnapshot {
+    version: 1;
+    clusterName: string;
+    groupId: string;
+    createdAt: string;
+    state?: string;
+    protocol?: string;
+    memberCount?: number;
+    offsets: OffsetSnapshotPartition[];
+}
+
+/**
+ * A snapshot kept in extension storage
+ */
+export interface StoredOffsetSnapshot {
+    uri: vscode.Uri;
+    snapshot: ConsumerGroupOffsetSnapshot;
+}
+
+export const SNAPSHOTS_FOLDER = 'offset-snapshots';
+
+/**
+ * Validate a snapshot read from a file
+ * @throws Error naming the first missing or invalid field
+ */
+export function parseOffsetSnapshot(raw: any): ConsumerGroupOffsetSnapshot {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error('Offset snapshot must be a JSON object');
+    }
+    if (raw.version !== 1) {
+        throw new Error(`Unsupported offset snapshot version: ${raw.version}`);
+    }
+    for (const field of ['clusterName', 'groupId', 'createdAt']) {
+        if (typeof raw[field] !== 'string' || !raw[field]) {
+            throw new Error(`Offset snapshot is missing "${field}"`);
+        }
+    }
+    if (!Array.isArray(raw.offsets) || raw.offsets.length === 0) {
+        throw new Error('Offset snapshot has no offsets');
+    }
+
+    const offsets: OffsetSnapshotPartition[] = raw.offsets.map((entry: any, index: number) => {
+        if (typeof entry?.topic !== 'string' || !entry.topic
+            || !Number.isInteger(entry.partition) || entry.partition < 0
+            || typeof entry.offset !== 'string' || !/^\d+$/.test(entry.offset)) {
+            throw new Error(`Offset snapshot entry ${index + 1} must have a topic, partition and non-negative offset`);
+        }
+        return {
+            topic: entry.topic,
+            partition: entry.partition,
+            offset: entry.offset,
+            ...(typeof entry.logEndOffset === 'string' && { logEndOffset: entry.logEndOffset })
+        };
+    });
+
+    return {
+        version: 1,
+        clusterName: raw.clusterName,
+        groupId: raw.groupId,
+        createdAt: raw.createdAt,
+        ...(typeof raw.state === 'string' && { state: raw.state }),
+        ...(typeof raw.protocol === 'string' && { protocol: raw.protocol }),
+        ...(typeof raw.memberCount === 'number' && { memberCount: raw.memberCount }),
+        offsets
+    };
+}
+
+/**
+ * Keeps offset snapshots in the extension's global storage, so they survive across workspaces
+ */
+export class OffsetSnapshotStore {
+    private logger = Logger.getLogger('OffsetSnapshotStore');
+
+    constructor(private readonly storageUri: vscode.Uri) {}
+
+    async save(snapshot: ConsumerGroupOffsetSnapshot): Promise<vscode.Uri> {
+        const folder = this.getFolder();
+        await vscode.workspace.fs.createDirectory(folder);
+
+        const stamp = snapshot.createdAt.replace(/[:.]/g, '-');
+        const uri = vscode.Uri.joinPath(folder, `${safeFileName(snapshot.clusterName)}__${safeFileName(snapshot.groupId)}__${stamp}.json`);
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(snapshot, null, 2) + '\n', 'utf8'));
+
+        this.logger.info(`Saved offset snapshot of "${snapshot.groupId}" to ${uri.fsPath}`);
+        return uri;
+    }
+
+    /**
+     * Stored snapshots, newest first
+     * Files that cannot be parsed are skipped and logged
+     */
+    async list(clusterName?: string): Promise<StoredOffsetSnapshot[]> {
+        const folder = this.getFolder();
+        let files: [string, vscode.FileType][];
+        try {
+            files = await vscode.workspace.fs.readDirectory(folder);
+        } catch {
+            return []; // Nothing saved yet
+        }
+
+        const snapshots: StoredOffsetSnapshot[] = [];
+        for (const [name, type] of files) {
+            if (type !== vscode.FileType.File || !name.endsWith('.json')) {
+                continue;
+            }
+            const uri = vscode.Uri.joinPath(folder, name);
+            try {
+                const snapshot = parseOffsetSnapshot(JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')));
+                if (!clusterName || snapshot.clusterName === clusterName) {
+                    snapshots.push({ uri, snapshot });
+                }
+            } catch (error: any) {
+                this.logger.warn(`Skipping offset snapshot ${uri.fsPath}: ${error?.message}`);
+            }
+        }
+
+        return snapshots.sort((a, b) => b.snapshot.createdAt.localeCompare(a.snapshot.createdAt));
+    }
+
+    private getFolder(): vscode.Uri {
+        return vscode.Uri.joinPath(this.storageUri, SNAPSHOTS_FOLDER);
+    }
+}
+
+function safeFileName(value: string): string {
+    return value.replace(/[^A-Za-z0-9._-]/g, '_');
+}
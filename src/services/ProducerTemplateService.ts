@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/Logger';
+
+/**
+ * A producer template as stored in .kafka/templates/<name>.json
+ */
+export interface ProducerTemplate {
+    name: string;
+    description?: string;
+    key?: string;
+    /** Objects are sent as JSON; strings may contain placeholders that are not valid JSON on their own */
+    value: string | Record<string, unknown> | unknown[];
+    headers?: Record<string, string>;
+    partition?: number;
+    /** Topics the template applies to, with * and ? wildcards; applies to every topic when omitted */
+    topicPattern?: string;
+}
+
+/**
+ * A template loaded from the workspace, with its value ready for the producer form
+ */
+export interface LoadedProducerTemplate extends ProducerTemplate {
+    value: string;
+    uri: vscode.Uri;
+}
+
+export const TEMPLATES_FOLDER = '.kafka/templates';
+
+/**
+ * Loads and saves producer templates shared through the workspace
+ */
+export class ProducerTemplateService {
+    private logger = Logger.getLogger('ProducerTemplateService');
+
+    /**
+     * Load all workspace templates that apply to a topic
+     * Files that cannot be parsed are skipped and logged
+     */
+    async listTemplates(topicName?: string): Promise<LoadedProducerTemplate[]> {
+        const files = await vscode.workspace.findFiles(`${TEMPLATES_FOLDER}/*.json`);
+        const templates: LoadedProducerTemplate[] = [];
+
+        for (const uri of files) {
+            try {
+                const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+                const template = parseTemplate(JSON.parse(content), fileBaseName(uri));
+                if (!topicName || matchesTopicPattern(template.topicPattern, topicName)) {
+                    templates.push({ ...template, uri });
+                }
+            } catch (error: any) {
+                this.logger.warn(`Skipping producer template ${uri.fsPath}: ${error?.message}`);
+            }
+        }
+
+        return templates.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Write a template to the first workspace folder
+     * @returns The file the template was written to
+     */
+    async saveTemplate(template: ProducerTemplate): Promise<vscode.Uri> {
+        const uri = this.getTemplateUri(template.name);
+        if (!uri) {
+            throw new Error('Open a workspace folder to save producer templates');
+        }
+
+        const stored: ProducerTemplate = { ...template };
+        if (typeof stored.value === 'string') {
+            // Keep JSON values readable in the file; values with placeholders stay strings
+            try {
+                stored.value = JSON.parse(stored.value);
+            } catch {
+                // Not JSON
+            }
+        }
+
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(stored, null, 2) + '\n', 'utf8'));
+        this.logger.info(`Saved producer template "${template.name}" to ${uri.fsPath}`);
+        return uri;
+    }
+
+    /**
+     * Check whether a template file with this name already exists
+     */
+    async templateExists(name: string): Promise<boolean> {
+        const uri = this.getTemplateUri(name);
+        if (!uri) {
+            return false;
+        }
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private getTemplateUri(name: string): vscode.Uri | undefined {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        if (!folder) {
+            return undefined;
+        }
+        return vscode.Uri.joinPath(folder.uri, TEMPLATES_FOLDER, `${toFileName(name)}.json`);
+    }
+}
+
+/**
+ * Validate a parsed template file and normalize its value to text
+ */
+export function parseTemplate(raw: any, fallbackName: string): ProducerTemplate & { value: string } {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('Template must be a JSON object');
+    }
+    if (raw.value === undefined) {
+        throw new Error('Template has no "value"');
+    }
+    if (raw.headers !== undefined && (typeof raw.headers !== 'object' || Array.isArray(raw.headers))) {
+        throw new Error('"headers" must be an object of strings');
+    }
+    if (raw.partition !== undefined && (!Number.isInteger(raw.partition) || raw.partition < 0)) {
+        throw new Error('"partition" must be a non-negative integer');
+    }
+
+    return {
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : fallbackName,
+        description: typeof raw.description === 'string' ? raw.description : undefined,
+        key: raw.key !== undefined ? String(raw.key) : undefined,
+        value: typeof raw.value === 'string' ? raw.value : JSON.stringify(raw.value, null, 2),
+        headers: raw.headers
+            ? Object.fromEntries(Object.entries(raw.headers).map(([k, v]) => [k, String(v)]))
+            : undefined,
+        partition: raw.partition,
+        topicPattern: typeof raw.topicPattern === 'string' ? raw.topicPattern : undefined
+    };
+}
+
+/**
+ * Match a topic against a template's topic pattern (* and ? wildcards)
+ */
+export function matchesTopicPattern(pattern: string | undefined, topicName: string): boolean {
+    if (!pattern || pattern.trim() === '') {
+        return true;
+    }
+    const regex = pattern
+        .trim()
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${regex}$`).test(topicName);
+}
+
+function fileBaseName(uri: vscode.Uri): string {
+    return uri.path.substring(uri.path.lastIndexOf('/') + 1).replace(/\.json$/i, '');
+}
+
+function toFileName(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+}
@@ -0,0 +1,288 @@
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { KafkaClientManager } from '../kafka/kafkaClientManager';
+import { Logger } from '../infrastructure/Logger';
+import { ClusterLagSnapshot, LagMonitor } from './LagMonitor';
+import { LagAlertState } from './LagAlertRules';
+
+/**
+ * One metric with its samples, in Prometheus text exposition terms
+ */
+export interface MetricFamily {
+    name: string;
+    help: string;
+    type: 'gauge' | 'counter';
+    samples: Array<{ labels: Record<string, string>; value: number }>;
+}
+
+/**
+ * The subset of getClusterStatistics exported per cluster
+ */
+export interface ClusterStatistics {
+    brokerCount: number;
+    topicCount: number;
+    totalPartitions: number;
+    underReplicatedPartitions: number;
+    offlinePartitions: number;
+}
+
+/**
+ * Statistics of one cluster, or the error that prevented collecting them
+ */
+export interface ClusterStatisticsResult {
+    clusterName: string;
+    statistics?: ClusterStatistics;
+    error?: string;
+}
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const CLUSTER_STATS_TTL_MS = 60 * 1000;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Render metric families in the Prometheus text exposition format (version 0.0.4)
+ */
+export function formatPrometheusMetrics(families: MetricFamily[], extraLabels: Record<string, string> = {}): string {
+    const lines: string[] = [];
+    for (const family of families) {
+        lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+        lines.push(`# TYPE ${family.name} ${family.type}`);
+        for (const sample of family.samples) {
+            const labels = Object.entries({ ...extraLabels, ...sample.labels })
+                .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+                .join(',');
+            lines.push(`${family.name}${labels ? `{${labels}}` : ''} ${formatValue(sample.value)}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Consumer group lag metrics from the lag monitor's latest polls
+ */
+export function buildLagMetricFamilies(snapshots: ClusterLagSnapshot[], alertStates: LagAlertState[]): MetricFamily[] {
+    const lag: MetricFamily = {
+        name: 'kafka_consumergroup_lag',
+        help: 'Messages between the committed offset and the log end offset',
+        type: 'gauge',
+        samples: []
+    };
+    const committed: MetricFamily = {
+        name: 'kafka_consumergroup_committed_offset',
+        help: 'Committed offset of the consumer group',
+        type: 'gauge',
+        samples: []
+    };
+    const logEnd: MetricFamily = {
+        name: 'kafka_topic_partition_log_end_offset',
+        help: 'Log end offset (high watermark) of the partition',
+        type: 'gauge',
+        samples: []
+    };
+    const lagSum: MetricFamily = {
+        name: 'kafka_consumergroup_lag_sum',
+        help: 'Total lag of the consumer group over all partitions',
+        type: 'gauge',
+        samples: []
+    };
+    const lastPoll: MetricFamily = {
+        name: 'kafka_lag_monitor_last_poll_timestamp_seconds',
+        help: 'Unix time of the latest lag poll of the cluster',
+        type: 'gauge',
+        samples: []
+    };
+
+    for (const snapshot of snapshots) {
+        const cluster = snapshot.clusterName;
+        const groupTotals = new Map<string, number>();
+        const logEndSeen = new Set<string>();
+
+        for (const p of snapshot.partitions) {
+            const partitionLabels = { cluster, group: p.groupId, topic: p.topic, partition: String(p.partition) };
+            lag.samples.push({ labels: partitionLabels, value: p.lag });
+            committed.samples.push({ labels: partitionLabels, value: Number(p.currentOffset) });
+            groupTotals.set(p.groupId, (groupTotals.get(p.groupId) ?? 0) + p.lag);
+
+            const topicPartition = `${p.topic}:${p.partition}`;
+            if (!logEndSeen.has(topicPartition)) {
+                logEndSeen.add(topicPartition);
+                logEnd.samples.push({ labels: { cluster, topic: p.topic, partition: String(p.partition) }, value: Number(p.logEndOffset) });
+            }
+        }
+
+        for (const [group, total] of groupTotals) {
+            lagSum.samples.push({ labels: { cluster, group }, value: total });
+        }
+        lastPoll.samples.push({ labels: { cluster }, value: snapshot.timestamp / 1000 });
+    }
+
+    const alerts: MetricFamily = {
+        name: 'kafka_consumergroup_lag_alert',
+        help: 'Lag alert severity of the consumer group (1 = warning, 2 = critical); muted and healthy groups are omitted',
+        type: 'gauge',
+        samples: alertStates
+            .filter(s => s.severity !== 'ok')
+            .map(s => ({ labels: { cluster: s.clusterName, group: s.groupId }, value: s.severity === 'critical' ? 2 : 1 }))
+    };
+    const stuck: MetricFamily = {
+        name: 'kafka_consumergroup_stuck_partitions',
+        help: 'Lagging partitions whose committed offset has not moved for the stuck threshold',
+        type: 'gauge',
+        samples: alertStates
+            .filter(s => s.stuckPartitions.length > 0)
+            .map(s => ({ labels: { cluster: s.clusterName, group: s.groupId }, value: s.stuckPartitions.length }))
+    };
+
+    return [lag, committed, logEnd, lagSum, alerts, stuck, lastPoll];
+}
+
+/**
+ * Cluster health metrics from getClusterStatistics
+ */
+export function buildClusterMetricFamilies(results: ClusterStatisticsResult[]): MetricFamily[] {
+    const gauge = (name: string, help: string, value: (s: ClusterStatistics) => number): MetricFamily => ({
+        name,
+        help,
+        type: 'gauge',
+        samples: results
+            .filter(r => r.statistics)
+            .map(r => ({ labels: { cluster: r.clusterName }, value: value(r.statistics!) }))
+    });
+
+    return [
+        {
+            name: 'kafka_cluster_up',
+            help: 'Whether the cluster statistics could be collected',
+            type: 'gauge',
+            samples: results.map(r => ({ labels: { cluster: r.clusterName }, value: r.statistics ? 1 : 0 }))
+        },
+        gauge('kafka_cluster_brokers', 'Number of brokers in the cluster', s => s.brokerCount),
+        gauge('kafka_cluster_topics', 'Number of topics in the cluster', s => s.topicCount),
+        gauge('kafka_cluster_partitions', 'Number of partitions over all topics', s => s.totalPartitions),
+        gauge('kafka_cluster_under_replicated_partitions', 'Partitions with fewer in-sync replicas than replicas', s => s.underReplicatedPartitions),
+        gauge('kafka_cluster_offline_partitions', 'Partitions without a leader', s => s.offlinePartitions)
+    ];
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+        return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(value);
+}
+
+/**
+ * Opt-in HTTP listener on 127.0.0.1 serving lag and cluster health in the Prometheus text format at /metrics
+ * Cluster statistics fetch metadata for every topic, so they are cached for a minute between scrapes
+ */
+export class PrometheusExporter {
+    private logger = Logger.getLogger('PrometheusExporter');
+    private server: http.Server | null = null;
+    private clusterStats = new Map<string, { result: ClusterStatisticsResult; fetchedAt: number }>();
+
+    constructor(
+        private clientManager: KafkaClientManager,
+        private lagMonitor: LagMonitor
+    ) {}
+
+    /**
+     * Start listening when `kafka.prometheus.enabled` is set
+     * @returns The bound port, or undefined when disabled
+     */
+    async start(): Promise<number | undefined> {
+        const config = vscode.workspace.getConfiguration('kafka.prometheus');
+        if (!config.get<boolean>('enabled', false)) {
+            this.logger.info('Prometheus metrics endpoint is disabled');
+            return undefined;
+        }
+
+        const port = config.get<number>('port', 9309);
+        const server = http.createServer((request, response) => {
+            this.handleRequest(request, response).catch(error => {
+                this.logger.error('Failed to serve metrics', error);
+                if (!response.headersSent) {
+                    response.writeHead(500, { 'Content-Type': 'text/plain' });
+                }
+                response.end('Failed to collect metrics\n');
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+
+        this.server = server;
+        const address = server.address();
+        const boundPort = typeof address === 'object' && address ? address.port : port;
+        this.logger.info(`Serving Prometheus metrics on http://127.0.0.1:${boundPort}/metrics`);
+        return boundPort;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+        this.server = null;
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        this.logger.info('Prometheus metrics endpoint stopped');
+    }
+
+    /**
+     * Current metrics in the text exposition format
+     */
+    async collect(): Promise<string> {
+        const configured = vscode.workspace.getConfiguration('kafka.prometheus').get<Record<string, unknown>>('extraLabels', {}) || {};
+        const extraLabels = Object.fromEntries(
+            Object.entries(configured).filter(([name, value]) => LABEL_NAME_PATTERN.test(name) && typeof value === 'string')
+        ) as Record<string, string>;
+        const clusterResults = await Promise.all(this.clientManager.getClusters().map(name => this.getClusterStatistics(name)));
+
+        return formatPrometheusMetrics([
+            ...buildClusterMetricFamilies(clusterResults),
+            ...buildLagMetricFamilies(this.lagMonitor.getLatestLag(), this.lagMonitor.getAlertStates())
+        ], extraLabels);
+    }
+
+    private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        const path = (request.url || '/').split('?')[0];
+        if (request.method !== 'GET' || path !== '/metrics') {
+            response.writeHead(404, { 'Content-Type': 'text/plain' });
+            response.end('Metrics are served at /metrics\n');
+            return;
+        }
+
+        const body = await this.collect();
+        response.writeHead(200, { 'Content-Type': CONTENT_TYPE });
+        response.end(body);
+    }
+
+    private async getClusterStatistics(clusterName: string): Promise<ClusterStatisticsResult> {
+        const cached = this.clusterStats.get(clusterName);
+        if (cached && Date.now() - cached.fetchedAt < CLUSTER_STATS_TTL_MS) {
+            return cached.result;
+        }
+
+        let result: ClusterStatisticsResult;
+        try {
+            result = { clusterName, statistics: await this.clientManager.getClusterStatistics(clusterName) };
+        } catch (error: any) {
+            this.logger.warn(`Could not collect statistics of cluster ${clusterName}: ${error?.message}`);
+            result = { clusterName, error: error?.message || 'Unknown error' };
+        }
+
+        this.clusterStats.set(clusterName, { result, fetchedAt: Date.now() });
+        return result;
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * A polled view of a consumer group's state and membership
+ */
+export interface GroupStateObservation {
+    state: string;
+    members: Array<{ memberId: string; clientId: string; clientHost: string }>;
+    timestamp: number;
+}
+
+/**
+ * A change in group state or membership between two polls
+ */
+export interface RebalanceEvent {
+    timestamp: number;
+    state: string;
+    /** Undefined for the first observation */
+    previousState?: string;
+    memberCount: number;
+    /** Members that joined, as clientId@host */
+    joined: string[];
+    /** Members that left, as clientId@host */
+    left: string[];
+}
+
+export const REBALANCE_STATES = ['PreparingRebalance', 'CompletingRebalance'];
+
+/**
+ * Builds a timeline of consumer group state transitions (Stable → PreparingRebalance → CompletingRebalance)
+ * from periodic describeGroups polls; transitions shorter than the poll interval are not seen
+ */
+export class RebalanceTracker {
+    private events: RebalanceEvent[] = [];
+    private lastState: string | undefined;
+    private lastMembers = new Map<string, string>();
+    private rebalances = 0;
+
+    constructor(private readonly maxEvents: number = 100) {}
+
+    /**
+     * Record a poll
+     * @returns The event when state or membership changed since the previous poll
+     */
+    observe(observation: GroupStateObservation): RebalanceEvent | undefined {
+        const members = new Map(observation.members.map(m => [m.memberId, `${m.clientId}@${m.clientHost}`]));
+        const first = this.lastState === undefined;
+        const joined = first ? [] : [...members].filter(([id]) => !this.lastMembers.has(id)).map(([, name]) => name);
+        const left = first ? [] : [...this.lastMembers].filter(([id]) => !members.has(id)).map(([, name]) => name);
+
+        if (!first && observation.state === this.lastState && joined.length === 0 && left.length === 0) {
+            return undefined;
+        }
+
+        const event: RebalanceEvent = {
+            timestamp: observation.timestamp,
+            state: observation.state,
+            previousState: this.lastState,
+            memberCount: members.size,
+            joined: joined.sort(),
+            left: left.sort()
+        };
+
+        if (!first && REBALANCE_STATES.includes(observation.state) && !REBALANCE_STATES.includes(this.lastState!)) {
+            this.rebalances++;
+        }
+
+        this.lastState = observation.state;
+        this.lastMembers = members;
+        this.events.push(event);
+        if (this.events.length > this.maxEvents) {
+            this.events.shift();
+        }
+        return event;
+    }
+
+    /**
+     * Recorded events, oldest first
+     */
+    getEvents(): RebalanceEvent[] {
+        return [...this.events];
+    }
+
+    /**
+     * Rebalances that started while tracking
+     */
+    getRebalanceCount(): number {
+        return this.rebalances;
+    }
+}
@@ -0,0 +1,117 @@
+import { CredentialManager } from '../infrastructure/CredentialManager';
+import { EventBus } from '../infrastructure/EventBus';
+import { ClusterConnection } from '../forms/clusterConnectionForm';
+import { DecodedPayload, SchemaRegistryService, SchemaType } from './SchemaRegistryService';
+import { GlueSchemaRegistryService } from './GlueSchemaRegistryService';
+
+export type SchemaRegistryType = 'confluent' | 'aws-glue';
+
+/**
+ * How the subject for a message key or value is derived
+ * Mirrors the Confluent serializer's subject.name.strategy options
+ */
+export type SubjectNameStrategy = 'TopicName' | 'RecordName' | 'TopicRecordName';
+
+export const SUBJECT_NAME_STRATEGIES: SubjectNameStrategy[] = ['TopicName', 'RecordName', 'TopicRecordName'];
+
+/**
+ * A schema version as reported by any registry
+ */
+export interface RegisteredSchema {
+    id: number | string;
+    version: number;
+    schema: string;
+    subject: string;
+    schemaType?: SchemaType;
+}
+
+/**
+ * Operations shared by every supported schema registry
+ * Used by the consumer and producer so they work with Confluent and AWS Glue alike
+ */
+export interface SchemaRegistryClient {
+    readonly registryType: SchemaRegistryType;
+
+    initialize(): Promise<void>;
+
+    /**
+     * Read the schema identifier from a framed payload
+     * @returns undefined if the buffer is not in this registry's wire format
+     */
+    parseSchemaId(buffer: Buffer | null | undefined): number | string | undefined;
+
+    /**
+     * Decode a framed payload and report which schema was used
+     */
+    decodeWithSchema(buffer: Buffer): Promise<DecodedPayload>;
+
+    getLatestSchema(subject: string): Promise<RegisteredSchema>;
+
+    getSchemaVersion(subject: string, version: number | 'latest'): Promise<RegisteredSchema>;
+
+    /**
+     * List the version numbers of a subject, oldest first
+     */
+    getSchemaVersions(subject: string): Promise<number[]>;
+
+    validateMessage(subject: string, payload: any): Promise<boolean>;
+
+    /**
+     * Encode a payload with a version of a subject's schema, framed in the registry's wire format
+     * @param version - Version number, defaults to the latest version
+     */
+    encodeMessage(subject: string, payload: any, version?: number | 'latest'): Promise<Buffer>;
+
+    /**
+     * Resolve the identifier of a version of a subject's schema, caching it so repeated encodes
+     * do not ask the registry every time
+     */
+    resolveSchemaId(subject: string, version?: number | 'latest'): Promise<number | string>;
+
+    /**
+     * Encode a payload with a schema identifier from resolveSchemaId, framed in the registry's wire format
+     */
+    encodeWithSchemaId(schemaId: number | string, payload: any): Promise<Buffer>;
+
+    isAvailable(): Promise<boolean>;
+
+    disconnect(): Promise<void>;
+}
+
+/**
+ * Create the registry client configured for a cluster
+ * @returns undefined when the cluster has no schema registry configured
+ */
+export function createSchemaRegistryClient(
+    clusterConfig: ClusterConnection | undefined,
+    credentialManager: CredentialManager,
+    eventBus?: EventBus
+): SchemaRegistryClient | undefined {
+    if (clusterConfig?.schemaRegistryType === 'aws-glue') {
+        return GlueSchemaRegistryService.fromClusterConfig(clusterConfig, eventBus);
+    }
+
+    return SchemaRegistryService.fromClusterConfig(clusterConfig, credentialManager, eventBus);
+}
+
+/**
+ * Derive the subject for a message key or value
+ * @param recordName - Fully-qualified record name, required by the record-based strategies
+ */
+export function resolveSubjectName(
+    strategy: SubjectNameStrategy,
+    topic: string,
+    field: 'key' | 'value',
+    recordName?: string
+): string {
+    if (strategy === 'TopicName') {
+        return `${topic}-${field}`;
+    }
+
+    const record = recordName?.trim();
+    if (!record) {
+        throw new Error(`A record name is required for the ${strategy} strategy (${field})`);
+    }
+
+    return strategy === 'RecordName' ? record : `${topic}-${record}`;
+}
@@ -1,7 +1,11 @@
+import * as https from 'https';
 import { SchemaRegistry } from '@kafkajs/confluent-schema-registry';
 import { Logger } from '../infrastructure/Logger';
 import { CredentialManager } from '../infrastructure/CredentialManager';
 import { EventBus, KafkaEvents } from '../infrastructure/EventBus';
+import { AuditLog, AuditOperation } from '../infrastructure/AuditLog';
+import { ClusterConnection } from '../forms/clusterConnectionForm';
+import { SchemaRegistryClient } from './SchemaRegistryClient';
 
 export interface SchemaRegistryConfig {
     url: string;
@@ -9,24 +13,76 @@ export interface SchemaRegistryConfig {
     password?: string;
 }
 
+export type SchemaType = 'AVRO' | 'PROTOBUF' | 'JSON';
+
 export interface Schema {
     id: number;
     version: number;
     schema: string;
     subject: string;
+    schemaType?: SchemaType;
+}
+
+export const COMPATIBILITY_LEVELS = [
+    'BACKWARD',
+    'BACKWARD_TRANSITIVE',
+    'FORWARD',
+    'FORWARD_TRANSITIVE',
+    'FULL',
+    'FULL_TRANSITIVE',
+    'NONE'
+] as const;
+
+export type CompatibilityLevel = typeof COMPATIBILITY_LEVELS[number];
+
+/**
+ * Result of testing a schema against the latest version of a subject
+ */
+export interface CompatibilityCheckResult {
+    isCompatible: boolean;
+    messages: string[];
+}
+
+/**
+ * Schema reference resolved from a wire format header
+ * Confluent uses numeric schema IDs, AWS Glue uses schema version UUIDs
+ */
+export interface SchemaReferenceInfo {
+    id: number | string;
+    subject?: string;
+    version?: number;
 }
 
 /**
- * Service for managing Schema Registry operations
- * Supports Confluent Schema Registry and AWS MSK Schema Registry
+ * Result of decoding a framed payload
  */
-export class SchemaRegistryService {
+export interface DecodedPayload {
+    value: any;
+    schema: SchemaReferenceInfo;
+}
+
+// Confluent wire format: magic byte (0) followed by a 4-byte big-endian schema ID
+const CONFLUENT_MAGIC_BYTE = 0;
+const CONFLUENT_HEADER_LENGTH = 5;
+
+/** How long the schema ID of a subject's latest version is reused before asking the registry again */
+export const LATEST_SCHEMA_ID_TTL_MS = 30000;
+
+/**
+ * Service for managing Confluent Schema Registry operations
+ * AWS Glue Schema Registry is handled by GlueSchemaRegistryService
+ */
+export class SchemaRegistryService implements SchemaRegistryClient {
+    readonly registryType = 'confluent';
     private registry: SchemaRegistry | null = null;
     private logger = Logger.getLogger('SchemaRegistryService');
     private config: SchemaRegistryConfig;
     private credentialManager: CredentialManager;
     private clusterId: string;
     private eventBus?: EventBus;
+    private auth?: { username: string; password: string };
+    private schemaReferenceCache: Map<number, SchemaReferenceInfo> = new Map();
+    private schemaIdCache: Map<string, { id: Promise<number>; expires: number }> = new Map();
 
     constructor(
         config: SchemaRegistryConfig,
@@ -40,6 +96,54 @@ export class SchemaRegistryService {
         this.eventBus = eventBus;
     }
 
+    /**
+     * Create a service for a cluster if it has a Confluent Schema Registry configured
+     * @returns undefined when the cluster has no registry URL
+     */
+    static fromClusterConfig(
+        clusterConfig: ClusterConnection | undefined,
+        credentialManager: CredentialManager,
+        eventBus?: EventBus
+    ): SchemaRegistryService | undefined {
+        if (!clusterConfig?.schemaRegistryUrl) {
+            return undefined;
+        }
+
+        return new SchemaRegistryService(
+            {
+                url: clusterConfig.schemaRegistryUrl,
+                username: clusterConfig.schemaRegistryApiKey,
+                password: clusterConfig.schemaRegistryApiSecret
+            },
+            credentialManager,
+            clusterConfig.name,
+            eventBus
+        );
+    }
+
+    /**
+     * Read the schema ID from a Confluent wire format header
+     * @returns The schema ID, or undefined if the buffer is not framed
+     */
+    static parseWireHeader(buffer: Buffer | null | undefined): number | undefined {
+        if (!buffer || buffer.length < CONFLUENT_HEADER_LENGTH) {
+            return undefined;
+        }
+
+        if (buffer.readUInt8(0) !== CONFLUENT_MAGIC_BYTE) {
+            return undefined;
+        }
+
+        return buffer.readInt32BE(1);
+    }
+
+    /**
+     * Read the schema ID from a payload, if it is Confluent-framed
+     */
+    parseSchemaId(buffer: Buffer | null | undefined): number | undefined {
+        return SchemaRegistryService.parseWireHeader(buffer);
+    }
+
     /**
      * Initialize the Schema Registry connection
      * SEC-3.1-3: Enforce HTTPS for Schema Registry
@@ -70,6 +174,7 @@ export class SchemaRegistryService {
                     password: this.config.password,
                 };
             }
+            this.auth = registryConfig.auth;
 
             this.registry = new SchemaRegistry(registryConfig);
             this.logger.info(`Schema Registry initialized for cluster: ${this.clusterId}`);
@@ -138,18 +243,12 @@ export class SchemaRegistryService {
 
     /**
      * Get all versions of a schema subject
-     * Note: This method is a placeholder as the library may not support this directly
      */
     async getSchemaVersions(subject: string): Promise<number[]> {
-        if (!this.registry) {
-            await this.initialize();
-        }
-
         try {
             this.logger.debug(`Fetching schema versions for subject: ${subject}`);
-            // The library may not have getSubjectVersions, return empty array for now
-            this.logger.warn('getSchemaVersions not fully implemented - library API limitation');
-            return [];
+            const versions = await this.request<number[]>('GET', `/subjects/${encodeURIComponent(subject)}/versions`);
+            return [...versions].sort((a, b) => a - b);
         } catch (error) {
             this.logger.error(`Failed to fetch schema versions for subject: ${subject}`, error);
             throw error;
@@ -157,25 +256,225 @@ export class SchemaRegistryService {
     }
 
     /**
-     * List all subjects in the registry
-     * Note: This method is a placeholder as the library may not support this directly
+     * Get a specific version of a schema subject
      */
-    async listSubjects(): Promise<string[]> {
-        if (!this.registry) {
-            await this.initialize();
+    async getSchemaVersion(subject: string, version: number | 'latest'): Promise<Schema> {
+        try {
+            this.logger.debug(`Fetching version ${version} of subject: ${subject}`);
+            const result = await this.request<{
+                id: number;
+                version: number;
+                schema: string;
+                subject: string;
+                schemaType?: SchemaType;
+            }>('GET', `/subjects/${encodeURIComponent(subject)}/versions/${version}`);
+
+            if (this.eventBus) {
+                this.eventBus.emitSync(KafkaEvents.SCHEMA_FETCHED, {
+                    clusterId: this.clusterId,
+                    subject,
+                    schemaId: result.id
+                });
+            }
+
+            return {
+                id: result.id,
+                version: result.version,
+                schema: result.schema,
+                subject: result.subject,
+                // The registry omits schemaType for Avro schemas
+                schemaType: result.schemaType || 'AVRO'
+            };
+        } catch (error) {
+            this.logger.error(`Failed to fetch version ${version} of subject: ${subject}`, error);
+            throw error;
         }
+    }
 
+    /**
+     * List all subjects in the registry
+     */
+    async listSubjects(): Promise<string[]> {
         try {
             this.logger.debug('Fetching all subjects from Schema Registry');
-            // The library may not have getSubjects, return empty array for now
-            this.logger.warn('listSubjects not fully implemented - library API limitation');
-            return [];
+            const subjects = await this.request<string[]>('GET', '/subjects');
+            return [...subjects].sort((a, b) => a.localeCompare(b));
         } catch (error) {
             this.logger.error('Failed to fetch subjects from Schema Registry', error);
             throw error;
         }
     }
 
+    /**
+     * Get the registry-wide compatibility level
+     */
+    async getGlobalCompatibility(): Promise<string> {
+        const config = await this.request<{ compatibilityLevel?: string; compatibility?: string }>('GET', '/config');
+        return config.compatibilityLevel || config.compatibility || 'UNKNOWN';
+    }
+
+    /**
+     * Get the compatibility level set on a subject
+     * @returns undefined when the subject inherits the global level
+     */
+    async getSubjectCompatibility(subject: string): Promise<string | undefined> {
+        try {
+            const config = await this.request<{ compatibilityLevel?: string; compatibility?: string }>(
+                'GET',
+                `/config/${encodeURIComponent(subject)}`
+            );
+            return config.compatibilityLevel || config.compatibility;
+        } catch (error: any) {
+            // 40408: subject-level compatibility not configured
+            if (error?.status === 404) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Test a schema against the latest version of a subject
+     * A subject without any versions accepts every schema
+     */
+    async testCompatibility(subject: string, schema: string, schemaType: SchemaType): Promise<CompatibilityCheckResult> {
+        try {
+            this.logger.debug(`Testing compatibility for subject: ${subject}`);
+            const result = await this.request<{ is_compatible: boolean; messages?: string[] }>(
+                'POST',
+                `/compatibility/subjects/${encodeURIComponent(subject)}/versions/latest?verbose=true`,
+                this.buildSchemaBody(schema, schemaType)
+            );
+            return { isCompatible: result.is_compatible, messages: result.messages || [] };
+        } catch (error: any) {
+            // 40401 / 40402: subject or version not found - nothing to be incompatible with
+            if (error?.status === 404) {
+                return { isCompatible: true, messages: [] };
+            }
+            this.logger.error(`Failed to test compatibility for subject: ${subject}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Register a schema as a new version of a subject
+     * Registering an identical schema returns the existing ID
+     */
+    async registerSchema(subject: string, schema: string, schemaType: SchemaType): Promise<number> {
+        const startTime = Date.now();
+        try {
+            this.logger.debug(`Registering schema for subject: ${subject}`);
+            const result = await this.request<{ id: number }>(
+                'POST',
+                `/subjects/${encodeURIComponent(subject)}/versions`,
+                this.buildSchemaBody(schema, schemaType)
+            );
+
+            this.forgetSchemaIds(subject);
+            AuditLog.success(
+                AuditOperation.SCHEMA_REGISTERED,
+                this.clusterId,
+                subject,
+                { schemaId: result.id, schemaType },
+                Date.now() - startTime
+            );
+            return result.id;
+        } catch (error: any) {
+            AuditLog.failure(
+                AuditOperation.SCHEMA_REGISTERED,
+                this.clusterId,
+                subject,
+                error?.message || 'Unknown error',
+                { schemaType },
+                Date.now() - startTime
+            );
+            this.logger.error(`Failed to register schema for subject: ${subject}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Set the compatibility level of a subject
+     */
+    async setSubjectCompatibility(subject: string, level: CompatibilityLevel): Promise<void> {
+        const startTime = Date.now();
+        try {
+            const previous = await this.getSubjectCompatibility(subject);
+            await this.request('PUT', `/config/${encodeURIComponent(subject)}`, { compatibility: level });
+
+            AuditLog.success(
+                AuditOperation.SCHEMA_COMPATIBILITY_UPDATED,
+                this.clusterId,
+                subject,
+                { oldValue: previous || 'inherited', newValue: level },
+                Date.now() - startTime
+            );
+        } catch (error: any) {
+            AuditLog.failure(
+                AuditOperation.SCHEMA_COMPATIBILITY_UPDATED,
+                this.clusterId,
+                subject,
+                error?.message || 'Unknown error',
+                { newValue: level },
+                Date.now() - startTime
+            );
+            this.logger.error(`Failed to set compatibility for subject: ${subject}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a version of a subject
+     * A hard (permanent) delete soft-deletes the version first, as the registry requires
+     */
+    async deleteSchemaVersion(subject: string, version: number, permanent: boolean): Promise<void> {
+        const startTime = Date.now();
+        const path = `/subjects/${encodeURIComponent(subject)}/versions/${version}`;
+        try {
+            if (permanent) {
+                try {
+                    await this.request('DELETE', path);
+                } catch (error: any) {
+                    // 40406: version was already soft-deleted
+                    if (error?.errorCode !== 40406) {
+                        throw error;
+                    }
+                }
+                await this.request('DELETE', `${path}?permanent=true`);
+            } else {
+                await this.request('DELETE', path);
+            }
+
+            this.forgetSchemaIds(subject);
+            AuditLog.success(
+                AuditOperation.SCHEMA_VERSION_DELETED,
+                this.clusterId,
+                subject,
+                { version, permanent },
+                Date.now() - startTime
+            );
+        } catch (error: any) {
+            AuditLog.failure(
+                AuditOperation.SCHEMA_VERSION_DELETED,
+                this.clusterId,
+                subject,
+                error?.message || 'Unknown error',
+                { version, permanent },
+                Date.now() - startTime
+            );
+            this.logger.error(`Failed to delete version ${version} of subject: ${subject}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Request body for registering or testing a schema
+     * The registry treats a missing schemaType as Avro
+     */
+    private buildSchemaBody(schema: string, schemaType: SchemaType): { schema: string; schemaType?: SchemaType } {
+        return schemaType === 'AVRO' ? { schema } : { schema, schemaType };
+    }
+
     /**
      * Validate a message against a schema
      * SEC-3.1-5: Audit validation operations
@@ -225,23 +524,60 @@ export class SchemaRegistryService {
 
     /**
      * Encode a message with schema
+     * @param version - Version of the subject to encode with, defaults to the latest
      */
-    async encodeMessage(subject: string, payload: any): Promise<Buffer> {
-        if (!this.registry) {
-            await this.initialize();
-        }
-
+    async encodeMessage(subject: string, payload: any, version: number | 'latest' = 'latest'): Promise<Buffer> {
         try {
-            this.logger.debug(`Encoding message for subject: ${subject}`);
-            const schema = await this.getLatestSchema(subject);
-            const encoded = await this.registry!.encode(schema.id, payload);
-            return encoded;
+            this.logger.debug(`Encoding message for subject: ${subject} (version ${version})`);
+            return await this.encodeWithSchemaId(await this.resolveSchemaId(subject, version), payload);
         } catch (error) {
             this.logger.error(`Failed to encode message for subject: ${subject}`, error);
             throw error;
         }
     }
 
+    /**
+     * Resolve the schema ID of a version of a subject
+     * Numbered versions never change and are cached for the session; the latest version for LATEST_SCHEMA_ID_TTL_MS
+     */
+    async resolveSchemaId(subject: string, version: number | 'latest' = 'latest'): Promise<number> {
+        const key = `${subject}/${version}`;
+        const cached = this.schemaIdCache.get(key);
+        if (cached && cached.expires > Date.now()) {
+            return cached.id;
+        }
+
+        // The pending lookup is cached too, so a batch encoded in parallel asks the registry once
+        const id = (version === 'latest' ? this.getLatestSchema(subject) : this.getSchemaVersion(subject, version))
+            .then(schema => schema.id);
+        this.schemaIdCache.set(key, { id, expires: version === 'latest' ? Date.now() + LATEST_SCHEMA_ID_TTL_MS : Infinity });
+        id.catch(() => {
+            if (this.schemaIdCache.get(key)?.id === id) {
+                this.schemaIdCache.delete(key);
+            }
+        });
+        return id;
+    }
+
+    /**
+     * Encode a message with a schema ID from resolveSchemaId
+     * The registry client caches schemas by ID, so only the first message fetches the schema
+     */
+    async encodeWithSchemaId(schemaId: number | string, payload: any): Promise<Buffer> {
+        if (!this.registry) {
+            await this.initialize();
+        }
+        return this.registry!.encode(Number(schemaId), payload);
+    }
+
+    private forgetSchemaIds(subject: string): void {
+        for (const key of this.schemaIdCache.keys()) {
+            if (key.startsWith(`${subject}/`)) {
+                this.schemaIdCache.delete(key);
+            }
+        }
+    }
+
     /**
      * Decode a message using schema
      */
@@ -260,6 +596,108 @@ export class SchemaRegistryService {
         }
     }
 
+    /**
+     * Decode a Confluent-framed payload and report which schema was used
+     * Throws if the buffer is not framed or the schema cannot be resolved
+     */
+    async decodeWithSchema(buffer: Buffer): Promise<DecodedPayload> {
+        const schemaId = SchemaRegistryService.parseWireHeader(buffer);
+        if (schemaId === undefined) {
+            throw new Error('Payload is not in Confluent wire format');
+        }
+
+        const value = await this.decodeMessage(buffer);
+        const schema = await this.getSchemaReference(schemaId);
+
+        return { value, schema };
+    }
+
+    /**
+     * Resolve the subject and version a schema ID is registered under
+     * Falls back to the bare ID if the registry does not support the lookup
+     */
+    async getSchemaReference(schemaId: number): Promise<SchemaReferenceInfo> {
+        const cached = this.schemaReferenceCache.get(schemaId);
+        if (cached) {
+            return cached;
+        }
+
+        let reference: SchemaReferenceInfo = { id: schemaId };
+        try {
+            const versions = await this.request<Array<{ subject: string; version: number }>>(
+                'GET',
+                `/schemas/ids/${schemaId}/versions`
+            );
+            if (Array.isArray(versions) && versions.length > 0) {
+                reference = { id: schemaId, subject: versions[0].subject, version: versions[0].version };
+            }
+        } catch (error: any) {
+            this.logger.debug(`Could not resolve subject for schema ID ${schemaId}: ${error?.message}`);
+        }
+
+        this.schemaReferenceCache.set(schemaId, reference);
+        return reference;
+    }
+
+    /**
+     * Send a request to the Schema Registry REST API
+     */
+    private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        if (!this.registry) {
+            await this.initialize();
+        }
+
+        // Keep any base path configured on the registry URL (e.g. behind a proxy)
+        const url = new URL(`${this.config.url.replace(/\/+$/, '')}${path}`);
+
+        const payload = body !== undefined ? JSON.stringify(body) : undefined;
+        const headers: Record<string, string> = {
+            'Accept': 'application/vnd.schemaregistry.v1+json, application/json'
+        };
+        if (payload !== undefined) {
+            headers['Content-Type'] = 'application/vnd.schemaregistry.v1+json';
+            headers['Content-Length'] = String(Buffer.byteLength(payload));
+        }
+        if (this.auth) {
+            headers['Authorization'] = `Basic ${Buffer.from(`${this.auth.username}:${this.auth.password}`).toString('base64')}`;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const req = https.request(url, { method, headers, timeout: 30000 }, (res) => {
+                const chunks: Buffer[] = [];
+                res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                res.on('end', () => {
+                    const text = Buffer.concat(chunks).toString('utf8');
+                    let parsed: any = undefined;
+                    try {
+                        parsed = text ? JSON.parse(text) : undefined;
+                    } catch {
+                        parsed = text;
+                    }
+
+                    if ((res.statusCode || 0) >= 400) {
+                        const message = parsed?.message || `HTTP ${res.statusCode}`;
+                        const error: any = new Error(`Schema Registry request failed: ${message}`);
+                        error.status = res.statusCode;
+                        error.errorCode = parsed?.error_code;
+                        reject(error);
+                        return;
+                    }
+
+                    resolve(parsed as T);
+                });
+            });
+
+            req.on('timeout', () => req.destroy(new Error('Schema Registry request timed out')));
+            req.on('error', reject);
+
+            if (payload !== undefined) {
+                req.write(payload);
+            }
+            req.end();
+        });
+    }
+
     /**
      * Check if Schema Registry is configured and accessible
      */
@@ -282,6 +720,8 @@ export class SchemaRegistryService {
      */
     async disconnect(): Promise<void> {
         this.registry = null;
+        this.schemaReferenceCache.clear();
+        this.schemaIdCache.clear();
         this.logger.debug('Schema Registry disconnected');
     }
 }
@@ -0,0 +1,277 @@
+import { KafkaMessage } from 'kafkajs';
+import { PartitionRange } from '../kafka/consumeRange';
+import { MessageFilter } from '../utils/messageFilter';
+import { ReplayMessage } from './MessageReplay';
+
+export interface TopicCopyOptions {
+    /** Only messages matching the filter are copied */
+    filter?: MessageFilter;
+    /** Stop after copying this many messages */
+    limit?: number;
+    /** Produce to the partition a message was read from; otherwise the partitioner picks one by key */
+    keepPartitions: boolean;
+}
+
+/**
+ * Progress of a running copy; throughput covers the time since the previous snapshot
+ */
+export interface TopicCopyProgress {
+    elapsedMs: number;
+    read: number;
+    copied: number;
+    filtered: number;
+    throughput: number;
+}
+
+export interface PartitionCopySummary {
+    partition: number;
+    startOffset: string;
+    /** Exclusive; missing when the copy had no end */
+    endOffset?: string;
+    read: number;
+    copied: number;
+    filtered: number;
+}
+
+export interface TopicCopySummary {
+    durationMs: number;
+    read: number;
+    copied: number;
+    filtered: number;
+    averageThroughput: number;
+    /** Stopped by the user before every partition reached its end */
+    stoppedEarly: boolean;
+    limitReached: boolean;
+    partitions: PartitionCopySummary[];
+}
+
+/**
+ * Messages copied compared with how far the destination's end offsets moved
+ * `partition` is 'total' when the partitioner chose destination partitions
+ */
+export interface TopicCopyCheck {
+    partition: number | 'total';
+    copied: number;
+    added: number;
+    matches: boolean;
+}
+
+/**
+ * A topic config as returned by describeConfigs
+ */
+export interface TopicConfigEntry {
+    configName: string;
+    configValue: string | null;
+    configSource?: number;
+    isDefault?: boolean;
+    isSensitive?: boolean;
+    readOnly?: boolean;
+}
+
+/**
+ * Time source for throughput, replaceable in tests
+ */
+export interface TopicCopyClock {
+    now(): number;
+}
+
+/** ConfigSource.TOPIC_CONFIG: set on the topic rather than inherited from the broker */
+const TOPIC_CONFIG_SOURCE = 1;
+const MAX_BATCH_SIZE = 500;
+const MAX_BATCH_BYTES = 1024 * 1024;
+
+/**
+ * Configs set on the source topic, to create the destination with
+ * Defaults, broker-level values, read-only and sensitive configs are left out
+ */
+export function selectTopicConfigs(entries: TopicConfigEntry[]): Array<{ name: string; value: string }> {
+    return entries
+        .filter(entry => entry.configSource === TOPIC_CONFIG_SOURCE && !entry.isDefault && !entry.readOnly && !entry.isSensitive)
+        .filter(entry => entry.configValue !== null)
+        .map(entry => ({ name: entry.configName, value: entry.configValue as string }));
+}
+
+/**
+ * Compare what was copied with how much each destination partition grew
+ * Other producers writing to the destination during the copy show up as a mismatch
+ */
+export function verifyTopicCopy(
+    summary: TopicCopySummary,
+    before: Map<number, string>,
+    after: Map<number, string>,
+    keepPartitions: boolean
+): TopicCopyCheck[] {
+    const added = (partition: number) => Number(BigInt(after.get(partition) ?? '0') - BigInt(before.get(partition) ?? '0'));
+
+    if (!keepPartitions) {
+        const total = [...after.keys()].reduce((sum, partition) => sum + added(partition), 0);
+        return [{ partition: 'total', copied: summary.copied, added: total, matches: total === summary.copied }];
+    }
+
+    return summary.partitions.map(({ partition, copied }) => ({
+        partition,
+        copied,
+        added: added(partition),
+        matches: added(partition) === copied
+    }));
+}
+
+/**
+ * Copies messages handed over by a reader to another topic in batches
+ * The caller supplies the send function, so the copier knows nothing about either cluster; add() waits
+ * while a full batch is sent, which holds back the reader
+ */
+export class TopicCopier {
+    private batch: ReplayMessage[] = [];
+    private batchPartitions: number[] = [];
+    private batchBytes = 0;
+    private sending: Promise<void> = Promise.resolve();
+    private partitions = new Map<number, PartitionCopySummary>();
+    private read = 0;
+    private matched = 0;
+    private copied = 0;
+    private readonly start: number;
+    private lastSnapshot: { time: number; copied: number };
+
+    constructor(
+        ranges: PartitionRange[],
+        private readonly send: (batch: ReplayMessage[]) => Promise<void>,
+        private readonly options: TopicCopyOptions,
+        private readonly clock: TopicCopyClock = { now: () => Date.now() }
+    ) {
+        for (const range of ranges) {
+            this.partitions.set(range.partition, { ...range, read: 0, copied: 0, filtered: 0 });
+        }
+        this.start = clock.now();
+        this.lastSnapshot = { time: this.start, copied: 0 };
+    }
+
+    /** Whether the limit has been reached; later messages are ignored */
+    get isDone(): boolean {
+        return this.options.limit !== undefined && this.matched >= this.options.limit;
+    }
+
+    /**
+     * Copy a message if it matches the filter
+     */
+    async add(partition: number, message: KafkaMessage): Promise<void> {
+        if (this.isDone) {
+            return;
+        }
+        const summary = this.getPartition(partition);
+        this.read++;
+        summary.read++;
+
+        if (this.options.filter && !this.options.filter.matches(toFilterable(partition, message, this.options.filter.usesPayload))) {
+            summary.filtered++;
+            return;
+        }
+
+        this.matched++;
+        this.batch.push({
+            key: message.key ?? undefined,
+            value: message.value,
+            partition: this.options.keepPartitions ? partition : undefined,
+            headers: message.headers as ReplayMessage['headers'],
+            timestamp: message.timestamp
+        });
+        this.batchPartitions.push(partition);
+        this.batchBytes += (message.key?.length ?? 0) + (message.value?.length ?? 0);
+
+        if (this.batch.length >= MAX_BATCH_SIZE || this.batchBytes >= MAX_BATCH_BYTES || this.isDone) {
+            await this.flush();
+        }
+    }
+
+    /**
+     * Send buffered messages; batches are sent one at a time, in order
+     * @throws Error when producing fails; messages of later batches are not sent
+     */
+    flush(): Promise<void> {
+        if (this.batch.length > 0) {
+            const batch = this.batch;
+            const partitions = this.batchPartitions;
+            this.batch = [];
+            this.batchPartitions = [];
+            this.batchBytes = 0;
+
+            this.sending = this.sending.then(async () => {
+                try {
+                    await this.send(batch);
+                } catch (error: any) {
+                    // A plain error, so the reader stops rather than retrying the fetch
+                    throw new Error(`Failed to produce to the destination topic: ${error?.message || error}`);
+                }
+                this.copied += batch.length;
+                for (const partition of partitions) {
+                    this.getPartition(partition).copied++;
+                }
+            });
+        }
+        return this.sending;
+    }
+
+    getProgress(): TopicCopyProgress {
+        const now = this.clock.now();
+        const seconds = (now - this.lastSnapshot.time) / 1000;
+        const throughput = seconds > 0 ? (this.copied - this.lastSnapshot.copied) / seconds : 0;
+        this.lastSnapshot = { time: now, copied: this.copied };
+
+        return {
+            elapsedMs: now - this.start,
+            read: this.read,
+            copied: this.copied,
+            filtered: this.read - this.matched,
+            throughput
+        };
+    }
+
+    /**
+     * Send what is left and summarize the copy
+     * @param stoppedEarly Whether the user stopped the copy
+     */
+    async finish(stoppedEarly: boolean): Promise<TopicCopySummary> {
+        await this.flush();
+        const durationMs = this.clock.now() - this.start;
+
+        return {
+            durationMs,
+            read: this.read,
+            copied: this.copied,
+            filtered: this.read - this.matched,
+            averageThroughput: durationMs > 0 ? this.copied / (durationMs / 1000) : this.copied,
+            stoppedEarly,
+            limitReached: this.isDone,
+            partitions: [...this.partitions.values()].sort((a, b) => a.partition - b.partition)
+        };
+    }
+
+    private getPartition(partition: number): PartitionCopySummary {
+        let summary = this.partitions.get(partition);
+        if (!summary) {
+            summary = { partition, startOffset: '', read: 0, copied: 0, filtered: 0 };
+            this.partitions.set(partition, summary);
+        }
+        return summary;
+    }
+}
+
+function toFilterable(partition: number, message: KafkaMessage, withPayload: boolean) {
+    const headers: Record<string, string> = {};
+    if (withPayload) {
+        for (const [name, value] of Object.entries(message.headers ?? {})) {
+            if (value !== undefined) {
+                headers[name] = Array.isArray(value) ? value.map(String).join(',') : value.toString();
+            }
+        }
+    }
+
+    return {
+        partition,
+        offset: message.offset,
+        timestamp: message.timestamp,
+        key: withPayload && message.key ? message.key.toString() : null,
+        value: withPayload && message.value ? message.value.toString() : '',
+        headers
+    };
+}
@@ -24,13 +24,14 @@ export class TopicService {
     }
 
     /**
-     * Create a new topic
+     * Create a new topic, optionally with topic-level configs such as retention.ms
      */
     async createTopic(
         admin: Admin,
         topicName: string,
         numPartitions: number,
-        replicationFactor: number
+        replicationFactor: number,
+        configEntries?: Array<{ name: string; value: string }>
     ): Promise<void> {
         try {
             this.logger.info(`Creating topic: ${topicName} (partitions: ${numPartitions}, replication: ${replicationFactor})`);
@@ -39,7 +40,8 @@ export class TopicService {
                 topics: [{
                     topic: topicName,
                     numPartitions,
-                    replicationFactor
+                    replicationFactor,
+                    configEntries
                 }]
             });
             
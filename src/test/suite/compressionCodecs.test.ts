@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { CompressionCodecs, CompressionTypes } from 'kafkajs';
+import {
+    CompressionName,
+    getBatchCompression,
+    registerCompressionCodecs,
+    toCompressionType
+} from '../../kafka/compressionCodecs';
+
+// kafkajs protocol internals, used to run a real record batch through encode and decode
+const { RecordBatch } = require('kafkajs/src/protocol/recordBatch/v0');
+const Record = require('kafkajs/src/protocol/recordBatch/record/v0');
+const decodeRecordBatch = require('kafkajs/src/protocol/recordBatch/v0/decoder');
+const Decoder = require('kafkajs/src/protocol/decoder');
+
+async function roundTrip(compression: CompressionTypes, values: string[]): Promise<any[]> {
+    const records = values.map((value, offsetDelta) => Record({ offsetDelta, key: `key-${offsetDelta}`, value }));
+    const encoded = await RecordBatch({ compression, records, lastOffsetDelta: values.length - 1 });
+    const batch = await decodeRecordBatch(new Decoder(encoded.buffer));
+    return batch.records;
+}
+
+suite('Compression Codecs Test Suite', () => {
+    suiteSetup(() => {
+        registerCompressionCodecs();
+    });
+
+    test('should map producer choices to kafkajs compression types', () => {
+        assert.strictEqual(toCompressionType('snappy'), CompressionTypes.Snappy);
+        assert.strictEqual(toCompressionType('lz4'), CompressionTypes.LZ4);
+        assert.strictEqual(toCompressionType('zstd'), CompressionTypes.ZSTD);
+        assert.strictEqual(toCompressionType('none'), undefined);
+        assert.strictEqual(toCompressionType(undefined), undefined);
+        assert.strictEqual(toCompressionType('brotli'), undefined);
+    });
+
+    const codecs: Array<[Exclude<CompressionName, 'none'>, CompressionTypes]> = [
+        ['gzip', CompressionTypes.GZIP],
+        ['snappy', CompressionTypes.Snappy],
+        ['lz4', CompressionTypes.LZ4],
+        ['zstd', CompressionTypes.ZSTD]
+    ];
+
+    for (const [name, type] of codecs) {
+        test(`should round-trip ${name} record batches and report the codec`, async () => {
+            const values = ['{"id":1}', 'x'.repeat(5000), ''];
+
+            const records = await roundTrip(type, values);
+
+            assert.deepStrictEqual(records.map(record => record.value.toString()), values);
+            assert.strictEqual(records[1].key.toString(), 'key-1');
+            for (const record of records) {
+                assert.strictEqual(getBatchCompression(record), name);
+            }
+        });
+    }
+
+    test('should report uncompressed batches as none', async () => {
+        const [record] = await roundTrip(CompressionTypes.None, ['plain']);
+
+        assert.strictEqual(getBatchCompression(record), 'none');
+        assert.strictEqual(getBatchCompression({ key: null, value: null }), 'none');
+        assert.strictEqual(getBatchCompression({ value: Buffer.from('pooled') }), 'none');
+    });
+
+    test('should decode xerial-framed snappy as written by the Java client', async () => {
+        const codec = (CompressionCodecs as any)[CompressionTypes.Snappy]();
+        const chunk = await codec.compress({ buffer: Buffer.from('hello from java') });
+        const header = Buffer.from([130, 83, 78, 65, 80, 80, 89, 0, 0, 0, 0, 1, 0, 0, 0, 1]);
+        const size = Buffer.alloc(4);
+        size.writeUInt32BE(chunk.length);
+
+        const decoded = await codec.decompress(Buffer.concat([header, size, chunk]));
+
+        assert.strictEqual(decoded.toString(), 'hello from java');
+    });
+});
@@ -0,0 +1,147 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { AssignedPartitionReader } from '../../kafka/assignedPartitionReader';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { parseConsumeRange, parsePartitionList, resolveConsumeRange } from '../../kafka/consumeRange';
+import { fakeCluster, fakeKafka, message } from './fakeKafkaCluster';
+
+suite('Consume Range Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    suite('Parsing', () => {
+        test('should parse partition lists with ranges and drop duplicates', () => {
+            assert.deepStrictEqual(parsePartitionList('5-7, 0,2,6'), [0, 2, 5, 6, 7]);
+            assert.deepStrictEqual(parsePartitionList(' '), []);
+            assert.throws(() => parsePartitionList('1,x'), /Invalid partition "x"/);
+            assert.throws(() => parsePartitionList('3-1'), /Invalid partition range "3-1"/);
+        });
+
+        test('should validate start and end positions', () => {
+            assert.deepStrictEqual(
+                parseConsumeRange({ start: { type: 'offset', offset: ' 10 ' }, end: { type: 'timestamp', timestamp: 1700000000000 }, partitions: '0-1' }),
+                { start: { type: 'offset', offset: '10' }, end: { type: 'timestamp', timestamp: 1700000000000 }, partitions: [0, 1] }
+            );
+            assert.throws(() => parseConsumeRange({ start: { type: 'middle' }, end: { type: 'none' } }), /Unknown start position/);
+            assert.throws(() => parseConsumeRange({ start: { type: 'offset', offset: '-3' }, end: { type: 'none' } }), /Start offset/);
+            assert.throws(() => parseConsumeRange({ start: { type: 'earliest' }, end: { type: 'timestamp', timestamp: null } }), /End timestamp/);
+            assert.throws(() => parseConsumeRange({ start: { type: 'earliest' }, end: { type: 'none' }, partitions: [1.5] }), /non-negative integers/);
+        });
+    });
+
+    suite('resolveConsumeRange', () => {
+        const watermarks = [
+            { partition: 1, low: '10', high: '50' },
+            { partition: 0, low: '0', high: '100' }
+        ];
+
+        test('should clamp offsets to the log and treat an end offset as inclusive', async () => {
+            const admin: any = { fetchTopicOffsets: sandbox.stub().resolves(watermarks) };
+
+            const ranges = await resolveConsumeRange(admin, 'orders', {
+                start: { type: 'offset', offset: '5' },
+                end: { type: 'offset', offset: '60' }
+            });
+
+            assert.deepStrictEqual(ranges, [
+                { partition: 0, startOffset: '5', endOffset: '61' },
+                { partition: 1, startOffset: '10', endOffset: '50' }
+            ]);
+        });
+
+        test('should resolve timestamps per partition, reading to the end when nothing is that recent', async () => {
+            const admin: any = {
+                fetchTopicOffsets: sandbox.stub().resolves(watermarks),
+                fetchTopicOffsetsByTimestamp: sandbox.stub().callsFake(async (_topic: string, timestamp: number) =>
+                    timestamp === 1000
+                        ? [{ partition: 0, offset: '20' }, { partition: 1, offset: '30' }]
+                        : [{ partition: 0, offset: '80' }, { partition: 1, offset: '-1' }])
+            };
+
+            const ranges = await resolveConsumeRange(admin, 'orders', {
+                start: { type: 'timestamp', timestamp: 1000 },
+                end: { type: 'timestamp', timestamp: 2000 },
+                partitions: [1]
+            });
+
+            assert.deepStrictEqual(ranges, [{ partition: 1, startOffset: '30', endOffset: '50' }]);
+        });
+
+        test('should never end before the start and reject partitions the topic does not have', async () => {
+            const admin: any = { fetchTopicOffsets: sandbox.stub().resolves(watermarks) };
+
+            const [range] = await resolveConsumeRange(admin, 'orders', {
+                start: { type: 'latest' },
+                end: { type: 'offset', offset: '3' },
+                partitions: [0]
+            });
+
+            assert.deepStrictEqual(range, { partition: 0, startOffset: '100', endOffset: '100' });
+            await assert.rejects(
+                resolveConsumeRange(admin, 'orders', { start: { type: 'earliest' }, end: { type: 'none' }, partitions: [0, 4] }),
+                /Topic "orders" has no partition 4/
+            );
+        });
+    });
+
+    suite('Bounded reads', () => {
+        test('should stop each partition at its end offset and end once all are done', async () => {
+            const { cluster } = fakeCluster({
+                0: [message(0), message(1), message(2), message(3)],
+                1: [message(0), message(1)],
+                2: [message(0)]
+            });
+            const reader = new AssignedPartitionReader(fakeKafka(cluster), 'orders');
+            const read: string[] = [];
+            const progress: string[] = [];
+            const ended = new Promise<void>(resolve => {
+                reader.run({
+                    ranges: [
+                        { partition: 0, startOffset: '1', endOffset: '3' },
+                        { partition: 1, startOffset: '0', endOffset: '2' }
+                    ],
+                    eachMessage: async ({ partition, message }) => {
+                        read.push(`${partition}:${message.offset}`);
+                    },
+                    onProgress: (partition, position) => progress.push(`${partition}@${position}`),
+                    onEnd: resolve
+                });
+            });
+
+            await ended;
+            await reader.disconnect();
+
+            assert.deepStrictEqual(read, ['0:1', '0:2', '1:0', '1:1']);
+            assert.deepStrictEqual(progress, ['0@3', '1@2']);
+            assert.ok(cluster.fetchTopicsOffset.notCalled, 'Ranges give the starting offsets');
+        });
+
+        test('should resolve consumeRange once the range is read, without waiting for a timeout', async () => {
+            const { cluster } = fakeCluster({ 0: [message(0), message(1), message(2)], 1: [message(0)] });
+            const manager = new KafkaClientManager();
+            (manager as any).kafkaInstances.set('prod', fakeKafka(cluster));
+            sandbox.stub(manager as any, 'getAdmin').resolves({
+                fetchTopicOffsets: sandbox.stub().resolves([
+                    { partition: 0, low: '0', high: '3' },
+                    { partition: 1, low: '0', high: '1' }
+                ])
+            });
+
+            const messages = await manager.consumeRange('prod', 'orders', {
+                start: { type: 'earliest' },
+                end: { type: 'highWatermark' },
+                partitions: [0]
+            }, { timeout: 60000 });
+
+            assert.deepStrictEqual(messages.map(m => `${m.partition}:${m.offset}`), ['0:0', '0:1', '0:2']);
+            assert.ok(cluster.disconnect.calledOnce);
+        });
+    });
+});
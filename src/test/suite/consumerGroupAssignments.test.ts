@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { AssignerProtocol } from 'kafkajs';
+import { decodeGroupMembers, decodeMemberAssignment } from '../../kafka/consumerProtocol';
+import { RebalanceTracker } from '../../services/RebalanceTracker';
+import { buildAssignmentView } from '../../views/ConsumerGroupAssignmentWebview';
+
+function member(memberId: string, assignment: Record<string, number[]>, topics: string[] = Object.keys(assignment)) {
+    return {
+        memberId,
+        clientId: `client-${memberId}`,
+        clientHost: `/10.0.0.${memberId.length}`,
+        memberMetadata: AssignerProtocol.MemberMetadata.encode({ version: 1, topics, userData: Buffer.alloc(0) }),
+        memberAssignment: AssignerProtocol.MemberAssignment.encode({ version: 1, assignment, userData: Buffer.alloc(0) })
+    };
+}
+
+suite('Consumer Group Assignments Test Suite', () => {
+    suite('Consumer protocol', () => {
+        test('should decode assignments and subscriptions sorted by topic and partition', () => {
+            const [decoded] = decodeGroupMembers('consumer', [member('m1', { payments: [2, 0], orders: [3, 1] })]);
+
+            assert.deepStrictEqual(decoded.assignment, [
+                { topic: 'orders', partitions: [1, 3] },
+                { topic: 'payments', partitions: [0, 2] }
+            ]);
+            assert.deepStrictEqual(decoded.subscribedTopics, ['orders', 'payments']);
+            assert.strictEqual(decoded.decodeError, undefined);
+        });
+
+        test('should treat an empty assignment as no partitions during a rebalance', () => {
+            assert.deepStrictEqual(decodeMemberAssignment(Buffer.alloc(0)), []);
+            assert.deepStrictEqual(decodeMemberAssignment(undefined), []);
+        });
+
+        test('should not decode groups of other protocol types', () => {
+            const [decoded] = decodeGroupMembers('connect', [member('w1', { orders: [0] })]);
+
+            assert.deepStrictEqual(decoded.assignment, []);
+            assert.match(decoded.decodeError!, /"connect" groups/);
+        });
+
+        test('should report corrupt metadata instead of throwing', () => {
+            const [decoded] = decodeGroupMembers('consumer', [{
+                memberId: 'm1',
+                clientId: 'c',
+                clientHost: 'h',
+                memberMetadata: Buffer.from([0, 1, 0, 0, 0, 5]),
+                memberAssignment: Buffer.alloc(0)
+            }]);
+
+            assert.match(decoded.decodeError!, /Could not decode/);
+        });
+    });
+
+    suite('Assignment view', () => {
+        test('should attach lag to owned partitions and list unowned ones', () => {
+            const [m1, m2] = decodeGroupMembers('consumer', [
+                member('m1', { orders: [0] }),
+                member('m2', { orders: [1] })
+            ]);
+
+            const view = buildAssignmentView({
+                groupId: 'g',
+                state: 'Stable',
+                protocolType: 'consumer',
+                protocol: 'cooperative-sticky',
+                totalLag: 35,
+                members: [m2, m1],
+                offsets: [
+                    { topic: 'orders', partition: 0, lag: 5 },
+                    { topic: 'orders', partition: 1, lag: 20 },
+                    { topic: 'orders', partition: 2, lag: 10 }
+                ]
+            });
+
+            assert.strictEqual(view.assignor, 'cooperative-sticky');
+            assert.deepStrictEqual(view.members.map(m => [m.clientId, m.totalLag]), [['client-m1', 5], ['client-m2', 20]]);
+            assert.deepStrictEqual(view.members[1].partitions, [{ topic: 'orders', partition: 1, lag: 20 }]);
+            assert.deepStrictEqual(view.unassigned, [{ topic: 'orders', partition: 2, lag: 10 }]);
+        });
+    });
+
+    suite('Rebalance tracking', () => {
+        const a = { memberId: 'a', clientId: 'app', clientHost: 'pod-a' };
+        const b = { memberId: 'b', clientId: 'app', clientHost: 'pod-b' };
+
+        test('should record state transitions and membership changes only', () => {
+            const tracker = new RebalanceTracker();
+
+            assert.ok(tracker.observe({ state: 'Stable', members: [a], timestamp: 1 }));
+            assert.strictEqual(tracker.observe({ state: 'Stable', members: [a], timestamp: 2 }), undefined);
+            tracker.observe({ state: 'PreparingRebalance', members: [a], timestamp: 3 });
+            tracker.observe({ state: 'CompletingRebalance', members: [a, b], timestamp: 4 });
+            const settled = tracker.observe({ state: 'Stable', members: [a, b], timestamp: 5 });
+
+            assert.deepStrictEqual(
+                tracker.getEvents().map(e => [e.previousState, e.state]),
+                [[undefined, 'Stable'], ['Stable', 'PreparingRebalance'], ['PreparingRebalance', 'CompletingRebalance'], ['CompletingRebalance', 'Stable']]
+            );
+            assert.deepStrictEqual(tracker.getEvents()[2].joined, ['app@pod-b']);
+            assert.strictEqual(settled!.memberCount, 2);
+            assert.strictEqual(tracker.getRebalanceCount(), 1);
+        });
+
+        test('should record members leaving without a state change and cap the timeline', () => {
+            const tracker = new RebalanceTracker(2);
+
+            tracker.observe({ state: 'Stable', members: [a, b], timestamp: 1 });
+            tracker.observe({ state: 'Stable', members: [a], timestamp: 2 });
+            tracker.observe({ state: 'Stable', members: [], timestamp: 3 });
+
+            const events = tracker.getEvents();
+            assert.strictEqual(events.length, 2);
+            assert.deepStrictEqual(events.map(e => e.left), [['app@pod-b'], ['app@pod-a']]);
+        });
+    });
+});
@@ -3,6 +3,7 @@ import * as vscode from 'vscode';
 import * as sinon from 'sinon';
 import * as consumerGroupCommands from '../../commands/consumerGroupCommands';
 import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { OffsetResetPreviewWebview } from '../../views/OffsetResetPreviewWebview';
 
 suite('Consumer Group Commands Test Suite', () => {
     let sandbox: sinon.SinonSandbox;
@@ -106,45 +107,66 @@ suite('Consumer Group Commands Test Suite', () => {
     });
 
     suite('resetConsumerGroupOffsets', () => {
-        test('should reset offsets to beginning', async () => {
+        const entries = [{
+            topic: 'test-topic',
+            partition: 0,
+            currentOffset: '40',
+            proposedOffset: '0',
+            logStartOffset: '0',
+            logEndOffset: '50',
+            currentLag: 10,
+            resultingLag: 50
+        }];
+        let showStub: sinon.SinonStub;
+
+        setup(() => {
+            sandbox.stub(vscode.window, 'withProgress').callsFake(async (_options, task) => task({} as any, {} as any));
+            showStub = sandbox.stub();
+            sandbox.stub(OffsetResetPreviewWebview, 'getInstance').returns({ show: showStub } as any);
+            clientManager.previewConsumerGroupOffsetReset.resolves(entries);
+        });
+
+        test('should preview a reset to beginning without committing', async () => {
             const node = { clusterName: 'test-cluster', groupId: 'test-group' };
 
             sandbox.stub(vscode.window, 'showInputBox').resolves('test-topic');
             sandbox.stub(vscode.window, 'showQuickPick').resolves({
                 label: 'Beginning',
-                description: 'Reset to earliest offset'
+                description: 'Reset to earliest offset',
+                strategy: 'beginning'
             } as any);
-            sandbox.stub(vscode.window, 'showWarningMessage').resolves('Yes' as any);
-            clientManager.resetConsumerGroupOffsets.resolves();
-            sandbox.stub(vscode.window, 'showInformationMessage');
 
             await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
 
-            assert.ok(clientManager.resetConsumerGroupOffsets.calledOnce);
-            assert.ok(clientManager.resetConsumerGroupOffsets.calledWith(
+            assert.ok(clientManager.previewConsumerGroupOffsetReset.calledOnce);
+            assert.ok(clientManager.previewConsumerGroupOffsetReset.calledWith(
                 'test-cluster',
                 'test-group',
                 'test-topic',
                 'beginning',
                 undefined
             ));
+            assert.ok(showStub.calledOnce);
+            const plan = showStub.firstCall.args[0];
+            assert.strictEqual(plan.groupId, 'test-group');
+            assert.strictEqual(plan.strategy, 'beginning');
+            assert.deepStrictEqual(plan.entries, entries);
+            assert.ok(clientManager.applyConsumerGroupOffsetReset.notCalled);
         });
 
-        test('should reset offsets to end', async () => {
+        test('should preview a reset to end on all topics', async () => {
             const node = { clusterName: 'test-cluster', groupId: 'test-group' };
 
             sandbox.stub(vscode.window, 'showInputBox').resolves(''); // Empty = all topics
             sandbox.stub(vscode.window, 'showQuickPick').resolves({
                 label: 'End',
-                description: 'Reset to latest offset'
+                description: 'Reset to latest offset',
+                strategy: 'end'
             } as any);
-            sandbox.stub(vscode.window, 'showWarningMessage').resolves('Yes' as any);
-            clientManager.resetConsumerGroupOffsets.resolves();
-            sandbox.stub(vscode.window, 'showInformationMessage');
 
             await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
 
-            assert.ok(clientManager.resetConsumerGroupOffsets.calledWith(
+            assert.ok(clientManager.previewConsumerGroupOffsetReset.calledWith(
                 'test-cluster',
                 'test-group',
                 undefined,
@@ -153,7 +175,7 @@ suite('Consumer Group Commands Test Suite', () => {
             ));
         });
 
-        test('should reset offsets to specific offset', async () => {
+        test('should preview a reset to specific offset', async () => {
             const node = { clusterName: 'test-cluster', groupId: 'test-group' };
 
             const inputStub = sandbox.stub(vscode.window, 'showInputBox');
@@ -162,15 +184,13 @@ suite('Consumer Group Commands Test Suite', () => {
 
             sandbox.stub(vscode.window, 'showQuickPick').resolves({
                 label: 'Specific Offset',
-                description: 'Reset to a specific offset'
+                description: 'Reset to a specific offset',
+                strategy: 'specific offset'
             } as any);
-            sandbox.stub(vscode.window, 'showWarningMessage').resolves('Yes' as any);
-            clientManager.resetConsumerGroupOffsets.resolves();
-            sandbox.stub(vscode.window, 'showInformationMessage');
 
             await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
 
-            assert.ok(clientManager.resetConsumerGroupOffsets.calledWith(
+            assert.ok(clientManager.previewConsumerGroupOffsetReset.calledWith(
                 'test-cluster',
                 'test-group',
                 'test-topic',
@@ -179,6 +199,77 @@ suite('Consumer Group Commands Test Suite', () => {
             ));
         });
 
+        test('should reject negative and non-integer specific offsets', async () => {
+            const node = { clusterName: 'test-cluster', groupId: 'test-group' };
+
+            const inputStub = sandbox.stub(vscode.window, 'showInputBox');
+            inputStub.onFirstCall().resolves('test-topic');
+            inputStub.onSecondCall().resolves(undefined);
+            sandbox.stub(vscode.window, 'showQuickPick').resolves({
+                label: 'Specific Offset',
+                description: 'Reset to a specific offset',
+                strategy: 'specific offset'
+            } as any);
+
+            await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
+
+            const validateInput = inputStub.secondCall.args[0]!.validateInput!;
+            assert.ok(validateInput('-5'));
+            assert.ok(validateInput('1.5'));
+            assert.strictEqual(validateInput('42'), undefined);
+        });
+
+        test('should preview a reset by duration', async () => {
+            const node = { clusterName: 'test-cluster', groupId: 'test-group' };
+
+            const inputStub = sandbox.stub(vscode.window, 'showInputBox');
+            inputStub.onFirstCall().resolves('test-topic');
+            inputStub.onSecondCall().resolves('PT30M');
+            sandbox.stub(vscode.window, 'showQuickPick').resolves({
+                label: 'By Duration',
+                description: 'Reset to a period before now',
+                strategy: 'by-duration'
+            } as any);
+
+            await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
+
+            const validateInput = inputStub.secondCall.args[0]!.validateInput!;
+            assert.ok(validateInput('30 minutes'));
+            assert.ok(clientManager.previewConsumerGroupOffsetReset.calledWith(
+                'test-cluster',
+                'test-group',
+                'test-topic',
+                'by-duration',
+                'PT30M'
+            ));
+            assert.strictEqual(showStub.firstCall.args[0].argument, 'PT30M');
+        });
+
+        test('should preview per-partition offsets from a CSV file', async () => {
+            const node = { clusterName: 'test-cluster', groupId: 'test-group' };
+            const csv = 'orders,0,10\norders,1,20\n';
+
+            sandbox.stub(vscode.window, 'showInputBox').resolves('');
+            sandbox.stub(vscode.window, 'showQuickPick').resolves({
+                label: 'From CSV File',
+                description: 'Per-partition offsets as topic,partition,offset rows',
+                strategy: 'from-file'
+            } as any);
+            sandbox.stub(vscode.window, 'showOpenDialog').resolves([vscode.Uri.file('/tmp/offsets.csv')]);
+            sandbox.stub(vscode.workspace, 'fs').value({ readFile: sandbox.stub().resolves(Buffer.from(csv)) });
+
+            await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
+
+            assert.ok(clientManager.previewConsumerGroupOffsetReset.calledWith(
+                'test-cluster',
+                'test-group',
+                undefined,
+                'from-file',
+                csv
+            ));
+            assert.strictEqual(showStub.firstCall.args[0].argument, vscode.Uri.file('/tmp/offsets.csv').fsPath);
+        });
+
         test('should abort if user cancels', async () => {
             const node = { clusterName: 'test-cluster', groupId: 'test-group' };
 
@@ -186,22 +277,29 @@ suite('Consumer Group Commands Test Suite', () => {
 
             await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
 
-            assert.ok(clientManager.resetConsumerGroupOffsets.notCalled);
+            assert.ok(clientManager.previewConsumerGroupOffsetReset.notCalled);
+            assert.ok(showStub.notCalled);
         });
 
-        test('should not reset if confirmation is declined', async () => {
+        test('should apply the reviewed entries from the preview', async () => {
             const node = { clusterName: 'test-cluster', groupId: 'test-group' };
 
             sandbox.stub(vscode.window, 'showInputBox').resolves('test-topic');
             sandbox.stub(vscode.window, 'showQuickPick').resolves({
                 label: 'Beginning',
-                description: 'Reset to earliest offset'
+                description: 'Reset to earliest offset',
+                strategy: 'beginning'
             } as any);
-            sandbox.stub(vscode.window, 'showWarningMessage').resolves(undefined);
+            clientManager.applyConsumerGroupOffsetReset.resolves();
+            const infoStub = sandbox.stub(vscode.window, 'showInformationMessage');
 
             await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
+            const reviewed = [{ ...entries[0], proposedOffset: '25', resultingLag: 25 }];
+            const applied = await showStub.firstCall.args[1].apply(reviewed);
 
-            assert.ok(clientManager.resetConsumerGroupOffsets.notCalled);
+            assert.strictEqual(applied, true);
+            assert.ok(clientManager.applyConsumerGroupOffsetReset.calledOnceWith('test-cluster', 'test-group', reviewed));
+            assert.ok(infoStub.called);
         });
 
         test('should handle error for consumer group with active members', async () => {
@@ -210,16 +308,36 @@ suite('Consumer Group Commands Test Suite', () => {
             sandbox.stub(vscode.window, 'showInputBox').resolves('test-topic');
             sandbox.stub(vscode.window, 'showQuickPick').resolves({
                 label: 'Beginning',
-                description: 'Reset to earliest offset'
+                description: 'Reset to earliest offset',
+                strategy: 'beginning'
             } as any);
-            sandbox.stub(vscode.window, 'showWarningMessage').resolves('Yes' as any);
-            clientManager.resetConsumerGroupOffsets.rejects(new Error('GROUP_SUBSCRIBED_TO_TOPIC: active members'));
+            clientManager.applyConsumerGroupOffsetReset.rejects(new Error('GROUP_SUBSCRIBED_TO_TOPIC: active members'));
             const errorStub = sandbox.stub(vscode.window, 'showErrorMessage');
 
             await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
+            const applied = await showStub.firstCall.args[1].apply(entries);
 
+            assert.strictEqual(applied, false);
             assert.ok(errorStub.called);
             assert.ok(errorStub.firstCall.args[0].includes('active members'));
         });
+
+        test('should not open the preview when the plan cannot be built', async () => {
+            const node = { clusterName: 'test-cluster', groupId: 'test-group' };
+
+            sandbox.stub(vscode.window, 'showInputBox').resolves('missing-topic');
+            sandbox.stub(vscode.window, 'showQuickPick').resolves({
+                label: 'Beginning',
+                description: 'Reset to earliest offset',
+                strategy: 'beginning'
+            } as any);
+            clientManager.previewConsumerGroupOffsetReset.rejects(new Error('Consumer group has no committed offsets for topic "missing-topic"'));
+            const errorStub = sandbox.stub(vscode.window, 'showErrorMessage');
+
+            await consumerGroupCommands.resetConsumerGroupOffsets(clientManager as any, node);
+
+            assert.ok(showStub.notCalled);
+            assert.ok(errorStub.firstCall.args[0].includes('Failed to reset offsets'));
+        });
     });
 });
@@ -0,0 +1,213 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { Kafka } from 'kafkajs';
+import { AssignedPartitionReader } from '../../kafka/assignedPartitionReader';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { ExtensionConsumerGroupRegistry } from '../../services/ExtensionConsumerGroupRegistry';
+import { fakeCluster, fakeKafka, message } from './fakeKafkaCluster';
+
+async function waitFor(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 200 && !condition(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    assert.ok(condition(), 'Timed out waiting for the reader');
+}
+
+function memento(): vscode.Memento {
+    const values = new Map<string, any>();
+    return {
+        keys: () => [...values.keys()],
+        get: (key: string, defaultValue?: any) => (values.has(key) ? values.get(key) : defaultValue),
+        update: async (key: string, value: any) => {
+            values.set(key, value);
+        }
+    } as vscode.Memento;
+}
+
+suite('Consumer Group Hygiene Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    suite('AssignedPartitionReader', () => {
+        test('should read every partition without a group, skipping control records and records before the fetch offset', async () => {
+            const { cluster, fetches } = fakeCluster({
+                0: [message(0), message(1), message(2)],
+                1: [message(0), message(1, { isControlRecord: true })]
+            });
+            const reader = new AssignedPartitionReader(fakeKafka(cluster), 'orders');
+            const read: string[] = [];
+
+            await reader.run({
+                fromBeginning: true,
+                eachMessage: async ({ partition, message }) => {
+                    read.push(`${partition}:${message.offset}`);
+                }
+            });
+            await waitFor(() => fetches.length >= 3);
+            await reader.disconnect();
+
+            assert.deepStrictEqual(read, ['0:0', '0:1', '0:2', '1:0']);
+            assert.deepStrictEqual(fetches[fetches.length - 1], { 0: '3', 1: '2' }, 'Reading continues after the control record');
+            assert.ok(cluster.disconnect.calledOnce);
+        });
+
+        test('should apply seeks before the next fetch and recover from out of range offsets', async () => {
+            const { cluster, broker } = fakeCluster({ 0: [message(0), message(1), message(2)] });
+            const reader = new AssignedPartitionReader(fakeKafka(cluster), 'orders');
+            const read: string[] = [];
+            broker.fetch.onFirstCall().rejects(Object.assign(new Error('Offset out of range'), { name: 'KafkaJSOffsetOutOfRange', partition: 0 }));
+
+            await reader.run({
+                fromBeginning: false,
+                eachMessage: async ({ message }) => {
+                    read.push(message.offset);
+                }
+            });
+            reader.seek(0, '1');
+            await waitFor(() => read.length >= 2);
+            await reader.disconnect();
+
+            assert.deepStrictEqual(read, ['1', '2']);
+            assert.strictEqual(cluster.fetchTopicsOffset.callCount, 2, 'Starting offsets, then the reset after the out of range error');
+            assert.throws(() => reader.seek(5, '0'), /Partition 5 of topic "orders" is not being read/);
+        });
+
+        test('should stop and report errors it cannot recover from', async () => {
+            const { cluster, broker } = fakeCluster({ 0: [message(0)] });
+            broker.fetch.rejects(new Error('Not authorized to access topics'));
+            const reader = new AssignedPartitionReader(fakeKafka(cluster), 'orders');
+            const errors: Error[] = [];
+
+            await reader.run({ fromBeginning: true, eachMessage: async () => undefined, onError: error => errors.push(error) });
+            await waitFor(() => errors.length > 0);
+            await reader.disconnect();
+
+            assert.match(errors[0].message, /Not authorized/);
+            assert.ok(broker.fetch.calledOnce);
+        });
+    });
+
+    suite('kafkajs internals', () => {
+        test('should expose the cluster factory and broker fetch the reader drives', () => {
+            const kafka = new Kafka({ clientId: 'internals-test', brokers: ['localhost:9092'] });
+            const createCluster = Object.getOwnPropertySymbols(kafka).find(symbol => symbol.description === 'private:Kafka:createCluster');
+            assert.ok(createCluster, 'Kafka instances no longer carry the cluster factory');
+
+            const cluster = (kafka as any)[createCluster]({ isolationLevel: 1 });
+            for (const method of ['connect', 'disconnect', 'addTargetTopic', 'refreshMetadata', 'findTopicPartitionMetadata',
+                'findLeaderForPartitions', 'findBroker', 'fetchTopicsOffset']) {
+                assert.strictEqual(typeof cluster[method], 'function', `Cluster.${method} is missing`);
+            }
+            assert.strictEqual(typeof require('kafkajs/src/broker').prototype.fetch, 'function', 'Broker.fetch is missing');
+        });
+
+        test('should build batches that drop records before the fetch offset and control records', () => {
+            const Batch = require('kafkajs/src/consumer/batch');
+            const batch = new Batch('orders', '1', {
+                partition: 0,
+                highWatermark: '3',
+                abortedTransactions: [],
+                messages: [message(0), message(1), message(2, { isControlRecord: true })]
+            });
+
+            assert.deepStrictEqual(batch.messages.map((m: any) => m.offset), ['1']);
+            assert.strictEqual(batch.lastOffset(), '2');
+        });
+    });
+
+    suite('KafkaClientManager', () => {
+        let registry: ExtensionConsumerGroupRegistry;
+        let manager: KafkaClientManager;
+        let readMode: string;
+
+        setup(() => {
+            registry = new ExtensionConsumerGroupRegistry(memento());
+            manager = new KafkaClientManager(undefined, registry);
+            readMode = 'assign';
+            sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue: any) => (key === 'readMode' ? readMode : defaultValue)
+            } as any);
+        });
+
+        test('should consume without creating a consumer group in assign mode', async () => {
+            const { cluster } = fakeCluster({ 0: [message(0), message(1), message(2)] });
+            const kafka = fakeKafka(cluster);
+            (manager as any).kafkaInstances.set('prod', kafka);
+
+            const messages = await manager.consumeMessages('prod', 'orders', true, 2);
+
+            assert.deepStrictEqual(messages.map(m => m.offset), ['0', '1']);
+            assert.ok(kafka.consumer.notCalled);
+            assert.deepStrictEqual(registry.list(), []);
+        });
+
+        test('should register the throwaway group in group mode', async () => {
+            readMode = 'group';
+            const kafka = fakeKafka({});
+            kafka.consumer.returns({
+                connect: sandbox.stub().rejects(new Error('Connection refused')),
+                disconnect: sandbox.stub().resolves()
+            });
+            (manager as any).kafkaInstances.set('prod', kafka);
+
+            await assert.rejects(manager.consumeMessages('prod', 'orders', true, 2), /Connection refused/);
+
+            const [registered] = registry.list('prod');
+            assert.strictEqual(kafka.consumer.firstCall.args[0].groupId, registered.groupId);
+            assert.match(registered.groupId, /^vscode-kafka-consumer-\d+$/);
+        });
+
+        test('should find registered groups and empty leftovers, and forget registered groups that are gone', async () => {
+            await registry.register('prod', 'vscode-kafka-client-1');
+            await registry.register('prod', 'vscode-kafka-client-2');
+            const admin = {
+                listGroups: sandbox.stub().resolves({
+                    groups: ['vscode-kafka-client-1', 'vscode-kafka-consumer-3', 'vscode-kafka-consumer-4', 'billing'].map(groupId => ({ groupId }))
+                }),
+                describeGroups: sandbox.stub().resolves({
+                    groups: [
+                        { groupId: 'vscode-kafka-consumer-3', state: 'Empty' },
+                        { groupId: 'vscode-kafka-consumer-4', state: 'Stable' }
+                    ]
+                })
+            };
+            sandbox.stub(manager as any, 'getAdmin').resolves(admin);
+
+            const groups = await manager.findExtensionConsumerGroups('prod');
+
+            assert.deepStrictEqual(groups, ['vscode-kafka-client-1', 'vscode-kafka-consumer-3']);
+            assert.deepStrictEqual(admin.describeGroups.firstCall.args[0], ['vscode-kafka-consumer-3', 'vscode-kafka-consumer-4']);
+            assert.deepStrictEqual(registry.list().map(g => g.groupId), ['vscode-kafka-client-1']);
+        });
+
+        test('should keep groups that are still in use registered for the next cleanup', async () => {
+            await registry.register('prod', 'vscode-kafka-client-1');
+            await registry.register('prod', 'vscode-kafka-client-2');
+            await registry.register('prod', 'vscode-kafka-client-3');
+            sandbox.stub(manager as any, 'getAdmin').resolves({
+                deleteGroups: sandbox.stub().rejects(Object.assign(new Error('Error in DeleteGroups'), {
+                    groups: [
+                        { groupId: 'vscode-kafka-client-2', error: { type: 'NON_EMPTY_GROUP', message: 'The group is not empty' } },
+                        { groupId: 'vscode-kafka-client-3', error: { type: 'GROUP_ID_NOT_FOUND', message: 'The group id does not exist' } }
+                    ]
+                }))
+            });
+
+            const result = await manager.deleteExtensionConsumerGroups('prod', registry.list().map(g => g.groupId));
+
+            assert.deepStrictEqual(result, {
+                deleted: ['vscode-kafka-client-1', 'vscode-kafka-client-3'],
+                failed: [{ groupId: 'vscode-kafka-client-2', error: 'The group is not empty' }]
+            });
+            assert.deepStrictEqual(registry.list().map(g => g.groupId), ['vscode-kafka-client-2']);
+        });
+    });
+});
@@ -0,0 +1,50 @@
+import * as sinon from 'sinon';
+
+// Fakes for the kafkajs internals AssignedPartitionReader drives, shared by the reader's tests
+
+export function message(offset: number, extra: Record<string, unknown> = {}) {
+    return { offset: String(offset), timestamp: '0', key: null, value: Buffer.from(`m${offset}`), headers: {}, isControlRecord: false, ...extra };
+}
+
+/**
+ * Stand-in for the kafkajs internal cluster serving a fixed log per partition
+ */
+export function fakeCluster(logs: Record<number, any[]>) {
+    const fetches: Array<Record<number, string>> = [];
+    const broker = {
+        fetch: sinon.stub().callsFake(async ({ topics }: any) => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            const requested: Record<number, string> = {};
+            const partitions = topics[0].partitions.map(({ partition, fetchOffset }: any) => {
+                requested[partition] = fetchOffset;
+                // Like a broker returning a whole record batch, include the record before the fetch offset
+                const log = logs[partition];
+                const messages = Number(fetchOffset) < log.length ? log.filter(m => Number(m.offset) >= Number(fetchOffset) - 1) : [];
+                return { partition, errorCode: 0, highWatermark: String(logs[partition].length), abortedTransactions: [], messages };
+            });
+            fetches.push(requested);
+            return { responses: [{ topicName: topics[0].topic, partitions }] };
+        })
+    };
+    const cluster = {
+        connect: sinon.stub().resolves(),
+        disconnect: sinon.stub().resolves(),
+        addTargetTopic: sinon.stub().resolves(),
+        refreshMetadata: sinon.stub().resolves(),
+        findTopicPartitionMetadata: () => Object.keys(logs).map(id => ({ partitionId: Number(id), leader: 1 })),
+        findLeaderForPartitions: (_topic: string, partitions: number[]) => ({ 1: partitions }),
+        findBroker: sinon.stub().resolves(broker),
+        fetchTopicsOffset: sinon.stub().callsFake(async ([{ topic, fromBeginning, partitions }]: any) => [{
+            topic,
+            partitions: partitions.map(({ partition }: any) => ({
+                partition,
+                offset: fromBeginning ? '0' : String(logs[partition].length)
+            }))
+        }])
+    };
+    return { cluster, broker, fetches };
+}
+
+export function fakeKafka(cluster: any): any {
+    return { [Symbol('private:Kafka:createCluster')]: () => cluster, consumer: sinon.stub() };
+}
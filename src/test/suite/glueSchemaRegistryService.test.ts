@@ -0,0 +1,238 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as zlib from 'zlib';
+import { GetRegistryCommand, GetSchemaVersionCommand } from '@aws-sdk/client-glue';
+import { GlueSchemaRegistryService } from '../../services/GlueSchemaRegistryService';
+import { SchemaRegistryService } from '../../services/SchemaRegistryService';
+import { createSchemaRegistryClient } from '../../services/SchemaRegistryClient';
+import { CredentialManager } from '../../infrastructure/CredentialManager';
+import { EventBus, KafkaEvents } from '../../infrastructure/EventBus';
+
+const SCHEMA_VERSION_ID = '6f1e2d3c-4b5a-4978-8a1b-2c3d4e5f6a7b';
+const SCHEMA_ARN = 'arn:aws:glue:eu-west-1:123456789012:schema/payments/orders';
+
+const JSON_SCHEMA = JSON.stringify({
+    type: 'object',
+    properties: { id: { type: 'string' }, amount: { type: 'number' } },
+    required: ['id']
+});
+
+const AVRO_SCHEMA = JSON.stringify({
+    type: 'record',
+    name: 'Order',
+    fields: [{ name: 'id', type: 'string' }, { name: 'amount', type: 'double' }]
+});
+
+function frame(payload: Buffer, compression = 0): Buffer {
+    return Buffer.concat([
+        Buffer.from([3, compression]),
+        Buffer.from(SCHEMA_VERSION_ID.replace(/-/g, ''), 'hex'),
+        payload
+    ]);
+}
+
+suite('GlueSchemaRegistryService Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let send: sinon.SinonStub;
+    let service: GlueSchemaRegistryService;
+
+    const schemaVersion = (definition: string, dataFormat: string) => ({
+        SchemaVersionId: SCHEMA_VERSION_ID,
+        SchemaDefinition: definition,
+        DataFormat: dataFormat,
+        SchemaArn: SCHEMA_ARN,
+        VersionNumber: 4
+    });
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        send = sandbox.stub();
+        service = new GlueSchemaRegistryService(
+            { registryName: 'payments', region: 'eu-west-1' },
+            'test-cluster',
+            undefined,
+            { send } as any
+        );
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    suite('Wire Format', () => {
+        test('should parse the schema version UUID and compression flag', () => {
+            assert.deepStrictEqual(GlueSchemaRegistryService.parseWireHeader(frame(Buffer.from('{}'))), {
+                schemaVersionId: SCHEMA_VERSION_ID,
+                compressed: false
+            });
+            assert.strictEqual(GlueSchemaRegistryService.parseWireHeader(frame(Buffer.from('{}'), 5))?.compressed, true);
+        });
+
+        test('should ignore unframed and Confluent-framed payloads', () => {
+            assert.strictEqual(GlueSchemaRegistryService.parseWireHeader(Buffer.from('{"id":"a"}')), undefined);
+            assert.strictEqual(GlueSchemaRegistryService.parseWireHeader(Buffer.from([0, 0, 0, 0, 7, 1])), undefined);
+            assert.strictEqual(GlueSchemaRegistryService.parseWireHeader(Buffer.from([3, 0, 1])), undefined);
+            assert.strictEqual(service.parseSchemaId(null), undefined);
+        });
+
+        test('should round-trip the header', () => {
+            const header = GlueSchemaRegistryService.buildWireHeader(SCHEMA_VERSION_ID);
+
+            assert.strictEqual(header.length, 18);
+            assert.strictEqual(GlueSchemaRegistryService.parseWireHeader(header)?.schemaVersionId, SCHEMA_VERSION_ID);
+        });
+    });
+
+    suite('Decoding', () => {
+        test('should decode JSON payloads and resolve the schema name and version', async () => {
+            send.resolves(schemaVersion(JSON_SCHEMA, 'JSON'));
+
+            const decoded = await service.decodeWithSchema(frame(Buffer.from('{"id":"o-1","amount":12.5}')));
+
+            assert.deepStrictEqual(decoded.value, { id: 'o-1', amount: 12.5 });
+            assert.deepStrictEqual(decoded.schema, { id: SCHEMA_VERSION_ID, subject: 'orders', version: 4 });
+
+            const command = send.firstCall.args[0];
+            assert.ok(command instanceof GetSchemaVersionCommand);
+            assert.strictEqual(command.input.SchemaVersionId, SCHEMA_VERSION_ID);
+        });
+
+        test('should inflate zlib-compressed payloads', async () => {
+            send.resolves(schemaVersion(JSON_SCHEMA, 'JSON'));
+
+            const decoded = await service.decodeWithSchema(frame(zlib.deflateSync(Buffer.from('{"id":"o-2"}')), 5));
+
+            assert.deepStrictEqual(decoded.value, { id: 'o-2' });
+        });
+
+        test('should cache schema versions between messages', async () => {
+            send.resolves(schemaVersion(JSON_SCHEMA, 'JSON'));
+
+            await service.decodeWithSchema(frame(Buffer.from('{"id":"a"}')));
+            await service.decodeWithSchema(frame(Buffer.from('{"id":"b"}')));
+
+            assert.strictEqual(send.callCount, 1);
+        });
+
+        test('should reject payloads without a Glue header', async () => {
+            await assert.rejects(
+                () => service.decodeWithSchema(Buffer.from('plain text payload')),
+                /not in AWS Glue wire format/
+            );
+            assert.ok(send.notCalled);
+        });
+    });
+
+    suite('Encoding', () => {
+        test('should frame Avro payloads with the latest schema version', async () => {
+            send.resolves(schemaVersion(AVRO_SCHEMA, 'AVRO'));
+
+            const encoded = await service.encodeMessage('orders', { id: 'o-3', amount: 1 });
+
+            const input = send.firstCall.args[0].input;
+            assert.deepStrictEqual(input.SchemaId, { RegistryName: 'payments', SchemaName: 'orders' });
+            assert.deepStrictEqual(input.SchemaVersionNumber, { LatestVersion: true });
+            assert.strictEqual(service.parseSchemaId(encoded), SCHEMA_VERSION_ID);
+
+            const decoded = await service.decodeWithSchema(encoded);
+            assert.deepStrictEqual({ ...decoded.value }, { id: 'o-3', amount: 1 });
+        });
+
+        test('should encode with a pinned schema version', async () => {
+            send.resolves(schemaVersion(JSON_SCHEMA, 'JSON'));
+
+            const encoded = await service.encodeMessage('orders', { id: 'o-4' }, 4);
+
+            assert.deepStrictEqual(send.firstCall.args[0].input.SchemaVersionNumber, { VersionNumber: 4 });
+            assert.strictEqual(encoded.subarray(18).toString(), '{"id":"o-4"}');
+        });
+
+        test('should ask Glue once for repeated encodes', async () => {
+            send.resolves(schemaVersion(JSON_SCHEMA, 'JSON'));
+
+            await Promise.all(['o-1', 'o-2', 'o-3'].map(id => service.encodeMessage('orders', { id })));
+            await service.encodeMessage('orders', { id: 'o-4' });
+
+            assert.strictEqual(send.callCount, 1);
+        });
+
+        test('should list schema versions across pages', async () => {
+            send.onFirstCall().resolves({ Schemas: [{ VersionNumber: 3 }, { VersionNumber: 1 }], NextToken: 'page-2' });
+            send.onSecondCall().resolves({ Schemas: [{ VersionNumber: 2 }] });
+
+            assert.deepStrictEqual(await service.getSchemaVersions('orders'), [1, 2, 3]);
+            assert.strictEqual(send.secondCall.args[0].input.NextToken, 'page-2');
+        });
+
+        test('should report invalid payloads and emit a validation event', async () => {
+            send.resolves(schemaVersion(JSON_SCHEMA, 'JSON'));
+            const eventBus = new EventBus();
+            const emitSpy = sandbox.spy(eventBus, 'emitSync');
+            service = new GlueSchemaRegistryService(
+                { registryName: 'payments', region: 'eu-west-1' },
+                'test-cluster',
+                eventBus,
+                { send } as any
+            );
+
+            const isValid = await service.validateMessage('orders', { amount: 'not-a-number' });
+
+            assert.strictEqual(isValid, false);
+            assert.ok(emitSpy.calledWith(KafkaEvents.SCHEMA_VALIDATED, sinon.match({ success: false })));
+        });
+    });
+
+    suite('Availability', () => {
+        test('should look up the configured registry', async () => {
+            send.resolves({ RegistryName: 'payments' });
+
+            assert.strictEqual(await service.isAvailable(), true);
+            assert.ok(send.firstCall.args[0] instanceof GetRegistryCommand);
+        });
+
+        test('should report unavailable when Glue rejects the request', async () => {
+            send.rejects(new Error('AccessDeniedException'));
+
+            assert.strictEqual(await service.isAvailable(), false);
+        });
+    });
+
+    suite('Registry Selection', () => {
+        const credentialManager = {} as CredentialManager;
+
+        test('should create a Glue client for aws-glue clusters', () => {
+            const client = createSchemaRegistryClient({
+                name: 'msk',
+                type: 'msk',
+                securityProtocol: 'SASL_SSL',
+                region: 'eu-west-1',
+                awsProfile: 'dev',
+                schemaRegistryType: 'aws-glue',
+                glueRegistryName: 'payments'
+            } as any, credentialManager);
+
+            assert.ok(client instanceof GlueSchemaRegistryService);
+            assert.strictEqual(client.registryType, 'aws-glue');
+        });
+
+        test('should create a Confluent client when a registry URL is configured', () => {
+            const client = createSchemaRegistryClient({
+                name: 'local',
+                type: 'kafka',
+                securityProtocol: 'PLAINTEXT',
+                schemaRegistryUrl: 'https://registry.example.com'
+            } as any, credentialManager);
+
+            assert.ok(client instanceof SchemaRegistryService);
+        });
+
+        test('should return undefined when no registry is configured', () => {
+            assert.strictEqual(createSchemaRegistryClient({
+                name: 'msk',
+                type: 'msk',
+                securityProtocol: 'SASL_SSL',
+                schemaRegistryType: 'aws-glue'
+            } as any, credentialManager), undefined);
+        });
+    });
+});
@@ -0,0 +1,396 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { Admin } from 'kafkajs';
+
+suite('KafkaClientManager Offset Reset Integration Tests', () => {
+    let manager: KafkaClientManager;
+    let mockAdmin: sinon.SinonStubbedInstance<Admin>;
+    let sandbox: sinon.SinonSandbox;
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        manager = new KafkaClientManager();
+        mockAdmin = {
+            fetchOffsets: sandbox.stub(),
+            fetchTopicOffsets: sandbox.stub(),
+            resetOffsets: sandbox.stub(),
+            setOffsets: sandbox.stub(),
+            fetchTopicOffsetsByTimestamp: sandbox.stub()
+        } as any;
+
+        // Bypass getAdmin (private) to inject our mock
+        sandbox.stub(manager as any, 'getAdmin').resolves(mockAdmin);
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    // --- Topic filtering ---
+
+    suite('Topic filtering from fetchOffsets', () => {
+        test('should drop entries with undefined topic and continue with valid ones', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: 'valid-topic', partition: 0 },
+                { topic: undefined, partition: 1 }
+            ]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '100' }
+            ]);
+
+            const entries = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'beginning');
+
+            assert.strictEqual((mockAdmin.fetchTopicOffsets as sinon.SinonStub).callCount, 1);
+            assert.strictEqual((mockAdmin.fetchTopicOffsets as sinon.SinonStub).firstCall.args[0], 'valid-topic');
+            assert.deepStrictEqual(entries.map(e => e.topic), ['valid-topic']);
+        });
+
+        test('should drop entries with null topic and continue with valid ones', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: 'my-topic', partition: 0 },
+                { topic: null, partition: 1 }
+            ]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '5', high: '50' }
+            ]);
+
+            await manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'beginning');
+
+            assert.strictEqual((mockAdmin.fetchTopicOffsets as sinon.SinonStub).firstCall.args[0], 'my-topic');
+        });
+
+        test('should throw when all topics are filtered out', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: undefined, partition: 0 },
+                { topic: null, partition: 1 }
+            ]);
+
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'beginning'),
+                /has no committed topic offsets to reset/
+            );
+            assert.ok((mockAdmin.fetchTopicOffsets as sinon.SinonStub).notCalled);
+        });
+
+        test('should throw when fetchOffsets returns an empty array', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([]);
+
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'beginning'),
+                /has no committed topic offsets to reset/
+            );
+            assert.ok((mockAdmin.fetchTopicOffsets as sinon.SinonStub).notCalled);
+        });
+    });
+
+    // --- Partition bounds validation ---
+
+    suite('Partition bounds validation', () => {
+        setup(() => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: 'test-topic', partition: 0 }
+            ]);
+        });
+
+        test('should throw when p.low is null', async () => {
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: null, high: '100' }
+            ]);
+
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'beginning'),
+                /Missing offset bounds for partition 0 on topic "test-topic"/
+            );
+        });
+
+        test('should throw when p.high is undefined', async () => {
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: undefined }
+            ]);
+
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'end'),
+                /Missing offset bounds for partition 0 on topic "test-topic"/
+            );
+        });
+    });
+
+    // --- Specific offset validation ---
+
+    suite('Specific offset validation', () => {
+        test('should reject a negative specific offset', async () => {
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'topic', 'specific offset', '-1'),
+                /Invalid offset value/
+            );
+            assert.ok((mockAdmin.fetchOffsets as sinon.SinonStub).notCalled);
+        });
+
+        test('should reject a non-numeric specific offset', async () => {
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'topic', 'specific offset', 'abc'),
+                /Invalid offset value/
+            );
+        });
+
+        test('should reject a missing specific offset when strategy is "specific offset"', async () => {
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'topic', 'specific offset', undefined),
+                /Invalid offset value/
+            );
+        });
+
+        test('should accept a valid specific offset and commit it with setOffsets', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '200' }
+            ]);
+            (mockAdmin.setOffsets as sinon.SinonStub).resolves();
+
+            const entries = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'topic', 'specific offset', '42');
+            await manager.applyConsumerGroupOffsetReset('cluster', 'group1', entries);
+
+            const setCall = (mockAdmin.setOffsets as sinon.SinonStub).firstCall.args[0];
+            assert.strictEqual(setCall.partitions[0].offset, '42');
+        });
+    });
+
+    // --- Happy path ---
+
+    suite('Happy path', () => {
+        test('should reset multiple topics and partitions to beginning', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: 'topic-a', partition: 0 },
+                { topic: 'topic-b', partition: 0 }
+            ]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub)
+                .withArgs('topic-a').resolves([
+                    { partition: 0, low: '10', high: '100' },
+                    { partition: 1, low: '5', high: '50' }
+                ])
+                .withArgs('topic-b').resolves([
+                    { partition: 0, low: '0', high: '200' }
+                ]);
+            (mockAdmin.setOffsets as sinon.SinonStub).resolves();
+
+            const entries = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'beginning');
+            await manager.applyConsumerGroupOffsetReset('cluster', 'group1', entries);
+
+            const setOffsets = mockAdmin.setOffsets as sinon.SinonStub;
+            assert.strictEqual(setOffsets.callCount, 2);
+            assert.deepStrictEqual(setOffsets.firstCall.args[0], {
+                groupId: 'group1',
+                topic: 'topic-a',
+                partitions: [{ partition: 0, offset: '10' }, { partition: 1, offset: '5' }] // low
+            });
+            assert.deepStrictEqual(setOffsets.secondCall.args[0], {
+                groupId: 'group1',
+                topic: 'topic-b',
+                partitions: [{ partition: 0, offset: '0' }] // low
+            });
+            assert.ok((mockAdmin.resetOffsets as sinon.SinonStub).notCalled);
+        });
+
+        test('should reset to end (high watermark)', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: 'topic-a', partition: 0 }
+            ]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '999' }
+            ]);
+
+            const [entry] = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'end');
+
+            assert.strictEqual(entry.proposedOffset, '999');
+        });
+
+        test('should use specific topic when provided (skipping the group topic listing)', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '50' }
+            ]);
+
+            const [entry] = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'explicit-topic', 'beginning');
+
+            assert.ok((mockAdmin.fetchOffsets as sinon.SinonStub).calledOnceWith({ groupId: 'group1', topics: ['explicit-topic'] }));
+            assert.strictEqual(entry.topic, 'explicit-topic');
+        });
+    });
+
+    // --- Dry-run preview ---
+
+    suite('Preview and apply', () => {
+        test('should plan per-partition offsets and lag without committing', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: 'orders', partitions: [{ partition: 0, offset: '40' }, { partition: 1, offset: '-1' }] }
+            ]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 1, low: '10', high: '20' },
+                { partition: 0, low: '5', high: '50' }
+            ]);
+
+            const entries = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'orders', 'beginning');
+
+            assert.deepStrictEqual(entries, [
+                {
+                    topic: 'orders', partition: 0, currentOffset: '40', proposedOffset: '5',
+                    logStartOffset: '5', logEndOffset: '50', currentLag: 10, resultingLag: 45
+                },
+                {
+                    topic: 'orders', partition: 1, currentOffset: null, proposedOffset: '10',
+                    logStartOffset: '10', logEndOffset: '20', currentLag: null, resultingLag: 10
+                }
+            ]);
+            assert.ok((mockAdmin.fetchOffsets as sinon.SinonStub).calledWith({ groupId: 'group1', topics: ['orders'] }));
+            assert.ok((mockAdmin.resetOffsets as sinon.SinonStub).notCalled);
+            assert.ok((mockAdmin.setOffsets as sinon.SinonStub).notCalled);
+        });
+
+        test('should clamp a specific offset past the log end', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '100' }
+            ]);
+
+            const [entry] = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'orders', 'specific offset', '500');
+
+            assert.strictEqual(entry.proposedOffset, '100');
+            assert.strictEqual(entry.resultingLag, 0);
+        });
+
+        test('should reject an invalid specific offset before any network calls', async () => {
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'orders', 'specific offset', '-3'),
+                /Must be a non-negative integer/
+            );
+            assert.ok((mockAdmin.fetchOffsets as sinon.SinonStub).notCalled);
+        });
+
+        test('should commit reviewed entries with one setOffsets call per topic', async () => {
+            (mockAdmin.setOffsets as sinon.SinonStub).resolves();
+
+            await manager.applyConsumerGroupOffsetReset('cluster', 'group1', [
+                { topic: 'orders', partition: 0, proposedOffset: '5' },
+                { topic: 'payments', partition: 0, proposedOffset: '7' },
+                { topic: 'orders', partition: 1, proposedOffset: '12' }
+            ]);
+
+            const setOffsets = mockAdmin.setOffsets as sinon.SinonStub;
+            assert.strictEqual(setOffsets.callCount, 2);
+            assert.deepStrictEqual(setOffsets.firstCall.args[0], {
+                groupId: 'group1',
+                topic: 'orders',
+                partitions: [{ partition: 0, offset: '5' }, { partition: 1, offset: '12' }]
+            });
+            assert.strictEqual(setOffsets.secondCall.args[0].topic, 'payments');
+        });
+
+        test('should commit nothing when an overridden offset is invalid', async () => {
+            await assert.rejects(
+                () => manager.applyConsumerGroupOffsetReset('cluster', 'group1', [
+                    { topic: 'orders', partition: 0, proposedOffset: '5' },
+                    { topic: 'orders', partition: 1, proposedOffset: 'abc' }
+                ]),
+                /orders\[1\]: Invalid offset value/
+            );
+            assert.ok((mockAdmin.setOffsets as sinon.SinonStub).notCalled);
+        });
+    });
+
+    // --- Additional strategies ---
+
+    suite('Additional strategies', () => {
+        test('should reset to the offsets at a datetime, using the log end where no message is newer', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '100' },
+                { partition: 1, low: '0', high: '80' }
+            ]);
+            (mockAdmin.fetchTopicOffsetsByTimestamp as sinon.SinonStub).resolves([
+                { partition: 0, offset: '42' },
+                { partition: 1, offset: '-1' }
+            ]);
+
+            const entries = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'orders', 'to-datetime', '2024-01-31T09:00:00Z');
+
+            assert.ok((mockAdmin.fetchTopicOffsetsByTimestamp as sinon.SinonStub).calledWith('orders', Date.parse('2024-01-31T09:00:00Z')));
+            assert.deepStrictEqual(entries.map(e => e.proposedOffset), ['42', '80']);
+        });
+
+        test('should shift committed offsets and clamp to the log start', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: 'orders', partitions: [{ partition: 0, offset: '50' }, { partition: 1, offset: '15' }] }
+            ]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '100' },
+                { partition: 1, low: '10', high: '100' }
+            ]);
+
+            const entries = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'orders', 'shift-by', '-20');
+
+            assert.deepStrictEqual(entries.map(e => e.proposedOffset), ['30', '10']);
+        });
+
+        test('should only plan the partitions listed in an offsets file', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).withArgs('orders').resolves([
+                { partition: 0, low: '0', high: '100' },
+                { partition: 1, low: '0', high: '100' }
+            ]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).withArgs('payments').resolves([
+                { partition: 0, low: '0', high: '9' }
+            ]);
+
+            const entries = await manager.previewConsumerGroupOffsetReset(
+                'cluster', 'group1', undefined, 'from-file', 'topic,partition,offset\norders,1,60\npayments,0,25\n'
+            );
+
+            assert.deepStrictEqual(
+                entries.map(e => [e.topic, e.partition, e.proposedOffset]),
+                [['orders', 1, '60'], ['payments', 0, '9']]
+            );
+        });
+
+        test('should reject offsets file rows for partitions that do not exist', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '100' }
+            ]);
+
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', undefined, 'from-file', 'orders,3,10'),
+                /Partition 3 does not exist on topic "orders"/
+            );
+        });
+
+        test('should commit a to-current plan with setOffsets', async () => {
+            (mockAdmin.fetchOffsets as sinon.SinonStub).resolves([
+                { topic: 'orders', partitions: [{ partition: 0, offset: '7' }, { partition: 1, offset: '-1' }] }
+            ]);
+            (mockAdmin.fetchTopicOffsets as sinon.SinonStub).resolves([
+                { partition: 0, low: '0', high: '100' },
+                { partition: 1, low: '0', high: '30' }
+            ]);
+            (mockAdmin.setOffsets as sinon.SinonStub).resolves();
+
+            const entries = await manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'orders', 'to-current');
+            await manager.applyConsumerGroupOffsetReset('cluster', 'group1', entries);
+
+            assert.deepStrictEqual((mockAdmin.setOffsets as sinon.SinonStub).firstCall.args[0], {
+                groupId: 'group1',
+                topic: 'orders',
+                partitions: [{ partition: 0, offset: '7' }, { partition: 1, offset: '30' }]
+            });
+            assert.ok((mockAdmin.resetOffsets as sinon.SinonStub).notCalled);
+        });
+
+        test('should reject a malformed duration before any network calls', async () => {
+            await assert.rejects(
+                () => manager.previewConsumerGroupOffsetReset('cluster', 'group1', 'orders', 'by-duration', '30m'),
+                /Invalid duration/
+            );
+            assert.ok((mockAdmin.fetchTopicOffsets as sinon.SinonStub).notCalled);
+        });
+    });
+});
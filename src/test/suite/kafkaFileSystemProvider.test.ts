@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { SchemaRegistryProvider } from '../../providers/schemaRegistryProvider';
+import { ConfigEntry, ConfigurationEditorService } from '../../services/ConfigurationEditorService';
+import { AuditLog } from '../../infrastructure/AuditLog';
+import {
+    KafkaFileSystemProvider,
+    diffTopicConfigs,
+    formatConfigDocument,
+    formatMessageDocument,
+    parseConfigDocument
+} from '../../providers/kafkaFileSystemProvider';
+
+const entries: ConfigEntry[] = [
+    { configName: 'retention.ms', configValue: '86400000', configSource: 1, isDefault: false },
+    { configName: 'cleanup.policy', configValue: 'delete', configSource: 5, isDefault: true },
+    { configName: 'min.insync.replicas', configValue: '2', configSource: 4, isDefault: false }
+];
+
+suite('Kafka File System Provider Test Suite', () => {
+    suite('URIs', () => {
+        test('should round-trip message, config and schema locations', () => {
+            assert.deepStrictEqual(KafkaFileSystemProvider.parseUri(KafkaFileSystemProvider.messageUri('prod', 'orders', 3, '1200')), {
+                clusterName: 'prod', kind: 'message', topic: 'orders', partition: 3, offset: '1200'
+            });
+            assert.deepStrictEqual(KafkaFileSystemProvider.parseUri(KafkaFileSystemProvider.topicConfigUri('prod', 'orders')), {
+                clusterName: 'prod', kind: 'config', topic: 'orders'
+            });
+            assert.deepStrictEqual(KafkaFileSystemProvider.parseUri(KafkaFileSystemProvider.schemaUri('prod', 'team/orders-value', 3, 'PROTOBUF')), {
+                clusterName: 'prod', kind: 'schema', subject: 'team/orders-value', version: 3
+            });
+        });
+
+        test('should accept paths without extensions and reject unknown ones', () => {
+            const parse = (path: string) => KafkaFileSystemProvider.parseUri(vscode.Uri.from({ scheme: 'kafka', authority: 'prod', path }));
+
+            assert.strictEqual(parse('/topics/orders/partitions/3/offsets/1200')?.kind, 'message');
+            assert.strictEqual(parse('/topics/orders/config')?.kind, 'config');
+            assert.strictEqual(parse('/schemas/orders-value/3')?.kind, 'schema');
+            assert.strictEqual(parse('/topics/orders/partitions/3')?.kind, 'partition');
+            assert.strictEqual(parse('/')?.kind, 'root');
+            assert.strictEqual(parse('/topics/orders/partitions/x'), undefined);
+            assert.strictEqual(parse('/topics/orders/partitions/3/offsets/latest'), undefined);
+            assert.strictEqual(parse('/brokers'), undefined);
+        });
+    });
+
+    suite('Config documents', () => {
+        test('should write overrides as settings and everything else as comments', () => {
+            const document = formatConfigDocument('prod', 'orders', entries);
+
+            assert.ok(/^retention\.ms=86400000$/m.test(document));
+            assert.ok(/^# cleanup\.policy=delete$/m.test(document));
+            assert.ok(/^# min\.insync\.replicas=2$/m.test(document));
+            assert.deepStrictEqual(parseConfigDocument(document), [{ name: 'retention.ms', value: '86400000' }]);
+        });
+
+        test('should name the line of an invalid or repeated setting', () => {
+            assert.deepStrictEqual(parseConfigDocument('! note\n\n  cleanup.policy = compact \nretention.ms='), [
+                { name: 'cleanup.policy', value: 'compact' },
+                { name: 'retention.ms', value: '' }
+            ]);
+            assert.throws(() => parseConfigDocument('# header\nretention.ms 1000'), /Line 2: expected name=value/);
+            assert.throws(() => parseConfigDocument('a.b=1\na.b=2'), /Line 2: a\.b is set more than once/);
+        });
+
+        test('should list added, changed and removed settings', () => {
+            assert.deepStrictEqual(diffTopicConfigs(
+                [{ name: 'retention.ms', value: '1000' }, { name: 'segment.ms', value: '60000' }, { name: 'max.message.bytes', value: '1048588' }],
+                [{ name: 'retention.ms', value: '2000' }, { name: 'cleanup.policy', value: 'compact' }, { name: 'max.message.bytes', value: '1048588' }]
+            ), [
+                { name: 'retention.ms', from: '1000', to: '2000' },
+                { name: 'cleanup.policy', from: undefined, to: 'compact' },
+                { name: 'segment.ms', from: '60000' }
+            ]);
+        });
+    });
+
+    suite('Message documents', () => {
+        test('should embed JSON values and base64 encode binary keys', () => {
+            const document = JSON.parse(formatMessageDocument({
+                topic: 'orders',
+                partition: 3,
+                offset: '1200',
+                timestamp: '1700000000000',
+                key: Buffer.from([0, 255]),
+                value: Buffer.from('{"id":7}'),
+                headers: { trace: Buffer.from('abc'), hops: [Buffer.from('a'), Buffer.from('b')] }
+            }));
+
+            assert.deepStrictEqual(document.value, { id: 7 });
+            assert.strictEqual(document.valueEncoding, undefined);
+            assert.strictEqual(document.key, 'AP8=');
+            assert.strictEqual(document.keyEncoding, 'base64');
+            assert.deepStrictEqual(document.headers, { trace: 'abc', hops: ['a', 'b'] });
+            assert.strictEqual(document.time, '2023-11-14T22:13:20.000Z');
+        });
+
+        test('should keep plain text and tombstones as they are', () => {
+            const text = JSON.parse(formatMessageDocument({ topic: 't', partition: 0, offset: '1', timestamp: '0', key: null, value: Buffer.from('hello') }));
+            const tombstone = JSON.parse(formatMessageDocument({ topic: 't', partition: 0, offset: '2', timestamp: '0', key: Buffer.from('k'), value: null }));
+
+            assert.strictEqual(text.value, 'hello');
+            assert.strictEqual(text.key, null);
+            assert.strictEqual(tombstone.value, null);
+        });
+    });
+
+    suite('Saving config documents', () => {
+        let sandbox: sinon.SinonSandbox;
+        let provider: KafkaFileSystemProvider;
+        let alterStub: sinon.SinonStub;
+        const uri = KafkaFileSystemProvider.topicConfigUri('prod', 'orders');
+
+        setup(() => {
+            sandbox = sinon.createSandbox();
+            const clientManager = sandbox.createStubInstance(KafkaClientManager);
+            (clientManager.getAdminClient as sinon.SinonStub).resolves({});
+            sandbox.stub(ConfigurationEditorService.prototype, 'getTopicConfig').resolves(entries);
+            alterStub = sandbox.stub(ConfigurationEditorService.prototype, 'alterTopicConfig').resolves();
+            sandbox.stub(AuditLog, 'success');
+            provider = new KafkaFileSystemProvider(clientManager as any, {} as SchemaRegistryProvider);
+        });
+
+        teardown(() => {
+            sandbox.restore();
+        });
+
+        test('should apply the whole document after confirmation', async () => {
+            const confirm = sandbox.stub(vscode.window, 'showWarningMessage').resolves('Apply' as any);
+            const changed = sinon.spy();
+            provider.onDidChangeFile(changed);
+
+            await provider.writeFile(uri, Buffer.from('retention.ms=1000\ncleanup.policy=compact\n'));
+
+            assert.ok(/Apply 2 config changes to topic "orders" on prod/.test(confirm.firstCall.args[0]));
+            assert.deepStrictEqual(alterStub.firstCall.args[2], [
+                { name: 'retention.ms', value: '1000' },
+                { name: 'cleanup.policy', value: 'compact' }
+            ]);
+            assert.strictEqual(changed.callCount, 1);
+        });
+
+        test('should leave the topic unchanged when the change is not confirmed', async () => {
+            sandbox.stub(vscode.window, 'showWarningMessage').resolves(undefined);
+
+            await assert.rejects(provider.writeFile(uri, Buffer.from('retention.ms=1000\n')));
+            assert.strictEqual(alterStub.called, false);
+        });
+
+        test('should skip confirmation when nothing changed', async () => {
+            const confirm = sandbox.stub(vscode.window, 'showWarningMessage');
+
+            await provider.writeFile(uri, Buffer.from(formatConfigDocument('prod', 'orders', entries)));
+            assert.strictEqual(confirm.called, false);
+            assert.strictEqual(alterStub.called, false);
+        });
+
+        test('should not write messages or schemas', async () => {
+            await assert.rejects(provider.writeFile(KafkaFileSystemProvider.messageUri('prod', 'orders', 0, '1'), Buffer.from('{}')));
+            assert.strictEqual(alterStub.called, false);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import * as consumerGroupCommands from '../../commands/consumerGroupCommands';
+import { EventBus, KafkaEvents } from '../../infrastructure/EventBus';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { LagAlertDecorationProvider, consumerGroupUri } from '../../providers/lagAlertDecorationProvider';
+import { LagAlertRuleSet, getLagSeverity } from '../../services/LagAlertRules';
+import { LagMonitor } from '../../services/LagMonitor';
+
+suite('Lag Alert Rules Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    const defaults = { warningThreshold: 1000, criticalThreshold: 10000, stuckAfterMinutes: 15 };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    suite('Rule matching', () => {
+        test('should apply the first matching rule and fall back to the global thresholds', () => {
+            const rules = new LagAlertRuleSet([
+                { group: '^vscode-kafka-', muted: true },
+                { cluster: '^prod$', group: '^billing', criticalThreshold: 500 },
+                { group: '^billing' }
+            ]);
+
+            assert.strictEqual(rules.resolve('dev', 'vscode-kafka-consumer-1', defaults).muted, true);
+            assert.deepStrictEqual(rules.resolve('prod', 'billing-eu', defaults), {
+                warningThreshold: 1000,
+                criticalThreshold: 500,
+                stuckAfterMinutes: 15,
+                muted: false,
+                ruleIndex: 1
+            });
+            assert.strictEqual(rules.resolve('staging', 'billing-eu', defaults).ruleIndex, 2);
+            assert.deepStrictEqual(rules.resolve('prod', 'orders', defaults), { ...defaults, muted: false });
+        });
+
+        test('should skip invalid rules and report why', () => {
+            const rules = new LagAlertRuleSet([{ group: '(' }, { muted: true }, { group: 'a', warningThreshold: -1 }, { group: 'ok' }]);
+
+            assert.strictEqual(rules.errors.length, 3);
+            assert.match(rules.errors[0], /rule 1: invalid "group" pattern/);
+            assert.match(rules.errors[1], /needs a "cluster" or "group" pattern/);
+            assert.strictEqual(rules.resolve('c', 'ok', defaults).ruleIndex, 3);
+            assert.deepStrictEqual(new LagAlertRuleSet('nope').errors, ['kafka.lagAlerts.rules must be an array']);
+        });
+
+        test('should grade lag against the policy thresholds', () => {
+            const policy = { ...defaults, muted: false };
+            assert.strictEqual(getLagSeverity(999, policy), 'ok');
+            assert.strictEqual(getLagSeverity(1000, policy), 'warning');
+            assert.strictEqual(getLagSeverity(10000, policy), 'critical');
+        });
+    });
+
+    suite('LagMonitor', () => {
+        let clientManager: sinon.SinonStubbedInstance<KafkaClientManager>;
+        let eventBus: EventBus;
+        let committed: Record<string, string>;
+        let settings: Record<string, any>;
+
+        setup(() => {
+            clientManager = sandbox.createStubInstance(KafkaClientManager);
+            eventBus = new EventBus();
+            committed = { billing: '0', 'vscode-kafka-consumer-1': '0' };
+            settings = { rules: [{ group: '^vscode-kafka-', muted: true }] };
+            sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue: any) => (key in settings ? settings[key] : defaultValue)
+            } as any);
+            clientManager.getAdminClient.resolves({
+                listGroups: sandbox.stub().resolves({ groups: Object.keys(committed).map(groupId => ({ groupId })) }),
+                fetchOffsets: sandbox.stub().callsFake(async ({ groupId }: any) => [
+                    { topic: 'orders', partitions: [{ partition: 0, offset: committed[groupId] }] }
+                ]),
+                fetchTopicOffsets: sandbox.stub().resolves([{ partition: 0, low: '0', high: '20000' }])
+            } as any);
+        });
+
+        test('should not alert for muted groups', async () => {
+            const errorStub = sandbox.stub(vscode.window, 'showErrorMessage').resolves(undefined);
+            const monitor = new LagMonitor(clientManager as any, eventBus);
+
+            await (monitor as any).checkClusterLag('prod');
+
+            assert.deepStrictEqual(monitor.getAlertStates().map(s => [s.groupId, s.severity]), [['billing', 'critical']]);
+            assert.ok(!errorStub.firstCall.args[0].includes('vscode-kafka-consumer-1'));
+        });
+
+        test('should report a group stuck once its lagging offset has not moved for the configured minutes', async () => {
+            const clock = sandbox.useFakeTimers({ now: 0, toFake: ['Date'] });
+            settings.criticalThreshold = 50000;
+            settings.warningThreshold = 50000;
+            settings.stuckAfterMinutes = 10;
+            const errorStub = sandbox.stub(vscode.window, 'showErrorMessage').resolves(undefined);
+            const stateChanges: any[] = [];
+            eventBus.on(KafkaEvents.LAG_ALERT_STATE_CHANGED, change => {
+                stateChanges.push(change);
+            });
+            const monitor = new LagMonitor(clientManager as any, eventBus);
+
+            await (monitor as any).checkClusterLag('prod');
+            clock.tick(6 * 60 * 1000);
+            committed.billing = '5';
+            await (monitor as any).checkClusterLag('prod');
+            clock.tick(9 * 60 * 1000);
+            await (monitor as any).checkClusterLag('prod');
+            assert.deepStrictEqual(monitor.getAlertStates(), [], 'The offset moved 9 minutes ago');
+
+            clock.tick(60 * 1000);
+            await (monitor as any).checkClusterLag('prod');
+
+            const [state] = monitor.getAlertStates('prod');
+            assert.strictEqual(state.groupId, 'billing');
+            assert.deepStrictEqual(state.stuckPartitions, ['orders-0']);
+            assert.ok(errorStub.calledOnce);
+            assert.ok(errorStub.firstCall.args[0].includes('Stuck (1 groups)'));
+            assert.deepStrictEqual(stateChanges[stateChanges.length - 1], { clusterName: 'prod', alertCount: 1 });
+        });
+    });
+
+    suite('Surfacing alert state', () => {
+        const state = {
+            clusterName: 'prod',
+            groupId: 'billing/eu',
+            totalLag: 12000,
+            severity: 'critical' as const,
+            stuckPartitions: [],
+            timestamp: 1
+        };
+
+        test('should badge alerting consumer groups in the tree', () => {
+            const lagMonitor = sandbox.createStubInstance(LagMonitor);
+            lagMonitor.getAlertStates.returns([state]);
+            const provider = new LagAlertDecorationProvider(lagMonitor as any, new EventBus());
+
+            const decoration = provider.provideFileDecoration(consumerGroupUri('prod', 'billing/eu'));
+
+            assert.strictEqual(decoration?.badge, '!');
+            assert.match(String(decoration?.tooltip), /critical: 12,000 messages behind/);
+            assert.strictEqual(provider.provideFileDecoration(consumerGroupUri('prod', 'orders')), undefined);
+            provider.dispose();
+        });
+
+        test('should open the details of the lagging group picked from the list', async () => {
+            const lagMonitor = sandbox.createStubInstance(LagMonitor);
+            lagMonitor.getAlertStates.returns([state]);
+            sandbox.stub(vscode.window, 'showQuickPick').callsFake(async (items: any) => (await items)[0]);
+            const executeStub = sandbox.stub(vscode.commands, 'executeCommand').resolves();
+
+            await consumerGroupCommands.showLagAlerts(lagMonitor as any);
+
+            assert.ok(executeStub.calledOnceWith('kafka.showConsumerGroupDetails', { clusterName: 'prod', groupId: 'billing/eu' }));
+        });
+
+        test('should mute a group by prepending an exact-match rule', async () => {
+            const update = sandbox.stub().resolves();
+            sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+                get: () => [{ group: '^vscode-kafka-', muted: true }],
+                update
+            } as any);
+            sandbox.stub(vscode.window, 'showInformationMessage');
+
+            await consumerGroupCommands.muteConsumerGroupLagAlerts({ clusterName: 'prod', groupId: 'billing.eu' });
+
+            assert.deepStrictEqual(update.firstCall.args[1], [
+                { cluster: '^prod$', group: '^billing\\.eu$', muted: true },
+                { group: '^vscode-kafka-', muted: true }
+            ]);
+        });
+    });
+});
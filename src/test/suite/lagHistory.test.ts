@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { LagMonitor } from '../../services/LagMonitor';
+import { GroupLagPoint, LagHistoryStore, analyzeLagTrend, summarizeGroupHistory } from '../../services/LagHistoryStore';
+import { describeLagTrend, formatDrainTime, renderLagHistoryCharts } from '../../views/lagHistoryCharts';
+
+function point(seconds: number, committedOffset: number, logEndOffset: number): GroupLagPoint {
+    return { timestamp: seconds * 1000, committedOffset, logEndOffset, lag: logEndOffset - committedOffset };
+}
+
+suite('Lag History Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    suite('Trend analysis', () => {
+        test('should sum partitions recorded by the same poll', () => {
+            const points = summarizeGroupHistory([
+                { topic: 'orders', partition: 0, samples: [{ timestamp: 1, committedOffset: 10, logEndOffset: 30 }] },
+                { topic: 'orders', partition: 1, samples: [{ timestamp: 1, committedOffset: 5, logEndOffset: 5 }, { timestamp: 2, committedOffset: 6, logEndOffset: 9 }] }
+            ]);
+
+            assert.deepStrictEqual(points, [
+                { timestamp: 1, committedOffset: 15, logEndOffset: 35, lag: 20 },
+                { timestamp: 2, committedOffset: 6, logEndOffset: 9, lag: 3 }
+            ]);
+        });
+
+        test('should estimate the time to drain while consumers outpace producers', () => {
+            const trend = analyzeLagTrend([point(0, 0, 1000), point(60, 1200, 1600)]);
+
+            assert.strictEqual(trend.status, 'catching-up');
+            assert.strictEqual(trend.produceRate, 10);
+            assert.strictEqual(trend.consumeRate, 20);
+            assert.strictEqual(trend.secondsToDrain, 40);
+            assert.strictEqual(describeLagTrend(trend), 'Catching up, drained in ~40s');
+        });
+
+        test('should tell falling behind apart from stuck', () => {
+            assert.strictEqual(analyzeLagTrend([point(0, 0, 100), point(60, 60, 400)]).status, 'falling-behind');
+
+            const stuck = analyzeLagTrend([point(0, 50, 100), point(600, 50, 100)]);
+            assert.strictEqual(stuck.status, 'stuck');
+            assert.strictEqual(stuck.secondsToDrain, undefined);
+            assert.strictEqual(describeLagTrend(stuck), 'Stuck, no commits in the last 10m');
+        });
+
+        test('should only use points inside the window', () => {
+            const trend = analyzeLagTrend([point(0, 0, 100), point(3000, 100, 200), point(3060, 160, 200)], 60 * 1000);
+
+            assert.strictEqual(trend.windowSeconds, 60);
+            assert.strictEqual(trend.consumeRate, 1);
+        });
+
+        test('should report caught up and unknown without rates', () => {
+            assert.strictEqual(analyzeLagTrend([point(0, 100, 100)]).status, 'caught-up');
+            assert.strictEqual(analyzeLagTrend([point(0, 50, 100)]).status, 'unknown');
+            assert.strictEqual(analyzeLagTrend([]).status, 'unknown');
+        });
+
+        test('should format drain times and chart only with two samples', () => {
+            assert.strictEqual(formatDrainTime(3 * 3600 + 5 * 60), '3h 5m');
+            assert.strictEqual(formatDrainTime(2 * 86400 + 4 * 3600), '2d 4h');
+            assert.match(renderLagHistoryCharts([point(0, 0, 0)]), /at least two samples/);
+            assert.strictEqual((renderLagHistoryCharts([point(0, 0, 10), point(30, 10, 20)]).match(/<polyline/g) || []).length, 3);
+        });
+    });
+
+    suite('LagHistoryStore', () => {
+        const storageUri = vscode.Uri.file('/tmp/kafka-storage');
+        let written: Map<string, Buffer>;
+
+        setup(() => {
+            written = new Map();
+            sandbox.stub(vscode.workspace.fs, 'createDirectory').resolves();
+            sandbox.stub(vscode.workspace.fs, 'writeFile').callsFake(async (uri: vscode.Uri, content: Uint8Array) => {
+                written.set(uri.fsPath, Buffer.from(content));
+            });
+            sandbox.stub(vscode.workspace.fs, 'readFile').callsFake(async (uri: vscode.Uri) => {
+                const content = written.get(uri.fsPath);
+                if (!content) {
+                    throw new Error('ENOENT');
+                }
+                return content;
+            });
+        });
+
+        test('should persist samples per cluster and read them back', async () => {
+            const store = new LagHistoryStore(storageUri);
+            await store.record('prod', 'billing', [
+                { topic: 'orders', partition: 1, committedOffset: '80', logEndOffset: '90' },
+                { topic: 'orders', partition: 0, committedOffset: '-1', logEndOffset: '10' }
+            ], Date.now());
+            await store.flush();
+
+            assert.strictEqual(written.size, 1);
+            const history = await new LagHistoryStore(storageUri).getGroupHistory('prod', 'billing');
+            assert.deepStrictEqual(history.map(p => [p.topic, p.partition, p.samples.length]), [['orders', 1, 1]]);
+            assert.strictEqual(history[0].samples[0].logEndOffset, 90);
+        });
+
+        test('should drop samples past the retention and cap each partition', async () => {
+            sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue: any) => (key === 'maxSamplesPerPartition' ? 2 : defaultValue)
+            } as any);
+            const store = new LagHistoryStore(storageUri);
+            const now = Date.now();
+
+            await store.record('prod', 'old', [{ topic: 't', partition: 0, committedOffset: 1, logEndOffset: 1 }], now - 25 * 60 * 60 * 1000);
+            for (let i = 0; i < 3; i++) {
+                await store.record('prod', 'billing', [{ topic: 't', partition: 0, committedOffset: i, logEndOffset: 5 }], now + i);
+            }
+
+            // Recording trims only the recorded group; groups that are no longer polled go on flush
+            assert.deepStrictEqual([...(await store.getClusterHistory('prod')).keys()], ['old', 'billing']);
+            await store.flush();
+
+            const cluster = await store.getClusterHistory('prod');
+            assert.deepStrictEqual([...cluster.keys()], ['billing']);
+            assert.deepStrictEqual(cluster.get('billing')![0].samples.map(s => s.committedOffset), [1, 2]);
+            assert.deepStrictEqual([...(await new LagHistoryStore(storageUri).getClusterHistory('prod')).keys()], ['billing']);
+        });
+    });
+
+    suite('LagMonitor recording', () => {
+        test('should record samples without alerting when only history is enabled', async () => {
+            const clientManager = sandbox.createStubInstance(KafkaClientManager);
+            const lagHistory = sinon.createStubInstance(LagHistoryStore);
+            sandbox.stub(vscode.workspace, 'getConfiguration').callsFake((section?: string) => ({
+                get: (key: string, defaultValue: any) => (section === 'kafka.lagHistory' && key === 'enabled' ? true : defaultValue)
+            }) as any);
+            clientManager.getClusters.returns([]);
+            clientManager.getAdminClient.resolves({
+                listGroups: sandbox.stub().resolves({ groups: [{ groupId: 'billing' }] }),
+                fetchOffsets: sandbox.stub().resolves([{ topic: 'orders', partitions: [{ partition: 0, offset: '10' }] }]),
+                fetchTopicOffsets: sandbox.stub().resolves([{ partition: 0, low: '0', high: '50000' }])
+            } as any);
+            const warningStub = sandbox.stub(vscode.window, 'showWarningMessage');
+            const errorStub = sandbox.stub(vscode.window, 'showErrorMessage');
+            const monitor = new LagMonitor(clientManager as any, undefined, lagHistory as any);
+
+            monitor.start();
+            await (monitor as any).checkClusterLag('prod');
+            monitor.stop();
+
+            assert.ok(lagHistory.record.calledOnce);
+            assert.deepStrictEqual(lagHistory.record.firstCall.args.slice(0, 3), [
+                'prod',
+                'billing',
+                [{ topic: 'orders', partition: 0, committedOffset: '10', logEndOffset: '50000' }]
+            ]);
+            assert.ok(warningStub.notCalled && errorStub.notCalled);
+        });
+    });
+});
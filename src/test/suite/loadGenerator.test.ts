@@ -0,0 +1,181 @@
+import * as assert from 'assert';
+import {
+    LatencyReservoir,
+    LoadGenerator,
+    LoadGeneratorClock,
+    LoadTestSnapshot,
+    percentile,
+    validateLoadTestOptions
+} from '../../services/LoadGenerator';
+
+/**
+ * Clock that advances only when the generator sleeps, so runs are instant and deterministic
+ */
+function fakeClock(): LoadGeneratorClock & { time: number } {
+    const clock = {
+        time: 0,
+        now: () => clock.time,
+        sleep: async (ms: number) => {
+            clock.time += ms;
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+    return clock;
+}
+
+suite('LoadGenerator Test Suite', () => {
+    suite('Options', () => {
+        test('should accept a duration, a total count or both', () => {
+            assert.strictEqual(validateLoadTestOptions({ ratePerSecond: 10, durationSeconds: 5, concurrency: 1 }), undefined);
+            assert.strictEqual(validateLoadTestOptions({ ratePerSecond: 10, totalMessages: 50, concurrency: 1 }), undefined);
+        });
+
+        test('should reject out-of-range settings', () => {
+            assert.match(validateLoadTestOptions({ ratePerSecond: 0, durationSeconds: 5, concurrency: 1 })!, /Rate/);
+            assert.match(validateLoadTestOptions({ ratePerSecond: 0.5, durationSeconds: 5, concurrency: 1 })!, /Rate must be between 1 and/);
+            assert.match(validateLoadTestOptions({ ratePerSecond: 10, durationSeconds: 0.5, concurrency: 1 })!, /Duration must be between 1 and/);
+            assert.match(validateLoadTestOptions({ ratePerSecond: 10, durationSeconds: 5, concurrency: 0 })!, /Concurrency/);
+            assert.match(validateLoadTestOptions({ ratePerSecond: 10, concurrency: 1 })!, /duration/);
+            assert.match(validateLoadTestOptions({ ratePerSecond: 10, totalMessages: 1.5, concurrency: 1 })!, /Total/);
+            assert.throws(() => new LoadGenerator({ ratePerSecond: -1, totalMessages: 1, concurrency: 1 }, async () => {}));
+        });
+    });
+
+    suite('Latency Statistics', () => {
+        test('should compute nearest-rank percentiles', () => {
+            const sorted = Array.from({ length: 100 }, (_, i) => i + 1);
+
+            assert.strictEqual(percentile(sorted, 50), 50);
+            assert.strictEqual(percentile(sorted, 99), 99);
+            assert.strictEqual(percentile([7], 95), 7);
+            assert.strictEqual(percentile([], 50), 0);
+        });
+
+        test('should keep exact min, max and mean beyond the reservoir size', () => {
+            const reservoir = new LatencyReservoir(10, () => 0.5);
+            for (let i = 1; i <= 1000; i++) {
+                reservoir.add(i);
+            }
+
+            const summary = reservoir.summary();
+            assert.strictEqual(summary.min, 1);
+            assert.strictEqual(summary.max, 1000);
+            assert.strictEqual(summary.mean, 500.5);
+        });
+    });
+
+    suite('Running', () => {
+        test('should send the total count at the target rate', async () => {
+            const clock = fakeClock();
+            const sequences: number[] = [];
+
+            const generator = new LoadGenerator(
+                { ratePerSecond: 100, totalMessages: 250, concurrency: 5 },
+                async (seq) => { sequences.push(seq); },
+                undefined,
+                clock
+            );
+            const summary = await generator.run();
+
+            assert.strictEqual(summary.sent, 250);
+            assert.strictEqual(summary.errors, 0);
+            assert.deepStrictEqual(sequences.slice(0, 3), [1, 2, 3]);
+            // 250 messages at 100 msgs/s take about 2.5 seconds
+            assert.ok(summary.durationMs >= 2400 && summary.durationMs <= 2600, `duration ${summary.durationMs}`);
+        });
+
+        test('should stop at the duration and report progress every second', async () => {
+            const clock = fakeClock();
+            const snapshots: LoadTestSnapshot[] = [];
+
+            const summary = await new LoadGenerator(
+                { ratePerSecond: 50, durationSeconds: 3, concurrency: 2 },
+                async () => {},
+                snapshot => snapshots.push(snapshot),
+                clock
+            ).run();
+
+            assert.ok(summary.sent >= 145 && summary.sent <= 151, `sent ${summary.sent}`);
+            assert.ok(snapshots.length >= 3);
+            assert.ok(Math.abs(snapshots[1].throughput - 50) <= 2, `throughput ${snapshots[1].throughput}`);
+            assert.strictEqual(summary.stoppedEarly, false);
+        });
+
+        test('should never exceed the concurrency limit', async () => {
+            const clock = fakeClock();
+            let inFlight = 0;
+            let peak = 0;
+
+            await new LoadGenerator(
+                { ratePerSecond: 1000, totalMessages: 100, concurrency: 3 },
+                async () => {
+                    inFlight++;
+                    peak = Math.max(peak, inFlight);
+                    await clock.sleep(25);
+                    inFlight--;
+                },
+                undefined,
+                clock
+            ).run();
+
+            assert.strictEqual(peak, 3);
+        });
+
+        test('should measure latency from markSent, leaving out building the message', async () => {
+            const clock = fakeClock();
+
+            const summary = await new LoadGenerator(
+                { ratePerSecond: 100, totalMessages: 5, concurrency: 1 },
+                async (_seq, markSent) => {
+                    clock.time += 1000;
+                    markSent();
+                    await clock.sleep(5);
+                },
+                undefined,
+                clock
+            ).run();
+
+            assert.strictEqual(summary.sent, 5);
+            assert.ok(summary.latency.max < 1000, `max latency ${summary.latency.max}`);
+            assert.ok(summary.latency.min >= 5, `min latency ${summary.latency.min}`);
+        });
+
+                test('should count failures and group their messages', async () => {
+            const clock = fakeClock();
+
+            const summary = await new LoadGenerator(
+                { ratePerSecond: 100, totalMessages: 10, concurrency: 1 },
+                async (seq) => {
+                    if (seq % 2 === 0) {
+                        throw new Error('Quota exceeded');
+                    }
+                },
+                undefined,
+                clock
+            ).run();
+
+            assert.strictEqual(summary.sent, 5);
+            assert.strictEqual(summary.errors, 5);
+            assert.deepStrictEqual(summary.topErrors, [{ message: 'Quota exceeded', count: 5 }]);
+        });
+
+        test('should end early when stopped', async () => {
+            const clock = fakeClock();
+            const generator = new LoadGenerator(
+                { ratePerSecond: 10, durationSeconds: 60, concurrency: 1 },
+                async (seq) => {
+                    if (seq === 5) {
+                        generator.stop();
+                    }
+                },
+                undefined,
+                clock
+            );
+
+            const summary = await generator.run();
+
+            assert.strictEqual(summary.sent, 5);
+            assert.strictEqual(summary.stoppedEarly, true);
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import {
+    decodeMessagePack,
+    deserialize,
+    getDeserializer,
+    getDeserializers,
+    isDeserializerId
+} from '../../utils/messageDeserializers';
+
+suite('Message Deserializers Test Suite', () => {
+    suite('Registry', () => {
+        test('should register all built-in deserializers', () => {
+            const ids = getDeserializers().map(d => d.id);
+
+            assert.deepStrictEqual(ids, [
+                'string', 'json', 'hex', 'base64', 'utf16', 'int32', 'int64', 'double', 'uuid', 'msgpack'
+            ]);
+        });
+
+        test('should look up deserializers by ID', () => {
+            assert.strictEqual(getDeserializer('hex')?.label, 'Hex');
+            assert.strictEqual(getDeserializer('nope'), undefined);
+            assert.ok(isDeserializerId('uuid'));
+            assert.ok(!isDeserializerId('auto'));
+            assert.ok(!isDeserializerId(42));
+        });
+    });
+
+    suite('Text Formats', () => {
+        test('should decode UTF-8, hex and base64', () => {
+            const buffer = Buffer.from('héllo');
+
+            assert.strictEqual(deserialize(buffer, 'string'), 'héllo');
+            assert.strictEqual(deserialize(buffer, 'hex'), buffer.toString('hex'));
+            assert.strictEqual(deserialize(buffer, 'base64'), buffer.toString('base64'));
+        });
+
+        test('should pretty-print JSON and reject invalid JSON', () => {
+            assert.strictEqual(deserialize(Buffer.from('{"a":1}'), 'json'), '{\n  "a": 1\n}');
+            assert.throws(() => deserialize(Buffer.from('not json'), 'json'));
+        });
+
+        test('should decode UTF-16 big-endian and little-endian with BOM', () => {
+            const bigEndian = Buffer.from('hi', 'utf16le').swap16();
+            const littleEndian = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('hi', 'utf16le')]);
+
+            assert.strictEqual(deserialize(bigEndian, 'utf16'), 'hi');
+            assert.strictEqual(deserialize(littleEndian, 'utf16'), 'hi');
+            assert.throws(() => deserialize(Buffer.from([0x00]), 'utf16'), /even number of bytes/);
+        });
+    });
+
+    suite('Numeric Formats', () => {
+        test('should decode big-endian int32', () => {
+            const buffer = Buffer.alloc(4);
+            buffer.writeInt32BE(-42);
+
+            assert.strictEqual(deserialize(buffer, 'int32'), '-42');
+        });
+
+        test('should decode big-endian int64 beyond the safe integer range', () => {
+            const buffer = Buffer.alloc(8);
+            buffer.writeBigInt64BE(BigInt('9007199254740993'));
+
+            assert.strictEqual(deserialize(buffer, 'int64'), '9007199254740993');
+        });
+
+        test('should decode big-endian double', () => {
+            const buffer = Buffer.alloc(8);
+            buffer.writeDoubleBE(3.5);
+
+            assert.strictEqual(deserialize(buffer, 'double'), '3.5');
+        });
+
+        test('should reject numeric payloads with the wrong length', () => {
+            assert.throws(() => deserialize(Buffer.alloc(3), 'int32'), /exactly 4 bytes/);
+            assert.throws(() => deserialize(Buffer.alloc(4), 'int64'), /exactly 8 bytes/);
+        });
+    });
+
+    suite('UUID', () => {
+        test('should format 16-byte UUIDs', () => {
+            const buffer = Buffer.from('123e4567e89b12d3a456426614174000', 'hex');
+
+            assert.strictEqual(deserialize(buffer, 'uuid'), '123e4567-e89b-12d3-a456-426614174000');
+        });
+
+        test('should pass through string UUIDs', () => {
+            const uuid = '123e4567-e89b-12d3-a456-426614174000';
+
+            assert.strictEqual(deserialize(Buffer.from(uuid), 'uuid'), uuid);
+        });
+    });
+
+    suite('MessagePack', () => {
+        test('should decode maps, arrays, strings and integers', () => {
+            // {"id": 1, "tags": ["a", "b"], "neg": -1}
+            const buffer = Buffer.from('83a2696401a47461677392a161a162a36e6567ff', 'hex');
+
+            assert.deepStrictEqual(decodeMessagePack(buffer), { id: 1, tags: ['a', 'b'], neg: -1 });
+        });
+
+        test('should decode nil, booleans, floats and wide integers', () => {
+            assert.strictEqual(decodeMessagePack(Buffer.from([0xc0])), null);
+            assert.strictEqual(decodeMessagePack(Buffer.from([0xc3])), true);
+            assert.strictEqual(decodeMessagePack(Buffer.from('cb400c000000000000', 'hex')), 3.5);
+            assert.strictEqual(decodeMessagePack(Buffer.from('cd0100', 'hex')), 256);
+            assert.strictEqual(decodeMessagePack(Buffer.from('d2ffffff9c', 'hex')), -100);
+            assert.strictEqual(decodeMessagePack(Buffer.from('cf0020000000000001', 'hex')), BigInt('9007199254740993'));
+        });
+
+        test('should decode binary as base64 and the timestamp extension as ISO date', () => {
+            assert.strictEqual(decodeMessagePack(Buffer.from('c4020102', 'hex')), 'AQI=');
+            assert.strictEqual(decodeMessagePack(Buffer.from('d6ff00000000', 'hex')), '1970-01-01T00:00:00.000Z');
+        });
+
+        test('should render 64-bit integers as strings when deserialized', () => {
+            assert.strictEqual(deserialize(Buffer.from('cf0020000000000001', 'hex'), 'msgpack'), '"9007199254740993"');
+        });
+
+        test('should reject truncated and trailing data', () => {
+            assert.throws(() => decodeMessagePack(Buffer.from('a3616263', 'hex').subarray(0, 2)), /Truncated/);
+            assert.throws(() => decodeMessagePack(Buffer.from('0101', 'hex')), /trailing bytes/);
+            assert.throws(() => decodeMessagePack(Buffer.from([0xc1])), /Invalid MessagePack type byte/);
+        });
+    });
+});
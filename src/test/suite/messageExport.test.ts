@@ -0,0 +1,186 @@
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StoredMessage } from '../../services/MessageStore';
+import { KAFKA_ENVELOPE_FORMAT, parseKafkaEnvelope, toKafkaEnvelope } from '../../utils/kafkaEnvelope';
+import {
+    DecodedMessage,
+    createMessageExporter,
+    discoverJsonColumns,
+    formatKcat,
+    toCsvRow,
+    writeMessageExport
+} from '../../utils/messageExport';
+
+function raw(extra: Partial<StoredMessage> = {}): StoredMessage {
+    return {
+        topic: 'orders',
+        partition: 1,
+        offset: '42',
+        timestamp: '1700000000000',
+        key: Buffer.from('order-42'),
+        value: Buffer.from('{"order":{"id":"A-1","total":9.5},"tags":["x"]}'),
+        compression: 'none',
+        ...extra
+    };
+}
+
+function decoded(message: StoredMessage): DecodedMessage {
+    return {
+        topic: message.topic,
+        partition: message.partition,
+        offset: message.offset,
+        timestamp: message.timestamp,
+        key: message.key ? message.key.toString() : null,
+        value: message.value ? message.value.toString() : '',
+        headers: message.headers ? { source: 'checkout' } : undefined
+    };
+}
+
+function exportAll(format: Parameters<typeof createMessageExporter>[0], messages: StoredMessage[], options = {}): string {
+    const exporter = createMessageExporter(format, options);
+    return exporter.begin()
+        + messages.map((m, i) => exporter.format(m, decoded(m), i === 0)).join('')
+        + exporter.end();
+}
+
+suite('Message Export Test Suite', () => {
+    suite('Kafka envelope', () => {
+        test('should round trip bytes, null keys and repeated headers', () => {
+            const binary = Buffer.from([0, 255, 10, 13]);
+            const message = raw({
+                key: null,
+                value: binary,
+                headers: { traceId: Buffer.from('abc'), hops: [Buffer.from('a'), 'b'] },
+                compression: 'zstd'
+            });
+
+            const envelope = JSON.parse(JSON.stringify(toKafkaEnvelope(message)));
+            assert.strictEqual(envelope.format, KAFKA_ENVELOPE_FORMAT);
+            assert.strictEqual(envelope.key, null);
+            assert.deepStrictEqual(envelope.headers, [
+                { key: 'traceId', value: 'YWJj' },
+                { key: 'hops', value: 'YQ==' },
+                { key: 'hops', value: 'Yg==' }
+            ]);
+
+            const restored = parseKafkaEnvelope(envelope);
+            assert.strictEqual(restored.key, null);
+            assert.ok(restored.value!.equals(binary));
+            assert.deepStrictEqual(restored.headers, {
+                traceId: Buffer.from('abc'),
+                hops: [Buffer.from('a'), Buffer.from('b')]
+            });
+            assert.strictEqual(restored.compression, 'zstd');
+            assert.strictEqual(restored.offset, '42');
+        });
+
+        test('should name the field that makes an envelope invalid', () => {
+            const valid = toKafkaEnvelope(raw());
+            assert.throws(() => parseKafkaEnvelope('text'), /must be a JSON object/);
+            assert.throws(() => parseKafkaEnvelope({ ...valid, format: 'other' }), /Unsupported envelope format: other/);
+            assert.throws(() => parseKafkaEnvelope({ ...valid, topic: '' }), /missing "topic"/);
+            assert.throws(() => parseKafkaEnvelope({ ...valid, partition: -1 }), /"partition" must be a non-negative integer/);
+            assert.throws(() => parseKafkaEnvelope({ ...valid, offset: 'abc' }), /"offset" must be an integer/);
+            assert.throws(() => parseKafkaEnvelope({ ...valid, value: 'not base64!' }), /value must be base64/);
+            assert.throws(() => parseKafkaEnvelope({ ...valid, headers: [{ value: null }] }), /header is missing "key"/);
+        });
+    });
+
+    suite('Formats', () => {
+        test('should write a JSON array and one JSON object per NDJSON line', () => {
+            const messages = [raw(), raw({ offset: '43' })];
+
+            assert.deepStrictEqual(JSON.parse(exportAll('json', messages)).map((m: DecodedMessage) => m.offset), ['42', '43']);
+            assert.deepStrictEqual(JSON.parse(exportAll('json', [])), []);
+
+            const lines = exportAll('ndjson', messages).split('\n');
+            assert.strictEqual(lines.length, 3);
+            assert.strictEqual(lines[2], '');
+            assert.strictEqual(JSON.parse(lines[1]).offset, '43');
+        });
+
+        test('should format kcat tokens and escapes', () => {
+            const message = raw({ headers: { source: 'checkout' } });
+            assert.strictEqual(
+                formatKcat('%t [%p] @%o %T: %k (%K) %S%%\\t%h\\n', message, decoded(message)),
+                'orders [1] @42 1700000000000: order-42 (8) 47%\tsource=checkout\n'
+            );
+
+            const keyless = raw({ key: null });
+            assert.strictEqual(formatKcat('%k|%K|%s', keyless, decoded(keyless)), `|-1|${keyless.value}`);
+        });
+
+        test('should quote CSV cells and guard against spreadsheet formulas', () => {
+            assert.strictEqual(toCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines']), 'plain,"a,b","say ""hi""","two\nlines"\r\n');
+            assert.strictEqual(toCsvRow(['=SUM(A1)', '+1', '@x', '-cmd', '-1.5']), '\'=SUM(A1),\'+1,\'@x,\'-cmd,-1.5\r\n');
+        });
+
+        test('should add chosen JSON fields as CSV columns', () => {
+            const csv = exportAll('csv', [raw(), raw({ value: Buffer.from('not json') })], { jsonColumns: ['order.id', 'tags', 'missing'] });
+            const [header, first, second] = csv.split('\r\n');
+
+            assert.strictEqual(header, 'topic,partition,offset,timestamp,key,value,headers,order.id,tags,missing');
+            assert.ok(first.endsWith(',A-1,"[""x""]",'));
+            assert.ok(second.endsWith('not json,,,,'));
+        });
+
+        test('should discover leaf paths of JSON values in the order first seen', () => {
+            assert.deepStrictEqual(
+                discoverJsonColumns(['{"a":1,"b":{"c":true}}', 'plain', '{"b":{"d":null},"e":[1]}', '[1,2]']),
+                ['a', 'b.c', 'b.d', 'e']
+            );
+            assert.deepStrictEqual(discoverJsonColumns(['{"a":1,"b":2,"c":3}'], 2), ['a', 'b']);
+        });
+    });
+
+    suite('writeMessageExport', () => {
+        let folder: string;
+
+        setup(async () => {
+            folder = await fs.mkdtemp(path.join(os.tmpdir(), 'message-export-'));
+        });
+
+        teardown(async () => {
+            await fs.rm(folder, { recursive: true, force: true });
+        });
+
+        async function* entries(messages: StoredMessage[]) {
+            for (const message of messages) {
+                yield { message };
+            }
+        }
+
+        test('should write envelopes without decoding', async () => {
+            const file = path.join(folder, 'out.ndjson');
+            let decodes = 0;
+            const written = await writeMessageExport(
+                file,
+                entries([raw(), raw({ offset: '43' })]),
+                createMessageExporter('envelope'),
+                async message => { decodes++; return decoded(message); }
+            );
+
+            assert.strictEqual(written, 2);
+            assert.strictEqual(decodes, 0);
+            const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+            assert.deepStrictEqual(lines.map(line => parseKafkaEnvelope(JSON.parse(line)).offset), ['42', '43']);
+        });
+
+        test('should remove the partial file when cancelled', async () => {
+            const file = path.join(folder, 'out.json');
+            let seen = 0;
+            const written = await writeMessageExport(
+                file,
+                entries([raw(), raw(), raw()]),
+                createMessageExporter('json'),
+                async message => { seen++; return decoded(message); },
+                { isCancelled: () => seen >= 1 }
+            );
+
+            assert.strictEqual(written, undefined);
+            assert.deepStrictEqual(await fs.readdir(folder), []);
+        });
+    });
+});
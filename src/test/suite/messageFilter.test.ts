@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import { FilterScan, FilterableMessage, compileMessageFilter } from '../../utils/messageFilter';
+
+function message(overrides: Partial<FilterableMessage> = {}): FilterableMessage {
+    return {
+        partition: 2,
+        offset: '1500',
+        timestamp: String(Date.parse('2024-05-01T12:00:00Z')),
+        key: 'order-42',
+        value: JSON.stringify({
+            order: { id: 'A-123', total: 99.5, paid: true },
+            items: [{ sku: 'SKU-1', qty: 2 }, { sku: 'SKU-9', qty: 1 }],
+            'odd name': 'x'
+        }),
+        headers: { traceId: 'abc-123', source: 'checkout' },
+        ...overrides
+    };
+}
+
+function matches(expression: string, msg: FilterableMessage = message()): boolean {
+    return compileMessageFilter(expression).matches(msg);
+}
+
+suite('Message Filter Test Suite', () => {
+    suite('Fields and operators', () => {
+        test('should compare JSON paths in the value', () => {
+            assert.ok(matches('value.order.id == "A-123"'));
+            assert.ok(matches('$.order.total > 50 and $.order.total <= 99.5'));
+            assert.ok(matches('$.order.paid == true'));
+            assert.ok(matches('value["odd name"] == \'x\''));
+            assert.ok(!matches('value.order.id == "A-124"'));
+            assert.ok(!matches('$.order.missing == "A-123"'));
+        });
+
+        test('should match when any element selected by a wildcard or index matches', () => {
+            assert.ok(matches('$.items[*].sku == "SKU-9"'));
+            assert.ok(matches('$.items[0].qty == 2'));
+            assert.ok(!matches('$.items[1].sku == "SKU-1"'));
+            assert.ok(matches('$.items[*].sku ~ /^sku-9$/i'));
+        });
+
+        test('should match regexes and substrings on key, value and headers', () => {
+            assert.ok(matches('key ~ "order-\\\\d+"'));
+            assert.ok(matches('value contains "SKU-9"'));
+            assert.ok(matches('headers.traceId contains "abc"'));
+            assert.ok(matches('headers.source in ("checkout", "cart")'));
+            assert.ok(!matches('headers.missing ~ /./'));
+            assert.ok(!matches('key ~ /x/', message({ key: null })));
+        });
+
+        test('should filter on partition, offset and timestamp without reading the payload', () => {
+            const filter = compileMessageFilter('partition in (0, 2) and offset >= 1000 and timestamp >= "2024-05-01"');
+            assert.strictEqual(filter.usesPayload, false);
+            assert.ok(filter.matches(message({ key: null, value: '' })));
+            assert.ok(!matches('timestamp < "2024-05-01T11:00:00Z"'));
+            assert.strictEqual(compileMessageFilter('partition == 1 or key == "a"').usesPayload, true);
+        });
+
+        test('should combine conditions with and, or, not and parentheses', () => {
+            assert.ok(matches('(partition == 1 or partition == 2) && !$.order.refunded'));
+            assert.ok(matches('not (value.order.id == "B" || key == "other")'));
+            assert.ok(matches('$.order.id != "B"'));
+            assert.ok(matches('$.missing != "B"'), '!= holds when the field is missing');
+            assert.ok(!matches('$.order and partition == 0'));
+        });
+
+        test('should not match values that are not JSON against paths', () => {
+            assert.ok(!matches('$.order.id == "A-123"', message({ value: 'plain text' })));
+            assert.ok(matches('value == "plain text"', message({ value: 'plain text' })));
+        });
+    });
+
+    suite('Syntax errors', () => {
+        test('should report the position of the first error', () => {
+            assert.throws(() => compileMessageFilter('value.order.id ='), /Unexpected "=" at position 16/);
+            assert.throws(() => compileMessageFilter('partition == '), /Expected a string, number.* at position 14, found end of expression/);
+            assert.throws(() => compileMessageFilter('price > 10'), /Expected a field \(key, value, headers, partition, offset, timestamp or \$\) at position 1/);
+            assert.throws(() => compileMessageFilter('key == "a" key'), /Expected and, or or the end of the expression at position 12/);
+            assert.throws(() => compileMessageFilter('key ~ /(/'), /Invalid regular expression at position 7/);
+            assert.throws(() => compileMessageFilter('headers == "x"'), /Expected a header name/);
+            assert.throws(() => compileMessageFilter('offset.x == 1'), /Expected offset without a path/);
+            assert.throws(() => compileMessageFilter('key == "open'), /Unterminated string starting at position 8/);
+        });
+    });
+
+    suite('FilterScan', () => {
+        test('should count scanned and matched messages until the message budget is used up', () => {
+            const scan = new FilterScan({ maxMessages: 3 });
+
+            assert.strictEqual(scan.record(10, true), true);
+            assert.strictEqual(scan.record(10, false), true);
+            assert.strictEqual(scan.record(10, false), false);
+
+            const progress = scan.getProgress();
+            assert.strictEqual(progress.scanned, 3);
+            assert.strictEqual(progress.matched, 1);
+            assert.strictEqual(progress.bytes, 30);
+            assert.strictEqual(progress.exhausted, 'scanned 3 messages');
+            assert.ok(scan.isExhausted());
+        });
+
+        test('should stop on the byte and time budgets', () => {
+            const bytes = new FilterScan({ maxBytes: 1024 * 1024 });
+            assert.strictEqual(bytes.record(1024 * 1024, false), false);
+            assert.strictEqual(bytes.getProgress().exhausted, 'scanned 1.0 MB');
+
+            let now = 0;
+            const time = new FilterScan({ maxDurationMs: 5000 }, () => now);
+            assert.strictEqual(time.record(1, false), true);
+            now = 5000;
+            assert.strictEqual(time.record(1, false), false);
+            assert.strictEqual(time.getProgress().exhausted, 'scanned for 5s');
+        });
+
+        test('should never stop without a budget', () => {
+            const scan = new FilterScan();
+            for (let i = 0; i < 1000; i++) {
+                assert.ok(scan.record(1000, false));
+            }
+            assert.strictEqual(scan.getProgress().exhausted, undefined);
+        });
+    });
+});
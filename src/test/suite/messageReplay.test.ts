@@ -0,0 +1,210 @@
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StoredMessage } from '../../services/MessageStore';
+import { toKafkaEnvelope } from '../../utils/kafkaEnvelope';
+import {
+    ReplayClock,
+    ReplayMessage,
+    ReplayOptions,
+    parseHeaderList,
+    parsePartitionMap,
+    readReplayFile,
+    replayMessages,
+    toReplayMessage
+} from '../../services/MessageReplay';
+
+function message(offset: number, extra: Partial<StoredMessage> = {}): StoredMessage {
+    return {
+        topic: 'orders',
+        partition: offset % 3,
+        offset: String(offset),
+        timestamp: String(1700000000000 + offset),
+        key: Buffer.from(`k${offset}`),
+        value: Buffer.from(`v${offset}`),
+        compression: 'none',
+        ...extra
+    };
+}
+
+async function* source(messages: StoredMessage[]) {
+    yield* messages;
+}
+
+async function readAll(file: string): Promise<StoredMessage[]> {
+    const messages: StoredMessage[] = [];
+    for await (const m of readReplayFile(file)) {
+        messages.push(m);
+    }
+    return messages;
+}
+
+class FakeClock implements ReplayClock {
+    time = 0;
+    sleeps: number[] = [];
+    now() {
+        return this.time;
+    }
+    async sleep(ms: number) {
+        this.sleeps.push(ms);
+        this.time += ms;
+    }
+}
+
+const keep: ReplayOptions = { partitioning: 'keep', keepTimestamps: true };
+
+suite('Message Replay Test Suite', () => {
+    suite('Option parsing', () => {
+        test('should parse partition mappings and reject invalid entries', () => {
+            assert.deepStrictEqual([...parsePartitionMap('0=3, 1->3,2:4')], [[0, 3], [1, 3], [2, 4]]);
+            assert.throws(() => parsePartitionMap('0=a'), /Invalid partition mapping "0=a"/);
+            assert.throws(() => parsePartitionMap(' '), /at least one partition mapping/);
+        });
+
+        test('should parse headers to add', () => {
+            assert.deepStrictEqual(parseHeaderList('replayed-from=incident-42, env = staging, empty='), {
+                'replayed-from': 'incident-42',
+                env: 'staging',
+                empty: ''
+            });
+            assert.deepStrictEqual(parseHeaderList(''), {});
+            assert.throws(() => parseHeaderList('novalue'), /Invalid header "novalue"/);
+        });
+    });
+
+    suite('readReplayFile', () => {
+        let folder: string;
+
+        setup(async () => {
+            folder = await fs.mkdtemp(path.join(os.tmpdir(), 'message-replay-'));
+        });
+
+        teardown(async () => {
+            await fs.rm(folder, { recursive: true, force: true });
+        });
+
+        test('should restore exact bytes from Kafka envelopes', async () => {
+            const binary = message(1, { key: null, value: Buffer.from([0, 255]), headers: { trace: Buffer.from('t') } });
+            const file = path.join(folder, 'envelope.ndjson');
+            await fs.writeFile(file, [message(0), binary].map(m => JSON.stringify(toKafkaEnvelope(m))).join('\n') + '\n\n');
+
+            const [first, second] = await readAll(file);
+            assert.deepStrictEqual(first, { ...message(0), headers: {} });
+            assert.strictEqual(second.key, null);
+            assert.ok(second.value!.equals(Buffer.from([0, 255])));
+            assert.deepStrictEqual(second.headers, { trace: Buffer.from('t') });
+        });
+
+        test('should read decoded NDJSON and JSON array exports as UTF-8 text', async () => {
+            const decoded = { topic: 'orders', partition: 2, offset: '5', timestamp: '1700000000005', key: 'k5', value: '{"a":1}', headers: { source: 'checkout' } };
+            const ndjson = path.join(folder, 'messages.ndjson');
+            const json = path.join(folder, 'messages.json');
+            await fs.writeFile(ndjson, `${JSON.stringify(decoded)}\n`);
+            await fs.writeFile(json, JSON.stringify([decoded, { ...decoded, key: null }], null, 2));
+
+            for (const file of [ndjson, json]) {
+                const [m] = await readAll(file);
+                assert.strictEqual(m.partition, 2);
+                assert.strictEqual(m.key!.toString(), 'k5');
+                assert.strictEqual(m.value!.toString(), '{"a":1}');
+                assert.deepStrictEqual(m.headers, { source: 'checkout' });
+            }
+            assert.strictEqual((await readAll(json))[1].key, null);
+        });
+
+        test('should name the line that cannot be replayed', async () => {
+            const file = path.join(folder, 'bad.ndjson');
+            await fs.writeFile(file, `${JSON.stringify(toKafkaEnvelope(message(0)))}\norders [0] at offset 1\n`);
+            await assert.rejects(readAll(file), /Line 2 is not JSON/);
+
+            await fs.writeFile(file, `${JSON.stringify({ ...toKafkaEnvelope(message(0)), value: '%%' })}\n`);
+            await assert.rejects(readAll(file), /Line 1: Kafka envelope value must be base64/);
+
+            await fs.writeFile(file, '{"partition":0}\n');
+            await assert.rejects(readAll(file), /Line 1: Not an exported message/);
+        });
+    });
+
+    suite('toReplayMessage', () => {
+        test('should keep, map or drop partitions', () => {
+            const m = message(4);
+            assert.strictEqual(toReplayMessage(m, keep).partition, 1);
+            assert.strictEqual(toReplayMessage(m, { ...keep, partitioning: 'partitioner' }).partition, undefined);
+            assert.strictEqual(toReplayMessage(m, { ...keep, partitioning: 'map', partitionMap: new Map([[1, 7]]) }).partition, 7);
+            assert.strictEqual(toReplayMessage(message(0), { ...keep, partitioning: 'map', partitionMap: new Map([[1, 7]]) }).partition, 0);
+        });
+
+        test('should add and remove headers and drop timestamps on request', () => {
+            const m = message(0, { key: null, headers: { trace: Buffer.from('t'), hops: ['a', 'b'], env: 'prod' } });
+            const replayed = toReplayMessage(m, {
+                partitioning: 'keep',
+                keepTimestamps: false,
+                addHeaders: { env: 'staging', 'replayed-from': 'incident-42' },
+                removeHeaders: ['trace']
+            });
+
+            assert.deepStrictEqual(replayed.headers, { hops: ['a', 'b'], env: 'staging', 'replayed-from': 'incident-42' });
+            assert.strictEqual(replayed.timestamp, undefined);
+            assert.strictEqual(replayed.key, undefined);
+            assert.strictEqual(toReplayMessage(m, keep).timestamp, m.timestamp);
+        });
+    });
+
+    suite('replayMessages', () => {
+        test('should send every message in batches and count them per partition', async () => {
+            const batches: ReplayMessage[][] = [];
+            const messages = Array.from({ length: 1200 }, (_, i) => message(i));
+
+            const result = await replayMessages(source(messages), async batch => { batches.push(batch); }, keep);
+
+            assert.deepStrictEqual(batches.map(b => b.length), [500, 500, 200]);
+            assert.strictEqual(result.sent, 1200);
+            assert.deepStrictEqual([...result.partitions], [[0, 400], [1, 400], [2, 400]]);
+            assert.strictEqual(result.cancelled, false);
+        });
+
+        test('should not send faster than the rate limit', async () => {
+            const clock = new FakeClock();
+            const sentAt: number[] = [];
+            const messages = Array.from({ length: 100 }, (_, i) => message(i));
+
+            await replayMessages(source(messages), async batch => { sentAt.push(clock.now()); assert.strictEqual(batch.length, 5); }, { ...keep, ratePerSecond: 50 }, { clock });
+
+            assert.strictEqual(sentAt.length, 20);
+            // The last message of each batch is due at 20ms per message
+            assert.deepStrictEqual(sentAt.slice(0, 3), [80, 180, 280]);
+            assert.strictEqual(sentAt[19], 1980);
+        });
+
+        test('should count without sending on a dry run', async () => {
+            const clock = new FakeClock();
+            let sends = 0;
+            const result = await replayMessages(
+                source([message(0), message(1)]),
+                async () => { sends++; },
+                { partitioning: 'partitioner', keepTimestamps: false, ratePerSecond: 1, dryRun: true },
+                { clock }
+            );
+
+            assert.strictEqual(sends, 0);
+            assert.deepStrictEqual(clock.sleeps, []);
+            assert.strictEqual(result.read, 2);
+            assert.deepStrictEqual([...result.partitions], [['auto', 2]]);
+        });
+
+        test('should stop when cancelled without sending the rest', async () => {
+            let sent = 0;
+            let cancelled = false;
+            const result = await replayMessages(
+                source(Array.from({ length: 20 }, (_, i) => message(i))),
+                async batch => { sent += batch.length; cancelled = true; },
+                { ...keep, ratePerSecond: 50 },
+                { isCancelled: () => cancelled, clock: new FakeClock() }
+            );
+
+            assert.strictEqual(sent, 5);
+            assert.strictEqual(result.cancelled, true);
+        });
+    });
+});
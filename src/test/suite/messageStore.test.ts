@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageStore, StoredMessage } from '../../services/MessageStore';
+
+function message(partition: number, offset: number, extra: Partial<StoredMessage> = {}): StoredMessage {
+    return {
+        topic: 'orders',
+        partition,
+        offset: String(offset),
+        timestamp: String(1700000000000 + offset),
+        key: Buffer.from(`k${offset}`),
+        value: Buffer.from(`v${offset}`),
+        compression: 'none',
+        ...extra
+    };
+}
+
+suite('Message Store Test Suite', () => {
+    let folder: string;
+    let store: MessageStore;
+
+    setup(async () => {
+        folder = await fs.mkdtemp(path.join(os.tmpdir(), 'message-store-'));
+        store = await MessageStore.create(folder, 1000);
+    });
+
+    teardown(async () => {
+        await store.dispose();
+        await fs.rm(folder, { recursive: true, force: true });
+    });
+
+    test('should read messages back by index with bytes and header types intact', async () => {
+        const binary = Buffer.from([0, 255, 10, 13]);
+        store.append(message(0, 0));
+        store.append(message(1, 7, {
+            key: null,
+            value: binary,
+            headers: { traceId: Buffer.from('abc'), source: 'checkout', hops: [Buffer.from('a'), 'b'] },
+            compression: 'zstd'
+        }));
+
+        const [first, second] = await store.read([1, 0]);
+
+        assert.strictEqual(first.index, 0);
+        assert.deepStrictEqual(first.message, message(0, 0, { headers: undefined }));
+        assert.strictEqual(second.message.key, null);
+        assert.ok(second.message.value!.equals(binary));
+        assert.deepStrictEqual(second.message.headers, {
+            traceId: Buffer.from('abc'),
+            source: 'checkout',
+            hops: [Buffer.from('a'), 'b']
+        });
+        assert.strictEqual(second.message.compression, 'zstd');
+    });
+
+    test('should index messages by partition and offset, pointing at the newest copy', async () => {
+        store.append(message(0, 5));
+        store.append(message(1, 5));
+        store.append(message(0, 5));
+
+        assert.strictEqual(store.indexOf(0, '5'), 2);
+        assert.strictEqual(store.indexOf(1, '5'), 1);
+        assert.strictEqual(store.indexOf(2, '5'), undefined);
+    });
+
+    test('should drop the oldest messages beyond the limit', async () => {
+        await store.dispose();
+        store = await MessageStore.create(folder, 3);
+        for (let offset = 0; offset < 5; offset++) {
+            store.append(message(0, offset));
+        }
+
+        assert.strictEqual(store.size, 3);
+        assert.strictEqual(store.dropped, 2);
+        assert.strictEqual(store.firstIndex, 2);
+        assert.strictEqual(store.indexOf(0, '1'), undefined);
+        assert.deepStrictEqual((await store.read([0, 1, 2, 4])).map(e => e.message.offset), ['2', '4']);
+    });
+
+    test('should move retained messages to the start of the file once enough were dropped', async () => {
+        await store.dispose();
+        store = await MessageStore.create(folder, 3);
+        for (let offset = 0; offset < 20; offset++) {
+            store.append(message(0, offset));
+            if (offset % 4 === 0) {
+                await store.flush();
+            }
+        }
+
+        assert.deepStrictEqual((await store.read([16, 17, 18, 19])).map(e => e.message.offset), ['17', '18', '19']);
+        assert.strictEqual(store.firstIndex, 17);
+        assert.strictEqual(store.indexOf(0, '19'), 19);
+        const [file] = await fs.readdir(folder);
+        const lines = (await fs.readFile(path.join(folder, file), 'utf8')).trim().split('\n');
+        assert.ok(lines.length <= 6, `The file holds ${lines.length} messages`);
+        assert.strictEqual(JSON.parse(lines[lines.length - 1]).o, '19');
+    });
+
+        test('should iterate every message in chunks, oldest first', async () => {
+        for (let offset = 0; offset < 12; offset++) {
+            store.append(message(offset % 3, offset));
+        }
+
+        const offsets: string[] = [];
+        for await (const { message } of store.entries(5)) {
+            offsets.push(message.offset);
+        }
+
+        assert.deepStrictEqual(offsets, Array.from({ length: 12 }, (_, i) => String(i)));
+    });
+
+    test('should clear messages and start again from an empty file', async () => {
+        store.append(message(0, 0));
+        await store.flush();
+        await store.clear();
+        store.append(message(0, 1));
+
+        assert.strictEqual(store.size, 1);
+        assert.deepStrictEqual((await store.read([0])).map(e => e.message.offset), ['1']);
+    });
+
+    test('should remove spool files of exited sessions and its own file on dispose', async () => {
+        store.append(message(0, 0));
+        await store.flush();
+        const [live] = await fs.readdir(folder);
+        await fs.writeFile(path.join(folder, 'session-1700000000000.ndjson'), '');
+        await fs.writeFile(path.join(folder, 'session-999999999-1700000000000-1.ndjson'), '');
+
+        const next = await MessageStore.create(folder, 1000);
+        const files = await fs.readdir(folder);
+        assert.strictEqual(files.length, 2, 'Files of exited sessions are removed');
+        assert.ok(files.includes(live), 'The file of a running session is kept');
+
+        await next.dispose();
+        assert.deepStrictEqual(await fs.readdir(folder), [live]);
+    });
+});
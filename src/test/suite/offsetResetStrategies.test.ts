@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import {
+    parseIsoDuration,
+    parseOffsetResetTarget,
+    parsePartitionOffsetsCsv,
+    resolveResetOffset,
+    validateResetArgument
+} from '../../services/ConsumerGroupService';
+
+suite('Offset Reset Strategies Test Suite', () => {
+    const partition = {
+        topic: 'orders',
+        partition: 0,
+        logStartOffset: '100',
+        logEndOffset: '500',
+        committedOffset: '300'
+    };
+
+    suite('Arguments', () => {
+        test('should parse ISO 8601 durations', () => {
+            assert.strictEqual(parseIsoDuration('PT30M'), 30 * 60 * 1000);
+            assert.strictEqual(parseIsoDuration('P1DT12H'), 36 * 60 * 60 * 1000);
+            assert.strictEqual(parseIsoDuration('pt1.5s'), 1500);
+            assert.strictEqual(parseIsoDuration('P'), undefined);
+            assert.strictEqual(parseIsoDuration('P1DT'), undefined);
+            assert.strictEqual(parseIsoDuration('30m'), undefined);
+        });
+
+        test('should resolve by-duration to a timestamp before now', () => {
+            const target = parseOffsetResetTarget('by-duration', 'PT1H', 10_000_000);
+
+            assert.strictEqual(target.timestamp, 10_000_000 - 3_600_000);
+        });
+
+        test('should parse offsets CSV rows, skipping a header and blank lines', () => {
+            const rows = parsePartitionOffsetsCsv('topic,partition,offset\r\norders, 0, 10\n\norders,1,20\n');
+
+            assert.deepStrictEqual(rows, [
+                { topic: 'orders', partition: 0, offset: '10' },
+                { topic: 'orders', partition: 1, offset: '20' }
+            ]);
+            assert.throws(() => parsePartitionOffsetsCsv('orders,0'), /Line 1/);
+            assert.throws(() => parsePartitionOffsetsCsv('orders,0,-5'), /Line 1/);
+            assert.throws(() => parsePartitionOffsetsCsv('\n'), /no topic,partition,offset rows/);
+        });
+
+        test('should explain invalid arguments per strategy', () => {
+            assert.match(validateResetArgument('to-datetime', 'yesterday')!, /Invalid datetime/);
+            assert.match(validateResetArgument('shift-by', '1.5')!, /Invalid shift/);
+            assert.match(validateResetArgument('specific offset', '-1')!, /non-negative integer/);
+            assert.strictEqual(validateResetArgument('shift-by', '+25'), undefined);
+            assert.strictEqual(validateResetArgument('to-datetime', '2024-01-31T09:00:00Z'), undefined);
+        });
+    });
+
+    suite('Resolving', () => {
+        test('should clamp every computed offset to the partition log', () => {
+            assert.strictEqual(resolveResetOffset({ strategy: 'specific offset', offset: '5' }, partition), '100');
+            assert.strictEqual(resolveResetOffset({ strategy: 'specific offset', offset: '9999' }, partition), '500');
+            assert.strictEqual(resolveResetOffset({ strategy: 'shift-by', shift: -1000 }, partition), '100');
+            assert.strictEqual(resolveResetOffset({ strategy: 'shift-by', shift: 1000 }, partition), '500');
+            assert.strictEqual(resolveResetOffset({ strategy: 'shift-by', shift: 50 }, partition), '350');
+        });
+
+        test('should keep committed offsets for to-current and fall back to the log end', () => {
+            assert.strictEqual(resolveResetOffset({ strategy: 'to-current' }, partition), '300');
+            assert.strictEqual(resolveResetOffset({ strategy: 'to-current' }, { ...partition, committedOffset: null }), '500');
+        });
+
+        test('should use the timestamp offset, or the log end when no message is newer', () => {
+            const target = { strategy: 'to-datetime' as const, timestamp: 0 };
+
+            assert.strictEqual(resolveResetOffset(target, { ...partition, timestampOffset: '250' }), '250');
+            assert.strictEqual(resolveResetOffset(target, { ...partition, timestampOffset: '-1' }), '500');
+        });
+
+        test('should skip partitions an offsets file does not list', () => {
+            const target = { strategy: 'from-file' as const, partitionOffsets: [{ topic: 'orders', partition: 1, offset: '200' }] };
+
+            assert.strictEqual(resolveResetOffset(target, partition), undefined);
+            assert.strictEqual(resolveResetOffset(target, { ...partition, partition: 1 }), '200');
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import * as consumerGroupCommands from '../../commands/consumerGroupCommands';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { ConsumerGroupService } from '../../services/ConsumerGroupService';
+import { ConsumerGroupOffsetSnapshot, OffsetSnapshotStore, parseOffsetSnapshot } from '../../services/OffsetSnapshotService';
+
+suite('Offset Snapshots Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    const snapshot: ConsumerGroupOffsetSnapshot = {
+        version: 1,
+        clusterName: 'test-cluster',
+        groupId: 'orders-blue',
+        createdAt: '2024-01-31T09:00:00.000Z',
+        state: 'Empty',
+        offsets: [
+            { topic: 'orders', partition: 0, offset: '120', logEndOffset: '150' },
+            { topic: 'orders', partition: 1, offset: '80' },
+            { topic: 'payments', partition: 0, offset: '7' }
+        ]
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    suite('Parsing', () => {
+        test('should round-trip a snapshot through JSON', () => {
+            assert.deepStrictEqual(parseOffsetSnapshot(JSON.parse(JSON.stringify(snapshot))), snapshot);
+        });
+
+        test('should reject malformed snapshots', () => {
+            assert.throws(() => parseOffsetSnapshot({ ...snapshot, version: 2 }), /Unsupported offset snapshot version/);
+            assert.throws(() => parseOffsetSnapshot({ ...snapshot, groupId: '' }), /missing "groupId"/);
+            assert.throws(() => parseOffsetSnapshot({ ...snapshot, offsets: [] }), /has no offsets/);
+            assert.throws(
+                () => parseOffsetSnapshot({ ...snapshot, offsets: [{ topic: 'orders', partition: 0, offset: 120 }] }),
+                /entry 1/
+            );
+        });
+    });
+
+    suite('Capture and restore', () => {
+        test('should capture committed offsets and skip partitions without a commit', async () => {
+            const admin: any = {
+                describeGroups: sandbox.stub().resolves({
+                    groups: [{ groupId: 'orders-blue', state: 'Stable', protocol: 'range', members: [{}, {}] }]
+                }),
+                fetchOffsets: sandbox.stub().resolves([
+                    { topic: 'payments', partitions: [{ partition: 0, offset: '7' }] },
+                    { topic: 'orders', partitions: [{ partition: 1, offset: '80' }, { partition: 0, offset: '-1' }] }
+                ]),
+                fetchTopicOffsets: sandbox.stub().resolves([{ partition: 0, low: '0', high: '10' }, { partition: 1, low: '0', high: '90' }])
+            };
+
+            const result = await new ConsumerGroupService().snapshotOffsets(admin, 'test-cluster', 'orders-blue');
+
+            assert.deepStrictEqual(result.offsets, [
+                { topic: 'orders', partition: 1, offset: '80', logEndOffset: '90' },
+                { topic: 'payments', partition: 0, offset: '7', logEndOffset: '10' }
+            ]);
+            assert.strictEqual(result.state, 'Stable');
+            assert.strictEqual(result.memberCount, 2);
+            assert.ok(admin.fetchOffsets.calledWith({ groupId: 'orders-blue' }));
+        });
+
+        test('should refuse to snapshot a group without committed offsets', async () => {
+            const admin: any = {
+                describeGroups: sandbox.stub().resolves({ groups: [] }),
+                fetchOffsets: sandbox.stub().resolves([]),
+                fetchTopicOffsets: sandbox.stub()
+            };
+
+            await assert.rejects(
+                () => new ConsumerGroupService().snapshotOffsets(admin, 'test-cluster', 'idle'),
+                /no committed offsets to snapshot/
+            );
+        });
+
+        test('should restore a snapshot to another group with one setOffsets call per topic', async () => {
+            const manager = new KafkaClientManager();
+            const admin: any = { setOffsets: sandbox.stub().resolves() };
+            sandbox.stub(manager as any, 'getAdmin').resolves(admin);
+
+            await manager.restoreConsumerGroupOffsets('test-cluster', 'orders-green', snapshot);
+
+            assert.strictEqual(admin.setOffsets.callCount, 2);
+            assert.deepStrictEqual(admin.setOffsets.firstCall.args[0], {
+                groupId: 'orders-green',
+                topic: 'orders',
+                partitions: [{ partition: 0, offset: '120' }, { partition: 1, offset: '80' }]
+            });
+        });
+    });
+
+    suite('restoreConsumerGroupOffsets command', () => {
+        let clientManager: sinon.SinonStubbedInstance<KafkaClientManager>;
+        let provider: any;
+        const context = { globalStorageUri: vscode.Uri.file('/tmp/kafka-storage') } as any;
+        const node = { clusterName: 'test-cluster', groupId: 'orders-blue' };
+
+        setup(() => {
+            clientManager = sandbox.createStubInstance(KafkaClientManager);
+            provider = { refresh: sandbox.stub() };
+            sandbox.stub(OffsetSnapshotStore.prototype, 'list').resolves([{ uri: vscode.Uri.file('/tmp/s.json'), snapshot }]);
+            sandbox.stub(vscode.window, 'showQuickPick').callsFake(async (items: any) => (await items)[0]);
+            sandbox.stub(vscode.window, 'withProgress').callsFake(async (_options, task) => task({} as any, {} as any));
+        });
+
+        test('should clone a stored snapshot into a new group after confirmation', async () => {
+            sandbox.stub(vscode.window, 'showInputBox').resolves('orders-green');
+            sandbox.stub(vscode.window, 'showWarningMessage').resolves('Restore' as any);
+            sandbox.stub(vscode.window, 'showInformationMessage');
+            clientManager.restoreConsumerGroupOffsets.resolves();
+
+            await consumerGroupCommands.restoreConsumerGroupOffsets(clientManager as any, provider, node, context);
+
+            assert.ok(clientManager.restoreConsumerGroupOffsets.calledOnceWith('test-cluster', 'orders-green', snapshot));
+            assert.ok(provider.refresh.calledOnce);
+        });
+
+        test('should not restore when the confirmation is declined', async () => {
+            sandbox.stub(vscode.window, 'showInputBox').resolves('orders-blue');
+            sandbox.stub(vscode.window, 'showWarningMessage').resolves(undefined);
+
+            await consumerGroupCommands.restoreConsumerGroupOffsets(clientManager as any, provider, node, context);
+
+            assert.ok(clientManager.restoreConsumerGroupOffsets.notCalled);
+        });
+
+        test('should explain a restore rejected because the group is active', async () => {
+            sandbox.stub(vscode.window, 'showInputBox').resolves('orders-blue');
+            sandbox.stub(vscode.window, 'showWarningMessage').resolves('Restore' as any);
+            clientManager.restoreConsumerGroupOffsets.rejects(new Error('GROUP_SUBSCRIBED_TO_TOPIC: active members'));
+            const errorStub = sandbox.stub(vscode.window, 'showErrorMessage');
+
+            await consumerGroupCommands.restoreConsumerGroupOffsets(clientManager as any, provider, node, context);
+
+            assert.ok(errorStub.firstCall.args[0].includes('active members'));
+            assert.ok(provider.refresh.notCalled);
+        });
+    });
+});
@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as sinon from 'sinon';
+import { resolveSubjectName } from '../../services/SchemaRegistryClient';
 
 suite('Producer Schema Validation Test Suite', () => {
     let sandbox: sinon.SinonSandbox;
@@ -134,6 +135,29 @@ suite('Producer Schema Validation Test Suite', () => {
         });
     });
 
+    suite('Subject Name Strategies', () => {
+        test('should use <topic>-key and <topic>-value for TopicName', () => {
+            assert.strictEqual(resolveSubjectName('TopicName', 'orders', 'key'), 'orders-key');
+            assert.strictEqual(resolveSubjectName('TopicName', 'orders', 'value', 'ignored.Record'), 'orders-value');
+        });
+
+        test('should use the record name for RecordName', () => {
+            assert.strictEqual(resolveSubjectName('RecordName', 'orders', 'value', 'com.example.Order'), 'com.example.Order');
+        });
+
+        test('should prefix the record name with the topic for TopicRecordName', () => {
+            assert.strictEqual(
+                resolveSubjectName('TopicRecordName', 'orders', 'key', ' com.example.OrderKey '),
+                'orders-com.example.OrderKey'
+            );
+        });
+
+        test('should require a record name for record-based strategies', () => {
+            assert.throws(() => resolveSubjectName('RecordName', 'orders', 'value'), /record name is required/);
+            assert.throws(() => resolveSubjectName('TopicRecordName', 'orders', 'key', '  '), /record name is required/);
+        });
+    });
+
     suite('Message Conformance', () => {
         test('should validate required fields', () => {
             const message = {
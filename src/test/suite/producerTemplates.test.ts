@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { interpolateTemplate } from '../../utils/templateInterpolation';
+import { matchesTopicPattern, parseTemplate } from '../../services/ProducerTemplateService';
+
+suite('Producer Templates Test Suite', () => {
+    suite('Placeholder Interpolation', () => {
+        const fixedNow = () => new Date('2024-05-01T12:00:00.000Z');
+
+        test('should expand time, sequence and environment placeholders', () => {
+            const result = interpolateTemplate(
+                '{"id":{{seq}},"at":"{{now}}","ts":{{timestamp}},"region":"{{env.REGION}}"}',
+                { seq: 7, now: fixedNow, env: { REGION: 'eu-west-1' } }
+            );
+
+            assert.strictEqual(result, '{"id":7,"at":"2024-05-01T12:00:00.000Z","ts":1714564800000,"region":"eu-west-1"}');
+        });
+
+        test('should generate a new UUID for every placeholder', () => {
+            const result = interpolateTemplate('{{uuid}} {{ uuid }}', { seq: 1 });
+            const [first, second] = result.split(' ');
+
+            assert.match(first, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+            assert.notStrictEqual(first, second);
+        });
+
+        test('should keep random integers within inclusive bounds', () => {
+            assert.strictEqual(interpolateTemplate('{{randomInt 1 100}}', { seq: 1, random: () => 0 }), '1');
+            assert.strictEqual(interpolateTemplate('{{randomInt 1 100}}', { seq: 1, random: () => 0.9999 }), '100');
+            assert.throws(() => interpolateTemplate('{{randomInt 10 1}}', { seq: 1 }), /Invalid placeholder/);
+        });
+
+        test('should leave unknown placeholders and unset variables alone', () => {
+            assert.strictEqual(interpolateTemplate('{{customer}}-{{env.MISSING}}', { seq: 1, env: {} }), '{{customer}}-');
+        });
+    });
+
+    suite('Template Files', () => {
+        test('should stringify object values and default the name to the file name', () => {
+            const template = parseTemplate({ value: { id: '{{uuid}}' }, partition: 2 }, 'order-created');
+
+            assert.strictEqual(template.name, 'order-created');
+            assert.strictEqual(template.value, '{\n  "id": "{{uuid}}"\n}');
+            assert.strictEqual(template.partition, 2);
+        });
+
+        test('should coerce header values to strings', () => {
+            const template = parseTemplate({ name: 'With headers', value: 'x', headers: { retries: 3 } }, 'file');
+
+            assert.deepStrictEqual(template.headers, { retries: '3' });
+        });
+
+        test('should reject malformed templates', () => {
+            assert.throws(() => parseTemplate([], 'file'), /JSON object/);
+            assert.throws(() => parseTemplate({ key: 'k' }, 'file'), /no "value"/);
+            assert.throws(() => parseTemplate({ value: 'x', partition: -1 }, 'file'), /partition/);
+            assert.throws(() => parseTemplate({ value: 'x', headers: ['a'] }, 'file'), /headers/);
+        });
+
+        test('should match topics against wildcard patterns', () => {
+            assert.ok(matchesTopicPattern(undefined, 'orders'));
+            assert.ok(matchesTopicPattern('orders.*', 'orders.created'));
+            assert.ok(matchesTopicPattern('orders-v?', 'orders-v2'));
+            assert.ok(!matchesTopicPattern('orders.*', 'orders-created'));
+            assert.ok(!matchesTopicPattern('orders', 'orders-dlq'));
+        });
+    });
+});
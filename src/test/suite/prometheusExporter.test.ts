@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { LagMonitor } from '../../services/LagMonitor';
+import {
+    PrometheusExporter,
+    buildClusterMetricFamilies,
+    buildLagMetricFamilies,
+    formatPrometheusMetrics
+} from '../../services/PrometheusExporter';
+
+function get(port: number, path: string): Promise<{ status: number; contentType?: string; body: string }> {
+    return new Promise((resolve, reject) => {
+        http.get({ host: '127.0.0.1', port, path }, response => {
+            let body = '';
+            response.on('data', chunk => (body += chunk));
+            response.on('end', () => resolve({ status: response.statusCode!, contentType: response.headers['content-type'], body }));
+        }).on('error', reject);
+    });
+}
+
+suite('Prometheus Exporter Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    const snapshot = {
+        clusterName: 'prod',
+        timestamp: 1700000000000,
+        partitions: [
+            { groupId: 'billing', topic: 'orders', partition: 0, currentOffset: '90', logEndOffset: '100', lag: 10 },
+            { groupId: 'billing', topic: 'orders', partition: 1, currentOffset: '40', logEndOffset: '45', lag: 5 },
+            { groupId: 'audit', topic: 'orders', partition: 0, currentOffset: '100', logEndOffset: '100', lag: 0 }
+        ]
+    };
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    suite('Exposition format', () => {
+        test('should write HELP and TYPE lines and escape label values', () => {
+            const text = formatPrometheusMetrics([{
+                name: 'kafka_consumergroup_lag_sum',
+                help: 'Total lag',
+                type: 'gauge',
+                samples: [{ labels: { cluster: 'prod', group: 'say "hi"\\now' }, value: 3 }]
+            }], { env: 'dev' });
+
+            assert.strictEqual(text, [
+                '# HELP kafka_consumergroup_lag_sum Total lag',
+                '# TYPE kafka_consumergroup_lag_sum gauge',
+                'kafka_consumergroup_lag_sum{env="dev",cluster="prod",group="say \\"hi\\"\\\\now"} 3',
+                ''
+            ].join('\n'));
+        });
+
+        test('should label lag per cluster, group, topic and partition and sum it per group', () => {
+            const text = formatPrometheusMetrics(buildLagMetricFamilies([snapshot], [
+                { clusterName: 'prod', groupId: 'billing', totalLag: 15, severity: 'warning', stuckPartitions: ['orders-1'], timestamp: 1 }
+            ]));
+
+            assert.ok(text.includes('kafka_consumergroup_lag{cluster="prod",group="billing",topic="orders",partition="1"} 5'));
+            assert.ok(text.includes('kafka_consumergroup_lag_sum{cluster="prod",group="billing"} 15'));
+            assert.ok(text.includes('kafka_consumergroup_lag_alert{cluster="prod",group="billing"} 1'));
+            assert.ok(text.includes('kafka_consumergroup_stuck_partitions{cluster="prod",group="billing"} 1'));
+            assert.ok(text.includes('kafka_lag_monitor_last_poll_timestamp_seconds{cluster="prod"} 1700000000'));
+            assert.strictEqual((text.match(/^kafka_topic_partition_log_end_offset\{cluster="prod",topic="orders",partition="0"\}/gm) || []).length, 1);
+        });
+
+        test('should report clusters whose statistics failed as down', () => {
+            const text = formatPrometheusMetrics(buildClusterMetricFamilies([
+                { clusterName: 'prod', statistics: { brokerCount: 3, topicCount: 10, totalPartitions: 30, underReplicatedPartitions: 2, offlinePartitions: 0 } },
+                { clusterName: 'dev', error: 'Connection refused' }
+            ]));
+
+            assert.ok(text.includes('kafka_cluster_up{cluster="prod"} 1'));
+            assert.ok(text.includes('kafka_cluster_up{cluster="dev"} 0'));
+            assert.ok(text.includes('kafka_cluster_under_replicated_partitions{cluster="prod"} 2'));
+            assert.ok(!text.includes('kafka_cluster_brokers{cluster="dev"}'));
+        });
+    });
+
+    suite('HTTP endpoint', () => {
+        let exporter: PrometheusExporter;
+        let settings: Record<string, any>;
+        let clientManager: sinon.SinonStubbedInstance<KafkaClientManager>;
+
+        setup(() => {
+            settings = { enabled: true, port: 0, extraLabels: { env: 'dev', 'bad-name': 'x' } };
+            sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue: any) => (key in settings ? settings[key] : defaultValue)
+            } as any);
+            clientManager = sandbox.createStubInstance(KafkaClientManager);
+            clientManager.getClusters.returns(['prod']);
+            clientManager.getClusterStatistics.resolves({
+                brokerCount: 3, topicCount: 1, totalPartitions: 2, underReplicatedPartitions: 0, offlinePartitions: 0
+            });
+            const lagMonitor = sandbox.createStubInstance(LagMonitor);
+            lagMonitor.getLatestLag.returns([snapshot]);
+            lagMonitor.getAlertStates.returns([]);
+            exporter = new PrometheusExporter(clientManager as any, lagMonitor as any);
+        });
+
+        teardown(async () => {
+            await exporter.stop();
+        });
+
+        test('should not listen unless enabled', async () => {
+            settings.enabled = false;
+            assert.strictEqual(await exporter.start(), undefined);
+        });
+
+        test('should serve metrics on 127.0.0.1 and cache cluster statistics between scrapes', async () => {
+            const port = (await exporter.start())!;
+
+            const first = await get(port, '/metrics');
+            await get(port, '/metrics');
+
+            assert.strictEqual(first.status, 200);
+            assert.match(first.contentType!, /^text\/plain; version=0\.0\.4/);
+            assert.ok(first.body.includes('kafka_cluster_brokers{env="dev",cluster="prod"} 3'));
+            assert.ok(first.body.includes('kafka_consumergroup_lag{env="dev",cluster="prod",group="billing",topic="orders",partition="0"} 10'));
+            assert.ok(!first.body.includes('bad-name'));
+            assert.ok(clientManager.getClusterStatistics.calledOnce);
+            assert.strictEqual((await get(port, '/')).status, 404);
+        });
+    });
+});
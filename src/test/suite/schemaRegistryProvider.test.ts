@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { SchemaRegistryProvider, SchemaRegistryTreeItem } from '../../providers/schemaRegistryProvider';
+import { SchemaDocumentProvider, formatSchema } from '../../providers/schemaDocumentProvider';
+import { KafkaClientManager } from '../../kafka/kafkaClientManager';
+import { CredentialManager } from '../../infrastructure/CredentialManager';
+import { SchemaRegistryService } from '../../services/SchemaRegistryService';
+
+suite('Schema Registry Provider Test Suite', () => {
+    let provider: SchemaRegistryProvider;
+    let clientManager: any;
+    let credentialManager: any;
+
+    const clusterNode = new SchemaRegistryTreeItem(
+        'test-cluster',
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'cluster',
+        'test-cluster'
+    );
+
+    setup(() => {
+        clientManager = sinon.createStubInstance(KafkaClientManager);
+        credentialManager = sinon.createStubInstance(CredentialManager);
+        credentialManager.getCredentials.resolves({});
+        provider = new SchemaRegistryProvider(clientManager as any, credentialManager as any);
+    });
+
+    teardown(() => {
+        sinon.restore();
+    });
+
+    suite('Root Level', () => {
+        test('should return cluster items', async () => {
+            clientManager.getClusters.returns(['cluster1', 'cluster2']);
+
+            const children = await provider.getChildren();
+
+            assert.strictEqual(children.length, 2);
+            assert.strictEqual(children[0].contextValue, 'cluster');
+            assert.strictEqual(children[1].label, 'cluster2');
+        });
+    });
+
+    suite('Subjects', () => {
+        test('should show a hint when no registry is configured', async () => {
+            clientManager.getClusterConfig.returns({ name: 'test-cluster', type: 'kafka', securityProtocol: 'PLAINTEXT' });
+
+            const children = await provider.getChildren(clusterNode);
+
+            assert.strictEqual(children.length, 1);
+            assert.strictEqual(children[0].label, 'No Schema Registry configured');
+        });
+
+        test('should list global compatibility followed by subjects', async () => {
+            clientManager.getClusterConfig.returns({
+                name: 'test-cluster',
+                type: 'kafka',
+                securityProtocol: 'PLAINTEXT',
+                schemaRegistryUrl: 'https://registry.example.com'
+            });
+            sinon.stub(SchemaRegistryService.prototype, 'getGlobalCompatibility').resolves('BACKWARD');
+            sinon.stub(SchemaRegistryService.prototype, 'listSubjects').resolves(['orders-key', 'orders-value']);
+
+            const children = await provider.getChildren(clusterNode);
+
+            assert.strictEqual(children.length, 3);
+            assert.strictEqual(children[0].label, 'Compatibility: BACKWARD');
+            assert.strictEqual(children[1].contextValue, 'schemaSubject');
+            assert.strictEqual(children[2].subject, 'orders-value');
+        });
+
+        test('should show an error item when the registry is unreachable', async () => {
+            clientManager.getClusterConfig.returns({
+                name: 'test-cluster',
+                type: 'kafka',
+                securityProtocol: 'PLAINTEXT',
+                schemaRegistryUrl: 'https://registry.example.com'
+            });
+            sinon.stub(SchemaRegistryService.prototype, 'getGlobalCompatibility').rejects(new Error('ECONNREFUSED'));
+            sinon.stub(SchemaRegistryService.prototype, 'listSubjects').resolves([]);
+
+            const children = await provider.getChildren(clusterNode);
+
+            assert.strictEqual(children.length, 1);
+            assert.strictEqual(children[0].contextValue, 'error');
+        });
+    });
+
+    suite('Versions', () => {
+        test('should list subject compatibility and versions newest first', async () => {
+            clientManager.getClusterConfig.returns({
+                name: 'test-cluster',
+                type: 'kafka',
+                securityProtocol: 'PLAINTEXT',
+                schemaRegistryUrl: 'https://registry.example.com'
+            });
+            sinon.stub(SchemaRegistryService.prototype, 'getSubjectCompatibility').resolves(undefined);
+            sinon.stub(SchemaRegistryService.prototype, 'getSchemaVersions').resolves([1, 2, 3]);
+
+            const subjectNode = new SchemaRegistryTreeItem(
+                'orders-value',
+                vscode.TreeItemCollapsibleState.Collapsed,
+                'schemaSubject',
+                'test-cluster',
+                'orders-value'
+            );
+            const children = await provider.getChildren(subjectNode);
+
+            assert.strictEqual(children[0].label, 'Compatibility: inherited');
+            assert.deepStrictEqual(children.slice(1).map(c => c.version), [3, 2, 1]);
+            assert.strictEqual(children[1].command?.command, 'kafka.openSchemaVersion');
+        });
+    });
+
+    suite('Schema Documents', () => {
+        test('should round-trip cluster, subject and version through the URI', () => {
+            const uri = SchemaDocumentProvider.buildUri('prod/eu', 'orders-value', 7, 'PROTOBUF');
+
+            assert.strictEqual(uri.scheme, 'kafka-schema');
+            assert.ok(uri.path.endsWith('.proto'));
+            assert.deepStrictEqual(SchemaDocumentProvider.parseUri(uri), {
+                clusterName: 'prod/eu',
+                subject: 'orders-value',
+                version: 7
+            });
+        });
+
+        test('should pretty-print Avro schemas and leave Protobuf untouched', () => {
+            assert.strictEqual(formatSchema('{"type":"string"}', 'AVRO'), '{\n  "type": "string"\n}');
+            assert.strictEqual(formatSchema('syntax = "proto3";', 'PROTOBUF'), 'syntax = "proto3";');
+        });
+    });
+});
@@ -1,7 +1,8 @@
 import * as assert from 'assert';
 import * as sinon from 'sinon';
-import { SchemaRegistryService } from '../../services/SchemaRegistryService';
+import { LATEST_SCHEMA_ID_TTL_MS, SchemaRegistryService } from '../../services/SchemaRegistryService';
 import { CredentialManager } from '../../infrastructure/CredentialManager';
+import { AuditLog, AuditOperation, AuditResult } from '../../infrastructure/AuditLog';
 
 suite('SchemaRegistryService Test Suite', () => {
     let sandbox: sinon.SinonSandbox;
@@ -312,5 +313,262 @@ suite('SchemaRegistryService Test Suite', () => {
             assert.ok(true, 'Should log schema operations');
         });
     });
-});
 
+    suite('Encoding', () => {
+        let service: SchemaRegistryService;
+        let encodeStub: sinon.SinonStub;
+
+        setup(async () => {
+            credentialManager.getCredentials.resolves({});
+            service = new SchemaRegistryService(
+                { url: 'https://schema-registry.example.com' },
+                credentialManager as any,
+                'test-cluster'
+            );
+            await service.initialize();
+            encodeStub = sandbox.stub((service as any).registry, 'encode').resolves(Buffer.from([0, 0, 0, 0, 7]));
+        });
+
+        test('should encode with the latest schema by default', async () => {
+            sandbox.stub(service, 'getLatestSchema').resolves({ id: 12, version: 3, schema: '{}', subject: 'orders-value' });
+
+            await service.encodeMessage('orders-value', { id: 1 });
+
+            assert.deepStrictEqual(encodeStub.firstCall.args, [12, { id: 1 }]);
+        });
+
+        test('should encode with a pinned schema version', async () => {
+            const versionStub = sandbox.stub(service, 'getSchemaVersion')
+                .resolves({ id: 7, version: 2, schema: '{}', subject: 'orders-value', schemaType: 'AVRO' });
+
+            await service.encodeMessage('orders-value', { id: 1 }, 2);
+
+            assert.ok(versionStub.calledWith('orders-value', 2));
+            assert.strictEqual(encodeStub.firstCall.args[0], 7);
+        });
+
+        test('should resolve the schema ID once for repeated encodes', async () => {
+            const latestStub = sandbox.stub(service, 'getLatestSchema').resolves({ id: 12, version: 3, schema: '{}', subject: 'orders-value' });
+
+            await Promise.all([1, 2, 3].map(id => service.encodeMessage('orders-value', { id })));
+            await service.encodeMessage('orders-value', { id: 4 });
+
+            assert.strictEqual(latestStub.callCount, 1);
+            assert.deepStrictEqual(encodeStub.getCalls().map(call => call.args[0]), [12, 12, 12, 12]);
+        });
+
+        test('should look up the latest schema again once the cached ID expires', async () => {
+            const clock = sandbox.useFakeTimers(Date.now());
+            const latestStub = sandbox.stub(service, 'getLatestSchema');
+            latestStub.onFirstCall().resolves({ id: 12, version: 3, schema: '{}', subject: 'orders-value' });
+            latestStub.onSecondCall().resolves({ id: 13, version: 4, schema: '{}', subject: 'orders-value' });
+
+            assert.strictEqual(await service.resolveSchemaId('orders-value'), 12);
+            clock.tick(LATEST_SCHEMA_ID_TTL_MS + 1);
+            assert.strictEqual(await service.resolveSchemaId('orders-value'), 13);
+        });
+
+        test('should not cache a failed lookup', async () => {
+            const latestStub = sandbox.stub(service, 'getLatestSchema');
+            latestStub.onFirstCall().rejects(new Error('Subject not found'));
+            latestStub.onSecondCall().resolves({ id: 12, version: 1, schema: '{}', subject: 'orders-value' });
+
+            await assert.rejects(service.encodeMessage('orders-value', { id: 1 }), /Subject not found/);
+            await service.encodeMessage('orders-value', { id: 1 });
+            assert.strictEqual(encodeStub.firstCall.args[0], 12);
+        });
+    });
+
+    suite('Wire Format Detection', () => {
+        test('should read schema ID from Confluent framed payload', () => {
+            const buffer = Buffer.concat([Buffer.from([0, 0, 0, 0, 42]), Buffer.from('payload')]);
+
+            assert.strictEqual(SchemaRegistryService.parseWireHeader(buffer), 42);
+        });
+
+        test('should reject payloads without the magic byte', () => {
+            const buffer = Buffer.from('{"plain":"json"}');
+
+            assert.strictEqual(SchemaRegistryService.parseWireHeader(buffer), undefined);
+        });
+
+        test('should reject payloads shorter than the header', () => {
+            assert.strictEqual(SchemaRegistryService.parseWireHeader(Buffer.from([0, 0, 1])), undefined);
+            assert.strictEqual(SchemaRegistryService.parseWireHeader(null), undefined);
+        });
+
+        test('should fail decodeWithSchema for unframed payloads', async () => {
+            credentialManager.getCredentials.resolves({});
+
+            const service = new SchemaRegistryService(
+                { url: 'https://schema-registry.example.com' },
+                credentialManager as any,
+                'test-cluster'
+            );
+
+            await assert.rejects(
+                async () => await service.decodeWithSchema(Buffer.from('not framed')),
+                /not in Confluent wire format/
+            );
+        });
+    });
+
+    suite('Cluster Configuration Factory', () => {
+        test('should return undefined when no registry URL is configured', () => {
+            const service = SchemaRegistryService.fromClusterConfig(
+                { name: 'test-cluster', type: 'kafka', securityProtocol: 'PLAINTEXT' },
+                credentialManager as any
+            );
+
+            assert.strictEqual(service, undefined);
+        });
+
+        test('should create a service when a registry URL is configured', () => {
+            const service = SchemaRegistryService.fromClusterConfig(
+                {
+                    name: 'test-cluster',
+                    type: 'kafka',
+                    securityProtocol: 'PLAINTEXT',
+                    schemaRegistryType: 'confluent',
+                    schemaRegistryUrl: 'https://schema-registry.example.com'
+                },
+                credentialManager as any
+            );
+
+            assert.ok(service instanceof SchemaRegistryService);
+        });
+    });
+
+    suite('REST API', () => {
+        let service: SchemaRegistryService;
+        let requestStub: sinon.SinonStub;
+
+        setup(() => {
+            credentialManager.getCredentials.resolves({});
+            service = new SchemaRegistryService(
+                { url: 'https://schema-registry.example.com' },
+                credentialManager as any,
+                'test-cluster'
+            );
+            requestStub = sandbox.stub(service as any, 'request');
+        });
+
+        test('should list subjects sorted by name', async () => {
+            requestStub.withArgs('GET', '/subjects').resolves(['orders-value', 'customers-value']);
+
+            assert.deepStrictEqual(await service.listSubjects(), ['customers-value', 'orders-value']);
+        });
+
+        test('should list versions of a URL-encoded subject', async () => {
+            requestStub.withArgs('GET', '/subjects/a%2Fb-value/versions').resolves([3, 1, 2]);
+
+            assert.deepStrictEqual(await service.getSchemaVersions('a/b-value'), [1, 2, 3]);
+        });
+
+        test('should default schema type to AVRO', async () => {
+            requestStub.resolves({ id: 10, version: 2, subject: 'orders-value', schema: '"string"' });
+
+            const schema = await service.getSchemaVersion('orders-value', 2);
+
+            assert.strictEqual(schema.schemaType, 'AVRO');
+            assert.strictEqual(schema.id, 10);
+        });
+
+        test('should report inherited subject compatibility as undefined', async () => {
+            const notFound: any = new Error('Subject not found');
+            notFound.status = 404;
+            requestStub.withArgs('GET', '/config/orders-value').rejects(notFound);
+            requestStub.withArgs('GET', '/config').resolves({ compatibilityLevel: 'BACKWARD' });
+
+            assert.strictEqual(await service.getSubjectCompatibility('orders-value'), undefined);
+            assert.strictEqual(await service.getGlobalCompatibility(), 'BACKWARD');
+        });
+
+        test('should be unavailable when subjects cannot be listed', async () => {
+            requestStub.rejects(new Error('ECONNREFUSED'));
+
+            assert.strictEqual(await service.isAvailable(), false);
+        });
+
+        test('should omit schemaType when registering Avro schemas', async () => {
+            requestStub.resolves({ id: 7 });
+
+            const id = await service.registerSchema('orders-value', '"string"', 'AVRO');
+
+            assert.strictEqual(id, 7);
+            assert.deepStrictEqual(requestStub.firstCall.args, [
+                'POST',
+                '/subjects/orders-value/versions',
+                { schema: '"string"' }
+            ]);
+            const entry = AuditLog.getEntries({ operation: AuditOperation.SCHEMA_REGISTERED })[0];
+            assert.strictEqual(entry.resource, 'orders-value');
+            assert.strictEqual(entry.result, AuditResult.SUCCESS);
+        });
+
+        test('should audit failed registrations', async () => {
+            requestStub.rejects(new Error('Schema being registered is incompatible'));
+
+            await assert.rejects(service.registerSchema('orders-value', 'syntax = "proto3";', 'PROTOBUF'));
+
+            assert.strictEqual(requestStub.firstCall.args[2].schemaType, 'PROTOBUF');
+            const entry = AuditLog.getEntries({ operation: AuditOperation.SCHEMA_REGISTERED })[0];
+            assert.strictEqual(entry.result, AuditResult.FAILURE);
+        });
+
+        test('should report compatibility check results', async () => {
+            requestStub.resolves({ is_compatible: false, messages: ['READER_FIELD_MISSING_DEFAULT_VALUE'] });
+
+            const result = await service.testCompatibility('orders-value', '{}', 'JSON');
+
+            assert.strictEqual(result.isCompatible, false);
+            assert.deepStrictEqual(result.messages, ['READER_FIELD_MISSING_DEFAULT_VALUE']);
+            assert.strictEqual(requestStub.firstCall.args[1], '/compatibility/subjects/orders-value/versions/latest?verbose=true');
+        });
+
+        test('should treat a new subject as compatible', async () => {
+            const notFound: any = new Error('Subject not found');
+            notFound.status = 404;
+            requestStub.rejects(notFound);
+
+            const result = await service.testCompatibility('new-subject', '"string"', 'AVRO');
+
+            assert.strictEqual(result.isCompatible, true);
+        });
+
+        test('should soft delete before hard deleting a version', async () => {
+            requestStub.resolves(2);
+
+            await service.deleteSchemaVersion('orders-value', 2, true);
+
+            assert.deepStrictEqual(requestStub.getCalls().map(c => c.args[1]), [
+                '/subjects/orders-value/versions/2',
+                '/subjects/orders-value/versions/2?permanent=true'
+            ]);
+            const entry = AuditLog.getEntries({ operation: AuditOperation.SCHEMA_VERSION_DELETED })[0];
+            assert.deepStrictEqual(entry.metadata, { version: 2, permanent: true });
+        });
+
+        test('should hard delete an already soft-deleted version', async () => {
+            const softDeleted: any = new Error('Version 2 was soft deleted');
+            softDeleted.status = 404;
+            softDeleted.errorCode = 40406;
+            requestStub.onFirstCall().rejects(softDeleted);
+            requestStub.onSecondCall().resolves(2);
+
+            await service.deleteSchemaVersion('orders-value', 2, true);
+
+            assert.strictEqual(requestStub.callCount, 2);
+        });
+
+        test('should audit compatibility level changes', async () => {
+            requestStub.withArgs('GET', '/config/orders-value').resolves({ compatibilityLevel: 'BACKWARD' });
+            requestStub.withArgs('PUT', '/config/orders-value').resolves({ compatibility: 'FULL' });
+
+            await service.setSubjectCompatibility('orders-value', 'FULL');
+
+            const entry = AuditLog.getEntries({ operation: AuditOperation.SCHEMA_COMPATIBILITY_UPDATED })[0];
+            assert.deepStrictEqual(entry.metadata, { oldValue: 'BACKWARD', newValue: 'FULL' });
+        });
+    });
+});
@@ -0,0 +1,187 @@
+import * as assert from 'assert';
+import { SchemaType as ConfluentSchemaType } from '@kafkajs/confluent-schema-registry';
+import { schemaFromConfluentSchema } from '@kafkajs/confluent-schema-registry/dist/schemaTypeResolver';
+import { detectSchemaType, generateSchemaSample } from '../../utils/schemaSamples';
+import { SchemaType } from '../../services/SchemaRegistryService';
+
+/**
+ * Deterministic random source cycling through a fixed sequence
+ */
+function sequence(...values: number[]): () => number {
+    let index = 0;
+    return () => values[index++ % values.length];
+}
+
+function assertEncodable(schema: string, schemaType: SchemaType, sample: any) {
+    // Formats are checked by the tests themselves; ajv rejects unknown formats without ajv-formats
+    const serde = schemaFromConfluentSchema(
+        { type: ConfluentSchemaType[schemaType], schema } as any,
+        { [ConfluentSchemaType.JSON]: { validateFormats: false } }
+    );
+    assert.ok(serde.toBuffer(sample).length >= 0, `sample should encode: ${JSON.stringify(sample)}`);
+}
+
+suite('Schema Samples Test Suite', () => {
+    suite('Schema Type Detection', () => {
+        test('should detect Protobuf from extension or syntax declaration', () => {
+            assert.strictEqual(detectSchemaType('/schemas/order.proto', 'message Order {}'), 'PROTOBUF');
+            assert.strictEqual(detectSchemaType('/schemas/order.txt', 'syntax = "proto3";\nmessage Order {}'), 'PROTOBUF');
+        });
+
+        test('should detect Avro from .avsc files', () => {
+            assert.strictEqual(detectSchemaType('/schemas/order.avsc', '{"type":"record","name":"Order","fields":[]}'), 'AVRO');
+        });
+
+        test('should distinguish Avro records from JSON Schema in .json files', () => {
+            assert.strictEqual(detectSchemaType('/schemas/order.json', '{"type":"record","name":"Order","fields":[]}'), 'AVRO');
+            assert.strictEqual(detectSchemaType('/schemas/order.json', '{"$schema":"http://json-schema.org/draft-07/schema#"}'), 'JSON');
+            assert.strictEqual(detectSchemaType('/schemas/order.json', '{"type":"object","properties":{}}'), 'JSON');
+        });
+
+        test('should fall back to the extension default for other content', () => {
+            assert.strictEqual(detectSchemaType('/schemas/order.json', 'not json'), 'JSON');
+            assert.strictEqual(detectSchemaType('/schemas/untitled', '"string"'), 'AVRO');
+        });
+    });
+
+    suite('Avro Samples', () => {
+        const schema = JSON.stringify({
+            type: 'record',
+            name: 'Order',
+            namespace: 'com.example',
+            fields: [
+                { name: 'id', type: { type: 'string', logicalType: 'uuid' } },
+                { name: 'status', type: { type: 'enum', name: 'Status', symbols: ['NEW', 'PAID', 'SHIPPED'] } },
+                { name: 'createdAt', type: { type: 'long', logicalType: 'timestamp-millis' } },
+                { name: 'deliveryDate', type: ['null', { type: 'int', logicalType: 'date' }] },
+                { name: 'items', type: { type: 'array', items: {
+                    type: 'record', name: 'Item', fields: [
+                        { name: 'sku', type: 'string' },
+                        { name: 'quantity', type: 'int' },
+                        { name: 'price', type: 'double' }
+                    ]
+                } } },
+                { name: 'previousStatus', type: ['null', 'Status'] },
+                { name: 'attributes', type: { type: 'map', values: 'string' } },
+                { name: 'parent', type: ['null', 'Order'], default: null }
+            ]
+        });
+
+        test('should generate payloads the Avro serializer accepts', () => {
+            for (let i = 0; i < 25; i++) {
+                assertEncodable(schema, 'AVRO', generateSchemaSample(schema, 'AVRO'));
+            }
+        });
+
+        test('should respect enums and logical types', () => {
+            const sample = generateSchemaSample(schema, 'AVRO');
+
+            assert.ok(['NEW', 'PAID', 'SHIPPED'].includes(sample.status));
+            assert.match(sample.id, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+            assert.ok(Math.abs(Date.now() - sample.createdAt) <= 31 * 24 * 60 * 60 * 1000);
+        });
+
+        test('should resolve named types and stop recursive types', () => {
+            // Always take the non-null union branch: recursion must still terminate
+            const sample = generateSchemaSample(schema, 'AVRO', { random: sequence(0.99) });
+
+            let depth = 0;
+            for (let node = sample; node.parent; node = node.parent) {
+                depth++;
+            }
+            assert.ok(depth > 0 && depth < 10);
+            assert.ok(['NEW', 'PAID', 'SHIPPED'].includes(sample.previousStatus));
+        });
+    });
+
+    suite('JSON Schema Samples', () => {
+        const schema = JSON.stringify({
+            $schema: 'http://json-schema.org/draft-07/schema#',
+            type: 'object',
+            required: ['orderId', 'email', 'total', 'lines'],
+            properties: {
+                orderId: { type: 'string', format: 'uuid' },
+                email: { type: 'string', format: 'email' },
+                placedAt: { type: 'string', format: 'date-time' },
+                total: { type: 'number', minimum: 1, maximum: 500 },
+                currency: { enum: ['EUR', 'USD'] },
+                lines: { type: 'array', minItems: 1, maxItems: 3, items: { $ref: '#/definitions/line' } },
+                coupon: { oneOf: [{ type: 'null' }, { type: 'string', minLength: 4, maxLength: 8 }] }
+            },
+            definitions: {
+                line: {
+                    type: 'object',
+                    required: ['sku', 'quantity'],
+                    properties: {
+                        sku: { type: 'string', pattern: '^[a-z]+$' },
+                        quantity: { type: 'integer', exclusiveMinimum: 0, maximum: 10 }
+                    }
+                }
+            }
+        });
+
+        test('should generate payloads the JSON Schema validator accepts', () => {
+            for (let i = 0; i < 25; i++) {
+                assertEncodable(schema, 'JSON', generateSchemaSample(schema, 'JSON'));
+            }
+        });
+
+        test('should always include required fields', () => {
+            // Optional properties are skipped when the random source says so
+            const sample = generateSchemaSample(schema, 'JSON', { random: sequence(0.9) });
+
+            assert.deepStrictEqual(Object.keys(sample).sort(), ['email', 'lines', 'orderId', 'total']);
+            assert.ok(sample.lines.every((line: any) => line.quantity >= 1 && line.quantity <= 10));
+        });
+    });
+
+    suite('Protobuf Samples', () => {
+        const schema = `
+            syntax = "proto3";
+            package shop;
+
+            message Order {
+                string order_id = 1;
+                Status status = 2;
+                repeated Line lines = 3;
+                map<string, string> tags = 4;
+                int64 created_at = 5;
+                oneof payment {
+                    string card_token = 6;
+                    string iban = 7;
+                }
+                bytes signature = 8;
+            }
+
+            message Line {
+                string sku = 1;
+                uint32 quantity = 2;
+            }
+
+            enum Status {
+                NEW = 0;
+                PAID = 1;
+            }
+        `;
+
+        test('should generate payloads the Protobuf serializer accepts', () => {
+            for (let i = 0; i < 25; i++) {
+                assertEncodable(schema, 'PROTOBUF', generateSchemaSample(schema, 'PROTOBUF'));
+            }
+        });
+
+        test('should use the first message and set one member of each oneof', () => {
+            const sample = generateSchemaSample(schema, 'PROTOBUF');
+
+            assert.ok('orderId' in sample);
+            assert.strictEqual(['cardToken', 'iban'].filter(name => name in sample).length, 1);
+            assert.ok([0, 1].includes(sample.status));
+        });
+
+        test('should generate a named message', () => {
+            const sample = generateSchemaSample(schema, 'PROTOBUF', { messageName: 'shop.Line' });
+
+            assert.deepStrictEqual(Object.keys(sample).sort(), ['quantity', 'sku']);
+        });
+    });
+});
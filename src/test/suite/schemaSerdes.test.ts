@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { createSchemaSerde } from '../../utils/schemaSerdes';
+
+suite('Schema Serdes Test Suite', () => {
+    test('should round-trip Avro records', () => {
+        const serde = createSchemaSerde('AVRO', JSON.stringify({
+            type: 'record',
+            name: 'Order',
+            fields: [{ name: 'id', type: 'string' }, { name: 'total', type: 'double' }]
+        }));
+
+        assert.deepStrictEqual({ ...serde.fromBuffer(serde.toBuffer({ id: 'A-1', total: 9.5 })) }, { id: 'A-1', total: 9.5 });
+        assert.throws(() => serde.toBuffer({ id: 1 }));
+    });
+
+    test('should validate JSON Schema payloads in both directions', () => {
+        const serde = createSchemaSerde('JSON', JSON.stringify({
+            type: 'object',
+            properties: { id: { type: 'string' } },
+            required: ['id']
+        }));
+
+        assert.strictEqual(serde.toBuffer({ id: 'A-1' }).toString(), '{"id":"A-1"}');
+        assert.throws(() => serde.toBuffer({}), /Invalid payload: \/ must have required property 'id'/);
+        assert.throws(() => serde.fromBuffer(Buffer.from('{"id":1}')), /Invalid payload: \/id must be string/);
+    });
+
+    test('should encode Protobuf payloads with the first message in the file', () => {
+        const serde = createSchemaSerde('PROTOBUF', [
+            'syntax = "proto3";',
+            'package shop;',
+            'message Order { string id = 1; int32 quantity = 2; }',
+            'message Refund { string order_id = 1; }'
+        ].join('\n'));
+
+        const decoded = serde.fromBuffer(serde.toBuffer({ id: 'A-1', quantity: 3 }));
+        assert.strictEqual(decoded.id, 'A-1');
+        assert.strictEqual(decoded.quantity, 3);
+        assert.throws(() => serde.toBuffer({ quantity: 'many' }), /Invalid payload: quantity: integer expected/);
+    });
+});
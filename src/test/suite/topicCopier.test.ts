@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import { KafkaMessage } from 'kafkajs';
+import { ReplayMessage } from '../../services/MessageReplay';
+import { TopicCopier, selectTopicConfigs, verifyTopicCopy } from '../../services/TopicCopier';
+import { compileMessageFilter } from '../../utils/messageFilter';
+
+function message(offset: number, value: string = `{"n":${offset}}`): KafkaMessage {
+    return {
+        key: Buffer.from(`k${offset}`),
+        value: Buffer.from(value),
+        timestamp: String(1700000000000 + offset),
+        attributes: 0,
+        offset: String(offset),
+        headers: { source: Buffer.from('staging') }
+    } as KafkaMessage;
+}
+
+const ranges = [
+    { partition: 0, startOffset: '0', endOffset: '10' },
+    { partition: 1, startOffset: '5', endOffset: '10' }
+];
+
+suite('Topic Copier Test Suite', () => {
+    test('should copy messages to the same partition with their timestamps and headers', async () => {
+        const batches: ReplayMessage[][] = [];
+        const copier = new TopicCopier(ranges, async batch => { batches.push(batch); }, { keepPartitions: true });
+
+        await copier.add(0, message(0));
+        await copier.add(1, message(5));
+        const summary = await copier.finish(false);
+
+        assert.strictEqual(batches.length, 1);
+        assert.deepStrictEqual(batches[0].map(m => m.partition), [0, 1]);
+        assert.strictEqual(batches[0][1].timestamp, '1700000000005');
+        assert.deepStrictEqual(batches[0][1].headers, { source: Buffer.from('staging') });
+        assert.strictEqual(summary.copied, 2);
+        assert.deepStrictEqual(summary.partitions.map(p => [p.partition, p.startOffset, p.endOffset, p.copied]), [
+            [0, '0', '10', 1],
+            [1, '5', '10', 1]
+        ]);
+    });
+
+    test('should leave partitioning to the producer when partitions are not kept', async () => {
+        const batches: ReplayMessage[][] = [];
+        const copier = new TopicCopier(ranges, async batch => { batches.push(batch); }, { keepPartitions: false });
+
+        await copier.add(1, message(5));
+        await copier.finish(false);
+
+        assert.strictEqual(batches[0][0].partition, undefined);
+    });
+
+    test('should copy only matching messages and stop at the limit', async () => {
+        let sent = 0;
+        const copier = new TopicCopier(ranges, async batch => { sent += batch.length; }, {
+            keepPartitions: true,
+            filter: compileMessageFilter('$.n >= 3'),
+            limit: 2
+        });
+
+        for (let offset = 0; offset < 6; offset++) {
+            await copier.add(0, message(offset));
+        }
+        const summary = await copier.finish(false);
+
+        assert.strictEqual(copier.isDone, true);
+        assert.strictEqual(sent, 2);
+        assert.strictEqual(summary.read, 5, 'Messages after the limit are not read');
+        assert.strictEqual(summary.filtered, 3);
+        assert.strictEqual(summary.limitReached, true);
+    });
+
+    test('should send full batches while reading and report throughput', async () => {
+        let now = 0;
+        const sizes: number[] = [];
+        const copier = new TopicCopier(ranges, async batch => { sizes.push(batch.length); }, { keepPartitions: true }, { now: () => now });
+
+        for (let offset = 0; offset < 1200; offset++) {
+            await copier.add(0, message(offset));
+        }
+        assert.deepStrictEqual(sizes, [500, 500]);
+
+        now = 2000;
+        assert.strictEqual(copier.getProgress().throughput, 500);
+        await copier.finish(true);
+        assert.deepStrictEqual(sizes, [500, 500, 200]);
+    });
+
+    test('should fail with a plain error when producing fails', async () => {
+        const failure = Object.assign(new Error('Connection closed'), { name: 'KafkaJSConnectionClosedError', retriable: true });
+        const copier = new TopicCopier(ranges, async () => { throw failure; }, { keepPartitions: true });
+
+        await copier.add(0, message(0));
+        await assert.rejects(copier.finish(false), (error: any) =>
+            error.name === 'Error' && !error.retriable && /Failed to produce to the destination topic: Connection closed/.test(error.message));
+    });
+
+    test('should compare copied counts with destination offsets', async () => {
+        const copier = new TopicCopier(ranges, async () => undefined, { keepPartitions: true });
+        await copier.add(0, message(0));
+        await copier.add(0, message(1));
+        await copier.add(1, message(5));
+        const summary = await copier.finish(false);
+
+        const before = new Map([[0, '100'], [1, '7']]);
+        assert.deepStrictEqual(verifyTopicCopy(summary, before, new Map([[0, '102'], [1, '9']]), true), [
+            { partition: 0, copied: 2, added: 2, matches: true },
+            { partition: 1, copied: 1, added: 2, matches: false }
+        ]);
+        assert.deepStrictEqual(verifyTopicCopy(summary, before, new Map([[0, '101'], [1, '9']]), false), [
+            { partition: 'total', copied: 3, added: 3, matches: true }
+        ]);
+    });
+
+    test('should copy only configs set on the source topic', () => {
+        assert.deepStrictEqual(selectTopicConfigs([
+            { configName: 'retention.ms', configValue: '86400000', configSource: 1, isDefault: false },
+            { configName: 'cleanup.policy', configValue: 'delete', configSource: 5, isDefault: true },
+            { configName: 'min.insync.replicas', configValue: '2', configSource: 4, isDefault: false },
+            { configName: 'sasl.secret', configValue: null, configSource: 1, isSensitive: true }
+        ]), [{ name: 'retention.ms', value: '86400000' }]);
+    });
+});
@@ -0,0 +1,29 @@
+// Type declarations for the pure-JavaScript compression libraries, which ship without typings
+
+declare module 'kafkajs-snappy' {
+    interface SnappyCodec {
+        compress(encoder: { buffer: Buffer }): Promise<Buffer>;
+        decompress(buffer: Buffer): Promise<Buffer>;
+    }
+    function createSnappyCodec(): SnappyCodec;
+    export = createSnappyCodec;
+}
+
+declare module 'lz4js' {
+    export function compress(src: Uint8Array, maxSize?: number): Uint8Array;
+    export function decompress(src: Uint8Array, maxSize?: number): Uint8Array;
+}
+
+declare module 'zstd-codec' {
+    /** Both methods return null on failure */
+    export interface ZstdStreaming {
+        compress(content: Uint8Array, compressionLevel?: number): Uint8Array | null;
+        decompress(compressed: Uint8Array, sizeHint?: number): Uint8Array | null;
+    }
+    export interface ZstdBinding {
+        Streaming: new () => ZstdStreaming;
+    }
+    export const ZstdCodec: {
+        run(callback: (zstd: ZstdBinding) => void): void;
+    };
+}
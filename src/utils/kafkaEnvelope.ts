@@ -0,0 +1,108 @@
+import { StoredMessage } from '../services/MessageStore';
+import { COMPRESSION_NAMES, CompressionName } from '../kafka/compressionCodecs';
+
+/**
+ * Marker of the lossless message format; written on every line so files can be concatenated
+ */
+export const KAFKA_ENVELOPE_FORMAT = 'kafka-envelope/v1';
+
+/**
+ * One message as written to a Kafka envelope file (one JSON object per line)
+ * Keys, values and header values are the exact bytes read from Kafka, base64 encoded; headers are a list
+ * so repeated names and their order survive
+ */
+export interface KafkaEnvelope {
+    format: typeof KAFKA_ENVELOPE_FORMAT;
+    topic: string;
+    partition: number;
+    offset: string;
+    timestamp: string;
+    key: string | null;
+    value: string | null;
+    headers: Array<{ key: string; value: string | null }>;
+    compression?: CompressionName;
+}
+
+export function toKafkaEnvelope(message: StoredMessage): KafkaEnvelope {
+    const headers: KafkaEnvelope['headers'] = [];
+    for (const [key, value] of Object.entries(message.headers ?? {})) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            headers.push({ key, value: item === undefined || item === null ? null : toBase64(item) });
+        }
+    }
+
+    return {
+        format: KAFKA_ENVELOPE_FORMAT,
+        topic: message.topic,
+        partition: message.partition,
+        offset: message.offset,
+        timestamp: message.timestamp,
+        key: message.key ? message.key.toString('base64') : null,
+        value: message.value ? message.value.toString('base64') : null,
+        headers,
+        compression: message.compression
+    };
+}
+
+/**
+ * Validate an envelope read from a file and restore the message bytes
+ * Repeated header names become arrays, as kafkajs delivers them
+ * @throws Error naming the first missing or invalid field
+ */
+export function parseKafkaEnvelope(raw: any): StoredMessage {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error('Kafka envelope must be a JSON object');
+    }
+    if (raw.format !== KAFKA_ENVELOPE_FORMAT) {
+        throw new Error(`Unsupported envelope format: ${raw.format}`);
+    }
+    if (typeof raw.topic !== 'string' || !raw.topic) {
+        throw new Error('Kafka envelope is missing "topic"');
+    }
+    if (!Number.isInteger(raw.partition) || raw.partition < 0) {
+        throw new Error('Kafka envelope "partition" must be a non-negative integer');
+    }
+    for (const field of ['offset', 'timestamp']) {
+        if (!/^-?\d+$/.test(String(raw[field] ?? ''))) {
+            throw new Error(`Kafka envelope "${field}" must be an integer`);
+        }
+    }
+    if (raw.headers !== undefined && !Array.isArray(raw.headers)) {
+        throw new Error('Kafka envelope "headers" must be a list');
+    }
+
+    const headers: Record<string, Buffer | Buffer[]> = {};
+    for (const header of raw.headers ?? []) {
+        if (typeof header?.key !== 'string') {
+            throw new Error('Kafka envelope header is missing "key"');
+        }
+        const value = fromBase64(header.value, `header "${header.key}"`) ?? Buffer.alloc(0);
+        const existing = headers[header.key];
+        headers[header.key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    }
+
+    return {
+        topic: raw.topic,
+        partition: raw.partition,
+        offset: String(raw.offset),
+        timestamp: String(raw.timestamp),
+        key: fromBase64(raw.key, 'key'),
+        value: fromBase64(raw.value, 'value'),
+        headers,
+        compression: COMPRESSION_NAMES.includes(raw.compression) ? raw.compression : 'none'
+    };
+}
+
+function toBase64(value: unknown): string {
+    return (Buffer.isBuffer(value) ? value : Buffer.from(String(value), 'utf8')).toString('base64');
+}
+
+function fromBase64(value: unknown, label: string): Buffer | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (typeof value !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+        throw new Error(`Kafka envelope ${label} must be base64`);
+    }
+    return Buffer.from(value, 'base64');
+}
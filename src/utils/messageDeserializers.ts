@@ -0,0 +1,261 @@
+/**
+ * Deserializers for rendering raw Kafka key, value and header bytes
+ */
+
+export type DeserializerId =
+    | 'string'
+    | 'json'
+    | 'hex'
+    | 'base64'
+    | 'utf16'
+    | 'int32'
+    | 'int64'
+    | 'double'
+    | 'uuid'
+    | 'msgpack';
+
+export interface Deserializer {
+    id: DeserializerId;
+    label: string;
+    deserialize(buffer: Buffer): string;
+}
+
+/**
+ * JSON.stringify replacer that keeps 64-bit integers readable
+ */
+function bigintReplacer(_key: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function expectLength(buffer: Buffer, length: number, label: string): void {
+    if (buffer.length !== length) {
+        throw new Error(`${label} requires exactly ${length} bytes, got ${buffer.length}`);
+    }
+}
+
+const DESERIALIZERS: Deserializer[] = [
+    {
+        id: 'string',
+        label: 'String (UTF-8)',
+        deserialize: buffer => buffer.toString('utf8')
+    },
+    {
+        id: 'json',
+        label: 'JSON',
+        deserialize: buffer => JSON.stringify(JSON.parse(buffer.toString('utf8')), null, 2)
+    },
+    {
+        id: 'hex',
+        label: 'Hex',
+        deserialize: buffer => buffer.toString('hex')
+    },
+    {
+        id: 'base64',
+        label: 'Base64',
+        deserialize: buffer => buffer.toString('base64')
+    },
+    {
+        id: 'utf16',
+        label: 'String (UTF-16)',
+        deserialize: buffer => {
+            // Honour a byte order mark, defaulting to big-endian like Java's UTF-16
+            if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+                return buffer.subarray(2).toString('utf16le');
+            }
+            const body = buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff
+                ? buffer.subarray(2)
+                : buffer;
+            if (body.length % 2 !== 0) {
+                throw new Error(`UTF-16 requires an even number of bytes, got ${body.length}`);
+            }
+            return Buffer.from(body).swap16().toString('utf16le');
+        }
+    },
+    {
+        id: 'int32',
+        label: 'Integer (32-bit BE)',
+        deserialize: buffer => {
+            expectLength(buffer, 4, 'Int32');
+            return buffer.readInt32BE(0).toString();
+        }
+    },
+    {
+        id: 'int64',
+        label: 'Long (64-bit BE)',
+        deserialize: buffer => {
+            expectLength(buffer, 8, 'Int64');
+            return buffer.readBigInt64BE(0).toString();
+        }
+    },
+    {
+        id: 'double',
+        label: 'Double (64-bit BE)',
+        deserialize: buffer => {
+            expectLength(buffer, 8, 'Double');
+            return buffer.readDoubleBE(0).toString();
+        }
+    },
+    {
+        id: 'uuid',
+        label: 'UUID',
+        deserialize: buffer => {
+            // Binary UUIDs are 16 bytes; string UUIDs are passed through
+            if (buffer.length === 36) {
+                return buffer.toString('utf8');
+            }
+            expectLength(buffer, 16, 'UUID');
+            const hex = buffer.toString('hex');
+            return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+        }
+    },
+    {
+        id: 'msgpack',
+        label: 'MessagePack',
+        deserialize: buffer => JSON.stringify(decodeMessagePack(buffer), bigintReplacer, 2)
+    }
+];
+
+/**
+ * Get all registered deserializers in display order
+ */
+export function getDeserializers(): Deserializer[] {
+    return DESERIALIZERS;
+}
+
+/**
+ * Look up a deserializer by ID
+ */
+export function getDeserializer(id: string): Deserializer | undefined {
+    return DESERIALIZERS.find(d => d.id === id);
+}
+
+/**
+ * Check whether a value is a known deserializer ID
+ */
+export function isDeserializerId(id: unknown): id is DeserializerId {
+    return typeof id === 'string' && getDeserializer(id) !== undefined;
+}
+
+/**
+ * Deserialize bytes with the given deserializer
+ * @throws Error if the deserializer is unknown or the bytes do not match its format
+ */
+export function deserialize(buffer: Buffer, id: DeserializerId): string {
+    const deserializer = getDeserializer(id);
+    if (!deserializer) {
+        throw new Error(`Unknown deserializer: ${id}`);
+    }
+    return deserializer.deserialize(buffer);
+}
+
+/**
+ * Decode a single MessagePack document
+ * Binary values are returned as base64 strings and extension types as { type, data } objects
+ * @throws Error if the buffer is truncated, malformed or has trailing bytes
+ */
+export function decodeMessagePack(buffer: Buffer): unknown {
+    let pos = 0;
+
+    const need = (count: number) => {
+        if (pos + count > buffer.length) {
+            throw new Error(`Truncated MessagePack data at byte ${pos}`);
+        }
+    };
+    const readBytes = (count: number): Buffer => {
+        need(count);
+        const bytes = buffer.subarray(pos, pos + count);
+        pos += count;
+        return bytes;
+    };
+    const readUInt = (size: 1 | 2 | 4): number => {
+        need(size);
+        const value = size === 1 ? buffer.readUInt8(pos) : size === 2 ? buffer.readUInt16BE(pos) : buffer.readUInt32BE(pos);
+        pos += size;
+        return value;
+    };
+    const toSafeNumber = (value: bigint): number | bigint =>
+        value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(value) : value;
+
+    const readArray = (length: number): unknown[] => {
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+            items.push(readValue());
+        }
+        return items;
+    };
+    const readMap = (length: number): Record<string, unknown> => {
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < length; i++) {
+            const key = readValue();
+            map[typeof key === 'string' ? key : JSON.stringify(key, bigintReplacer)] = readValue();
+        }
+        return map;
+    };
+    const readExt = (length: number): unknown => {
+        need(1);
+        const type = buffer.readInt8(pos++);
+        const data = readBytes(length);
+        // Timestamp extension (type -1) in its 32-bit and 64-bit forms
+        if (type === -1 && length === 4) {
+            return new Date(data.readUInt32BE(0) * 1000).toISOString();
+        }
+        if (type === -1 && length === 8) {
+            const nanoseconds = data.readUInt32BE(0) >>> 2;
+            const seconds = (data.readUInt32BE(0) & 0x3) * 0x100000000 + data.readUInt32BE(4);
+            return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6)).toISOString();
+        }
+        return { type, data: data.toString('base64') };
+    };
+
+    const readValue = (): unknown => {
+        const byte = readUInt(1);
+
+        if (byte <= 0x7f) { return byte; }
+        if (byte >= 0xe0) { return byte - 0x100; }
+        if ((byte & 0xf0) === 0x80) { return readMap(byte & 0x0f); }
+        if ((byte & 0xf0) === 0x90) { return readArray(byte & 0x0f); }
+        if ((byte & 0xe0) === 0xa0) { return readBytes(byte & 0x1f).toString('utf8'); }
+
+        switch (byte) {
+            case 0xc0: return null;
+            case 0xc2: return false;
+            case 0xc3: return true;
+            case 0xc4: return readBytes(readUInt(1)).toString('base64');
+            case 0xc5: return readBytes(readUInt(2)).toString('base64');
+            case 0xc6: return readBytes(readUInt(4)).toString('base64');
+            case 0xc7: return readExt(readUInt(1));
+            case 0xc8: return readExt(readUInt(2));
+            case 0xc9: return readExt(readUInt(4));
+            case 0xca: return readBytes(4).readFloatBE(0);
+            case 0xcb: return readBytes(8).readDoubleBE(0);
+            case 0xcc: return readUInt(1);
+            case 0xcd: return readUInt(2);
+            case 0xce: return readUInt(4);
+            case 0xcf: return toSafeNumber(readBytes(8).readBigUInt64BE(0));
+            case 0xd0: return readBytes(1).readInt8(0);
+            case 0xd1: return readBytes(2).readInt16BE(0);
+            case 0xd2: return readBytes(4).readInt32BE(0);
+            case 0xd3: return toSafeNumber(readBytes(8).readBigInt64BE(0));
+            case 0xd4: return readExt(1);
+            case 0xd5: return readExt(2);
+            case 0xd6: return readExt(4);
+            case 0xd7: return readExt(8);
+            case 0xd8: return readExt(16);
+            case 0xd9: return readBytes(readUInt(1)).toString('utf8');
+            case 0xda: return readBytes(readUInt(2)).toString('utf8');
+            case 0xdb: return readBytes(readUInt(4)).toString('utf8');
+            case 0xdc: return readArray(readUInt(2));
+            case 0xdd: return readArray(readUInt(4));
+            case 0xde: return readMap(readUInt(2));
+            case 0xdf: return readMap(readUInt(4));
+            default:
+                throw new Error(`Invalid MessagePack type byte 0x${byte.toString(16)} at byte ${pos - 1}`);
+        }
+    };
+
+    const result = readValue();
+    if (pos !== buffer.length) {
+        throw new Error(`Unexpected ${buffer.length - pos} trailing bytes after MessagePack value`);
+    }
+    return result;
+}
@@ -0,0 +1,256 @@
+import { promises as fs } from 'fs';
+import { StoredMessage } from '../services/MessageStore';
+import { toKafkaEnvelope } from './kafkaEnvelope';
+
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'kcat' | 'envelope';
+
+export interface ExportFormatInfo {
+    id: ExportFormat;
+    label: string;
+    description: string;
+    /** File extension, without the dot */
+    extension: string;
+    filterName: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { id: 'json', label: 'JSON', description: 'Array of decoded messages', extension: 'json', filterName: 'JSON' },
+    { id: 'ndjson', label: 'NDJSON', description: 'One decoded message per line', extension: 'ndjson', filterName: 'NDJSON' },
+    { id: 'csv', label: 'CSV', description: 'One row per message, with chosen JSON fields as columns', extension: 'csv', filterName: 'CSV' },
+    { id: 'kcat', label: 'kcat format', description: 'Text formatted like kcat -f, e.g. %t [%p] %o: %k %s\\n', extension: 'txt', filterName: 'Text' },
+    {
+        id: 'envelope',
+        label: 'Kafka envelope (lossless)',
+        description: 'Raw key/value bytes as base64 with headers, partition, offset and timestamp; can be replayed',
+        extension: 'ndjson',
+        filterName: 'Kafka envelope'
+    }
+];
+
+export const DEFAULT_KCAT_FORMAT = '%t [%p] at offset %o: key %k: %s\\n';
+
+/**
+ * A message decoded with the consumer's deserializers, plus anything else shown for it
+ */
+export interface DecodedMessage {
+    topic: string;
+    partition: number;
+    offset: string;
+    timestamp: string;
+    key: string | null;
+    value: string;
+    headers?: Record<string, string>;
+}
+
+export interface ExportOptions {
+    /** CSV: dotted paths into the JSON value to add as columns, e.g. `order.id` */
+    jsonColumns?: string[];
+    /** kcat: format string with %t %p %o %T %k %K %s %S %h %% and \n \t \r \\ escapes */
+    kcatFormat?: string;
+}
+
+/**
+ * Writes messages in one format, one message at a time so exports can be streamed
+ */
+export interface MessageExporter {
+    /** Whether messages must be decoded; the envelope only needs the raw bytes */
+    needsDecoding: boolean;
+    begin(): string;
+    /** @param first Whether this is the first message written */
+    format(raw: StoredMessage, decoded: DecodedMessage | undefined, first: boolean): string;
+    end(): string;
+}
+
+const CSV_COLUMNS = ['topic', 'partition', 'offset', 'timestamp', 'key', 'value', 'headers'];
+
+export function createMessageExporter(format: ExportFormat, options: ExportOptions = {}): MessageExporter {
+    switch (format) {
+        case 'json':
+            return {
+                needsDecoding: true,
+                begin: () => '[',
+                format: (_raw, decoded, first) => `${first ? '' : ','}\n${indent(JSON.stringify(decoded, null, 2))}`,
+                end: () => '\n]\n'
+            };
+        case 'ndjson':
+            return {
+                needsDecoding: true,
+                begin: () => '',
+                format: (_raw, decoded) => `${JSON.stringify(decoded)}\n`,
+                end: () => ''
+            };
+        case 'csv': {
+            const jsonColumns = options.jsonColumns ?? [];
+            return {
+                needsDecoding: true,
+                begin: () => toCsvRow([...CSV_COLUMNS, ...jsonColumns]),
+                format: (_raw, decoded) => toCsvRow([
+                    decoded!.topic,
+                    String(decoded!.partition),
+                    decoded!.offset,
+                    decoded!.timestamp,
+                    decoded!.key ?? '',
+                    decoded!.value,
+                    decoded!.headers && Object.keys(decoded!.headers).length > 0 ? JSON.stringify(decoded!.headers) : '',
+                    ...extractJsonColumns(decoded!.value, jsonColumns)
+                ]),
+                end: () => ''
+            };
+        }
+        case 'kcat': {
+            const kcatFormat = options.kcatFormat ?? DEFAULT_KCAT_FORMAT;
+            return {
+                needsDecoding: true,
+                begin: () => '',
+                format: (raw, decoded) => formatKcat(kcatFormat, raw, decoded!),
+                end: () => ''
+            };
+        }
+        case 'envelope':
+            return {
+                needsDecoding: false,
+                begin: () => '',
+                format: raw => `${JSON.stringify(toKafkaEnvelope(raw))}\n`,
+                end: () => ''
+            };
+    }
+}
+
+/**
+ * Write messages to a file in the exporter's format, a chunk at a time
+ * Stops early when `isCancelled` returns true; the partial file is removed
+ * @returns Messages written, or undefined when cancelled
+ */
+export async function writeMessageExport(
+    file: string,
+    messages: AsyncIterable<{ message: StoredMessage }>,
+    exporter: MessageExporter,
+    decode: (message: StoredMessage) => Promise<DecodedMessage>,
+    options: { isCancelled?: () => boolean; onProgress?: (written: number) => void } = {}
+): Promise<number | undefined> {
+    const handle = await fs.open(file, 'w');
+    let written = 0;
+    let chunk = exporter.begin();
+    let cancelled = false;
+
+    try {
+        for await (const { message } of messages) {
+            if (options.isCancelled?.()) {
+                cancelled = true;
+                break;
+            }
+            const decoded = exporter.needsDecoding ? await decode(message) : undefined;
+            chunk += exporter.format(message, decoded, written === 0);
+            written++;
+
+            if (chunk.length >= 1024 * 1024) {
+                await handle.write(chunk);
+                chunk = '';
+                options.onProgress?.(written);
+            }
+        }
+        if (!cancelled) {
+            await handle.write(chunk + exporter.end());
+        }
+    } finally {
+        await handle.close();
+    }
+
+    if (cancelled) {
+        await fs.rm(file, { force: true });
+        return undefined;
+    }
+    return written;
+}
+
+/**
+ * Format a message like `kcat -f`: %t topic, %p partition, %o offset, %T timestamp, %k key, %K key length
+ * in bytes, %s value, %S value length in bytes, %h headers as name=value pairs, %% a percent sign
+ * A missing key prints as empty with length -1, as in kcat
+ */
+export function formatKcat(format: string, raw: StoredMessage, decoded: DecodedMessage): string {
+    return format.replace(/%([tpoTkKsSh%])|\\([ntr\\])/g, (_match, token: string | undefined, escape: string | undefined) => {
+        if (escape) {
+            return { n: '\n', t: '\t', r: '\r', '\\': '\\' }[escape]!;
+        }
+        switch (token) {
+            case 't': return decoded.topic;
+            case 'p': return String(decoded.partition);
+            case 'o': return decoded.offset;
+            case 'T': return decoded.timestamp;
+            case 'k': return decoded.key ?? '';
+            case 'K': return String(raw.key ? raw.key.length : -1);
+            case 's': return decoded.value;
+            case 'S': return String(raw.value ? raw.value.length : -1);
+            case 'h': return Object.entries(decoded.headers ?? {}).map(([name, value]) => `${name}=${value}`).join(',');
+            default: return '%';
+        }
+    });
+}
+
+/**
+ * Dotted paths to the leaves of JSON object values, for choosing CSV columns
+ * Arrays are treated as leaves; paths are returned in the order first seen
+ */
+export function discoverJsonColumns(values: string[], maxColumns: number = 200): string[] {
+    const columns = new Set<string>();
+    const visit = (value: unknown, prefix: string, depth: number) => {
+        if (columns.size >= maxColumns) {
+            return;
+        }
+        if (value !== null && typeof value === 'object' && !Array.isArray(value) && depth < 6) {
+            for (const [name, child] of Object.entries(value)) {
+                visit(child, prefix ? `${prefix}.${name}` : name, depth + 1);
+            }
+        } else if (prefix) {
+            columns.add(prefix);
+        }
+    };
+
+    for (const text of values) {
+        try {
+            visit(JSON.parse(text), '', 0);
+        } catch {
+            // Not JSON; no columns
+        }
+    }
+    return [...columns];
+}
+
+function extractJsonColumns(value: string, columns: string[]): string[] {
+    if (columns.length === 0) {
+        return [];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(value);
+    } catch {
+        return columns.map(() => '');
+    }
+
+    return columns.map(column => {
+        let current: unknown = parsed;
+        for (const name of column.split('.')) {
+            current = current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[name] : undefined;
+        }
+        if (current === undefined || current === null) {
+            return '';
+        }
+        return typeof current === 'object' ? JSON.stringify(current) : String(current);
+    });
+}
+
+/**
+ * RFC 4180 row; cells that spreadsheets would run as formulas are prefixed with a quote
+ */
+export function toCsvRow(cells: string[]): string {
+    return cells.map(cell => {
+        const safe = /^[=+@\t\r]|^-[^\d.]/.test(cell) ? `'${cell}` : cell;
+        return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+    }).join(',') + '\r\n';
+}
+
+function indent(text: string): string {
+    return text.split('\n').map(line => `  ${line}`).join('\n');
+}
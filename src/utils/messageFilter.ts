@@ -0,0 +1,596 @@
+/**
+ * Filter expressions evaluated against consumed messages in the extension host
+ *
+ * Examples:
+ *   value.order.id == "A-123"
+ *   $.items[*].sku ~ /^SKU-9/i and partition in (0, 3)
+ *   headers.traceId contains "abc" or key ~ "user-.*"
+ *   timestamp >= "2024-05-01T00:00:00Z" and not value.test
+ */
+
+/**
+ * The decoded parts of a message a filter can look at
+ */
+export interface FilterableMessage {
+    partition: number;
+    offset: string;
+    timestamp: string;
+    key: string | null;
+    value: string;
+    headers?: Record<string, string>;
+}
+
+export interface MessageFilter {
+    expression: string;
+    /** Whether the expression reads the key, value or headers rather than only partition, offset and timestamp */
+    usesPayload: boolean;
+    matches(message: FilterableMessage): boolean;
+}
+
+/**
+ * Limits on how much a filtered scan reads before stopping; missing or 0 means no limit
+ */
+export interface ScanBudget {
+    maxMessages?: number;
+    maxBytes?: number;
+    maxDurationMs?: number;
+}
+
+export interface ScanProgress {
+    scanned: number;
+    matched: number;
+    bytes: number;
+    elapsedMs: number;
+    /** Why the scan stopped, once a budget limit is reached */
+    exhausted?: string;
+}
+
+/**
+ * Operators, keywords and help text for the filter input
+ */
+export const FILTER_EXPRESSION_HELP = [
+    'Fields: key, value, headers.<name>, partition, offset, timestamp',
+    'JSON paths: value.order.id, $.items[0].sku, $.items[*].sku, value["odd name"]',
+    'Operators: == != > >= < <= ~ (regex) contains in (...)',
+    'Combine with and, or, not and parentheses; a bare field tests that it is present'
+];
+
+type Literal = string | number | boolean | null | RegExp;
+
+type PathSegment = string | number | '*';
+
+interface FieldRef {
+    root: 'key' | 'value' | 'headers' | 'partition' | 'offset' | 'timestamp';
+    path: PathSegment[];
+}
+
+type Node =
+    | { kind: 'and' | 'or'; left: Node; right: Node }
+    | { kind: 'not'; operand: Node }
+    | { kind: 'exists'; field: FieldRef }
+    | { kind: 'compare'; field: FieldRef; operator: ComparisonOperator; literal: Literal }
+    | { kind: 'in'; field: FieldRef; literals: Literal[] };
+
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | '~' | 'contains';
+
+interface Token {
+    type: 'string' | 'number' | 'regex' | 'word' | 'symbol' | 'end';
+    text: string;
+    value?: Literal;
+    position: number;
+}
+
+const ROOTS = ['key', 'value', 'headers', 'partition', 'offset', 'timestamp'];
+const SYMBOLS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '~', '!', '(', ')', '[', ']', '.', ',', '$', '*'];
+const KEYWORDS: Record<string, Literal> = { true: true, false: false, null: null };
+
+/**
+ * Parse a filter expression
+ * @throws Error naming the position of the first syntax error
+ */
+export function compileMessageFilter(expression: string): MessageFilter {
+    const parser = new Parser(tokenize(expression));
+    const root = parser.parseExpression();
+    parser.expectEnd();
+
+    return {
+        expression,
+        usesPayload: referencesPayload(root),
+        matches: message => evaluate(root, new MessageView(message))
+    };
+}
+
+/**
+ * Counts what a filtered scan has read and decides when its budget is used up
+ */
+export class FilterScan {
+    private scanned = 0;
+    private matched = 0;
+    private bytes = 0;
+    private exhausted: string | undefined;
+    private readonly startedAt: number;
+
+    constructor(private readonly budget: ScanBudget = {}, private readonly now: () => number = Date.now) {
+        this.startedAt = now();
+    }
+
+    /**
+     * Count one scanned message
+     * @returns Whether the scan may continue
+     */
+    record(bytes: number, matched: boolean): boolean {
+        this.scanned++;
+        this.bytes += bytes;
+        if (matched) {
+            this.matched++;
+        }
+
+        const { maxMessages, maxBytes, maxDurationMs } = this.budget;
+        if (maxMessages && this.scanned >= maxMessages) {
+            this.exhausted = `scanned ${maxMessages.toLocaleString()} messages`;
+        } else if (maxBytes && this.bytes >= maxBytes) {
+            this.exhausted = `scanned ${formatBytes(maxBytes)}`;
+        } else if (maxDurationMs && this.now() - this.startedAt >= maxDurationMs) {
+            this.exhausted = `scanned for ${Math.round(maxDurationMs / 1000)}s`;
+        }
+        return this.exhausted === undefined;
+    }
+
+    isExhausted(): boolean {
+        return this.exhausted !== undefined;
+    }
+
+    getProgress(): ScanProgress {
+        return {
+            scanned: this.scanned,
+            matched: this.matched,
+            bytes: this.bytes,
+            elapsedMs: this.now() - this.startedAt,
+            exhausted: this.exhausted
+        };
+    }
+}
+
+function formatBytes(bytes: number): string {
+    return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${bytes.toLocaleString()} bytes`;
+}
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const position = i;
+        if (char === '"' || char === "'") {
+            let text = '';
+            i++;
+            while (i < expression.length && expression[i] !== char) {
+                if (expression[i] === '\\' && i + 1 < expression.length) {
+                    i++;
+                    text += { n: '\n', t: '\t', r: '\r' }[expression[i]] ?? expression[i];
+                } else {
+                    text += expression[i];
+                }
+                i++;
+            }
+            if (i >= expression.length) {
+                throw new Error(`Unterminated string starting at position ${position + 1}`);
+            }
+            i++;
+            tokens.push({ type: 'string', text: expression.slice(position, i), value: text, position });
+        } else if (char === '/' && isRegexAllowed(tokens)) {
+            let source = '';
+            i++;
+            while (i < expression.length && expression[i] !== '/') {
+                if (expression[i] === '\\' && i + 1 < expression.length) {
+                    source += expression[i++];
+                }
+                source += expression[i++];
+            }
+            if (i >= expression.length) {
+                throw new Error(`Unterminated regular expression starting at position ${position + 1}`);
+            }
+            i++;
+            const flags = /^[imsu]*/.exec(expression.slice(i))![0];
+            i += flags.length;
+            tokens.push({ type: 'regex', text: expression.slice(position, i), value: toRegExp(source, flags, position), position });
+        } else if (/[-\d]/.test(char) && /^-?\d/.test(expression.slice(i))) {
+            const text = /^-?\d+(\.\d+)?([eE][-+]?\d+)?/.exec(expression.slice(i))![0];
+            i += text.length;
+            tokens.push({ type: 'number', text, value: Number(text), position });
+        } else if (/[A-Za-z_]/.test(char)) {
+            const text = /^[A-Za-z_][\w-]*/.exec(expression.slice(i))![0];
+            i += text.length;
+            tokens.push({ type: 'word', text, position });
+        } else {
+            const symbol = SYMBOLS.find(s => expression.startsWith(s, i));
+            if (!symbol) {
+                throw new Error(`Unexpected "${char}" at position ${position + 1}`);
+            }
+            i += symbol.length;
+            tokens.push({ type: 'symbol', text: symbol, position });
+        }
+    }
+
+    tokens.push({ type: 'end', text: 'end of expression', position: expression.length });
+    return tokens;
+}
+
+/**
+ * A slash starts a regex only where a value is expected, i.e. after an operator
+ */
+function isRegexAllowed(tokens: Token[]): boolean {
+    const previous = tokens[tokens.length - 1];
+    return previous !== undefined && (previous.text === '~' || previous.text === 'contains' || previous.text === '(' || previous.text === ',');
+}
+
+function toRegExp(source: string, flags: string, position: number): RegExp {
+    try {
+        return new RegExp(source, flags);
+    } catch (error: any) {
+        throw new Error(`Invalid regular expression at position ${position + 1}: ${error.message}`);
+    }
+}
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parseExpression(): Node {
+        let left = this.parseAnd();
+        while (this.acceptWord('or') || this.acceptSymbol('||')) {
+            left = { kind: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    expectEnd(): void {
+        if (this.peek().type !== 'end') {
+            this.fail('and, or or the end of the expression');
+        }
+    }
+
+    private parseAnd(): Node {
+        let left = this.parseNot();
+        while (this.acceptWord('and') || this.acceptSymbol('&&')) {
+            left = { kind: 'and', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    private parseNot(): Node {
+        if (this.acceptWord('not') || this.acceptSymbol('!')) {
+            return { kind: 'not', operand: this.parseNot() };
+        }
+        if (this.acceptSymbol('(')) {
+            const inner = this.parseExpression();
+            this.expectSymbol(')');
+            return inner;
+        }
+        return this.parseCondition();
+    }
+
+    private parseCondition(): Node {
+        const field = this.parseField();
+        const token = this.peek();
+
+        if (token.type === 'word' && token.text === 'in') {
+            this.index++;
+            this.expectSymbol('(');
+            const literals = [this.parseLiteral()];
+            while (this.acceptSymbol(',')) {
+                literals.push(this.parseLiteral());
+            }
+            this.expectSymbol(')');
+            return { kind: 'in', field, literals };
+        }
+
+        const operator = token.type === 'word' && token.text === 'contains'
+            ? 'contains'
+            : token.type === 'symbol' && ['==', '!=', '>', '>=', '<', '<=', '~'].includes(token.text)
+                ? token.text as ComparisonOperator
+                : undefined;
+        if (!operator) {
+            return { kind: 'exists', field };
+        }
+        this.index++;
+
+        const literal = this.parseLiteral();
+        if (operator === '~' && !(literal instanceof RegExp)) {
+            if (typeof literal !== 'string') {
+                this.fail('a /regex/ or string after ~', this.tokens[this.index - 1]);
+            }
+            return { kind: 'compare', field, operator, literal: toRegExp(literal, '', this.tokens[this.index - 1].position) };
+        }
+        if (literal instanceof RegExp && operator !== '~' && operator !== 'contains') {
+            this.fail(`a value after ${operator}`, this.tokens[this.index - 1]);
+        }
+        return { kind: 'compare', field, operator, literal };
+    }
+
+    private parseField(): FieldRef {
+        const token = this.peek();
+        let root: FieldRef['root'];
+        if (token.type === 'symbol' && token.text === '$') {
+            root = 'value';
+        } else if (token.type === 'word' && ROOTS.includes(token.text)) {
+            root = token.text as FieldRef['root'];
+        } else {
+            this.fail(`a field (${ROOTS.join(', ')} or $)`);
+        }
+        this.index++;
+
+        const path: PathSegment[] = [];
+        for (;;) {
+            if (this.acceptSymbol('.')) {
+                const name = this.peek();
+                if (name.type === 'word') {
+                    path.push(name.text);
+                } else if (name.type === 'symbol' && name.text === '*') {
+                    path.push('*');
+                } else if (name.type === 'number' && /^\d+$/.test(name.text)) {
+                    path.push(Number(name.text));
+                } else {
+                    this.fail('a field name after "."');
+                }
+                this.index++;
+            } else if (this.acceptSymbol('[')) {
+                const index = this.peek();
+                if (index.type === 'string') {
+                    path.push(index.value as string);
+                } else if (index.type === 'number' && /^\d+$/.test(index.text)) {
+                    path.push(Number(index.text));
+                } else if (index.type === 'symbol' && index.text === '*') {
+                    path.push('*');
+                } else {
+                    this.fail('an index, * or quoted name inside [ ]');
+                }
+                this.index++;
+                this.expectSymbol(']');
+            } else {
+                break;
+            }
+        }
+
+        if (root === 'headers' && (path.length !== 1 || typeof path[0] !== 'string' || path[0] === '*')) {
+            this.fail('a header name, e.g. headers.traceId', token);
+        }
+        if (['key', 'partition', 'offset', 'timestamp'].includes(root) && path.length > 0) {
+            this.fail(`${root} without a path; use value or $ for JSON paths`, token);
+        }
+        return { root, path };
+    }
+
+    private parseLiteral(): Literal {
+        const token = this.peek();
+        if (token.type === 'string' || token.type === 'number' || token.type === 'regex') {
+            this.index++;
+            return token.value!;
+        }
+        if (token.type === 'word' && token.text in KEYWORDS) {
+            this.index++;
+            return KEYWORDS[token.text];
+        }
+        this.fail('a string, number, /regex/, true, false or null');
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private acceptWord(word: string): boolean {
+        const token = this.peek();
+        if (token.type === 'word' && token.text === word) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private acceptSymbol(symbol: string): boolean {
+        const token = this.peek();
+        if (token.type === 'symbol' && token.text === symbol) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectSymbol(symbol: string): void {
+        if (!this.acceptSymbol(symbol)) {
+            this.fail(`"${symbol}"`);
+        }
+    }
+
+    private fail(expected: string, token: Token = this.peek()): never {
+        const found = token.type === 'end' ? token.text : `"${token.text}"`;
+        throw new Error(`Expected ${expected} at position ${token.position + 1}, found ${found}`);
+    }
+}
+
+function referencesPayload(node: Node): boolean {
+    switch (node.kind) {
+        case 'and':
+        case 'or':
+            return referencesPayload(node.left) || referencesPayload(node.right);
+        case 'not':
+            return referencesPayload(node.operand);
+        default:
+            return ['key', 'value', 'headers'].includes(node.field.root);
+    }
+}
+
+/**
+ * Resolves fields of one message, parsing the value as JSON at most once
+ */
+class MessageView {
+    private json: { parsed: boolean; value?: unknown } = { parsed: false };
+
+    constructor(private readonly message: FilterableMessage) {}
+
+    resolve(field: FieldRef): unknown[] {
+        switch (field.root) {
+            case 'key':
+                return this.message.key === null ? [] : [this.message.key];
+            case 'partition':
+                return [this.message.partition];
+            case 'offset':
+                return [Number(this.message.offset)];
+            case 'timestamp':
+                return [Number(this.message.timestamp)];
+            case 'headers': {
+                const value = this.message.headers?.[field.path[0] as string];
+                return value === undefined ? [] : [value];
+            }
+            case 'value':
+                if (field.path.length === 0) {
+                    return [this.message.value];
+                }
+                return walk([this.parseValue()], field.path);
+        }
+    }
+
+    private parseValue(): unknown {
+        if (!this.json.parsed) {
+            this.json.parsed = true;
+            try {
+                this.json.value = JSON.parse(this.message.value);
+            } catch {
+                this.json.value = undefined;
+            }
+        }
+        return this.json.value;
+    }
+}
+
+function walk(values: unknown[], path: PathSegment[]): unknown[] {
+    let current = values;
+    for (const segment of path) {
+        const next: unknown[] = [];
+        for (const value of current) {
+            if (value === null || typeof value !== 'object') {
+                continue;
+            }
+            if (segment === '*') {
+                next.push(...Object.values(value as object));
+            } else if (Array.isArray(value) && typeof segment === 'number') {
+                if (segment < value.length) {
+                    next.push(value[segment]);
+                }
+            } else if (Object.prototype.hasOwnProperty.call(value, segment)) {
+                next.push((value as Record<string, unknown>)[String(segment)]);
+            }
+        }
+        current = next;
+    }
+    return current.filter(value => value !== undefined);
+}
+
+function evaluate(node: Node, view: MessageView): boolean {
+    switch (node.kind) {
+        case 'and':
+            return evaluate(node.left, view) && evaluate(node.right, view);
+        case 'or':
+            return evaluate(node.left, view) || evaluate(node.right, view);
+        case 'not':
+            return !evaluate(node.operand, view);
+        case 'exists':
+            return view.resolve(node.field).some(value => value !== null);
+        case 'in':
+            return view.resolve(node.field).some(value => node.literals.some(literal => compare(node.field, value, '==', literal)));
+        case 'compare': {
+            const values = view.resolve(node.field);
+            // != holds when no value equals the literal, including when the field is missing
+            if (node.operator === '!=') {
+                return !values.some(value => compare(node.field, value, '==', node.literal));
+            }
+            return values.some(value => compare(node.field, value, node.operator, node.literal));
+        }
+    }
+}
+
+function compare(field: FieldRef, value: unknown, operator: ComparisonOperator, literal: Literal): boolean {
+    if (operator === '~') {
+        return (literal as RegExp).test(asText(value));
+    }
+    if (operator === 'contains') {
+        if (Array.isArray(value)) {
+            return value.some(item => compare(field, item, '==', literal));
+        }
+        return literal instanceof RegExp ? literal.test(asText(value)) : asText(value).includes(asText(literal));
+    }
+
+    // Timestamps may be compared against dates such as "2024-05-01" or "2024-05-01T12:00:00Z"
+    const target = field.root === 'timestamp' && typeof literal === 'string' && !/^\d+$/.test(literal)
+        ? Date.parse(literal)
+        : literal;
+
+    if (operator === '==') {
+        return equals(value, target);
+    }
+
+    const ordered = orderOf(value, target);
+    if (ordered === undefined) {
+        return false;
+    }
+    switch (operator) {
+        case '>': return ordered > 0;
+        case '>=': return ordered >= 0;
+        case '<': return ordered < 0;
+        case '<=': return ordered <= 0;
+        default: return false;
+    }
+}
+
+function equals(value: unknown, literal: Literal): boolean {
+    if (literal === null || typeof literal === 'boolean') {
+        return value === literal;
+    }
+    if (typeof literal === 'number') {
+        const number = toNumber(value);
+        return number !== undefined && number === literal;
+    }
+    if (typeof literal === 'string') {
+        return typeof value === 'string' || typeof value === 'number' ? String(value) === literal : false;
+    }
+    return false;
+}
+
+/**
+ * Numbers and numeric strings compare numerically, other strings lexicographically
+ */
+function orderOf(value: unknown, literal: Literal): number | undefined {
+    const left = toNumber(value);
+    const right = toNumber(literal);
+    if (left !== undefined && right !== undefined) {
+        return left - right;
+    }
+    if (typeof value === 'string' && typeof literal === 'string') {
+        return value < literal ? -1 : value > literal ? 1 : 0;
+    }
+    return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+        return Number.isNaN(value) ? undefined : value;
+    }
+    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+        return Number(value);
+    }
+    return undefined;
+}
+
+function asText(value: unknown): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
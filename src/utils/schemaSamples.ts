@@ -0,0 +1,558 @@
+import * as path from 'path';
+import * as protobuf from 'protobufjs';
+import { SchemaType } from '../services/SchemaRegistryService';
+
+/**
+ * Options for generating a sample payload
+ */
+export interface SampleOptions {
+    /** Random source returning values in [0, 1); injectable for deterministic output */
+    random?: () => number;
+    /** Protobuf message to generate; defaults to the first message in the file, as the serializer does */
+    messageName?: string;
+}
+
+// Recursive schemas (trees, linked lists) stop growing past this depth
+const MAX_DEPTH = 4;
+
+const AVRO_PRIMITIVES = ['null', 'boolean', 'int', 'long', 'float', 'double', 'bytes', 'string'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Guess the schema type from a document's file name and content
+ * .proto is Protobuf, .avsc is Avro; .json is JSON Schema unless it looks like an Avro record
+ */
+export function detectSchemaType(fileName: string, content: string): SchemaType {
+    const extension = path.extname(fileName).toLowerCase();
+    if (extension === '.proto' || /^\s*syntax\s*=\s*"proto[23]"/m.test(content)) {
+        return 'PROTOBUF';
+    }
+    if (extension === '.avsc') {
+        return 'AVRO';
+    }
+
+    try {
+        const parsed = JSON.parse(content);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            if (parsed.$schema || parsed.properties || parsed.type === 'object') {
+                return 'JSON';
+            }
+            if (['record', 'enum', 'fixed'].includes(parsed.type)) {
+                return 'AVRO';
+            }
+        }
+    } catch {
+        // Not JSON - fall through to the extension default
+    }
+
+    return extension === '.json' ? 'JSON' : 'AVRO';
+}
+
+/**
+ * Generate a random payload that is valid for a schema
+ * The result is in the JSON form the producer's schema encoder accepts
+ */
+export function generateSchemaSample(schema: string, schemaType: SchemaType, options: SampleOptions = {}): any {
+    const random = new SampleRandom(options.random || Math.random);
+
+    switch (schemaType) {
+        case 'AVRO':
+            return new AvroSampleGenerator(random).sample(JSON.parse(schema));
+        case 'JSON':
+            return new JsonSchemaSampleGenerator(random, JSON.parse(schema)).generate();
+        case 'PROTOBUF':
+            return new ProtobufSampleGenerator(random).generate(schema, options.messageName);
+        default:
+            throw new Error(`Unsupported schema type: ${schemaType}`);
+    }
+}
+
+class SampleRandom {
+    constructor(private next: () => number) {}
+
+    int(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+
+    float(min: number, max: number): number {
+        return Math.round((this.next() * (max - min) + min) * 100) / 100;
+    }
+
+    bool(probability = 0.5): boolean {
+        return this.next() < probability;
+    }
+
+    pick<T>(items: T[]): T {
+        return items[this.int(0, items.length - 1)];
+    }
+
+    word(length = 8): string {
+        let text = '';
+        for (let i = 0; i < length; i++) {
+            text += String.fromCharCode(97 + this.int(0, 25));
+        }
+        return text;
+    }
+
+    hex(length: number): string {
+        let text = '';
+        for (let i = 0; i < length; i++) {
+            text += this.int(0, 15).toString(16);
+        }
+        return text;
+    }
+
+    uuid(): string {
+        return `${this.hex(8)}-${this.hex(4)}-4${this.hex(3)}-${this.pick(['8', '9', 'a', 'b'])}${this.hex(3)}-${this.hex(12)}`;
+    }
+
+    /** A timestamp within 30 days of now, in milliseconds */
+    timestamp(): number {
+        return Date.now() - this.int(0, 30 * DAY_MS);
+    }
+}
+
+class AvroSampleGenerator {
+    private namedTypes: Map<string, any> = new Map();
+
+    constructor(private random: SampleRandom) {}
+
+    sample(schema: any): any {
+        // Named types can be referenced from branches that are never generated, so register them all up front
+        this.collectNamedTypes(schema);
+        return this.generate(schema);
+    }
+
+    private generate(schema: any, namespace?: string, depth = 0): any {
+        if (typeof schema === 'string') {
+            if (AVRO_PRIMITIVES.includes(schema)) {
+                return this.primitive(schema);
+            }
+            const named = this.namedTypes.get(this.qualify(schema, namespace)) || this.namedTypes.get(schema);
+            if (!named) {
+                throw new Error(`Unknown Avro type: ${schema}`);
+            }
+            return this.generate(named, this.namespaceOf(named, namespace), depth);
+        }
+
+        if (Array.isArray(schema)) {
+            return this.union(schema, namespace, depth);
+        }
+
+        if (schema.logicalType) {
+            const value = this.logical(schema);
+            if (value !== undefined) {
+                return value;
+            }
+        }
+
+        switch (schema.type) {
+            case 'record':
+            case 'error': {
+                const recordNamespace = this.namespaceOf(schema, namespace);
+                const record: Record<string, any> = {};
+                for (const field of schema.fields || []) {
+                    record[field.name] = this.generate(field.type, recordNamespace, depth + 1);
+                }
+                return record;
+            }
+            case 'enum':
+                return this.random.pick(schema.symbols);
+            case 'fixed':
+                return this.random.word(schema.size);
+            case 'array': {
+                const length = depth >= MAX_DEPTH ? 0 : this.random.int(1, 3);
+                return Array.from({ length }, () => this.generate(schema.items, namespace, depth + 1));
+            }
+            case 'map': {
+                const map: Record<string, any> = {};
+                const size = depth >= MAX_DEPTH ? 0 : this.random.int(1, 2);
+                for (let i = 0; i < size; i++) {
+                    map[this.random.word(5)] = this.generate(schema.values, namespace, depth + 1);
+                }
+                return map;
+            }
+            default:
+                // { "type": "string" } and other wrapped type references
+                return this.generate(schema.type, namespace, depth);
+        }
+    }
+
+    /**
+     * Pick a union branch; nullable unions are null now and then, and always once deep enough
+     */
+    private union(branches: any[], namespace: string | undefined, depth: number): any {
+        const nonNull = branches.filter(branch => branch !== 'null' && branch?.type !== 'null');
+        const nullable = nonNull.length < branches.length;
+        if (nonNull.length === 0 || (nullable && (depth >= MAX_DEPTH || this.random.bool(0.2)))) {
+            return null;
+        }
+        return this.generate(this.random.pick(nonNull), namespace, depth);
+    }
+
+    private logical(schema: any): any {
+        switch (schema.logicalType) {
+            case 'timestamp-millis':
+            case 'local-timestamp-millis':
+                return this.random.timestamp();
+            case 'timestamp-micros':
+            case 'local-timestamp-micros':
+                return this.random.timestamp() * 1000;
+            case 'date':
+                return Math.floor(this.random.timestamp() / DAY_MS);
+            case 'time-millis':
+                return this.random.int(0, DAY_MS - 1);
+            case 'time-micros':
+                return this.random.int(0, DAY_MS - 1) * 1000;
+            case 'uuid':
+                return this.random.uuid();
+            case 'decimal': {
+                const scale = schema.scale || 0;
+                const digits = Math.max(1, (schema.precision || 6) - scale);
+                const integer = this.random.int(0, Math.pow(10, Math.min(digits, 6)) - 1);
+                const fraction = String(this.random.int(0, Math.pow(10, Math.min(scale, 6)) - 1)).padStart(scale, '0');
+                // Avro JSON has no representation for decimal bytes; a readable string is the most useful sample
+                return scale > 0 ? `${integer}.${fraction}` : String(integer);
+            }
+            default:
+                // Unknown logical types fall back to their underlying type
+                return undefined;
+        }
+    }
+
+    private primitive(type: string): any {
+        switch (type) {
+            case 'null':
+                return null;
+            case 'boolean':
+                return this.random.bool();
+            case 'int':
+                return this.random.int(0, 1000);
+            case 'long':
+                return this.random.int(0, 1000000);
+            case 'float':
+            case 'double':
+                return this.random.float(0, 1000);
+            case 'bytes':
+                return this.random.word(8);
+            default:
+                return `sample-${this.random.word(6)}`;
+        }
+    }
+
+    private collectNamedTypes(schema: any, namespace?: string): void {
+        if (Array.isArray(schema)) {
+            schema.forEach(branch => this.collectNamedTypes(branch, namespace));
+            return;
+        }
+        if (!schema || typeof schema !== 'object') {
+            return;
+        }
+
+        if (schema.name && ['record', 'error', 'enum', 'fixed'].includes(schema.type)) {
+            this.namedTypes.set(this.qualify(schema.name, schema.namespace ?? namespace), schema);
+        }
+
+        const childNamespace = this.namespaceOf(schema, namespace);
+        (schema.fields || []).forEach((field: any) => this.collectNamedTypes(field.type, childNamespace));
+        this.collectNamedTypes(schema.items, namespace);
+        this.collectNamedTypes(schema.values, namespace);
+        if (typeof schema.type === 'object') {
+            this.collectNamedTypes(schema.type, namespace);
+        }
+    }
+
+    private qualify(name: string, namespace?: string): string {
+        return name.includes('.') || !namespace ? name : `${namespace}.${name}`;
+    }
+
+    private namespaceOf(schema: any, namespace?: string): string | undefined {
+        if (typeof schema.name === 'string' && schema.name.includes('.')) {
+            return schema.name.substring(0, schema.name.lastIndexOf('.'));
+        }
+        return schema.namespace ?? namespace;
+    }
+}
+
+class JsonSchemaSampleGenerator {
+    constructor(private random: SampleRandom, private root: any) {}
+
+    generate(schema: any = this.root, depth = 0): any {
+        if (schema === true || schema === undefined) {
+            return `sample-${this.random.word(6)}`;
+        }
+        if (schema === false) {
+            return null;
+        }
+
+        if (schema.$ref) {
+            return this.generate(this.resolveRef(schema.$ref), depth);
+        }
+        if (schema.const !== undefined) {
+            return schema.const;
+        }
+        if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+            return this.random.pick(schema.enum);
+        }
+        if (Array.isArray(schema.allOf)) {
+            return this.generate(this.mergeAllOf(schema), depth);
+        }
+        const branches = schema.oneOf || schema.anyOf;
+        if (Array.isArray(branches) && branches.length > 0) {
+            const { oneOf: _oneOf, anyOf: _anyOf, ...base } = schema;
+            return this.generate({ ...base, ...this.random.pick(branches) }, depth);
+        }
+
+        switch (this.typeOf(schema)) {
+            case 'object':
+                return this.object(schema, depth);
+            case 'array':
+                return this.array(schema, depth);
+            case 'integer':
+                return this.integer(schema);
+            case 'number':
+                return this.number(schema);
+            case 'boolean':
+                return this.random.bool();
+            case 'null':
+                return null;
+            default:
+                return this.string(schema);
+        }
+    }
+
+    private typeOf(schema: any): string {
+        if (Array.isArray(schema.type)) {
+            const types = schema.type.filter((type: string) => type !== 'null');
+            return types.length > 0 ? this.random.pick(types) : 'null';
+        }
+        if (schema.type) {
+            return schema.type;
+        }
+        if (schema.properties) {
+            return 'object';
+        }
+        if (schema.items || schema.prefixItems) {
+            return 'array';
+        }
+        return 'string';
+    }
+
+    private object(schema: any, depth: number): Record<string, any> {
+        const required: string[] = schema.required || [];
+        const result: Record<string, any> = {};
+        for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+            // Required fields always; optional ones most of the time, until the schema gets deep
+            if (required.includes(name) || (depth < MAX_DEPTH && this.random.bool(0.7))) {
+                result[name] = this.generate(property, depth + 1);
+            }
+        }
+        return result;
+    }
+
+    private array(schema: any, depth: number): any[] {
+        const tuple = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : undefined;
+        if (tuple) {
+            return tuple.map((item: any) => this.generate(item, depth + 1));
+        }
+
+        const min = schema.minItems || 0;
+        const max = Math.max(min, Math.min(schema.maxItems ?? 3, min + 3));
+        const length = depth >= MAX_DEPTH ? min : this.random.int(Math.max(min, 1), Math.max(max, 1));
+        return Array.from({ length }, () => this.generate(schema.items, depth + 1));
+    }
+
+    private integer(schema: any): number {
+        const { min, max } = this.bounds(schema, 1);
+        const multipleOf = schema.multipleOf || 1;
+        return this.random.int(Math.ceil(min / multipleOf), Math.floor(max / multipleOf)) * multipleOf;
+    }
+
+    private number(schema: any): number {
+        const { min, max } = this.bounds(schema, 0.01);
+        return Math.min(max, Math.max(min, this.random.float(min, max)));
+    }
+
+    /**
+     * Numeric range, honouring draft-4 boolean and later numeric exclusive bounds
+     */
+    private bounds(schema: any, step: number): { min: number; max: number } {
+        let min = schema.minimum ?? (typeof schema.exclusiveMinimum === 'number'
+            ? schema.exclusiveMinimum
+            : Math.min(0, (schema.maximum ?? schema.exclusiveMaximum ?? 1000) - 1000));
+        let max = schema.maximum ?? (typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : min + 1000);
+        if (typeof schema.exclusiveMinimum === 'number' || schema.exclusiveMinimum === true) {
+            min += step;
+        }
+        if (typeof schema.exclusiveMaximum === 'number' || schema.exclusiveMaximum === true) {
+            max -= step;
+        }
+        return { min, max };
+    }
+
+    private string(schema: any): string {
+        switch (schema.format) {
+            case 'date-time':
+                return new Date(this.random.timestamp()).toISOString();
+            case 'date':
+                return new Date(this.random.timestamp()).toISOString().substring(0, 10);
+            case 'time':
+                return new Date(this.random.timestamp()).toISOString().substring(11, 19);
+            case 'email':
+                return `${this.random.word(6)}@example.com`;
+            case 'uuid':
+                return this.random.uuid();
+            case 'uri':
+            case 'url':
+                return `https://example.com/${this.random.word(6)}`;
+            case 'hostname':
+                return `${this.random.word(6)}.example.com`;
+            case 'ipv4':
+                return [0, 0, 0, 0].map(() => this.random.int(1, 254)).join('.');
+        }
+
+        const min = schema.minLength || 0;
+        const max = schema.maxLength ?? Math.max(min, 12);
+        const length = this.random.int(Math.min(Math.max(min, 6), max), Math.min(Math.max(min, 12), max));
+        return this.random.word(length);
+    }
+
+    private mergeAllOf(schema: any): any {
+        const { allOf, ...base } = schema;
+        const merged: any = { ...base, properties: { ...(base.properties || {}) }, required: [...(base.required || [])] };
+        for (const part of allOf) {
+            const resolved = part.$ref ? this.resolveRef(part.$ref) : part;
+            Object.assign(merged.properties, resolved.properties || {});
+            merged.required.push(...(resolved.required || []));
+            merged.type = merged.type || resolved.type;
+        }
+        return merged;
+    }
+
+    /**
+     * Resolve a local reference such as #/definitions/Address or #/$defs/Address
+     */
+    private resolveRef(ref: string): any {
+        if (!ref.startsWith('#')) {
+            throw new Error(`External JSON Schema references are not supported: ${ref}`);
+        }
+        let target = this.root;
+        for (const segment of ref.substring(1).split('/').filter(Boolean)) {
+            target = target?.[decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')];
+        }
+        if (target === undefined) {
+            throw new Error(`Unresolved JSON Schema reference: ${ref}`);
+        }
+        return target;
+    }
+}
+
+class ProtobufSampleGenerator {
+    constructor(private random: SampleRandom) {}
+
+    generate(schema: string, messageName?: string): Record<string, any> {
+        const root = protobuf.parse(schema).root;
+        const type = messageName ? root.lookupType(messageName) : this.firstMessage(root);
+        if (!type) {
+            throw new Error('The Protobuf schema does not define any message');
+        }
+        return this.message(type, 0);
+    }
+
+    private firstMessage(namespace: protobuf.NamespaceBase): protobuf.Type | undefined {
+        for (const nested of namespace.nestedArray) {
+            if (nested instanceof protobuf.Type) {
+                return nested;
+            }
+            if (nested instanceof protobuf.Namespace) {
+                const found = this.firstMessage(nested);
+                if (found) {
+                    return found;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private message(type: protobuf.Type, depth: number): Record<string, any> {
+        // Only one member of each oneof may be set
+        const chosen = new Set(type.oneofsArray.map(oneof => this.random.pick(oneof.fieldsArray).name));
+
+        const result: Record<string, any> = {};
+        for (const field of type.fieldsArray) {
+            if (field.partOf && !chosen.has(field.name)) {
+                continue;
+            }
+            try {
+                field.resolve();
+            } catch {
+                // Types from unresolved imports (e.g. google/protobuf/*.proto) are left out
+                continue;
+            }
+
+            const value = this.field(field, depth);
+            if (value !== undefined) {
+                result[field.name] = value;
+            }
+        }
+        return result;
+    }
+
+    private field(field: protobuf.Field, depth: number): any {
+        if (field instanceof protobuf.MapField) {
+            const map: Record<string, any> = {};
+            const size = depth >= MAX_DEPTH ? 0 : this.random.int(1, 2);
+            for (let i = 0; i < size; i++) {
+                map[String(this.scalar(field.keyType) ?? this.random.word(5))] = this.value(field, depth);
+            }
+            return map;
+        }
+
+        if (field.repeated) {
+            const length = depth >= MAX_DEPTH ? 0 : this.random.int(1, 3);
+            return Array.from({ length }, () => this.value(field, depth)).filter(value => value !== undefined);
+        }
+
+        return this.value(field, depth);
+    }
+
+    private value(field: protobuf.Field, depth: number): any {
+        const resolved = field.resolvedType;
+        if (resolved instanceof protobuf.Enum) {
+            return this.random.pick(Object.values(resolved.values));
+        }
+        if (resolved instanceof protobuf.Type) {
+            return depth >= MAX_DEPTH ? undefined : this.message(resolved, depth + 1);
+        }
+        return this.scalar(field.type);
+    }
+
+    private scalar(type: string): any {
+        switch (type) {
+            case 'double':
+            case 'float':
+                return this.random.float(0, 1000);
+            case 'int32':
+            case 'sint32':
+            case 'sfixed32':
+            case 'uint32':
+            case 'fixed32':
+                return this.random.int(0, 1000);
+            case 'int64':
+            case 'sint64':
+            case 'sfixed64':
+            case 'uint64':
+            case 'fixed64':
+                return this.random.int(0, 1000000);
+            case 'bool':
+                return this.random.bool();
+            case 'string':
+                return `sample-${this.random.word(6)}`;
+            case 'bytes':
+                return Buffer.from(this.random.word(8)).toString('base64');
+            default:
+                return undefined;
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import * as avro from 'avsc';
+import Ajv from 'ajv';
+import * as protobuf from 'protobufjs';
+import { SchemaType } from '../services/SchemaRegistryService';
+
+/**
+ * Serializes payloads with one schema, without any wire format framing
+ */
+export interface SchemaSerde {
+    toBuffer(payload: any): Buffer;
+    fromBuffer(buffer: Buffer): any;
+}
+
+/**
+ * Build a serde for a schema definition, behaving like the Confluent client's serdes:
+ * Avro through avsc, JSON Schema validated with Ajv in both directions, and Protobuf with the first
+ * message in the file
+ * @throws Error when the definition cannot be parsed
+ */
+export function createSchemaSerde(schemaType: SchemaType, definition: string): SchemaSerde {
+    switch (schemaType) {
+        case 'AVRO':
+            return avro.Type.forSchema(JSON.parse(definition));
+        case 'JSON':
+            return createJsonSerde(definition);
+        case 'PROTOBUF':
+            return createProtobufSerde(definition);
+        default:
+            throw new Error(`Unsupported schema type: ${schemaType}`);
+    }
+}
+
+function createJsonSerde(definition: string): SchemaSerde {
+    const validate = new Ajv().compile(JSON.parse(definition));
+    const check = (payload: any) => {
+        if (!validate(payload)) {
+            const paths = (validate.errors ?? []).map(error => `${error.instancePath || '/'} ${error.message ?? ''}`.trim());
+            throw new Error(`Invalid payload: ${paths.join(', ')}`);
+        }
+        return payload;
+    };
+
+    return {
+        toBuffer: payload => Buffer.from(JSON.stringify(check(payload))),
+        fromBuffer: buffer => check(JSON.parse(buffer.toString()))
+    };
+}
+
+function createProtobufSerde(definition: string): SchemaSerde {
+    const type = firstMessage(protobuf.parse(definition).root);
+    if (!type) {
+        throw new Error('The Protobuf schema does not define any message');
+    }
+
+    return {
+        toBuffer: payload => {
+            const error = type.verify(payload);
+            if (error) {
+                throw new Error(`Invalid payload: ${error}`);
+            }
+            return Buffer.from(type.encode(type.create(payload)).finish());
+        },
+        fromBuffer: buffer => type.decode(buffer)
+    };
+}
+
+function firstMessage(namespace: protobuf.NamespaceBase): protobuf.Type | undefined {
+    for (const nested of namespace.nestedArray) {
+        if (nested instanceof protobuf.Type) {
+            return nested;
+        }
+        if (nested instanceof protobuf.Namespace) {
+            const found = firstMessage(nested);
+            if (found) {
+                return found;
+            }
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,70 @@
+import * as crypto from 'crypto';
+
+/**
+ * Values available to placeholders while expanding one message
+ */
+export interface InterpolationContext {
+    /** Sequence number of the message being produced, starting at 1 */
+    seq: number;
+    env?: Record<string, string | undefined>;
+    now?: () => Date;
+    random?: () => number;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)((?:\s+[^\s}]+)*)\s*\}\}/g;
+
+/**
+ * Placeholders understood by producer templates, for help text
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+    '{{uuid}}',
+    '{{now}}',
+    '{{timestamp}}',
+    '{{randomInt 1 100}}',
+    '{{seq}}',
+    '{{env.NAME}}'
+];
+
+/**
+ * Expand placeholders in text
+ * - {{uuid}}: random UUID
+ * - {{now}}: current time as ISO-8601, {{timestamp}}: current time in epoch milliseconds
+ * - {{randomInt min max}}: random integer, both bounds inclusive
+ * - {{seq}}: message sequence number
+ * - {{env.NAME}}: environment variable (empty when unset)
+ * Unknown placeholders are left untouched
+ */
+export function interpolateTemplate(text: string, context: InterpolationContext): string {
+    const now = context.now || (() => new Date());
+    const random = context.random || Math.random;
+    const env = context.env || process.env;
+
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder: string, name: string, rawArgs: string) => {
+        const args = rawArgs.trim() ? rawArgs.trim().split(/\s+/) : [];
+
+        if (name.startsWith('env.')) {
+            return env[name.substring(4)] ?? '';
+        }
+
+        switch (name) {
+            case 'uuid':
+                return crypto.randomUUID();
+            case 'now':
+                return now().toISOString();
+            case 'timestamp':
+                return String(now().getTime());
+            case 'seq':
+                return String(context.seq);
+            case 'randomInt': {
+                const min = parseInt(args[0] ?? '0', 10);
+                const max = parseInt(args[1] ?? '100', 10);
+                if (isNaN(min) || isNaN(max) || max < min) {
+                    throw new Error(`Invalid placeholder ${placeholder}: expected {{randomInt min max}}`);
+                }
+                return String(Math.floor(random() * (max - min + 1)) + min);
+            }
+            default:
+                return placeholder;
+        }
+    });
+}
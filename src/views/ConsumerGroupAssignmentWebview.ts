@@ -0,0 +1,548 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/Logger';
+import { KafkaClientManager } from '../kafka/kafkaClientManager';
+import { DecodedGroupMember } from '../kafka/consumerProtocol';
+import { RebalanceTracker } from '../services/RebalanceTracker';
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * A partition as shown in the assignment view
+ */
+export interface AssignedPartition {
+    topic: string;
+    partition: number;
+    /** null when the group has no committed offset for the partition */
+    lag: number | null;
+}
+
+/**
+ * Member → partitions ownership of a consumer group, with lag per partition
+ */
+export interface AssignmentView {
+    groupId: string;
+    state: string;
+    protocolType: string;
+    /** Partition assignor, e.g. range or cooperative-sticky */
+    assignor: string;
+    totalLag: number;
+    members: Array<Omit<DecodedGroupMember, 'assignment'> & { partitions: AssignedPartition[]; totalLag: number }>;
+    /** Partitions with committed offsets that no member owns */
+    unassigned: AssignedPartition[];
+}
+
+/**
+ * Join decoded member assignments with the committed offsets of getConsumerGroupDetails
+ */
+export function buildAssignmentView(details: any): AssignmentView {
+    const lagByPartition = new Map<string, number>();
+    for (const offset of details.offsets || []) {
+        lagByPartition.set(`${offset.topic}:${offset.partition}`, offset.lag);
+    }
+
+    const owned = new Set<string>();
+    const members = (details.members || []).map((member: DecodedGroupMember) => {
+        const partitions: AssignedPartition[] = [];
+        for (const { topic, partitions: assigned } of member.assignment || []) {
+            for (const partition of assigned) {
+                const key = `${topic}:${partition}`;
+                owned.add(key);
+                partitions.push({ topic, partition, lag: lagByPartition.get(key) ?? null });
+            }
+        }
+        return {
+            memberId: member.memberId,
+            clientId: member.clientId,
+            clientHost: member.clientHost,
+            subscribedTopics: member.subscribedTopics || [],
+            decodeError: member.decodeError,
+            partitions,
+            totalLag: partitions.reduce((sum, p) => sum + (p.lag ?? 0), 0)
+        };
+    });
+
+    const unassigned: AssignedPartition[] = (details.offsets || [])
+        .filter((offset: any) => !owned.has(`${offset.topic}:${offset.partition}`))
+        .map((offset: any) => ({ topic: offset.topic, partition: offset.partition, lag: offset.lag }));
+
+    return {
+        groupId: details.groupId,
+        state: details.state || 'Unknown',
+        protocolType: details.protocolType || 'N/A',
+        assignor: details.protocol || 'N/A',
+        totalLag: details.totalLag || 0,
+        members: members.sort((a: { clientId: string }, b: { clientId: string }) => a.clientId.localeCompare(b.clientId)),
+        unassigned
+    };
+}
+
+/**
+ * Live view of which member owns which partition, with a timeline of rebalances
+ * Polls the group every few seconds while open
+ */
+export class ConsumerGroupAssignmentWebview {
+    private static instance: ConsumerGroupAssignmentWebview | null = null;
+    private panel: vscode.WebviewPanel | null = null;
+    private logger = Logger.getLogger('ConsumerGroupAssignmentWebview');
+    private clientManager: KafkaClientManager | undefined;
+    private clusterName = '';
+    private groupId = '';
+    private tracker = new RebalanceTracker();
+    private pollTimer: NodeJS.Timeout | undefined;
+    private paused = false;
+
+    private constructor() {}
+
+    public static getInstance(): ConsumerGroupAssignmentWebview {
+        if (!ConsumerGroupAssignmentWebview.instance) {
+            ConsumerGroupAssignmentWebview.instance = new ConsumerGroupAssignmentWebview();
+        }
+        return ConsumerGroupAssignmentWebview.instance;
+    }
+
+    public async show(clientManager: KafkaClientManager, clusterName: string, groupId: string): Promise<void> {
+        this.logger.info(`Showing member assignments for ${clusterName}/${groupId}`);
+        this.stopPolling();
+        this.clientManager = clientManager;
+        this.clusterName = clusterName;
+        this.groupId = groupId;
+        this.tracker = new RebalanceTracker();
+        this.paused = false;
+
+        if (this.panel) {
+            this.panel.title = `🧩 Assignments: ${groupId}`;
+            this.panel.reveal(vscode.ViewColumn.One);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'kafkaConsumerGroupAssignments',
+                `🧩 Assignments: ${groupId}`,
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    retainContextWhenHidden: true
+                }
+            );
+
+            this.panel.onDidDispose(() => {
+                this.stopPolling();
+                this.panel = null;
+            });
+
+            this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message));
+        }
+
+        this.panel.webview.html = this.getHtmlContent(clusterName, groupId);
+        await this.poll();
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        switch (message.command) {
+            case 'refresh':
+                this.stopPolling();
+                await this.poll();
+                break;
+            case 'pause':
+                this.paused = true;
+                this.stopPolling();
+                break;
+            case 'resume':
+                this.paused = false;
+                await this.poll();
+                break;
+            default:
+                // SEC-3.7-3: Ignore unknown commands (whitelist approach)
+                this.logger.warn(`Unknown command received: ${message.command}`);
+        }
+    }
+
+    /**
+     * Load the group once and schedule the next poll
+     */
+    private async poll(): Promise<void> {
+        if (!this.clientManager || !this.panel) {
+            return;
+        }
+        const groupId = this.groupId;
+
+        try {
+            const details = await this.clientManager.getConsumerGroupDetails(this.clusterName, groupId);
+            if (groupId !== this.groupId) {
+                return; // Another group was opened while loading
+            }
+            this.tracker.observe({ state: details.state, members: details.members || [], timestamp: Date.now() });
+            this.panel?.webview.postMessage({
+                command: 'update',
+                view: buildAssignmentView(details),
+                events: this.tracker.getEvents(),
+                rebalances: this.tracker.getRebalanceCount(),
+                updatedAt: new Date().toISOString()
+            });
+        } catch (error: any) {
+            this.logger.error(`Failed to load assignments for consumer group: ${groupId}`, error);
+            this.panel?.webview.postMessage({ command: 'error', error: error?.message || 'Unknown error' });
+        }
+
+        if (this.panel && !this.paused && groupId === this.groupId) {
+            // A refresh during an in-flight poll must not leave two timers running
+            this.stopPolling();
+            this.pollTimer = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+        }
+    }
+
+    private stopPolling(): void {
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    private getHtmlContent(clusterName: string, groupId: string): string {
+        // SEC-3.7-1: Escape HTML to prevent XSS
+        const escapeHtml = (unsafe: string): string => {
+            return unsafe
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        };
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Assignments: ${escapeHtml(groupId)}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+
+        .header {
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+            margin-bottom: 20px;
+            padding-bottom: 15px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .title {
+            font-size: 20px;
+            font-weight: 600;
+        }
+
+        .stats {
+            margin-top: 6px;
+            font-size: 14px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .state {
+            padding: 2px 8px;
+            border-radius: 3px;
+            font-size: 12px;
+            font-weight: 600;
+        }
+
+        .state-Stable {
+            background-color: rgba(40, 167, 69, 0.2);
+            color: #28a745;
+        }
+
+        .state-PreparingRebalance,
+        .state-CompletingRebalance {
+            background-color: rgba(255, 165, 0, 0.2);
+            color: #ffa500;
+        }
+
+        .state-Empty,
+        .state-Dead,
+        .state-Unknown {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+
+        .actions {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+        }
+
+        .btn {
+            padding: 6px 14px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+
+        .search {
+            width: 100%;
+            box-sizing: border-box;
+            margin-bottom: 15px;
+            padding: 6px 10px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 3px;
+        }
+
+        .section-title {
+            font-size: 16px;
+            font-weight: 600;
+            margin: 20px 0 10px;
+        }
+
+        .member {
+            margin-bottom: 12px;
+            padding: 12px 15px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+        }
+
+        .member.hidden {
+            display: none;
+        }
+
+        .member-name {
+            font-weight: 600;
+        }
+
+        .member-meta {
+            margin-top: 4px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            font-family: 'Courier New', monospace;
+            word-break: break-all;
+        }
+
+        .chips {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+            margin-top: 10px;
+        }
+
+        .chip {
+            padding: 3px 8px;
+            border-radius: 3px;
+            font-size: 12px;
+            font-family: 'Courier New', monospace;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+
+        .chip.lagging {
+            background-color: rgba(255, 165, 0, 0.25);
+        }
+
+        .chip.match {
+            outline: 2px solid var(--vscode-focusBorder);
+        }
+
+        .warning {
+            margin-top: 6px;
+            color: var(--vscode-editorWarning-foreground);
+            font-size: 12px;
+        }
+
+        .timeline {
+            list-style: none;
+            padding: 0;
+            margin: 0;
+        }
+
+        .timeline li {
+            padding: 6px 0;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            font-size: 13px;
+        }
+
+        .timeline .time {
+            display: inline-block;
+            width: 90px;
+            color: var(--vscode-descriptionForeground);
+            font-family: 'Courier New', monospace;
+        }
+
+        .empty-state {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+        }
+
+        .alert {
+            margin-bottom: 15px;
+            padding: 10px 15px;
+            border-radius: 3px;
+            display: none;
+            background-color: rgba(220, 53, 69, 0.2);
+            color: #dc3545;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <div class="title">🧩 Member Assignments: ${escapeHtml(groupId)}</div>
+            <div class="stats">Cluster ${escapeHtml(clusterName)} · <span id="summary">Loading...</span></div>
+        </div>
+        <div class="actions">
+            <span class="stats" id="updated"></span>
+            <button class="btn" id="pauseBtn" onclick="togglePolling()">⏸️ Pause</button>
+            <button class="btn" onclick="refresh()">🔄 Refresh</button>
+        </div>
+    </div>
+
+    <div id="alert" class="alert"></div>
+
+    <input type="text" class="search" id="search" placeholder="Find the owner of a partition, e.g. orders or orders-3" oninput="render()">
+
+    <div class="section-title">👤 Members</div>
+    <div id="members"><div class="empty-state">Loading...</div></div>
+
+    <div id="unassignedSection" style="display: none;">
+        <div class="section-title">⚠️ Unassigned Partitions</div>
+        <div class="chips" id="unassigned"></div>
+    </div>
+
+    <div class="section-title">🕒 State Timeline <span class="stats" id="rebalances"></span></div>
+    <ul class="timeline" id="timeline"></ul>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let view = null;
+        let events = [];
+        let paused = false;
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.command) {
+                case 'update':
+                    view = message.view;
+                    events = message.events;
+                    document.getElementById('alert').style.display = 'none';
+                    document.getElementById('updated').textContent = 'Updated ' + new Date(message.updatedAt).toLocaleTimeString();
+                    document.getElementById('rebalances').textContent = message.rebalances + ' rebalance(s) seen';
+                    render();
+                    break;
+                case 'error':
+                    showError(message.error);
+                    break;
+            }
+        });
+
+        function escapeHtml(unsafe) {
+            return String(unsafe)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        }
+
+        function matchesSearch(partition, query) {
+            if (!query) {
+                return false;
+            }
+            const name = partition.topic + '-' + partition.partition;
+            return name === query || partition.topic === query;
+        }
+
+        function renderChip(partition, query) {
+            const lag = partition.lag === null ? 'no commit' : 'lag ' + partition.lag.toLocaleString();
+            const classes = ['chip'];
+            if (partition.lag > 0) {
+                classes.push('lagging');
+            }
+            if (matchesSearch(partition, query)) {
+                classes.push('match');
+            }
+            return \`<span class="\${classes.join(' ')}" title="\${escapeHtml(lag)}">\${escapeHtml(partition.topic)}-\${partition.partition} · \${escapeHtml(lag)}</span>\`;
+        }
+
+        function render() {
+            if (!view) {
+                return;
+            }
+            const query = document.getElementById('search').value.trim();
+
+            document.getElementById('summary').innerHTML = \`
+                <span class="state state-\${escapeHtml(view.state)}">\${escapeHtml(view.state)}</span>
+                · \${view.members.length} member(s) · assignor \${escapeHtml(view.assignor)}
+                · protocol \${escapeHtml(view.protocolType)} · total lag \${view.totalLag.toLocaleString()}
+            \`;
+
+            document.getElementById('members').innerHTML = view.members.length === 0
+                ? '<div class="empty-state">No active members</div>'
+                : view.members.map(member => {
+                    const hidden = query && !member.partitions.some(p => matchesSearch(p, query));
+                    return \`
+                        <div class="member \${hidden ? 'hidden' : ''}">
+                            <div class="member-name">\${escapeHtml(member.clientId)} @ \${escapeHtml(member.clientHost)}</div>
+                            <div class="member-meta">\${escapeHtml(member.memberId)}</div>
+                            <div class="member-meta">
+                                \${member.partitions.length} partition(s) · lag \${member.totalLag.toLocaleString()}
+                                \${member.subscribedTopics.length ? ' · subscribed to ' + member.subscribedTopics.map(escapeHtml).join(', ') : ''}
+                            </div>
+                            \${member.decodeError ? \`<div class="warning">⚠️ \${escapeHtml(member.decodeError)}</div>\` : ''}
+                            <div class="chips">\${member.partitions.map(p => renderChip(p, query)).join('')}</div>
+                        </div>
+                    \`;
+                }).join('');
+
+            document.getElementById('unassignedSection').style.display = view.unassigned.length ? 'block' : 'none';
+            document.getElementById('unassigned').innerHTML = view.unassigned.map(p => renderChip(p, query)).join('');
+
+            document.getElementById('timeline').innerHTML = events.length === 0
+                ? '<li class="empty-state">No observations yet</li>'
+                : events.slice().reverse().map(e => {
+                    const transition = e.previousState && e.previousState !== e.state
+                        ? \`\${escapeHtml(e.previousState)} → <span class="state state-\${escapeHtml(e.state)}">\${escapeHtml(e.state)}</span>\`
+                        : \`<span class="state state-\${escapeHtml(e.state)}">\${escapeHtml(e.state)}</span>\`;
+                    const changes = [
+                        e.joined.length ? 'joined: ' + e.joined.map(escapeHtml).join(', ') : '',
+                        e.left.length ? 'left: ' + e.left.map(escapeHtml).join(', ') : ''
+                    ].filter(Boolean).join(' · ');
+                    return \`
+                        <li>
+                            <span class="time">\${new Date(e.timestamp).toLocaleTimeString()}</span>
+                            \${transition} · \${e.memberCount} member(s)\${changes ? ' · ' + changes : ''}
+                        </li>
+                    \`;
+                }).join('');
+        }
+
+        function togglePolling() {
+            paused = !paused;
+            document.getElementById('pauseBtn').textContent = paused ? '▶️ Resume' : '⏸️ Pause';
+            vscode.postMessage({ command: paused ? 'pause' : 'resume' });
+        }
+
+        function refresh() {
+            vscode.postMessage({ command: 'refresh' });
+        }
+
+        function showError(message) {
+            const alert = document.getElementById('alert');
+            alert.textContent = message;
+            alert.style.display = 'block';
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        if (ConsumerGroupAssignmentWebview.instance?.panel) {
+            ConsumerGroupAssignmentWebview.instance.panel.dispose();
+        }
+        ConsumerGroupAssignmentWebview.instance = null;
+    }
+}
@@ -1,11 +1,23 @@
 import * as vscode from 'vscode';
 import { Logger } from '../infrastructure/Logger';
+import { LagHistoryStore, analyzeLagTrend, summarizeGroupHistory } from '../services/LagHistoryStore';
+import { describeLagTrend, renderLagSparkline } from './lagHistoryCharts';
 
 interface ConsumerGroupInfo {
     groupId: string;
     state: string;
 }
 
+/**
+ * Recorded lag trend of a group, rendered in the list
+ */
+interface GroupLagTrendCell {
+    status: string;
+    description: string;
+    /** SVG markup built from numbers only */
+    sparkline: string;
+}
+
 /**
  * Webview for displaying large lists of consumer groups with pagination
  * Used when consumer group count exceeds kafka.explorer.largeListThreshold
@@ -27,9 +39,11 @@ export class ConsumerGroupsWebview {
 
     /**
      * Show consumer groups in a paginated webview
+     * @param lagHistory When given, groups with recorded lag history show a trend sparkline
      */
-    public async show(clusterName: string, groups: ConsumerGroupInfo[]): Promise<void> {
+    public async show(clusterName: string, groups: ConsumerGroupInfo[], lagHistory?: LagHistoryStore): Promise<void> {
         this.logger.info(`Showing ${groups.length} consumer groups for cluster: ${clusterName}`);
+        const trends = lagHistory ? await this.getLagTrends(clusterName, lagHistory) : new Map<string, GroupLagTrendCell>();
 
         if (this.panel) {
             this.panel.reveal(vscode.ViewColumn.One);
@@ -54,7 +68,25 @@ export class ConsumerGroupsWebview {
             );
         }
 
-        this.panel.webview.html = this.getHtmlContent(clusterName, groups);
+        this.panel.webview.html = this.getHtmlContent(clusterName, groups, trends);
+    }
+
+    private async getLagTrends(clusterName: string, lagHistory: LagHistoryStore): Promise<Map<string, GroupLagTrendCell>> {
+        const trends = new Map<string, GroupLagTrendCell>();
+        try {
+            for (const [groupId, partitions] of await lagHistory.getClusterHistory(clusterName)) {
+                const points = summarizeGroupHistory(partitions);
+                const trend = analyzeLagTrend(points);
+                trends.set(groupId, {
+                    status: trend.status,
+                    description: describeLagTrend(trend),
+                    sparkline: renderLagSparkline(points)
+                });
+            }
+        } catch (error: any) {
+            this.logger.warn(`Could not load lag history for cluster ${clusterName}: ${error?.message}`);
+        }
+        return trends;
     }
 
     private handleMessage(message: any, clusterName: string, _groups: ConsumerGroupInfo[]): void {
@@ -72,7 +104,7 @@ export class ConsumerGroupsWebview {
         }
     }
 
-    private getHtmlContent(clusterName: string, groups: ConsumerGroupInfo[]): string {
+    private getHtmlContent(clusterName: string, groups: ConsumerGroupInfo[], trends: Map<string, GroupLagTrendCell>): string {
         // SEC-3.7-1: Escape HTML to prevent XSS
         const escapeHtml = (unsafe: string): string => {
             return unsafe
@@ -214,6 +246,30 @@ export class ConsumerGroupsWebview {
             gap: 8px;
         }
 
+        .lag-trend {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-size: 12px;
+        }
+
+        .trend-stuck {
+            color: #f44336;
+        }
+
+        .trend-falling-behind {
+            color: #ff9800;
+        }
+
+        .trend-catching-up,
+        .trend-caught-up {
+            color: #4caf50;
+        }
+
+        .trend-none {
+            color: var(--vscode-descriptionForeground);
+        }
+
         .btn {
             padding: 4px 12px;
             background-color: var(--vscode-button-background);
@@ -296,6 +352,7 @@ export class ConsumerGroupsWebview {
                 <th style="width: 50px;">#</th>
                 <th>Group ID</th>
                 <th style="width: 150px;">State</th>
+                <th style="width: 300px;">Lag Trend</th>
                 <th style="width: 120px;">Actions</th>
             </tr>
         </thead>
@@ -318,7 +375,7 @@ export class ConsumerGroupsWebview {
         const vscode = acquireVsCodeApi();
         
         // SEC-3.7-2: Escape HTML in JavaScript context
-        const allGroups = ${JSON.stringify(groups.map(g => ({ groupId: g.groupId, state: g.state })))};
+        const allGroups = ${JSON.stringify(groups.map(g => ({ groupId: g.groupId, state: g.state, trend: trends.get(g.groupId) || null })))};
         let filteredGroups = [...allGroups];
         let currentPage = 1;
         const pageSize = ${this.PAGE_SIZE};
@@ -347,6 +404,19 @@ export class ConsumerGroupsWebview {
             return 'state-unknown';
         }
 
+        function renderLagTrend(trend) {
+            if (!trend) {
+                return '<span class="trend-none">No history</span>';
+            }
+            // Sparkline markup is generated by the extension from numbers only
+            return \`
+                <div class="lag-trend">
+                    \${trend.sparkline}
+                    <span class="trend-\${escapeHtml(trend.status)}">\${escapeHtml(trend.description)}</span>
+                </div>
+            \`;
+        }
+
         function getStateLabel(state) {
             const lowerState = state.toLowerCase();
             if (lowerState === 'stable') {
@@ -368,7 +438,7 @@ export class ConsumerGroupsWebview {
             if (pageGroups.length === 0) {
                 tbody.innerHTML = \`
                     <tr>
-                        <td colspan="4">
+                        <td colspan="5">
                             <div class="empty-state">
                                 <div class="empty-state-icon">🔍</div>
                                 <div>No consumer groups found matching your search</div>
@@ -397,6 +467,7 @@ export class ConsumerGroupsWebview {
                         <td>
                             <span class="state-badge \${stateClass}">\${stateLabel}</span>
                         </td>
+                        <td>\${renderLagTrend(group.trend)}</td>
                         <td>
                             <div class="actions">
                                 <button class="btn" onclick="viewConsumerGroup('\${escapedGroupId}')">
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { EventBus, KafkaEvents } from '../infrastructure/EventBus';
+import { LagMonitor } from '../services/LagMonitor';
+
+/**
+ * Status bar item summarizing the consumer groups that are lagging or stuck
+ * Hidden while no group alerts; clicking it lists the groups
+ */
+export class LagAlertStatusBar implements vscode.Disposable {
+    private readonly item: vscode.StatusBarItem;
+    private readonly unsubscribe: () => void;
+
+    constructor(private readonly lagMonitor: LagMonitor, eventBus: EventBus) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+        this.item.command = 'kafka.showLagAlerts';
+        this.unsubscribe = eventBus.on(KafkaEvents.LAG_ALERT_STATE_CHANGED, () => this.update());
+        this.update();
+    }
+
+    update(): void {
+        const states = this.lagMonitor.getAlertStates();
+        if (states.length === 0) {
+            this.item.hide();
+            return;
+        }
+
+        const critical = states.filter(s => s.severity === 'critical').length;
+        const warning = states.filter(s => s.severity === 'warning').length;
+        const stuck = states.filter(s => s.stuckPartitions.length > 0).length;
+
+        const parts = [
+            critical > 0 ? `${critical} critical` : '',
+            warning > 0 ? `${warning} warning` : '',
+            stuck > 0 ? `${stuck} stuck` : ''
+        ].filter(Boolean);
+
+        this.item.text = `$(pulse) Lag: ${parts.join(', ')}`;
+        this.item.tooltip = `Consumer groups over lag thresholds or without commits:\n${states
+            .slice(0, 10)
+            .map(s => `${s.clusterName} / ${s.groupId}: ${s.totalLag.toLocaleString()} behind${s.stuckPartitions.length ? ' (stuck)' : ''}`)
+            .join('\n')}${states.length > 10 ? `\n... and ${states.length - 10} more` : ''}`;
+        this.item.backgroundColor = critical > 0 || stuck > 0
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : new vscode.ThemeColor('statusBarItem.warningBackground');
+        this.item.show();
+    }
+
+    dispose(): void {
+        this.unsubscribe();
+        this.item.dispose();
+    }
+}
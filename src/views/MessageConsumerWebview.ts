@@ -1,7 +1,20 @@
 import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
 import { KafkaClientManager } from '../kafka/kafkaClientManager';
+import { AssignedPartitionReader } from '../kafka/assignedPartitionReader';
+import { ConsumeRange, PartitionRange, parseConsumeRange } from '../kafka/consumeRange';
+import { CompressionName, getBatchCompression } from '../kafka/compressionCodecs';
 import { Logger } from '../infrastructure/Logger';
 import { EventBus, KafkaEvents } from '../infrastructure/EventBus';
+import { CredentialManager } from '../infrastructure/CredentialManager';
+import { SchemaReferenceInfo } from '../services/SchemaRegistryService';
+import { SchemaRegistryClient, createSchemaRegistryClient } from '../services/SchemaRegistryClient';
+import { MESSAGE_SPOOL_FOLDER, MessageStore, StoredMessage } from '../services/MessageStore';
+import { FILTER_EXPRESSION_HELP, FilterScan, MessageFilter, ScanBudget, compileMessageFilter } from '../utils/messageFilter';
+import { DEFAULT_KCAT_FORMAT, EXPORT_FORMATS, ExportOptions, createMessageExporter, discoverJsonColumns, writeMessageExport } from '../utils/messageExport';
+import { KafkaFileSystemProvider } from '../providers/kafkaFileSystemProvider';
+import { DeserializerId, deserialize, getDeserializer, getDeserializers, isDeserializerId } from '../utils/messageDeserializers';
 
 interface ConsumedMessage {
     topic: string;
@@ -11,6 +24,84 @@ interface ConsumedMessage {
     value: string;
     timestamp: string;
     headers?: Record<string, string>;
+    /** Codec of the batch the message arrived in */
+    compression: CompressionName;
+    keySchema?: SchemaReferenceInfo;
+    valueSchema?: SchemaReferenceInfo;
+    keyDecodeError?: string;
+    valueDecodeError?: string;
+}
+
+interface DecodedField {
+    text: string;
+    schema?: SchemaReferenceInfo;
+    error?: string;
+}
+
+/**
+ * 'auto' decodes Schema Registry framed payloads and falls back to UTF-8 text
+ */
+type FieldDeserializer = DeserializerId | 'auto';
+
+interface DeserializerSelection {
+    key: FieldDeserializer;
+    value: FieldDeserializer;
+    headers: DeserializerId;
+}
+
+const DEFAULT_DESERIALIZERS: DeserializerSelection = {
+    key: 'auto',
+    value: 'auto',
+    headers: 'string'
+};
+
+function isFieldDeserializer(id: unknown): id is FieldDeserializer {
+    return id === 'auto' || isDeserializerId(id);
+}
+
+/**
+ * Position of the first value not below the target in an ascending array
+ */
+function lowerBound(values: number[], target: number): number {
+    let low = 0;
+    let high = values.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (values[middle] < target) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+/**
+ * Bytes of key, value and headers, counted against a filter's scan budget
+ */
+function getMessageSize(raw: StoredMessage): number {
+    let size = (raw.key?.length ?? 0) + (raw.value?.length ?? 0);
+    for (const [name, value] of Object.entries(raw.headers ?? {})) {
+        size += name.length + (Buffer.isBuffer(value) ? value.length : String(value ?? '').length);
+    }
+    return size;
+}
+
+/**
+ * How far a bounded session has read one partition
+ */
+interface PartitionProgress extends PartitionRange {
+    position: string;
+}
+
+/**
+ * Key/value regex and minimum offset from the search bar, matched against the stored messages
+ */
+interface MessageSearch {
+    pattern?: RegExp;
+    minOffset?: number;
+    /** Store indexes of matching messages, ascending */
+    matches: number[];
 }
 
 interface ConsumerState {
@@ -27,7 +118,23 @@ export class MessageConsumerWebview {
     private readonly clientManager: KafkaClientManager;
     private readonly logger: Logger;
     private eventBus?: EventBus;
-    private messages: ConsumedMessage[] = [];
+    private credentialManager?: CredentialManager;
+    private schemaService: SchemaRegistryClient | undefined;
+    private workspaceState?: vscode.Memento;
+    private storageUri?: vscode.Uri;
+    private deserializers: DeserializerSelection = { ...DEFAULT_DESERIALIZERS };
+    /** Every message of the session, spooled to disk; the webview requests the rows it shows */
+    private store: MessageStore | null = null;
+    private search: MessageSearch | null = null;
+    private searchInput = { searchKey: '', minOffset: '' };
+    private searchGeneration = 0;
+    /** Rows added to the current view since the webview was last told */
+    private pendingRows = 0;
+    /** Rows ever added to the view; lets the webview line up pages with the rows it knows about */
+    private viewVersion = 0;
+    private updateTimer: NodeJS.Timeout | undefined;
+    private static readonly UPDATE_INTERVAL_MS = 250;
+    private static readonly ROW_HEIGHT = 44;
     private consumerState: ConsumerState = {
         isRunning: false,
         isPaused: false,
@@ -35,31 +142,53 @@ export class MessageConsumerWebview {
         startTime: null,
         lastMessageTime: null
     };
-    private readonly MAX_MESSAGES = 1000; // Prevent memory issues
+    private static readonly DESERIALIZERS_STATE_KEY = 'kafka.consumer.deserializers';
     private consumerHandle: any = null;
+    /** Set while reading by partition assignment instead of through a consumer group */
+    private assignedReader: AssignedPartitionReader | null = null;
+    /** Partitions of the current bounded session; empty for unbounded sessions */
+    private rangeProgress: PartitionProgress[] = [];
+    /** Filter applied to every message before it is buffered */
+    private filter: MessageFilter | null = null;
+    private filterBudget: ScanBudget = {};
+    private filterScan: FilterScan | null = null;
+    private lastScanUpdate = 0;
+    private static readonly SCAN_UPDATE_INTERVAL_MS = 250;
     private clusterName: string = '';
     private topicName: string = '';
 
     private constructor(
         clientManager: KafkaClientManager,
         logger: Logger,
-        eventBus?: EventBus
+        eventBus?: EventBus,
+        credentialManager?: CredentialManager,
+        workspaceState?: vscode.Memento,
+        storageUri?: vscode.Uri
     ) {
         this.clientManager = clientManager;
         this.logger = logger;
         this.eventBus = eventBus;
+        this.credentialManager = credentialManager;
+        this.workspaceState = workspaceState;
+        this.storageUri = storageUri;
     }
 
     public static getInstance(
         clientManager: KafkaClientManager,
         logger: Logger,
-        eventBus?: EventBus
+        eventBus?: EventBus,
+        credentialManager?: CredentialManager,
+        workspaceState?: vscode.Memento,
+        storageUri?: vscode.Uri
     ): MessageConsumerWebview {
         if (!MessageConsumerWebview.instance) {
             MessageConsumerWebview.instance = new MessageConsumerWebview(
                 clientManager,
                 logger,
-                eventBus
+                eventBus,
+                credentialManager,
+                workspaceState,
+                storageUri
             );
         }
         return MessageConsumerWebview.instance;
@@ -75,7 +204,13 @@ export class MessageConsumerWebview {
         }
 
         // Reset state
-        this.messages = [];
+        await this.openStore();
+        this.search = null;
+        this.searchInput = { searchKey: '', minOffset: '' };
+        this.pendingRows = 0;
+        this.filter = null;
+        this.filterScan = null;
+        this.deserializers = this.loadDeserializers();
         this.consumerState = {
             isRunning: false,
             isPaused: false,
@@ -84,6 +219,15 @@ export class MessageConsumerWebview {
             lastMessageTime: null
         };
 
+        // Decode Confluent- or Glue-framed payloads when the cluster has a Schema Registry
+        this.schemaService = this.credentialManager
+            ? createSchemaRegistryClient(
+                this.clientManager.getClusterConfig(clusterName),
+                this.credentialManager,
+                this.eventBus
+            )
+            : undefined;
+
         if (this.panel) {
             this.panel.reveal(vscode.ViewColumn.One);
         } else {
@@ -98,9 +242,13 @@ export class MessageConsumerWebview {
                 }
             );
 
-            this.panel.onDidDispose(() => {
-                this.stopConsumer();
+            this.panel.onDidDispose(async () => {
                 this.panel = undefined;
+                await this.stopConsumer();
+                clearTimeout(this.updateTimer);
+                this.updateTimer = undefined;
+                await this.store?.dispose();
+                this.store = null;
             });
 
             this.panel.webview.onDidReceiveMessage(async (message) => {
@@ -119,6 +267,9 @@ export class MessageConsumerWebview {
             case 'start':
                 await this.startConsumer(message.fromBeginning);
                 break;
+            case 'startRange':
+                await this.startRange(message.range);
+                break;
             case 'stop':
                 await this.stopConsumer();
                 break;
@@ -129,11 +280,26 @@ export class MessageConsumerWebview {
                 await this.resumeConsumer();
                 break;
             case 'clear':
-                this.clearMessages();
+                await this.clearMessages();
+                break;
+            case 'getPage':
+                await this.sendPage(message.start, message.count, message.requestId, message.version);
+                break;
+            case 'search':
+                await this.runSearch(message.searchKey, message.minOffset);
+                break;
+            case 'setDeserializer':
+                await this.setDeserializer(message.field, message.deserializer);
                 break;
             case 'export':
                 await this.exportMessages();
                 break;
+            case 'openDocument':
+                await this.openMessageDocument(message.partition, message.offset);
+                break;
+            case 'setFilter':
+                this.setFilter(message.expression, message.budget);
+                break;
             case 'seekToOffset':
                 await this.seekToOffset(message.partition, message.offset);
                 break;
@@ -155,7 +321,21 @@ export class MessageConsumerWebview {
         }
     }
 
-    private async startConsumer(fromBeginning: boolean = false) {
+    /**
+     * Start a session bounded by start and end positions over a subset of partitions
+     */
+    private async startRange(rawRange: unknown) {
+        let range: ConsumeRange;
+        try {
+            range = parseConsumeRange(rawRange);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Invalid range: ${error.message}`);
+            return;
+        }
+        await this.startConsumer(false, range);
+    }
+
+    private async startConsumer(fromBeginning: boolean = false, range?: ConsumeRange) {
         if (this.consumerState.isRunning) {
             this.logger.info('Consumer already running');
             return;
@@ -168,44 +348,211 @@ export class MessageConsumerWebview {
             this.consumerState.isPaused = false;
             this.consumerState.startTime = Date.now();
             this.updateStatus();
+            this.resetFilterScan();
 
-            // Start consuming messages
-            const consumer = await this.clientManager.getConsumer(this.clusterName);
-
-            await consumer.subscribe({
-                topics: [this.topicName],
-                fromBeginning
-            });
+            const eachMessage = async ({ topic, partition, message }: { topic: string; partition: number; message: any }) => {
+                if (this.consumerState.isPaused) {
+                    return;
+                }
 
-            this.consumerHandle = consumer.run({
-                eachMessage: async ({ topic, partition, message }) => {
-                    if (this.consumerState.isPaused) {
+                const raw: StoredMessage = {
+                    topic,
+                    partition,
+                    offset: message.offset,
+                    timestamp: message.timestamp,
+                    key: message.key,
+                    value: message.value,
+                    headers: message.headers,
+                    compression: getBatchCompression(message)
+                };
+
+                let consumedMessage: ConsumedMessage | undefined;
+                const filter = this.filter;
+                const scan = this.filterScan;
+                if (filter && scan) {
+                    if (scan.isExhausted()) {
                         return;
                     }
-
-                    const consumedMessage: ConsumedMessage = {
-                        topic,
+                    // Decode only what the expression needs; messages that do not match are never stored
+                    consumedMessage = filter.usesPayload ? await this.buildMessage(raw) : undefined;
+                    const matched = filter.matches(consumedMessage ?? {
                         partition,
                         offset: message.offset,
-                        key: message.key ? message.key.toString() : null,
-                        value: message.value ? message.value.toString() : '',
                         timestamp: message.timestamp,
-                        headers: message.headers ? this.parseHeaders(message.headers) : undefined
-                    };
-
-                    this.addMessage(consumedMessage);
+                        key: null,
+                        value: ''
+                    });
+                    const canContinue = scan.record(getMessageSize(raw), matched);
+                    this.postScanProgress(!canContinue);
+                    if (!canContinue) {
+                        // Not awaited: stopping waits for this handler to return
+                        void this.stopForScanBudget(scan);
+                    }
+                    if (!matched) {
+                        return;
+                    }
                 }
-            });
+
+                await this.addMessage(raw, consumedMessage);
+            };
+
+            // Bounded sessions always read by assignment; reading a range needs no group
+            if (range || this.clientManager.getConsumerReadMode() === 'assign') {
+                const ranges = range
+                    ? await this.clientManager.resolveConsumeRange(this.clusterName, this.topicName, range)
+                    : undefined;
+                this.setRangeProgress(ranges ?? []);
+
+                // Read without joining a consumer group
+                const reader = this.clientManager.createAssignedReader(this.clusterName, this.topicName);
+                this.assignedReader = reader;
+                this.consumerHandle = reader;
+                await reader.run({
+                    fromBeginning,
+                    ranges,
+                    eachMessage,
+                    onProgress: (partition, position) => this.updateRangeProgress(partition, position),
+                    onEnd: () => this.finishRange(reader),
+                    onError: error => {
+                        if (this.assignedReader !== reader) {
+                            return;
+                        }
+                        this.assignedReader = null;
+                        this.consumerHandle = null;
+                        this.consumerState.isRunning = false;
+                        this.updateStatus();
+                        vscode.window.showErrorMessage(`Consumer stopped: ${error.message}`);
+                    }
+                });
+            } else {
+                this.setRangeProgress([]);
+
+                // Start consuming messages
+                const consumer = await this.clientManager.getConsumer(this.clusterName);
+
+                await consumer.subscribe({
+                    topics: [this.topicName],
+                    fromBeginning
+                });
+
+                this.consumerHandle = consumer.run({ eachMessage });
+            }
 
             this.logger.info('Consumer started successfully');
         } catch (error: any) {
             this.logger.error('Failed to start consumer', error);
+            await this.assignedReader?.disconnect().catch(() => undefined);
+            this.assignedReader = null;
+            this.consumerHandle = null;
             this.consumerState.isRunning = false;
             this.updateStatus();
             vscode.window.showErrorMessage(`Failed to start consumer: ${error.message}`);
         }
     }
 
+    /**
+     * Apply a filter expression to messages read from now on; an empty expression removes the filter
+     */
+    private setFilter(expression: string, budget: { maxMessages?: unknown; maxMegabytes?: unknown; maxSeconds?: unknown } = {}) {
+        const text = String(expression ?? '').trim();
+        if (!text) {
+            this.filter = null;
+            this.filterScan = null;
+            this.postScanProgress(true);
+            return;
+        }
+
+        try {
+            this.filter = compileMessageFilter(text);
+        } catch (error: any) {
+            this.panel?.webview.postMessage({ command: 'filterError', error: error.message });
+            return;
+        }
+
+        const limit = (value: unknown, scale: number) => {
+            const number = Number(value);
+            return Number.isFinite(number) && number > 0 ? number * scale : undefined;
+        };
+        this.filterBudget = {
+            maxMessages: limit(budget.maxMessages, 1),
+            maxBytes: limit(budget.maxMegabytes, 1024 * 1024),
+            maxDurationMs: limit(budget.maxSeconds, 1000)
+        };
+        this.logger.info(`Filtering ${this.topicName} with "${text}"`);
+        this.resetFilterScan();
+    }
+
+    /**
+     * Start counting the scan budget again, at the start of a session or when the filter changes
+     */
+    private resetFilterScan() {
+        this.filterScan = this.filter ? new FilterScan(this.filterBudget) : null;
+        this.postScanProgress(true);
+    }
+
+    private postScanProgress(force: boolean) {
+        const now = Date.now();
+        if (!force && now - this.lastScanUpdate < MessageConsumerWebview.SCAN_UPDATE_INTERVAL_MS) {
+            return;
+        }
+        this.lastScanUpdate = now;
+        this.panel?.webview.postMessage({
+            command: 'scanProgress',
+            expression: this.filter?.expression,
+            progress: this.filterScan?.getProgress()
+        });
+    }
+
+    private async stopForScanBudget(scan: FilterScan) {
+        const { scanned, matched, exhausted } = scan.getProgress();
+        await this.stopConsumer();
+        vscode.window.showInformationMessage(
+            `Filter scan stopped after it ${exhausted}: ${matched.toLocaleString()} of ${scanned.toLocaleString()} messages matched.`
+        );
+    }
+
+    private setRangeProgress(ranges: PartitionRange[]) {
+        this.rangeProgress = ranges.map(range => ({ ...range, position: range.startOffset }));
+        this.postRangeProgress();
+    }
+
+    private updateRangeProgress(partition: number, position: string) {
+        const progress = this.rangeProgress.find(p => p.partition === partition);
+        if (progress) {
+            progress.position = position;
+            this.postRangeProgress();
+        }
+    }
+
+    private postRangeProgress() {
+        this.panel?.webview.postMessage({
+            command: 'rangeProgress',
+            partitions: this.rangeProgress
+        });
+    }
+
+    /**
+     * Every partition of a bounded session reached its end
+     */
+    private finishRange(reader: AssignedPartitionReader) {
+        if (this.assignedReader !== reader) {
+            return;
+        }
+        this.postScanProgress(true);
+        this.assignedReader = null;
+        this.consumerHandle = null;
+        this.consumerState.isRunning = false;
+        this.consumerState.isPaused = false;
+        this.updateStatus();
+        reader.disconnect().catch(error => this.logger.error('Error disconnecting reader', error));
+
+        const partitions = this.rangeProgress.map(p => p.partition);
+        this.logger.info(`Finished reading ${this.topicName} partitions ${partitions.join(', ')}`);
+        vscode.window.showInformationMessage(
+            `Finished reading ${this.topicName}: ${this.consumerState.messageCount.toLocaleString()} messages from partition(s) ${partitions.join(', ')}.`
+        );
+    }
+
     private async stopConsumer() {
         if (!this.consumerState.isRunning) {
             return;
@@ -214,7 +561,12 @@ export class MessageConsumerWebview {
         try {
             this.logger.info('Stopping consumer');
 
-            if (this.consumerHandle) {
+            if (this.assignedReader) {
+                const reader = this.assignedReader;
+                this.assignedReader = null;
+                this.consumerHandle = null;
+                await reader.disconnect();
+            } else if (this.consumerHandle) {
                 const consumer = await this.clientManager.getConsumer(this.clusterName);
                 await consumer.disconnect();
                 this.consumerHandle = null;
@@ -236,8 +588,12 @@ export class MessageConsumerWebview {
         }
 
         try {
-            const consumer = await this.clientManager.getConsumer(this.clusterName);
-            await consumer.pause([{ topic: this.topicName }]);
+            if (this.assignedReader) {
+                this.assignedReader.pause();
+            } else {
+                const consumer = await this.clientManager.getConsumer(this.clusterName);
+                await consumer.pause([{ topic: this.topicName }]);
+            }
 
             this.consumerState.isPaused = true;
             this.updateStatus();
@@ -253,8 +609,12 @@ export class MessageConsumerWebview {
         }
 
         try {
-            const consumer = await this.clientManager.getConsumer(this.clusterName);
-            await consumer.resume([{ topic: this.topicName }]);
+            if (this.assignedReader) {
+                this.assignedReader.resume();
+            } else {
+                const consumer = await this.clientManager.getConsumer(this.clusterName);
+                await consumer.resume([{ topic: this.topicName }]);
+            }
 
             this.consumerState.isPaused = false;
             this.updateStatus();
@@ -264,35 +624,188 @@ export class MessageConsumerWebview {
         }
     }
 
-    private addMessage(message: ConsumedMessage) {
-        // Add to beginning (newest first)
-        this.messages.unshift(message);
+    /**
+     * Store a message and tell the webview about it with the next batched update
+     * @param decoded The message already decoded for a filter, to avoid decoding it twice for a search
+     */
+    private async addMessage(message: StoredMessage, decoded?: ConsumedMessage) {
+        const store = this.store;
+        if (!store) {
+            return;
+        }
 
-        // Limit message buffer
-        if (this.messages.length > this.MAX_MESSAGES) {
-            this.messages = this.messages.slice(0, this.MAX_MESSAGES);
+        const index = store.append(message);
+        const search = this.search;
+        if (!search) {
+            this.pendingRows++;
+            this.viewVersion++;
+        } else if (this.matchesSearch(decoded ?? await this.buildMessage(message), search)) {
+            search.matches.push(index);
+            this.pendingRows++;
+            this.viewVersion++;
         }
 
         this.consumerState.messageCount++;
         this.consumerState.lastMessageTime = Date.now();
+        this.scheduleUpdate();
+    }
 
-        // Update webview
-        this.sendMessageUpdate(message);
-        this.updateStatus();
+    private scheduleUpdate() {
+        if (this.updateTimer) {
+            return;
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.store?.flush();
+            this.panel?.webview.postMessage({
+                command: 'storeUpdate',
+                added: this.pendingRows,
+                ...this.getViewInfo()
+            });
+            this.pendingRows = 0;
+            this.updateStatus();
+        }, MessageConsumerWebview.UPDATE_INTERVAL_MS);
     }
 
-    private clearMessages() {
-        this.messages = [];
+    private async clearMessages() {
+        await this.store?.clear();
+        if (this.search) {
+            this.search.matches = [];
+        }
+        this.pendingRows = 0;
         this.consumerState.messageCount = 0;
         this.panel?.webview.postMessage({ command: 'clear' });
         this.updateStatus();
     }
 
-    private sendMessageUpdate(message: ConsumedMessage) {
-        this.panel?.webview.postMessage({
-            command: 'newMessage',
-            message: message
-        });
+    /**
+     * Open a new spool for the session, replacing the previous one
+     */
+    private async openStore() {
+        await this.store?.dispose();
+        this.store = null;
+
+        const maxMessages = vscode.workspace.getConfiguration('kafka.consumer').get<number>('maxStoredMessages', 500000);
+        const folders = [
+            ...(this.storageUri ? [vscode.Uri.joinPath(this.storageUri, MESSAGE_SPOOL_FOLDER).fsPath] : []),
+            path.join(os.tmpdir(), 'vscode-kafka', MESSAGE_SPOOL_FOLDER)
+        ];
+        for (const folder of folders) {
+            try {
+                this.store = await MessageStore.create(folder, maxMessages);
+                return;
+            } catch (error) {
+                this.logger.warn(`Cannot store consumed messages in ${folder}`, error);
+            }
+        }
+        throw new Error('Cannot create a file for consumed messages in extension storage or the temp folder');
+    }
+
+    /**
+     * Rows of the current view (all stored messages, or the search matches), newest first
+     */
+    private getViewInfo(): { total: number; stored: number; dropped: number; searching: boolean; version: number } {
+        const store = this.store;
+        if (!store) {
+            return { total: 0, stored: 0, dropped: 0, searching: false, version: this.viewVersion };
+        }
+        const total = this.search
+            ? this.search.matches.length - lowerBound(this.search.matches, store.firstIndex)
+            : store.size;
+        return { total, stored: store.size, dropped: store.dropped, searching: false, version: this.viewVersion };
+    }
+
+    /**
+     * Store index of the row at a position of the current view
+     */
+    private getViewIndex(position: number): number {
+        const matches = this.search?.matches;
+        return matches ? matches[matches.length - 1 - position] : this.store!.lastIndex - position;
+    }
+
+    /**
+     * Decode and send the rows the webview is showing
+     * @param version The view version the webview counted `start` from; rows it has not been told about yet come first
+     */
+    private async sendPage(start: number, count: number, requestId: number, version?: number) {
+        const store = this.store;
+        const { total } = this.getViewInfo();
+        const pageVersion = this.viewVersion;
+        const unannounced = typeof version === 'number' ? Math.max(0, pageVersion - version) : 0;
+        const from = Math.max(0, Math.floor(Number(start) || 0) + unannounced);
+        const to = Math.min(total, from + Math.min(500, Math.max(0, Math.floor(Number(count) || 0))));
+        const rows: Array<ConsumedMessage & { index: number }> = [];
+
+        if (store && to > from) {
+            const indexes = Array.from({ length: to - from }, (_, i) => this.getViewIndex(from + i));
+            const stored = new Map((await store.read(indexes)).map(entry => [entry.index, entry.message]));
+            for (const index of indexes) {
+                const message = stored.get(index);
+                if (message) {
+                    rows.push({ index, ...(await this.buildMessage(message)) });
+                }
+            }
+        }
+
+        this.panel?.webview.postMessage({ command: 'page', requestId, start: from, rows, version: pageVersion });
+    }
+
+    /**
+     * Search the stored messages by key/value regex and minimum offset; new messages are matched as they arrive
+     * An invalid regex is ignored, as in the search bar's earlier in-page filtering
+     */
+    private async runSearch(searchKey: unknown, minOffset: unknown) {
+        const generation = ++this.searchGeneration;
+        this.searchInput = { searchKey: String(searchKey ?? ''), minOffset: String(minOffset ?? '') };
+        const key = this.searchInput.searchKey.trim();
+        const min = parseInt(this.searchInput.minOffset.trim(), 10);
+
+        let pattern: RegExp | undefined;
+        try {
+            pattern = key ? new RegExp(key, 'i') : undefined;
+        } catch {
+            this.logger.debug(`Ignoring invalid search pattern: ${key}`);
+        }
+
+        const store = this.store;
+        if (!store || (!pattern && isNaN(min))) {
+            this.search = null;
+            this.postViewReset();
+            return;
+        }
+
+        this.panel?.webview.postMessage({ command: 'viewReset', ...this.getViewInfo(), searching: true });
+        const search: MessageSearch = { pattern, minOffset: isNaN(min) ? undefined : min, matches: [] };
+        // Scanned in chunks up to the newest message; the last check and taking over the search happen
+        // without an await in between, so no message is missed or matched twice
+        let next = store.firstIndex;
+        while (next <= store.lastIndex) {
+            const to = Math.min(next + 500, store.lastIndex + 1);
+            for (const { index, message } of await store.read(Array.from({ length: to - next }, (_, i) => next + i))) {
+                if (this.matchesSearch(await this.buildMessage(message), search)) {
+                    search.matches.push(index);
+                }
+            }
+            if (generation !== this.searchGeneration || store !== this.store) {
+                return;
+            }
+            next = Math.max(to, store.firstIndex);
+        }
+
+        this.search = search;
+        this.pendingRows = 0;
+        this.postViewReset();
+    }
+
+    private matchesSearch(message: ConsumedMessage, search: MessageSearch): boolean {
+        if (search.pattern && !search.pattern.test(message.key || '') && !search.pattern.test(message.value || '')) {
+            return false;
+        }
+        return search.minOffset === undefined || parseInt(message.offset, 10) >= search.minOffset;
+    }
+
+    private postViewReset() {
+        this.panel?.webview.postMessage({ command: 'viewReset', ...this.getViewInfo() });
     }
 
     private updateStatus() {
@@ -302,37 +815,239 @@ export class MessageConsumerWebview {
         });
     }
 
-    private parseHeaders(headers: any): Record<string, string> {
+    /**
+     * Build a displayable message from raw bytes using the selected deserializers
+     */
+    private async buildMessage(raw: StoredMessage): Promise<ConsumedMessage> {
+        const key = raw.key ? await this.decodeField(raw.key, this.deserializers.key) : undefined;
+        const value = raw.value ? await this.decodeField(raw.value, this.deserializers.value) : undefined;
+
+        return {
+            topic: raw.topic,
+            partition: raw.partition,
+            offset: raw.offset,
+            key: key ? key.text : null,
+            value: value ? value.text : '',
+            timestamp: raw.timestamp,
+            headers: raw.headers ? this.parseHeaders(raw.headers) : undefined,
+            compression: raw.compression,
+            keySchema: key?.schema,
+            valueSchema: value?.schema,
+            keyDecodeError: key?.error,
+            valueDecodeError: value?.error
+        };
+    }
+
+    /**
+     * Decode a key or value with the selected deserializer.
+     * In 'auto' mode payloads carrying the Confluent wire format header are
+     * decoded through the Schema Registry and anything else is shown as UTF-8 text.
+     * Falls back to the raw bytes (hex) when decoding fails.
+     */
+    private async decodeField(buffer: Buffer, deserializer: FieldDeserializer): Promise<DecodedField> {
+        if (deserializer !== 'auto') {
+            try {
+                return { text: deserialize(buffer, deserializer) };
+            } catch (error: any) {
+                return {
+                    text: buffer.toString('hex'),
+                    error: `${getDeserializer(deserializer)?.label}: ${error?.message || 'Failed to decode payload'}`
+                };
+            }
+        }
+
+        const schemaId = this.schemaService?.parseSchemaId(buffer);
+        if (!this.schemaService || schemaId === undefined) {
+            return { text: buffer.toString() };
+        }
+
+        try {
+            const decoded = await this.schemaService.decodeWithSchema(buffer);
+            return {
+                text: typeof decoded.value === 'string'
+                    ? decoded.value
+                    : JSON.stringify(decoded.value, (_k, v) => typeof v === 'bigint' ? v.toString() : v),
+                schema: decoded.schema
+            };
+        } catch (error: any) {
+            this.logger.debug(`Schema decode failed for schema ID ${schemaId}: ${error?.message}`);
+            return {
+                text: buffer.toString('hex'),
+                schema: { id: schemaId },
+                error: error?.message || 'Failed to decode payload'
+            };
+        }
+    }
+
+    private parseHeaders(headers: Record<string, unknown>): Record<string, string> {
         const parsed: Record<string, string> = {};
         for (const [key, value] of Object.entries(headers)) {
-            if (Buffer.isBuffer(value)) {
-                parsed[key] = value.toString();
-            } else {
-                parsed[key] = String(value);
-            }
+            const values = Array.isArray(value) ? value : [value];
+            parsed[key] = values.map(v => this.decodeHeaderValue(v)).join(', ');
         }
         return parsed;
     }
 
+    private decodeHeaderValue(value: unknown): string {
+        if (!Buffer.isBuffer(value)) {
+            return String(value);
+        }
+        try {
+            return deserialize(value, this.deserializers.headers);
+        } catch {
+            return value.toString('hex');
+        }
+    }
+
+    /**
+     * Deserializers remembered for the current cluster/topic
+     */
+    private loadDeserializers(): DeserializerSelection {
+        const saved = this.workspaceState?.get<Record<string, Partial<DeserializerSelection>>>(
+            MessageConsumerWebview.DESERIALIZERS_STATE_KEY,
+            {}
+        )[this.getTopicStateKey()] || {};
+
+        return {
+            key: isFieldDeserializer(saved.key) ? saved.key : DEFAULT_DESERIALIZERS.key,
+            value: isFieldDeserializer(saved.value) ? saved.value : DEFAULT_DESERIALIZERS.value,
+            headers: isDeserializerId(saved.headers) ? saved.headers : DEFAULT_DESERIALIZERS.headers
+        };
+    }
+
+    private getTopicStateKey(): string {
+        return `${this.clusterName}/${this.topicName}`;
+    }
+
+    /**
+     * Switch the deserializer for key, value or headers, remember it for this
+     * topic and re-render the buffered messages from their raw bytes
+     */
+    private async setDeserializer(field: string, deserializer: string): Promise<void> {
+        const valid = field === 'headers'
+            ? isDeserializerId(deserializer)
+            : (field === 'key' || field === 'value') && isFieldDeserializer(deserializer);
+        if (!valid) {
+            this.logger.warn(`Ignoring unknown ${field} deserializer: ${deserializer}`);
+            return;
+        }
+
+        this.deserializers = { ...this.deserializers, [field]: deserializer };
+
+        if (this.workspaceState) {
+            const saved = this.workspaceState.get<Record<string, DeserializerSelection>>(
+                MessageConsumerWebview.DESERIALIZERS_STATE_KEY,
+                {}
+            );
+            await this.workspaceState.update(MessageConsumerWebview.DESERIALIZERS_STATE_KEY, {
+                ...saved,
+                [this.getTopicStateKey()]: this.deserializers
+            });
+        }
+
+        // Rows are decoded when shown, so only a search depends on the previous deserializers
+        if (this.search) {
+            await this.runSearch(this.searchInput.searchKey, this.searchInput.minOffset);
+        } else {
+            this.panel?.webview.postMessage({ command: 'refreshPage' });
+        }
+    }
+
+    private renderDeserializerOptions(selected: string, includeAuto: boolean): string {
+        const options = getDeserializers().map(d => ({ id: d.id as string, label: d.label }));
+        if (includeAuto) {
+            options.unshift({ id: 'auto', label: 'Auto (Schema Registry / UTF-8)' });
+        }
+        return options
+            .map(o => `<option value="${o.id}"${o.id === selected ? ' selected' : ''}>${o.label}</option>`)
+            .join('');
+    }
+
     private async exportMessages() {
-        if (this.messages.length === 0) {
+        const store = this.store;
+        if (!store || store.size === 0) {
             vscode.window.showInformationMessage('No messages to export');
             return;
         }
 
         try {
+            const choice = await vscode.window.showQuickPick(
+                EXPORT_FORMATS.map(format => ({ label: format.label, description: format.description, format })),
+                { placeHolder: `Export ${store.size.toLocaleString()} messages as` }
+            );
+            if (!choice) {
+                return;
+            }
+            const format = choice.format;
+
+            const options: ExportOptions = {};
+            if (format.id === 'csv') {
+                // Offer the fields of the newest messages as columns
+                const sample = await store.read(Array.from({ length: 200 }, (_, i) => store.lastIndex - i));
+                const values = await Promise.all(sample.map(async ({ message }) => (await this.buildMessage(message)).value));
+                const columns = discoverJsonColumns(values);
+                if (columns.length > 0) {
+                    const picked = await vscode.window.showQuickPick(columns.map(label => ({ label })), {
+                        canPickMany: true,
+                        placeHolder: 'JSON fields to add as columns (none for the raw value only)'
+                    });
+                    if (!picked) {
+                        return;
+                    }
+                    options.jsonColumns = picked.map(item => item.label);
+                }
+            } else if (format.id === 'kcat') {
+                const kcatFormat = await vscode.window.showInputBox({
+                    prompt: 'kcat -f format: %t topic, %p partition, %o offset, %T timestamp, %k key, %s value, %h headers',
+                    value: DEFAULT_KCAT_FORMAT
+                });
+                if (kcatFormat === undefined) {
+                    return;
+                }
+                options.kcatFormat = kcatFormat;
+            }
+
             const uri = await vscode.window.showSaveDialog({
-                defaultUri: vscode.Uri.file(`${this.topicName}-messages.json`),
+                defaultUri: vscode.Uri.file(`${this.topicName}-messages.${format.extension}`),
                 filters: {
-                    'JSON': ['json'],
+                    [format.filterName]: [format.extension],
                     'All Files': ['*']
                 }
             });
+            if (!uri) {
+                return;
+            }
+
+            const total = store.size;
+            const written = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Exporting ${this.topicName} as ${format.label}`,
+                    cancellable: true
+                },
+                (progress, token) => {
+                    let reported = 0;
+                    return writeMessageExport(
+                        uri.fsPath,
+                        store.entries(),
+                        createMessageExporter(format.id, options),
+                        message => this.buildMessage(message),
+                        {
+                            isCancelled: () => token.isCancellationRequested,
+                            onProgress: count => {
+                                progress.report({
+                                    message: `${count.toLocaleString()} of ${total.toLocaleString()}`,
+                                    increment: ((count - reported) / total) * 100
+                                });
+                                reported = count;
+                            }
+                        }
+                    );
+                }
+            );
 
-            if (uri) {
-                const content = JSON.stringify(this.messages, null, 2);
-                await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
-                vscode.window.showInformationMessage(`Exported ${this.messages.length} messages to ${uri.fsPath}`);
+            if (written !== undefined) {
+                vscode.window.showInformationMessage(`Exported ${written} messages to ${uri.fsPath}`);
             }
         } catch (error: any) {
             this.logger.error('Error exporting messages', error);
@@ -340,6 +1055,19 @@ export class MessageConsumerWebview {
         }
     }
 
+    /**
+     * Open a message from the table as a kafka: document, read again from the topic
+     */
+    private async openMessageDocument(partition: number, offset: string): Promise<void> {
+        try {
+            const uri = KafkaFileSystemProvider.messageUri(this.clusterName, this.topicName, partition, offset);
+            await vscode.window.showTextDocument(uri, { preview: false });
+        } catch (error: any) {
+            this.logger.error('Failed to open message document', error);
+            vscode.window.showErrorMessage(`Failed to open message: ${error.message}`);
+        }
+    }
+
     /**
      * Seek to a specific offset in a partition
      */
@@ -351,13 +1079,17 @@ export class MessageConsumerWebview {
 
         try {
             this.logger.info(`Seeking to offset ${offset} in partition ${partition}`);
-            const consumer = await this.clientManager.getConsumer(this.clusterName);
+            if (this.assignedReader) {
+                this.assignedReader.seek(partition, offset);
+            } else {
+                const consumer = await this.clientManager.getConsumer(this.clusterName);
 
-            await consumer.seek({
-                topic: this.topicName,
-                partition: partition,
-                offset: offset
-            });
+                await consumer.seek({
+                    topic: this.topicName,
+                    partition: partition,
+                    offset: offset
+                });
+            }
 
             vscode.window.showInformationMessage(`Seeked to offset ${offset} in partition ${partition}`);
             this.logger.info('Seek operation completed successfully');
@@ -383,15 +1115,20 @@ export class MessageConsumerWebview {
             // Fetch offsets by timestamp for all partitions
             const offsets = await admin.fetchTopicOffsetsByTimestamp(this.topicName, timestamp);
 
-            const consumer = await this.clientManager.getConsumer(this.clusterName);
-
             // Seek each partition to the corresponding offset
-            for (const partitionOffset of offsets) {
-                await consumer.seek({
-                    topic: this.topicName,
-                    partition: partitionOffset.partition,
-                    offset: partitionOffset.offset
-                });
+            if (this.assignedReader) {
+                for (const partitionOffset of offsets) {
+                    this.assignedReader.seek(partitionOffset.partition, partitionOffset.offset);
+                }
+            } else {
+                const consumer = await this.clientManager.getConsumer(this.clusterName);
+                for (const partitionOffset of offsets) {
+                    await consumer.seek({
+                        topic: this.topicName,
+                        partition: partitionOffset.partition,
+                        offset: partitionOffset.offset
+                    });
+                }
             }
 
             vscode.window.showInformationMessage(`Seeked to timestamp ${new Date(timestamp).toISOString()}`);
@@ -413,6 +1150,13 @@ export class MessageConsumerWebview {
     }
 
     private getHtmlContent(): string {
+        const budget = vscode.workspace.getConfiguration('kafka.consumer.filterBudget');
+        const budgetDefaults = {
+            maxMessages: budget.get<number>('maxMessages', 1000000),
+            maxMegabytes: budget.get<number>('maxMegabytes', 1024),
+            maxSeconds: budget.get<number>('maxSeconds', 600)
+        };
+
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -536,7 +1280,8 @@ export class MessageConsumerWebview {
 
         .messages-container {
             margin-top: 20px;
-            max-height: calc(100vh - 300px);
+            height: calc(100vh - 300px);
+            min-height: 240px;
             overflow-y: auto;
             border: 1px solid var(--vscode-panel-border);
             border-radius: 5px;
@@ -554,10 +1299,80 @@ export class MessageConsumerWebview {
             contain: layout style;
         }
 
+        /* Rows have a fixed height so only the visible ones need to exist */
+        .messages-viewport {
+            position: relative;
+        }
+
+        .messages-body {
+            position: absolute;
+            left: 0;
+            right: 0;
+            top: 0;
+        }
+
+        .messages-body .message-row {
+            height: ${MessageConsumerWebview.ROW_HEIGHT}px;
+            box-sizing: border-box;
+            overflow: hidden;
+            cursor: pointer;
+        }
+
+        .messages-body .message-cell {
+            white-space: nowrap;
+        }
+
+        .messages-body .schema-badge {
+            margin-top: 0;
+            margin-left: 6px;
+        }
+
         .message-row:hover {
             background-color: var(--vscode-list-hoverBackground);
         }
 
+        .message-row.selected {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
+        .message-row.loading-row {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .view-info {
+            margin-top: 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .message-details {
+            margin-top: 12px;
+            padding: 12px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 5px;
+            font-size: 13px;
+        }
+
+        .message-details-title {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            font-weight: 600;
+            margin-bottom: 8px;
+        }
+
+        .message-details pre {
+            max-height: 300px;
+            overflow: auto;
+            margin: 6px 0 10px;
+            padding: 8px;
+            background-color: var(--vscode-editor-background);
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre-wrap;
+            word-break: break-all;
+        }
+
         .message-main {
             display: grid;
             grid-template-columns: 80px 120px 150px 200px 1fr;
@@ -594,21 +1409,6 @@ export class MessageConsumerWebview {
             font-family: var(--vscode-editor-font-family);
         }
 
-        .toggle-headers-btn {
-            margin-top: 8px;
-            padding: 4px 12px;
-            background-color: var(--vscode-button-secondaryBackground);
-            color: var(--vscode-button-secondaryForeground);
-            border: 1px solid var(--vscode-button-border);
-            border-radius: 3px;
-            cursor: pointer;
-            font-size: 12px;
-        }
-
-        .toggle-headers-btn:hover {
-            background-color: var(--vscode-button-secondaryHoverBackground);
-        }
-
         .message-header {
             font-weight: 600;
             background-color: var(--vscode-editor-inactiveSelectionBackground);
@@ -634,6 +1434,22 @@ export class MessageConsumerWebview {
             word-break: break-all;
         }
 
+        .schema-badge {
+            display: inline-block;
+            margin-top: 4px;
+            padding: 2px 6px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            border-radius: 3px;
+            font-size: 11px;
+            font-family: var(--vscode-font-family);
+        }
+
+        .schema-badge.decode-error {
+            background-color: rgba(220, 53, 69, 0.2);
+            color: #dc3545;
+        }
+
         .timestamp-toggle {
             display: inline-flex;
             align-items: center;
@@ -662,10 +1478,6 @@ export class MessageConsumerWebview {
             filter: brightness(1.3);
         }
 
-        .format-toggle {
-            display: inline-block;
-        }
-
         .empty-state {
             text-align: center;
             padding: 60px 20px;
@@ -717,6 +1529,59 @@ export class MessageConsumerWebview {
             display: flex;
             flex-direction: column;
         }
+
+        .range-bound {
+            display: flex;
+            gap: 6px;
+        }
+
+        .range-bound .search-input {
+            flex: 1;
+            min-width: 0;
+        }
+
+        .range-progress {
+            display: grid;
+            grid-template-columns: auto 1fr auto;
+            gap: 6px 12px;
+            align-items: center;
+            margin-bottom: 20px;
+            padding: 15px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            border-radius: 5px;
+            font-size: 12px;
+        }
+
+        .progress-track {
+            height: 8px;
+            background-color: var(--vscode-input-background);
+            border-radius: 4px;
+            overflow: hidden;
+        }
+
+        .progress-fill {
+            height: 100%;
+            background-color: var(--vscode-progressBar-background);
+        }
+
+        .progress-fill.done {
+            background-color: #28a745;
+        }
+
+        .filter-expression {
+            flex: 3;
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        .scan-status {
+            margin: -12px 0 20px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .scan-status.error {
+            color: var(--vscode-errorForeground);
+        }
     </style>
 </head>
 <body>
@@ -753,6 +1618,84 @@ export class MessageConsumerWebview {
         </div>
     </div>
 
+    <div class="search-bar">
+        <div class="search-group">
+            <div class="search-label">⏩ Range Start</div>
+            <div class="range-bound">
+                <select id="rangeStartType" class="search-input" onchange="onRangeTypeChange('rangeStart')">
+                    <option value="earliest">Earliest</option>
+                    <option value="latest">Latest</option>
+                    <option value="offset">Offset</option>
+                    <option value="timestamp">Timestamp</option>
+                </select>
+                <input type="text" id="rangeStartValue" class="search-input" disabled>
+            </div>
+        </div>
+        <div class="search-group">
+            <div class="search-label">⏹️ Range End</div>
+            <div class="range-bound">
+                <select id="rangeEndType" class="search-input" onchange="onRangeTypeChange('rangeEnd')">
+                    <option value="highWatermark">Current end</option>
+                    <option value="offset">Offset (inclusive)</option>
+                    <option value="timestamp">Timestamp</option>
+                    <option value="none">Keep reading</option>
+                </select>
+                <input type="text" id="rangeEndValue" class="search-input" disabled>
+            </div>
+        </div>
+        <div class="search-group">
+            <div class="search-label">🔢 Partitions</div>
+            <input type="text" id="rangePartitions" class="search-input" placeholder="All (e.g. 0,2,5-7)">
+        </div>
+        <div class="search-group">
+            <div class="search-label">&nbsp;</div>
+            <button class="btn btn-success" id="startRangeBtn" onclick="startRange()">▶️ Read Range</button>
+        </div>
+    </div>
+
+    <div class="search-bar">
+        <div class="search-group filter-expression">
+            <div class="search-label">🧪 Filter While Reading</div>
+            <input type="text" id="filterExpression" class="search-input" placeholder='e.g. value.order.id == "A-123" and partition in (0, 3)' onkeydown="if (event.key === 'Enter') { applyFilter(); }">
+        </div>
+        <div class="search-group">
+            <div class="search-label">Max Messages</div>
+            <input type="number" id="budgetMessages" class="search-input" min="0" value="${budgetDefaults.maxMessages}">
+        </div>
+        <div class="search-group">
+            <div class="search-label">Max MB</div>
+            <input type="number" id="budgetMegabytes" class="search-input" min="0" value="${budgetDefaults.maxMegabytes}">
+        </div>
+        <div class="search-group">
+            <div class="search-label">Max Seconds</div>
+            <input type="number" id="budgetSeconds" class="search-input" min="0" value="${budgetDefaults.maxSeconds}">
+        </div>
+        <div class="search-group">
+            <div class="search-label">&nbsp;</div>
+            <button class="btn" onclick="applyFilter()">Apply</button>
+        </div>
+        <div class="search-group">
+            <div class="search-label">&nbsp;</div>
+            <button class="btn" onclick="removeFilter()">Remove</button>
+        </div>
+    </div>
+    <div class="scan-status" id="scanStatus" style="display: none;"></div>
+
+    <div class="search-bar">
+        <div class="search-group">
+            <div class="search-label">🔑 Key Deserializer</div>
+            <select id="keyDeserializer" class="search-input" onchange="setDeserializer('key', this.value)">${this.renderDeserializerOptions(this.deserializers.key, true)}</select>
+        </div>
+        <div class="search-group">
+            <div class="search-label">📄 Value Deserializer</div>
+            <select id="valueDeserializer" class="search-input" onchange="setDeserializer('value', this.value)">${this.renderDeserializerOptions(this.deserializers.value, true)}</select>
+        </div>
+        <div class="search-group">
+            <div class="search-label">📋 Header Deserializer</div>
+            <select id="headersDeserializer" class="search-input" onchange="setDeserializer('headers', this.value)">${this.renderDeserializerOptions(this.deserializers.headers, false)}</select>
+        </div>
+    </div>
+
     <div class="status-bar">
         <div class="status-item">
             <div class="status-label">Status</div>
@@ -775,7 +1718,9 @@ export class MessageConsumerWebview {
         </div>
     </div>
 
-    <div class="messages-container">
+    <div class="range-progress" id="rangeProgress" style="display: none;"></div>
+
+    <div class="messages-container" id="messagesContainer" onscroll="scheduleRender()">
         <div class="message-row message-header">
             <div class="message-cell">Partition</div>
             <div class="message-cell">Offset</div>
@@ -786,24 +1731,50 @@ export class MessageConsumerWebview {
             <div class="message-cell">Key</div>
             <div class="message-cell">Value</div>
         </div>
-        <div id="messagesBody">
-            <div class="empty-state">
-                <div class="empty-state-icon">📭</div>
-                <div class="empty-state-text">No messages yet. Click "Start" to begin consuming.</div>
+        <div class="messages-viewport" id="messagesViewport">
+            <div class="messages-body" id="messagesBody">
+                <div class="empty-state">
+                    <div class="empty-state-icon">📭</div>
+                    <div class="empty-state-text">No messages yet. Click "Start" to begin consuming.</div>
+                </div>
             </div>
         </div>
     </div>
+    <div class="view-info" id="viewInfo"></div>
+    <div class="message-details" id="messageDetails" style="display: none;"></div>
 
     <script>
         const vscode = acquireVsCodeApi();
         let uptimeInterval = null;
-        let allMessages = []; // Store all messages for filtering
+
+        // Virtualized message table: rows live in the extension and are requested by view position (0 = newest)
+        const ROW_HEIGHT = ${MessageConsumerWebview.ROW_HEIGHT};
+        const OVERSCAN = 20;
+        let view = { total: 0, stored: 0, dropped: 0, searching: false, version: 0 };
+        let rows = new Map();
+        let requestedRange = null;
+        let lastRequestId = 0;
+        let renderScheduled = false;
+        let selectedIndex = null;
+        let humanTimestamps = false;
+        document.getElementById('filterExpression').title = ${JSON.stringify(FILTER_EXPRESSION_HELP.join('\n'))};
 
         window.addEventListener('message', event => {
             const message = event.data;
             switch (message.command) {
-                case 'newMessage':
-                    addMessage(message.message);
+                case 'storeUpdate':
+                    receiveStoreUpdate(message);
+                    break;
+                case 'page':
+                    receivePage(message);
+                    break;
+                case 'viewReset':
+                    resetView(message);
+                    break;
+                case 'refreshPage':
+                    rows = new Map();
+                    requestedRange = null;
+                    scheduleRender();
                     break;
                 case 'updateStatus':
                     updateStatus(message.state);
@@ -811,9 +1782,22 @@ export class MessageConsumerWebview {
                 case 'clear':
                     clearMessagesList();
                     break;
+                case 'rangeProgress':
+                    renderRangeProgress(message.partitions);
+                    break;
+                case 'scanProgress':
+                    renderScanProgress(message.expression, message.progress);
+                    break;
+                case 'filterError':
+                    showFilterError(message.error);
+                    break;
             }
         });
 
+        function setDeserializer(field, deserializer) {
+            vscode.postMessage({ command: 'setDeserializer', field, deserializer });
+        }
+
         function startConsumer(fromBeginning) {
             vscode.postMessage({ command: 'start', fromBeginning });
         }
@@ -822,6 +1806,105 @@ export class MessageConsumerWebview {
             vscode.postMessage({ command: 'stop' });
         }
 
+        function readRangeBound(prefix) {
+            const type = document.getElementById(prefix + 'Type').value;
+            const value = document.getElementById(prefix + 'Value').value.trim();
+            if (type === 'timestamp') {
+                const timestamp = new Date(value).getTime();
+                return { type, timestamp: isNaN(timestamp) ? undefined : timestamp };
+            }
+            return type === 'offset' ? { type, offset: value } : { type };
+        }
+
+        function startRange() {
+            vscode.postMessage({
+                command: 'startRange',
+                range: {
+                    start: readRangeBound('rangeStart'),
+                    end: readRangeBound('rangeEnd'),
+                    partitions: document.getElementById('rangePartitions').value
+                }
+            });
+        }
+
+        // Evaluated by the extension while reading, so it also finds messages older than the display buffer
+        function applyFilter() {
+            vscode.postMessage({
+                command: 'setFilter',
+                expression: document.getElementById('filterExpression').value,
+                budget: {
+                    maxMessages: document.getElementById('budgetMessages').value,
+                    maxMegabytes: document.getElementById('budgetMegabytes').value,
+                    maxSeconds: document.getElementById('budgetSeconds').value
+                }
+            });
+        }
+
+        function removeFilter() {
+            document.getElementById('filterExpression').value = '';
+            vscode.postMessage({ command: 'setFilter', expression: '' });
+        }
+
+        function renderScanProgress(expression, progress) {
+            const status = document.getElementById('scanStatus');
+            status.classList.remove('error');
+            if (!expression || !progress) {
+                status.style.display = 'none';
+                return;
+            }
+
+            const megabytes = (progress.bytes / 1024 / 1024).toFixed(1);
+            const seconds = Math.round(progress.elapsedMs / 1000);
+            let text = \`Scanned \${progress.scanned.toLocaleString()}, matched \${progress.matched.toLocaleString()} (\${megabytes} MB in \${seconds}s)\`;
+            if (progress.exhausted) {
+                text += \` — stopped: \${progress.exhausted}\`;
+            }
+            status.textContent = text;
+            status.style.display = 'block';
+        }
+
+        function showFilterError(error) {
+            const status = document.getElementById('scanStatus');
+            status.textContent = '⚠️ ' + error;
+            status.classList.add('error');
+            status.style.display = 'block';
+        }
+
+        function onRangeTypeChange(prefix) {
+            const type = document.getElementById(prefix + 'Type').value;
+            const input = document.getElementById(prefix + 'Value');
+            input.value = '';
+            input.type = type === 'timestamp' ? 'datetime-local' : 'text';
+            input.placeholder = type === 'offset' ? 'e.g. 1000' : '';
+            input.disabled = type !== 'offset' && type !== 'timestamp';
+        }
+
+        function renderRangeProgress(partitions) {
+            const container = document.getElementById('rangeProgress');
+            if (!partitions || partitions.length === 0) {
+                container.style.display = 'none';
+                container.innerHTML = '';
+                return;
+            }
+
+            container.style.display = 'grid';
+            container.innerHTML = partitions.map(p => {
+                const start = Number(p.startOffset);
+                const position = Number(p.position);
+                const end = p.endOffset !== undefined ? Number(p.endOffset) : undefined;
+                const done = end !== undefined && position >= end;
+                const percent = end === undefined ? 0 : end > start ? Math.min(100, ((position - start) / (end - start)) * 100) : 100;
+                const label = end === undefined
+                    ? \`at \${position.toLocaleString()}\`
+                    : \`\${Math.max(0, Math.min(position, end) - start).toLocaleString()} / \${(end - start).toLocaleString()}\${done ? ' ✓' : ''}\`;
+                return \`
+                    <div>Partition \${p.partition}</div>
+                    <div class="progress-track"><div class="progress-fill\${done ? ' done' : ''}" style="width: \${percent}%"></div></div>
+                    <div>\${escapeHtml(label)}</div>
+                \`;
+            }).join('');
+        }
+
         function pauseConsumer() {
             vscode.postMessage({ command: 'pause' });
         }
@@ -838,117 +1921,196 @@ export class MessageConsumerWebview {
             vscode.postMessage({ command: 'export' });
         }
 
-        function addMessage(msg) {
-            // Store message for filtering
-            allMessages.unshift(msg);
+        function openDocument(partition, offset) {
+            vscode.postMessage({ command: 'openDocument', partition, offset });
+        }
 
-            // Apply current filters
-            if (shouldShowMessage(msg)) {
-                renderMessage(msg);
+        function setView(info) {
+            view = { total: info.total, stored: info.stored, dropped: info.dropped, searching: !!info.searching, version: info.version ?? view.version };
+            const dropped = view.dropped > 0 ? \` (\${view.dropped.toLocaleString()} oldest dropped)\` : '';
+            const text = view.searching
+                ? 'Searching stored messages…'
+                : view.total !== view.stored
+                    ? \`\${view.total.toLocaleString()} of \${view.stored.toLocaleString()} stored messages match\${dropped}\`
+                    : \`\${view.stored.toLocaleString()} messages stored\${dropped}\`;
+            document.getElementById('viewInfo').textContent = text;
+        }
+
+        function receiveStoreUpdate(update) {
+            const container = document.getElementById('messagesContainer');
+            setView(update);
+            document.getElementById('messagesViewport').style.height = (view.total * ROW_HEIGHT) + 'px';
+
+            // New rows arrive above; keep the rows being read in place unless following the newest
+            if (update.added > 0) {
+                const shifted = new Map();
+                rows.forEach((row, position) => shifted.set(position + update.added, row));
+                rows = shifted;
+                if (container.scrollTop > 0) {
+                    container.scrollTop += update.added * ROW_HEIGHT;
+                }
             }
+            requestedRange = null;
+            scheduleRender();
         }
 
-        function renderMessage(msg) {
-            const messagesBody = document.getElementById('messagesBody');
+        function receivePage(page) {
+            if (page.requestId !== lastRequestId) {
+                return;
+            }
+            requestedRange = null;
+            // Rows added after the last update shift the page down; those rows arrive with the next update
+            const shift = page.version - view.version;
+            rows = new Map();
+            page.rows.forEach((row, i) => {
+                const position = page.start + i - shift;
+                if (position >= 0 && position < view.total) {
+                    rows.set(position, row);
+                }
+            });
+            renderVisibleRows(false);
+        }
+
+        function resetView(info) {
+            setView(info);
+            rows = new Map();
+            requestedRange = null;
+            document.getElementById('messagesContainer').scrollTop = 0;
+            renderVisibleRows(!view.searching);
+        }
+
+        function scheduleRender() {
+            if (renderScheduled) {
+                return;
+            }
+            renderScheduled = true;
+            requestAnimationFrame(() => {
+                renderScheduled = false;
+                renderVisibleRows(true);
+            });
+        }
 
-            // Remove empty state if present
-            const emptyState = messagesBody.querySelector('.empty-state');
-            if (emptyState) {
-                emptyState.remove();
+        function renderVisibleRows(requestMissing) {
+            const container = document.getElementById('messagesContainer');
+            const viewport = document.getElementById('messagesViewport');
+            const body = document.getElementById('messagesBody');
+            viewport.style.height = (view.total * ROW_HEIGHT) + 'px';
+
+            if (view.total === 0) {
+                body.style.top = '0px';
+                body.innerHTML = renderEmptyState(view.searching
+                    ? ['🔍', 'Searching…']
+                    : view.stored > 0 ? ['🔍', 'No messages match the current filters.'] : ['📭', 'No messages yet. Click "Start" to begin consuming.']);
+                return;
             }
 
-            const row = document.createElement('div');
-            row.className = 'message-row';
-            row.dataset.partition = msg.partition;
-            row.dataset.offset = msg.offset;
-            row.dataset.key = msg.key || '';
-
-            const timestamp = msg.timestamp;
-            const humanTimestamp = formatTimestamp(timestamp);
-
-            // Build headers section if headers exist
-            const hasHeaders = msg.headers && Object.keys(msg.headers).length > 0;
-            const headerCount = hasHeaders ? Object.keys(msg.headers).length : 0;
-            let headersHtml = '';
-
-            if (hasHeaders) {
-                const headerItems = Object.entries(msg.headers)
-                    .map(([key, value]) => \`<span class="header-item"><strong>\${escapeHtml(key)}:</strong> \${escapeHtml(value)}</span>\`)
-                    .join('');
-
-                headersHtml = \`
-                    <div class="message-headers" style="display: none;">
-                        <div class="headers-title">📋 Headers:</div>
-                        <div class="headers-content">\${headerItems}</div>
-                    </div>
-                    <button class="toggle-headers-btn" onclick="toggleHeaders(this)">
-                        Show Headers (\${headerCount})
-                    </button>
-                \`;
+            const scrolled = Math.max(0, container.scrollTop - viewport.offsetTop);
+            const first = Math.max(0, Math.floor(scrolled / ROW_HEIGHT) - OVERSCAN);
+            const last = Math.min(view.total, Math.ceil((scrolled + container.clientHeight) / ROW_HEIGHT) + OVERSCAN);
+            let missing = false;
+            const html = [];
+            for (let position = first; position < last; position++) {
+                const row = rows.get(position);
+                if (!row) {
+                    missing = true;
+                }
+                html.push(row ? renderRow(row) : '<div class="message-row loading-row">…</div>');
             }
+            body.style.top = (first * ROW_HEIGHT) + 'px';
+            body.innerHTML = html.join('');
 
-            row.innerHTML = \`
-                <div class="message-main">
-                    <div class="message-cell">\${msg.partition}</div>
-                    <div class="message-cell"><code>\${msg.offset}</code></div>
-                    <div class="message-cell">
-                        <span class="format-toggle" data-raw="\${escapeHtml(timestamp)}" data-human="\${escapeHtml(humanTimestamp)}" data-format="raw">
-                            \${escapeHtml(timestamp)}
-                        </span>
-                    </div>
-                    <div class="message-cell"><code>\${escapeHtml(msg.key || '-')}</code></div>
-                    <div class="message-cell message-value">\${escapeHtml(msg.value).substring(0, 200)}\${msg.value.length > 200 ? '...' : ''}</div>
+            if (missing && requestMissing) {
+                requestPage(first, last - first);
+            }
+        }
+
+        function requestPage(start, count) {
+            if (requestedRange && requestedRange.start === start && requestedRange.count === count) {
+                return;
+            }
+            requestedRange = { start, count };
+            vscode.postMessage({ command: 'getPage', start, count, version: view.version, requestId: ++lastRequestId });
+        }
+
+        function renderEmptyState([icon, text]) {
+            return \`
+                <div class="empty-state">
+                    <div class="empty-state-icon">\${icon}</div>
+                    <div class="empty-state-text">\${escapeHtml(text)}</div>
                 </div>
-                \${headersHtml}
             \`;
-
-            messagesBody.insertBefore(row, messagesBody.firstChild);
         }
 
-        function toggleHeaders(button) {
-            const row = button.closest('.message-row');
-            const headersDiv = row.querySelector('.message-headers');
+        function renderRow(msg) {
+            const headerCount = msg.headers ? Object.keys(msg.headers).length : 0;
+            const timestamp = humanTimestamps ? formatTimestamp(msg.timestamp) : msg.timestamp;
+            return \`
+                <div class="message-row\${msg.index === selectedIndex ? ' selected' : ''}" onclick="selectMessage(\${msg.index})">
+                    <div class="message-main">
+                        <div class="message-cell">\${msg.partition}\${renderCompressionBadge(msg.compression)}</div>
+                        <div class="message-cell"><code>\${escapeHtml(msg.offset)}</code></div>
+                        <div class="message-cell">\${escapeHtml(timestamp)}</div>
+                        <div class="message-cell"><code>\${escapeHtml(msg.key || '-')}</code>\${renderSchemaBadge(msg.keySchema, msg.keyDecodeError)}</div>
+                        <div class="message-cell message-value">\${headerCount > 0 ? \`<span title="Headers">📋 \${headerCount}</span> \` : ''}\${escapeHtml(msg.value.substring(0, 200))}\${renderSchemaBadge(msg.valueSchema, msg.valueDecodeError)}</div>
+                    </div>
+                </div>
+            \`;
+        }
 
-            if (headersDiv.style.display === 'none') {
-                headersDiv.style.display = 'block';
-                button.textContent = button.textContent.replace('Show', 'Hide');
-            } else {
-                headersDiv.style.display = 'none';
-                button.textContent = button.textContent.replace('Hide', 'Show');
+        function selectMessage(index) {
+            const msg = [...rows.values()].find(row => row.index === index);
+            if (!msg) {
+                return;
             }
+            selectedIndex = index;
+            renderVisibleRows(false);
+
+            const headerItems = Object.entries(msg.headers || {})
+                .map(([key, value]) => \`<span class="header-item"><strong>\${escapeHtml(key)}:</strong> \${escapeHtml(value)}</span>\`)
+                .join('');
+            const details = document.getElementById('messageDetails');
+            details.innerHTML = \`
+                <div class="message-details-title">
+                    <span>Partition \${msg.partition} · Offset \${escapeHtml(msg.offset)} · \${escapeHtml(formatTimestamp(msg.timestamp))}</span>
+                    <span>
+                        <button class="btn" onclick="openDocument(\${msg.partition}, '\${escapeHtml(msg.offset)}')">📝 Open as Document</button>
+                        <button class="btn" onclick="closeDetails()">✕</button>
+                    </span>
+                </div>
+                <div class="headers-title">🔑 Key\${renderSchemaBadge(msg.keySchema, msg.keyDecodeError)}</div>
+                <pre>\${escapeHtml(msg.key || '-')}</pre>
+                <div class="headers-title">📄 Value\${renderSchemaBadge(msg.valueSchema, msg.valueDecodeError)}</div>
+                <pre>\${escapeHtml(msg.value)}</pre>
+                \${headerItems ? \`<div class="headers-title">📋 Headers:</div><div class="headers-content">\${headerItems}</div>\` : ''}
+            \`;
+            details.style.display = 'block';
         }
 
-        // SEC-1.2-1: Client-side filtering only (never send regex to Kafka)
-        function shouldShowMessage(msg) {
-            const searchKey = document.getElementById('searchKey').value.trim();
-            const searchOffset = document.getElementById('searchOffset').value.trim();
+        function closeDetails() {
+            selectedIndex = null;
+            document.getElementById('messageDetails').style.display = 'none';
+            renderVisibleRows(false);
+        }
 
-            // Filter by key OR value (regex)
-            if (searchKey) {
-                try {
-                    const regex = new RegExp(searchKey, 'i');
-                    const matchesKey = regex.test(msg.key || '');
-                    const matchesValue = regex.test(msg.value || '');
-
-                    // Return false if neither key nor value matches
-                    if (!matchesKey && !matchesValue) {
-                        return false;
-                    }
-                } catch (e) {
-                    // Invalid regex, ignore filter
-                    console.warn('Invalid regex pattern:', searchKey);
-                }
-            }
+        function renderCompressionBadge(compression) {
+            return compression && compression !== 'none'
+                ? \`<div class="schema-badge" title="Batch compression codec">🗜️ \${escapeHtml(compression)}</div>\`
+                : '';
+        }
 
-            // Filter by minimum offset
-            if (searchOffset) {
-                const minOffset = parseInt(searchOffset);
-                if (!isNaN(minOffset) && parseInt(msg.offset) < minOffset) {
-                    return false;
-                }
+        function renderSchemaBadge(schema, decodeError) {
+            if (!schema) {
+                return decodeError
+                    ? \`<div class="schema-badge decode-error">⚠️ \${escapeHtml(decodeError)}, showing raw bytes (hex)</div>\`
+                    : '';
             }
-
-            return true;
+            if (decodeError) {
+                return \`<div class="schema-badge decode-error" title="\${escapeHtml(decodeError)}">⚠️ Schema ID \${escapeHtml(String(schema.id))}: decode failed, showing raw bytes (hex)</div>\`;
+            }
+            const subject = schema.subject
+                ? \`\${escapeHtml(schema.subject)}\${schema.version !== undefined ? ' v' + schema.version : ''} · \`
+                : '';
+            return \`<div class="schema-badge">🧬 \${subject}ID \${escapeHtml(String(schema.id))}</div>\`;
         }
 
         // SEC-1.2-2: Warn on potential PII search
@@ -961,6 +2123,8 @@ export class MessageConsumerWebview {
             }
         }
 
+        let searchTimer = null;
+
         function filterMessages() {
             const searchKey = document.getElementById('searchKey').value.trim();
             const searchOffset = document.getElementById('searchOffset').value.trim();
@@ -980,33 +2144,11 @@ export class MessageConsumerWebview {
                 });
             }
 
-            // Re-render all messages with current filters
-            const messagesBody = document.getElementById('messagesBody');
-            messagesBody.innerHTML = '';
-
-            let visibleCount = 0;
-            for (const msg of allMessages) {
-                if (shouldShowMessage(msg)) {
-                    renderMessage(msg);
-                    visibleCount++;
-                }
-            }
-
-            if (visibleCount === 0 && allMessages.length > 0) {
-                messagesBody.innerHTML = \`
-                    <div class="empty-state">
-                        <div class="empty-state-icon">🔍</div>
-                        <div class="empty-state-text">No messages match the current filters.</div>
-                    </div>
-                \`;
-            } else if (allMessages.length === 0) {
-                messagesBody.innerHTML = \`
-                    <div class="empty-state">
-                        <div class="empty-state-icon">📭</div>
-                        <div class="empty-state-text">No messages yet. Click "Start" to begin consuming.</div>
-                    </div>
-                \`;
-            }
+            // SEC-1.2-1: Matched locally against the stored messages (never send regex to Kafka)
+            clearTimeout(searchTimer);
+            searchTimer = setTimeout(() => {
+                vscode.postMessage({ command: 'search', searchKey, minOffset: searchOffset });
+            }, 300);
         }
 
         function clearSearch() {
@@ -1028,32 +2170,13 @@ export class MessageConsumerWebview {
         }
 
         function toggleAllTimestamps() {
-            const allToggles = document.querySelectorAll('.format-toggle');
-            if (allToggles.length === 0) return;
-
-            // Check current format of first element to determine what to do
-            const firstToggle = allToggles[0];
-            const currentFormat = firstToggle.getAttribute('data-format');
-            const newFormat = currentFormat === 'raw' ? 'human' : 'raw';
-
-            // Toggle all timestamp elements
-            allToggles.forEach(element => {
-                const rawValue = element.getAttribute('data-raw');
-                const humanValue = element.getAttribute('data-human');
-
-                element.setAttribute('data-format', newFormat);
-
-                // Update text content (first text node)
-                const textNode = Array.from(element.childNodes).find(node => node.nodeType === Node.TEXT_NODE);
-                if (textNode) {
-                    textNode.textContent = newFormat === 'human' ? humanValue : rawValue;
-                }
-            });
+            humanTimestamps = !humanTimestamps;
+            renderVisibleRows(false);
 
             // Update header icon appearance
             const headerIcon = document.querySelector('.human-icon-header');
             if (headerIcon) {
-                if (newFormat === 'human') {
+                if (humanTimestamps) {
                     headerIcon.classList.add('active');
                     headerIcon.title = 'Show raw timestamp values';
                 } else {
@@ -1074,6 +2197,7 @@ export class MessageConsumerWebview {
             const messageCount = document.getElementById('messageCount');
             const startBtn = document.getElementById('startBtn');
             const startBeginningBtn = document.getElementById('startBeginningBtn');
+            const startRangeBtn = document.getElementById('startRangeBtn');
             const pauseBtn = document.getElementById('pauseBtn');
             const resumeBtn = document.getElementById('resumeBtn');
             const stopBtn = document.getElementById('stopBtn');
@@ -1086,6 +2210,7 @@ export class MessageConsumerWebview {
                     statusText.textContent = 'Paused';
                     startBtn.disabled = true;
                     startBeginningBtn.disabled = true;
+                    startRangeBtn.disabled = true;
                     pauseBtn.disabled = true;
                     pauseBtn.style.display = 'none';
                     resumeBtn.disabled = false;
@@ -1096,6 +2221,7 @@ export class MessageConsumerWebview {
                     statusText.textContent = 'Running';
                     startBtn.disabled = true;
                     startBeginningBtn.disabled = true;
+                    startRangeBtn.disabled = true;
                     pauseBtn.disabled = false;
                     pauseBtn.style.display = 'inline-block';
                     resumeBtn.disabled = true;
@@ -1112,6 +2238,7 @@ export class MessageConsumerWebview {
                 statusText.textContent = 'Stopped';
                 startBtn.disabled = false;
                 startBeginningBtn.disabled = false;
+                startRangeBtn.disabled = false;
                 pauseBtn.disabled = true;
                 pauseBtn.style.display = 'inline-block';
                 resumeBtn.disabled = true;
@@ -1152,14 +2279,12 @@ export class MessageConsumerWebview {
         }
 
         function clearMessagesList() {
-            allMessages = [];
-            const messagesBody = document.getElementById('messagesBody');
-            messagesBody.innerHTML = \`
-                <div class="empty-state">
-                    <div class="empty-state-icon">📭</div>
-                    <div class="empty-state-text">No messages. Cleared.</div>
-                </div>
-            \`;
+            setView({ total: 0, stored: 0, dropped: 0 });
+            rows = new Map();
+            requestedRange = null;
+            closeDetails();
+            document.getElementById('messagesViewport').style.height = '0px';
+            document.getElementById('messagesBody').innerHTML = renderEmptyState(['📭', 'No messages. Cleared.']);
         }
 
         function escapeHtml(text) {
@@ -1,7 +1,31 @@
 import * as vscode from 'vscode';
 import { KafkaClientManager } from '../kafka/kafkaClientManager';
+import { CompressionName, toCompressionType } from '../kafka/compressionCodecs';
 import { Logger } from '../infrastructure/Logger';
 import { CredentialManager } from '../infrastructure/CredentialManager';
+import { SchemaType } from '../services/SchemaRegistryService';
+import {
+    SchemaRegistryClient,
+    SubjectNameStrategy,
+    createSchemaRegistryClient,
+    resolveSubjectName
+} from '../services/SchemaRegistryClient';
+import { ProducerTemplateService } from '../services/ProducerTemplateService';
+import { LoadGenerator, LoadTestOptions, validateLoadTestOptions } from '../services/LoadGenerator';
+import { detectSchemaType, generateSchemaSample } from '../utils/schemaSamples';
+import { TEMPLATE_PLACEHOLDERS, interpolateTemplate } from '../utils/templateInterpolation';
+
+/**
+ * Schema Registry encoding selected in the producer form
+ */
+interface SchemaEncodingOptions {
+    strategy: SubjectNameStrategy;
+    encodeKey: boolean;
+    keyRecordName?: string;
+    valueRecordName?: string;
+    keyVersion?: number | 'latest';
+    valueVersion?: number | 'latest';
+}
 
 interface ProducerMessage {
     key?: string;
@@ -9,7 +33,31 @@ interface ProducerMessage {
     headers?: Record<string, string>;
     partition?: number;
     timestamp?: string;
-    compression?: 'gzip' | 'none';
+    compression?: CompressionName;
+    schema?: SchemaEncodingOptions;
+}
+
+/**
+ * Schemas a message's key and value are encoded with, resolved from the form's subjects and versions
+ */
+interface ResolvedSchemas {
+    client: SchemaRegistryClient;
+    value: ResolvedSchema;
+    key?: ResolvedSchema;
+}
+
+interface ResolvedSchema {
+    subject: string;
+    version: number | 'latest';
+    schemaId: number | string;
+}
+
+/**
+ * Schema a sample payload is generated from
+ */
+interface SampleSchema {
+    schema: string;
+    schemaType: SchemaType;
 }
 
 interface ProducerState {
@@ -31,6 +79,11 @@ export class MessageProducerWebview {
     };
     private clusterName: string = '';
     private topicName: string = '';
+    private schemaClient: SchemaRegistryClient | undefined;
+    private templateService = new ProducerTemplateService();
+    // Sequence number for {{seq}}, counted per producer session
+    private sequence = 0;
+    private loadGenerator: LoadGenerator | undefined;
 
     private constructor(
         clientManager: KafkaClientManager,
@@ -58,6 +111,12 @@ export class MessageProducerWebview {
     }
 
     public async show(clusterName: string, topicName: string) {
+        // A running load test belongs to the topic it was started on
+        if (this.loadGenerator && (clusterName !== this.clusterName || topicName !== this.topicName)) {
+            this.logger.info(`Stopping the load test on ${this.clusterName}/${this.topicName}: producer switched to ${clusterName}/${topicName}`);
+            this.loadGenerator.stop();
+        }
+
         this.clusterName = clusterName;
         this.topicName = topicName;
 
@@ -67,6 +126,14 @@ export class MessageProducerWebview {
             lastMessageTime: null,
             errorCount: 0
         };
+        this.sequence = 0;
+
+        // Offer schema encoding when the cluster has a Schema Registry
+        await this.schemaClient?.disconnect();
+        this.schemaClient = createSchemaRegistryClient(
+            this.clientManager.getClusterConfig(clusterName),
+            this.credentialManager
+        );
 
         if (this.panel) {
             this.panel.reveal(vscode.ViewColumn.One);
@@ -84,6 +151,7 @@ export class MessageProducerWebview {
 
             this.panel.onDidDispose(() => {
                 this.panel = undefined;
+                this.loadGenerator?.stop();
             });
 
             this.panel.webview.onDidReceiveMessage(async (message) => {
@@ -106,22 +174,39 @@ export class MessageProducerWebview {
             case 'loadTemplate':
                 this.loadTemplate(message.template);
                 break;
+            case 'listTemplates':
+                await this.sendWorkspaceTemplates();
+                break;
+            case 'saveTemplate':
+                await this.saveTemplate(message.data);
+                break;
+            case 'loadSchemaVersions':
+                await this.loadSchemaVersions(message.field, message.strategy, message.recordName);
+                break;
+            case 'generateFromSchema':
+                await this.generateFromSchema(message.schema);
+                break;
+            case 'startLoad':
+                await this.startLoadTest(message.data);
+                break;
+            case 'stopLoad':
+                this.loadGenerator?.stop();
+                break;
         }
     }
 
     private async produceMessage(data: ProducerMessage) {
         try {
             this.logger.info(`Producing message to ${this.clusterName}/${this.topicName}`);
+            data = this.expandPlaceholders(data);
 
             // SEC-3.1-4: Validate message against schema if available
-            await this.validateMessageSchema(data.value);
+            // Encoding with a schema validates the payload itself
+            if (!data.schema) {
+                await this.validateMessageSchema(data.value);
+            }
 
-            const messages = [{
-                key: data.key || undefined,
-                value: data.value,
-                headers: data.headers || undefined,
-                partition: data.partition !== undefined && data.partition >= 0 ? data.partition : undefined
-            }];
+            const messages = [await this.buildMessage(data)];
 
             await this.clientManager.produceAdvancedMessages(this.clusterName, this.topicName, messages, data.compression);
 
@@ -151,12 +236,10 @@ export class MessageProducerWebview {
         try {
             this.logger.info(`Producing batch of ${data.messages.length} messages to ${this.clusterName}/${this.topicName}`);
 
-            const messages = data.messages.map(msg => ({
-                key: msg.key || undefined,
-                value: msg.value,
-                headers: msg.headers || undefined,
-                partition: msg.partition !== undefined && msg.partition >= 0 ? msg.partition : undefined
-            }));
+            // Placeholders are expanded per message, so every message gets its own {{seq}}, {{uuid}}, ...
+            const messages = await Promise.all(
+                data.messages.map(msg => this.buildMessage(this.expandPlaceholders(msg)))
+            );
 
             // Use compression from first message if specified
             const compression = data.messages[0]?.compression;
@@ -184,35 +267,349 @@ export class MessageProducerWebview {
         }
     }
 
+    /**
+     * Send the form message repeatedly at a target rate, streaming progress to the webview
+     * Sends bypass produceAdvancedMessages so that every message is not logged
+     */
+    private async startLoadTest(data: { message: ProducerMessage; options: LoadTestOptions }) {
+        if (this.loadGenerator) {
+            this.panel?.webview.postMessage({ command: 'loadError', error: 'A load test is already running' });
+            return;
+        }
+
+        const invalid = validateLoadTestOptions(data.options);
+        if (invalid) {
+            this.panel?.webview.postMessage({ command: 'loadError', error: invalid });
+            return;
+        }
+
+        // The run keeps its cluster and topic even if the producer is switched to another topic meanwhile
+        const clusterName = this.clusterName;
+        const topic = this.topicName;
+        try {
+            // Resolve schema IDs once, so the run does not measure registry lookups
+            const schemas = data.message.schema ? await this.resolveSchemas(data.message, topic) : undefined;
+
+            // Build one message up front to catch payload errors before the run
+            const sample = this.expandPlaceholders(data.message);
+            if (!sample.schema) {
+                await this.validateMessageSchema(sample.value);
+            }
+            await this.buildMessage(sample, schemas);
+
+            const producer = await this.clientManager.getProducerClient(clusterName);
+            const compression = toCompressionType(data.message.compression);
+
+            const generator = new LoadGenerator(
+                data.options,
+                async (_seq, markSent) => {
+                    const message = await this.buildMessage(this.expandPlaceholders(data.message), schemas);
+                    markSent();
+                    await producer.send({ topic, compression, messages: [message] });
+                },
+                (snapshot) => this.panel?.webview.postMessage({ command: 'loadProgress', snapshot })
+            );
+            this.loadGenerator = generator;
+
+            const { ratePerSecond, durationSeconds, totalMessages, concurrency } = data.options;
+            this.logger.info(
+                `Starting load test on ${clusterName}/${topic}: ${ratePerSecond} msg/s, ` +
+                `duration ${durationSeconds ?? '-'}s, total ${totalMessages ?? '-'}, concurrency ${concurrency}`
+            );
+            this.panel?.webview.postMessage({ command: 'loadStarted' });
+
+            const summary = await generator.run();
+
+            if (clusterName === this.clusterName && topic === this.topicName) {
+                this.producerState.messageCount += summary.sent;
+                this.producerState.errorCount += summary.errors;
+                this.producerState.lastMessageTime = Date.now();
+                this.updateStatus();
+            }
+
+            this.logger.info(
+                `Load test on ${clusterName}/${topic} finished: ${summary.sent} sent, ${summary.errors} errors, ` +
+                `${summary.averageThroughput.toFixed(1)} msg/s, p99 ${summary.latency.p99.toFixed(1)} ms`
+            );
+            this.panel?.webview.postMessage({ command: 'loadComplete', summary });
+        } catch (error: any) {
+            this.logger.error('Load test failed', error);
+            this.panel?.webview.postMessage({ command: 'loadError', error: error.message });
+        } finally {
+            this.loadGenerator = undefined;
+        }
+    }
+
+    /**
+     * Expand template placeholders in key, value and header values for one message
+     */
+    private expandPlaceholders(data: ProducerMessage): ProducerMessage {
+        const context = { seq: ++this.sequence };
+        return {
+            ...data,
+            key: data.key !== undefined ? interpolateTemplate(data.key, context) : undefined,
+            value: interpolateTemplate(data.value, context),
+            headers: data.headers
+                ? Object.fromEntries(Object.entries(data.headers).map(([k, v]) => [k, interpolateTemplate(v, context)]))
+                : undefined
+        };
+    }
+
+    /**
+     * Send the workspace templates that apply to this topic to the webview
+     */
+    private async sendWorkspaceTemplates() {
+        try {
+            const templates = await this.templateService.listTemplates(this.topicName);
+            this.panel?.webview.postMessage({
+                command: 'workspaceTemplates',
+                templates: templates.map(({ uri: _uri, ...template }) => template)
+            });
+        } catch (error: any) {
+            this.logger.warn(`Failed to load workspace templates: ${error.message}`);
+        }
+    }
+
+    /**
+     * Save the message currently in the form as a workspace template
+     */
+    private async saveTemplate(data: ProducerMessage) {
+        try {
+            const name = await vscode.window.showInputBox({
+                prompt: 'Template name',
+                placeHolder: 'e.g. Order created',
+                validateInput: (value) => value.trim() ? undefined : 'Template name is required'
+            });
+            if (!name) {
+                return;
+            }
+
+            const topicPattern = await vscode.window.showInputBox({
+                prompt: 'Topics this template applies to (* and ? wildcards, empty for all topics)',
+                value: this.topicName
+            });
+            if (topicPattern === undefined) {
+                return;
+            }
+
+            if (await this.templateService.templateExists(name)) {
+                const overwrite = await vscode.window.showWarningMessage(
+                    `A template named "${name}" already exists. Overwrite it?`,
+                    { modal: true },
+                    'Overwrite'
+                );
+                if (overwrite !== 'Overwrite') {
+                    return;
+                }
+            }
+
+            const uri = await this.templateService.saveTemplate({
+                name: name.trim(),
+                key: data.key || undefined,
+                value: data.value,
+                headers: data.headers,
+                partition: data.partition,
+                topicPattern: topicPattern.trim() || undefined
+            });
+
+            vscode.window.showInformationMessage(`✓ Template "${name.trim()}" saved to ${vscode.workspace.asRelativePath(uri)}`);
+            await this.sendWorkspaceTemplates();
+        } catch (error: any) {
+            this.logger.error('Failed to save producer template', error);
+            this.panel?.webview.postMessage({
+                command: 'produceError',
+                error: `Could not save template: ${error.message}`
+            });
+        }
+    }
+
+    /**
+     * Convert a form message into a Kafka message, encoding key and value with the registry if requested
+     * @param schemas - Schemas resolved beforehand; otherwise they are resolved for this topic
+     */
+    private async buildMessage(data: ProducerMessage, schemas?: ResolvedSchemas) {
+        let key: string | Buffer | undefined = data.key || undefined;
+        let value: string | Buffer = data.value;
+
+        if (data.schema) {
+            const resolved = schemas ?? await this.resolveSchemas(data, this.topicName);
+            value = await this.encodeWithSchema(resolved.client, 'value', resolved.value, data.value);
+
+            if (resolved.key && data.key) {
+                key = await this.encodeWithSchema(resolved.client, 'key', resolved.key, data.key);
+            }
+        }
+
+        return {
+            key,
+            value,
+            headers: data.headers || undefined,
+            partition: data.partition !== undefined && data.partition >= 0 ? data.partition : undefined
+        };
+    }
+
+    /**
+     * Resolve the subjects and versions selected in the form to schema IDs
+     * The key is only resolved when the message has one to encode
+     */
+    private async resolveSchemas(data: ProducerMessage, topic: string): Promise<ResolvedSchemas> {
+        const client = this.schemaClient;
+        const options = data.schema!;
+        if (!client) {
+            throw new Error('No Schema Registry configured for this cluster');
+        }
+
+        const resolve = async (field: 'key' | 'value', recordName?: string, version: number | 'latest' = 'latest') => {
+            const subject = resolveSubjectName(options.strategy, topic, field, recordName);
+            try {
+                return { subject, version, schemaId: await client.resolveSchemaId(subject, version) };
+            } catch (error: any) {
+                throw new Error(`Failed to encode ${field} with subject "${subject}" (version ${version}): ${error.message}`);
+            }
+        };
+
+        return {
+            client,
+            value: await resolve('value', options.valueRecordName, options.valueVersion),
+            key: options.encodeKey && data.key ? await resolve('key', options.keyRecordName, options.keyVersion) : undefined
+        };
+    }
+
+    /**
+     * Encode a key or value entered as JSON with a resolved schema
+     */
+    private async encodeWithSchema(
+        client: SchemaRegistryClient,
+        field: 'key' | 'value',
+        schema: ResolvedSchema,
+        text: string
+    ): Promise<Buffer> {
+        try {
+            return await client.encodeWithSchemaId(schema.schemaId, parseSchemaPayload(text));
+        } catch (error: any) {
+            throw new Error(`Failed to encode ${field} with subject "${schema.subject}" (version ${schema.version}): ${error.message}`);
+        }
+    }
+
+    /**
+     * Send the versions of the subject a key or value would be encoded with to the webview
+     */
+    private async loadSchemaVersions(field: 'key' | 'value', strategy: SubjectNameStrategy, recordName?: string) {
+        let subject: string | undefined;
+        try {
+            if (!this.schemaClient) {
+                throw new Error('No Schema Registry configured for this cluster');
+            }
+            subject = resolveSubjectName(strategy, this.topicName, field, recordName);
+            const versions = await this.schemaClient.getSchemaVersions(subject);
+
+            this.panel?.webview.postMessage({ command: 'schemaVersions', field, subject, versions });
+        } catch (error: any) {
+            this.logger.debug(`Could not load schema versions for ${field}: ${error.message}`);
+            this.panel?.webview.postMessage({
+                command: 'schemaVersions',
+                field,
+                subject,
+                versions: [],
+                error: error?.status === 404 ? `Subject "${subject}" not found` : error.message
+            });
+        }
+    }
+
+    /**
+     * Fill the form with a random payload generated from the topic's registered schema or a local schema file
+     * Uses the subjects and versions selected for schema encoding, if enabled
+     */
+    private async generateFromSchema(options?: SchemaEncodingOptions) {
+        try {
+            const registered = 'Registered schema';
+            let source = registered;
+            if (this.schemaClient) {
+                const valueSubject = resolveSubjectName(options?.strategy || 'TopicName', this.topicName, 'value', options?.valueRecordName);
+                const pick = await vscode.window.showQuickPick(
+                    [
+                        { label: registered, description: `${valueSubject} (${options?.valueVersion || 'latest'})` },
+                        { label: 'Local schema file...', description: '.avsc, .proto or JSON Schema' }
+                    ],
+                    { placeHolder: 'Generate a sample payload from' }
+                );
+                if (!pick) {
+                    return;
+                }
+                source = pick.label;
+            } else {
+                source = 'Local schema file...';
+            }
+
+            let value: SampleSchema | undefined;
+            let key: SampleSchema | undefined;
+            if (source === registered) {
+                value = await this.getRegisteredSampleSchema('value', options);
+                if (options?.encodeKey) {
+                    // The key schema is optional: fall back to leaving the key alone
+                    key = await this.getRegisteredSampleSchema('key', options).catch((error) => {
+                        this.logger.debug(`No key schema to generate from: ${error.message}`);
+                        return undefined;
+                    });
+                }
+            } else {
+                const files = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    openLabel: 'Generate Sample',
+                    filters: { 'Schemas': ['avsc', 'proto', 'json'] }
+                });
+                if (!files || files.length === 0) {
+                    return;
+                }
+                const content = Buffer.from(await vscode.workspace.fs.readFile(files[0])).toString('utf8');
+                value = { schema: content, schemaType: detectSchemaType(files[0].fsPath, content) };
+                source = files[0].fsPath;
+            }
+
+            const sample = generateSchemaSample(value.schema, value.schemaType);
+            const keySample = key ? generateSchemaSample(key.schema, key.schemaType) : undefined;
+
+            this.panel?.webview.postMessage({
+                command: 'generatedPayload',
+                value: JSON.stringify(sample, null, 2),
+                key: keySample === undefined ? undefined : typeof keySample === 'string' ? keySample : JSON.stringify(keySample),
+                source: `${value.schemaType} schema from ${source === registered ? 'Schema Registry' : source}`
+            });
+        } catch (error: any) {
+            this.logger.error('Failed to generate sample payload', error);
+            this.panel?.webview.postMessage({
+                command: 'produceError',
+                error: `Could not generate a sample payload: ${error.message}`
+            });
+        }
+    }
+
+    private async getRegisteredSampleSchema(field: 'key' | 'value', options?: SchemaEncodingOptions): Promise<SampleSchema> {
+        const subject = resolveSubjectName(
+            options?.strategy || 'TopicName',
+            this.topicName,
+            field,
+            field === 'key' ? options?.keyRecordName : options?.valueRecordName
+        );
+        const schema = await this.schemaClient!.getSchemaVersion(
+            subject,
+            (field === 'key' ? options?.keyVersion : options?.valueVersion) || 'latest'
+        );
+        return { schema: schema.schema, schemaType: schema.schemaType || 'AVRO' };
+    }
+
     /**
      * Validate message against schema if Schema Registry is configured
      * SEC-3.1-4: Schema validation before producing
      */
     private async validateMessageSchema(messageValue: string): Promise<void> {
         try {
-            // Get cluster configuration to check for Schema Registry settings
-            const clusterConfig = this.clientManager.getClusterConfig(this.clusterName);
-            const schemaRegistryUrl = clusterConfig?.schemaRegistryUrl;
-            
-            if (!schemaRegistryUrl) {
+            const schemaService = this.schemaClient;
+            if (!schemaService) {
                 // No schema registry configured for this cluster, skip validation
                 return;
             }
 
-            // Import dynamically to avoid circular dependencies
-            const { SchemaRegistryService } = await import('../services/SchemaRegistryService');
-
-            // Use injected credentialManager
-            const schemaService = new SchemaRegistryService(
-                {
-                    url: schemaRegistryUrl,
-                    username: clusterConfig.schemaRegistryApiKey,
-                    password: clusterConfig.schemaRegistryApiSecret
-                },
-                this.credentialManager,
-                this.clusterName
-            );
-
             // Check if schema registry is available
             const isAvailable = await schemaService.isAvailable();
             if (!isAvailable) {
@@ -220,8 +617,8 @@ export class MessageProducerWebview {
                 return;
             }
 
-            // Try to validate against value subject
-            const valueSubject = `${this.topicName}-value`;
+            // Try to validate against value subject (Glue schemas are named after the topic)
+            const valueSubject = schemaService.registryType === 'aws-glue' ? this.topicName : `${this.topicName}-value`;
             try {
                 // Parse message value to validate it's valid JSON
                 const payload = JSON.parse(messageValue);
@@ -343,6 +740,48 @@ export class MessageProducerWebview {
         });
     }
 
+    /**
+     * Schema encoding controls, only rendered when the cluster has a Schema Registry
+     */
+    private getSchemaSectionHtml(): string {
+        if (!this.schemaClient) {
+            return '';
+        }
+
+        const registryLabel = this.schemaClient.registryType === 'aws-glue' ? 'AWS Glue Schema Registry' : 'Schema Registry';
+        return `<div class="form-section">
+        <div class="section-title">🧬 Schema Encoding (Optional)</div>
+        <div class="form-group">
+            <label><input type="checkbox" id="schemaEnabled" onchange="toggleSchemaEncoding()"> Encode with ${registryLabel}</label>
+            <div class="help-text">Enter key and value as JSON; they are serialized with the selected schema version (Avro, Protobuf or JSON Schema)</div>
+        </div>
+        <div id="schemaOptions" style="display: none;">
+            <div class="form-group">
+                <label for="subjectStrategy">Subject Naming Strategy</label>
+                <select id="subjectStrategy" onchange="refreshSchemaVersions()">
+                    <option value="TopicName">TopicName (&lt;topic&gt;-key / &lt;topic&gt;-value)</option>
+                    <option value="RecordName">RecordName (&lt;record name&gt;)</option>
+                    <option value="TopicRecordName">TopicRecordName (&lt;topic&gt;-&lt;record name&gt;)</option>
+                </select>
+            </div>
+            <div class="schema-grid">
+                <div class="form-group">
+                    <label><input type="checkbox" id="encodeKey" onchange="refreshSchemaVersions('key')"> Encode key</label>
+                    <input type="text" id="keyRecordName" placeholder="Key record name, e.g. com.example.OrderKey" style="display: none;" onchange="refreshSchemaVersions('key')">
+                    <select id="keyVersion" style="display: none;"><option value="latest">latest</option></select>
+                    <div class="help-text" id="keySubject"></div>
+                </div>
+                <div class="form-group">
+                    <label>Value</label>
+                    <input type="text" id="valueRecordName" placeholder="Value record name, e.g. com.example.Order" style="display: none;" onchange="refreshSchemaVersions('value')">
+                    <select id="valueVersion"><option value="latest">latest</option></select>
+                    <div class="help-text" id="valueSubject"></div>
+                </div>
+            </div>
+        </div>
+    </div>`;
+    }
+
     private getHtmlContent(): string {
         return `<!DOCTYPE html>
 <html lang="en">
@@ -350,6 +789,7 @@ export class MessageProducerWebview {
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Kafka Message Producer</title>
+    <script src="https://cdn.jsdelivr.net/npm/chart.js@4.4.0/dist/chart.umd.min.js"></script>
     <style>
         * {
             margin: 0;
@@ -525,6 +965,40 @@ export class MessageProducerWebview {
             flex-wrap: wrap;
         }
 
+        .workspace-templates {
+            margin-top: 10px;
+            align-items: center;
+        }
+
+        .load-grid {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
+            gap: 10px;
+        }
+
+        .load-charts {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(300px, 1fr));
+            gap: 15px;
+            margin-top: 15px;
+        }
+
+        .chart-container {
+            position: relative;
+            height: 200px;
+        }
+
+        .load-summary table {
+            width: 100%;
+            margin-top: 15px;
+            border-collapse: collapse;
+        }
+
+        .load-summary td {
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
         .template-btn {
             padding: 6px 12px;
             font-size: 12px;
@@ -543,6 +1017,17 @@ export class MessageProducerWebview {
             border-radius: 3px;
         }
 
+        .schema-grid {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 15px;
+        }
+
+        .schema-grid input[type="text"],
+        .schema-grid select {
+            margin-top: 6px;
+        }
+
         .divider {
             height: 1px;
             background-color: var(--vscode-panel-border);
@@ -580,6 +1065,13 @@ export class MessageProducerWebview {
             <button class="btn template-btn" onclick="loadTemplate('order')">Order</button>
             <button class="btn template-btn" onclick="loadTemplate('iot-telemetry')">IoT Telemetry</button>
             <button class="btn template-btn" onclick="loadTemplate('avro-user')">Avro User</button>
+            <button class="btn template-btn" onclick="generateFromSchema()">🧬 Generate from Schema</button>
+        </div>
+        <div class="templates workspace-templates">
+            <span class="help-text">Workspace (.kafka/templates):</span>
+            <span id="workspaceTemplates" class="templates"><span class="help-text">none</span></span>
+            <button class="btn template-btn" onclick="listTemplates()" title="Reload workspace templates">↻</button>
+            <button class="btn template-btn" onclick="saveTemplate()">💾 Save as Template</button>
         </div>
     </div>
 
@@ -597,10 +1089,12 @@ export class MessageProducerWebview {
         <div class="section-title">📄 Message Value *</div>
         <div class="form-group">
             <textarea id="messageValue" placeholder='{"message": "Hello, Kafka!"}'></textarea>
-            <div class="help-text">Enter your message payload (JSON, text, or any format)</div>
+            <div class="help-text">Enter your message payload (JSON, text, or any format). Placeholders ${TEMPLATE_PLACEHOLDERS.map(p => `<code>${p}</code>`).join(' ')} are expanded in key, value and headers on every send</div>
         </div>
     </div>
 
+${this.getSchemaSectionHtml()}
+
     <div class="form-section">
         <div class="section-title">🏷️ Headers (Optional)</div>
         <div id="headersContainer"></div>
@@ -622,8 +1116,19 @@ export class MessageProducerWebview {
             <select id="compression">
                 <option value="none">No Compression</option>
                 <option value="gzip">GZIP</option>
+                <option value="snappy">Snappy</option>
+                <option value="lz4">LZ4</option>
+                <option value="zstd">Zstandard</option>
             </select>
-            <div class="help-text">Compress messages before sending (GZIP reduces bandwidth)</div>
+            <div class="help-text">Compress each batch before sending; consumers need the same codec (the Java client supports all of them)</div>
+        </div>
+    </div>
+
+    <div class="form-section">
+        <div class="section-title">🔁 Messages to Send</div>
+        <div class="form-group">
+            <input type="number" id="sendCount" value="1" min="1" max="10000">
+            <div class="help-text">Send the message this many times in one batch; placeholders are expanded for each message</div>
         </div>
     </div>
 
@@ -632,6 +1137,39 @@ export class MessageProducerWebview {
         <button class="btn" onclick="clearForm()">🗑️ Clear</button>
     </div>
 
+    <div class="form-section">
+        <div class="section-title">🚀 Load Test</div>
+        <div class="help-text">Send the message above at a steady rate to smoke-test partitions and quotas; placeholders are expanded for each message</div>
+        <div class="load-grid">
+            <div class="form-group">
+                <label for="loadRate">Rate (msgs/s)</label>
+                <input type="number" id="loadRate" value="100" min="1" max="100000">
+            </div>
+            <div class="form-group">
+                <label for="loadDuration">Duration (s)</label>
+                <input type="number" id="loadDuration" value="30" min="1" max="3600" placeholder="Unlimited">
+            </div>
+            <div class="form-group">
+                <label for="loadTotal">Total messages</label>
+                <input type="number" id="loadTotal" min="1" placeholder="Unlimited">
+            </div>
+            <div class="form-group">
+                <label for="loadConcurrency">Concurrency</label>
+                <input type="number" id="loadConcurrency" value="10" min="1" max="1000">
+            </div>
+        </div>
+        <div class="btn-group">
+            <button class="btn btn-primary" id="startLoadBtn" onclick="startLoadTest()">▶️ Start Load Test</button>
+            <button class="btn" id="stopLoadBtn" onclick="stopLoadTest()" disabled>⏹️ Stop</button>
+        </div>
+        <div id="loadStats" class="help-text"></div>
+        <div class="load-charts" id="loadCharts" style="display: none;">
+            <div class="chart-container"><canvas id="throughputChart"></canvas></div>
+            <div class="chart-container"><canvas id="latencyChart"></canvas></div>
+        </div>
+        <div id="loadSummary" class="load-summary"></div>
+    </div>
+
     <script>
         const vscode = acquireVsCodeApi();
 
@@ -650,10 +1188,32 @@ export class MessageProducerWebview {
                 case 'loadTemplate':
                     loadTemplateData(message.template);
                     break;
+                case 'schemaVersions':
+                    updateSchemaVersions(message);
+                    break;
+                case 'generatedPayload':
+                    loadGeneratedPayload(message);
+                    break;
+                case 'workspaceTemplates':
+                    renderWorkspaceTemplates(message.templates);
+                    break;
+                case 'loadStarted':
+                    onLoadStarted();
+                    break;
+                case 'loadProgress':
+                    onLoadProgress(message.snapshot);
+                    break;
+                case 'loadComplete':
+                    onLoadComplete(message.summary);
+                    break;
+                case 'loadError':
+                    setLoadRunning(false);
+                    showAlert('error', 'Load test: ' + message.error);
+                    break;
             }
         });
 
-        function produceMessage() {
+        function collectMessage() {
             const key = document.getElementById('messageKey').value.trim();
             const value = document.getElementById('messageValue').value.trim();
             const partition = document.getElementById('partition').value;
@@ -661,7 +1221,7 @@ export class MessageProducerWebview {
 
             if (!value) {
                 showAlert('error', 'Message value is required');
-                return;
+                return undefined;
             }
 
             // Collect headers
@@ -675,21 +1235,287 @@ export class MessageProducerWebview {
                 }
             });
 
-            const data = {
+            return {
                 key: key || undefined,
                 value,
                 headers: Object.keys(headers).length > 0 ? headers : undefined,
                 partition: partition ? parseInt(partition) : undefined,
-                compression: compression !== 'none' ? compression : undefined
+                compression: compression !== 'none' ? compression : undefined,
+                schema: collectSchemaOptions()
+            };
+        }
+
+        function produceMessage() {
+            const data = collectMessage();
+            if (!data) {
+                return;
+            }
+
+            const count = parseInt(document.getElementById('sendCount').value) || 1;
+            if (count < 1 || count > 10000) {
+                showAlert('error', 'Messages to send must be between 1 and 10000');
+                return;
+            }
+
+            if (count > 1) {
+                vscode.postMessage({ command: 'produceBatch', data: { messages: Array.from({ length: count }, () => data) } });
+            } else {
+                vscode.postMessage({ command: 'produce', data });
+            }
+        }
+
+        let throughputChart;
+        let latencyChart;
+
+        function optionalNumber(id) {
+            const value = document.getElementById(id).value;
+            return value ? Number(value) : undefined;
+        }
+
+        function startLoadTest() {
+            const message = collectMessage();
+            if (!message) {
+                return;
+            }
+
+            vscode.postMessage({
+                command: 'startLoad',
+                data: {
+                    message,
+                    options: {
+                        ratePerSecond: Number(document.getElementById('loadRate').value),
+                        durationSeconds: optionalNumber('loadDuration'),
+                        totalMessages: optionalNumber('loadTotal'),
+                        concurrency: Number(document.getElementById('loadConcurrency').value)
+                    }
+                }
+            });
+            setLoadRunning(true);
+        }
+
+        function stopLoadTest() {
+            vscode.postMessage({ command: 'stopLoad' });
+        }
+
+        function setLoadRunning(running) {
+            document.getElementById('startLoadBtn').disabled = running;
+            document.getElementById('stopLoadBtn').disabled = !running;
+        }
+
+        function createLineChart(canvasId, datasets, yTitle) {
+            return new Chart(document.getElementById(canvasId), {
+                type: 'line',
+                data: { labels: [], datasets: datasets.map(label => ({ label, data: [], pointRadius: 0, tension: 0.2 })) },
+                options: {
+                    animation: false,
+                    maintainAspectRatio: false,
+                    scales: {
+                        x: { title: { display: true, text: 'seconds' } },
+                        y: { beginAtZero: true, title: { display: true, text: yTitle } }
+                    }
+                }
+            });
+        }
+
+        function onLoadStarted() {
+            document.getElementById('loadSummary').innerHTML = '';
+            document.getElementById('loadStats').textContent = 'Starting...';
+            if (typeof Chart === 'undefined') {
+                // Chart.js could not be loaded (offline); the text stats still update
+                return;
+            }
+
+            const style = getComputedStyle(document.body);
+            Chart.defaults.color = style.getPropertyValue('--vscode-foreground');
+            Chart.defaults.borderColor = style.getPropertyValue('--vscode-panel-border');
+            throughputChart?.destroy();
+            latencyChart?.destroy();
+            document.getElementById('loadCharts').style.display = 'grid';
+            throughputChart = createLineChart('throughputChart', ['msgs/s', 'errors/s'], 'messages/s');
+            latencyChart = createLineChart('latencyChart', ['p50', 'p95', 'p99'], 'ack latency (ms)');
+        }
+
+        function onLoadProgress(snapshot) {
+            const seconds = (snapshot.elapsedMs / 1000).toFixed(0);
+            document.getElementById('loadStats').textContent =
+                \`\${seconds}s · \${snapshot.sent} sent · \${snapshot.errors} errors · \${snapshot.inFlight} in flight · \` +
+                \`\${snapshot.throughput.toFixed(0)} msgs/s · p99 \${snapshot.p99.toFixed(1)} ms\`;
+
+            if (throughputChart) {
+                throughputChart.data.labels.push(seconds);
+                throughputChart.data.datasets[0].data.push(snapshot.throughput);
+                throughputChart.data.datasets[1].data.push(snapshot.errorRate);
+                throughputChart.update();
+            }
+            if (latencyChart) {
+                latencyChart.data.labels.push(seconds);
+                latencyChart.data.datasets[0].data.push(snapshot.p50);
+                latencyChart.data.datasets[1].data.push(snapshot.p95);
+                latencyChart.data.datasets[2].data.push(snapshot.p99);
+                latencyChart.update();
+            }
+        }
+
+        function onLoadComplete(summary) {
+            setLoadRunning(false);
+            const ms = value => value.toFixed(1) + ' ms';
+            const rows = [
+                ['Result', summary.stoppedEarly ? 'Stopped early' : 'Completed'],
+                ['Duration', (summary.durationMs / 1000).toFixed(1) + ' s'],
+                ['Messages sent', summary.sent],
+                ['Errors', summary.errors],
+                ['Throughput', summary.averageThroughput.toFixed(1) + ' msgs/s (target ' + summary.options.ratePerSecond + ')'],
+                ['Latency min / mean / max', ms(summary.latency.min) + ' / ' + ms(summary.latency.mean) + ' / ' + ms(summary.latency.max)],
+                ['Latency p50 / p95 / p99', ms(summary.latency.p50) + ' / ' + ms(summary.latency.p95) + ' / ' + ms(summary.latency.p99)]
+            ].concat(summary.topErrors.map(error => ['Error (' + error.count + 'x)', error.message]));
+
+            document.getElementById('loadSummary').innerHTML =
+                '<table>' + rows.map(([label, value]) =>
+                    '<tr><td>' + escapeHtml(label) + '</td><td>' + escapeHtml(String(value)) + '</td></tr>'
+                ).join('') + '</table>';
+            showAlert(summary.errors > 0 ? 'error' : 'success',
+                \`Load test finished: \${summary.sent} sent, \${summary.errors} errors\`);
+        }
+
+        let workspaceTemplates = [];
+
+        function listTemplates() {
+            vscode.postMessage({ command: 'listTemplates' });
+        }
+
+        function renderWorkspaceTemplates(templates) {
+            workspaceTemplates = templates;
+            const container = document.getElementById('workspaceTemplates');
+            if (templates.length === 0) {
+                container.innerHTML = '<span class="help-text">none</span>';
+                return;
+            }
+            container.innerHTML = templates.map((template, index) =>
+                \`<button class="btn template-btn" title="\${escapeHtml(template.description || template.topicPattern || '')}" onclick="loadWorkspaceTemplate(\${index})">\${escapeHtml(template.name)}</button>\`
+            ).join('');
+        }
+
+        function loadWorkspaceTemplate(index) {
+            loadTemplateData(workspaceTemplates[index]);
+        }
+
+        function saveTemplate() {
+            const value = document.getElementById('messageValue').value.trim();
+            if (!value) {
+                showAlert('error', 'Message value is required');
+                return;
+            }
+
+            const headers = {};
+            document.querySelectorAll('.header-row').forEach(row => {
+                const keyInput = row.querySelector('.header-key');
+                const valueInput = row.querySelector('.header-value');
+                if (keyInput && valueInput && keyInput.value.trim()) {
+                    headers[keyInput.value.trim()] = valueInput.value.trim();
+                }
+            });
+            const partition = document.getElementById('partition').value;
+
+            vscode.postMessage({
+                command: 'saveTemplate',
+                data: {
+                    key: document.getElementById('messageKey').value.trim() || undefined,
+                    value,
+                    headers: Object.keys(headers).length > 0 ? headers : undefined,
+                    partition: partition ? parseInt(partition) : undefined
+                }
+            });
+        }
+
+        function isSchemaEncodingEnabled() {
+            const checkbox = document.getElementById('schemaEnabled');
+            return !!checkbox && checkbox.checked;
+        }
+
+        function toggleSchemaEncoding() {
+            document.getElementById('schemaOptions').style.display = isSchemaEncodingEnabled() ? 'block' : 'none';
+            if (isSchemaEncodingEnabled()) {
+                refreshSchemaVersions();
+            }
+        }
+
+        function refreshSchemaVersions(field) {
+            if (!isSchemaEncodingEnabled()) {
+                return;
+            }
+
+            const strategy = document.getElementById('subjectStrategy').value;
+            const usesRecordName = strategy !== 'TopicName';
+            const encodeKey = document.getElementById('encodeKey').checked;
+
+            (field ? [field] : ['key', 'value']).forEach(f => {
+                const enabled = f === 'value' || encodeKey;
+                document.getElementById(f + 'RecordName').style.display = enabled && usesRecordName ? 'block' : 'none';
+                document.getElementById(f + 'Version').style.display = enabled ? 'block' : 'none';
+                document.getElementById(f + 'Subject').textContent = '';
+                if (!enabled) {
+                    return;
+                }
+
+                vscode.postMessage({
+                    command: 'loadSchemaVersions',
+                    field: f,
+                    strategy,
+                    recordName: document.getElementById(f + 'RecordName').value.trim() || undefined
+                });
+            });
+        }
+
+        function updateSchemaVersions(message) {
+            const select = document.getElementById(message.field + 'Version');
+            const selected = select.value;
+            select.innerHTML = '<option value="latest">latest</option>' +
+                [...message.versions].reverse().map(v => \`<option value="\${v}">v\${v}</option>\`).join('');
+            if ([...select.options].some(option => option.value === selected)) {
+                select.value = selected;
+            }
+
+            document.getElementById(message.field + 'Subject').textContent = message.error
+                ? '⚠️ ' + message.error
+                : \`Subject: \${message.subject} (\${message.versions.length} version\${message.versions.length === 1 ? '' : 's'})\`;
+        }
+
+        function collectSchemaOptions() {
+            if (!isSchemaEncodingEnabled()) {
+                return undefined;
+            }
+
+            const version = (field) => {
+                const value = document.getElementById(field + 'Version').value;
+                return value === 'latest' ? 'latest' : parseInt(value);
             };
 
-            vscode.postMessage({ command: 'produce', data });
+            return {
+                strategy: document.getElementById('subjectStrategy').value,
+                encodeKey: document.getElementById('encodeKey').checked,
+                keyRecordName: document.getElementById('keyRecordName').value.trim() || undefined,
+                valueRecordName: document.getElementById('valueRecordName').value.trim() || undefined,
+                keyVersion: version('key'),
+                valueVersion: version('value')
+            };
         }
 
         function loadTemplate(templateName) {
             vscode.postMessage({ command: 'loadTemplate', template: templateName });
         }
 
+        function generateFromSchema() {
+            vscode.postMessage({ command: 'generateFromSchema', schema: collectSchemaOptions() });
+        }
+
+        function loadGeneratedPayload(message) {
+            document.getElementById('messageValue').value = message.value;
+            if (message.key !== undefined) {
+                document.getElementById('messageKey').value = message.key;
+            }
+            showAlert('success', 'Generated sample from ' + message.source);
+        }
+
         function loadTemplateData(template) {
             document.getElementById('messageKey').value = template.key || '';
             document.getElementById('messageValue').value = template.value || '';
@@ -769,8 +1595,22 @@ export class MessageProducerWebview {
             div.textContent = text;
             return div.innerHTML;
         }
+
+        listTemplates();
     </script>
 </body>
 </html>`;
     }
 }
+
+/**
+ * Parse a key or value typed in the form for schema encoding
+ * Text that is not JSON is passed through as a string (e.g. for string-typed keys)
+ */
+function parseSchemaPayload(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
@@ -0,0 +1,525 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/Logger';
+import {
+    OffsetResetPlan,
+    OffsetResetPlanEntry,
+    calculateLag,
+    validateResetOffset
+} from '../services/ConsumerGroupService';
+
+/**
+ * Callbacks supplied by the command that opened the preview
+ */
+export interface OffsetResetPreviewHandlers {
+    /**
+     * Commit the reviewed entries
+     * @returns true when the offsets were committed
+     */
+    apply(entries: OffsetResetPlanEntry[]): Promise<boolean>;
+    /** Re-read committed offsets and log bounds */
+    refresh(): Promise<OffsetResetPlan>;
+}
+
+/**
+ * Dry-run preview of a consumer group offset reset
+ * Shows the committed and proposed offset of every partition, allows per-row overrides,
+ * and commits nothing until Apply is clicked
+ */
+export class OffsetResetPreviewWebview {
+    private static instance: OffsetResetPreviewWebview | null = null;
+    private panel: vscode.WebviewPanel | null = null;
+    private logger = Logger.getLogger('OffsetResetPreviewWebview');
+    private plan: OffsetResetPlan | undefined;
+    private handlers: OffsetResetPreviewHandlers | undefined;
+
+    private constructor() {}
+
+    public static getInstance(): OffsetResetPreviewWebview {
+        if (!OffsetResetPreviewWebview.instance) {
+            OffsetResetPreviewWebview.instance = new OffsetResetPreviewWebview();
+        }
+        return OffsetResetPreviewWebview.instance;
+    }
+
+    public show(plan: OffsetResetPlan, handlers: OffsetResetPreviewHandlers): void {
+        this.plan = plan;
+        this.handlers = handlers;
+        this.logger.info(`Previewing offset reset for ${plan.clusterName}/${plan.groupId} (${plan.entries.length} partitions)`);
+
+        if (this.panel) {
+            this.panel.title = `⏮️ Reset Offsets: ${plan.groupId}`;
+            this.panel.reveal(vscode.ViewColumn.One);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'kafkaOffsetResetPreview',
+                `⏮️ Reset Offsets: ${plan.groupId}`,
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    retainContextWhenHidden: true
+                }
+            );
+
+            this.panel.onDidDispose(() => {
+                this.panel = null;
+                this.plan = undefined;
+                this.handlers = undefined;
+            });
+
+            this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message));
+        }
+
+        this.panel.webview.html = this.getHtmlContent(plan);
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        switch (message.command) {
+            case 'apply':
+                await this.apply(message.entries);
+                break;
+            case 'export':
+                await this.exportPlan(message.entries);
+                break;
+            case 'refresh':
+                await this.refresh();
+                break;
+            case 'cancel':
+                this.panel?.dispose();
+                break;
+            default:
+                // SEC-3.7-3: Ignore unknown commands (whitelist approach)
+                this.logger.warn(`Unknown command received: ${message.command}`);
+        }
+    }
+
+    /**
+     * Rebuild plan entries from the webview, keeping only the overridden offset from the client
+     */
+    private mergeOverrides(overrides: Array<{ topic: string; partition: number; proposedOffset: string }>): OffsetResetPlanEntry[] {
+        if (!this.plan) {
+            return [];
+        }
+
+        return this.plan.entries.map(entry => {
+            const override = overrides.find(o => o.topic === entry.topic && o.partition === entry.partition);
+            const proposedOffset = override ? String(override.proposedOffset).trim() : entry.proposedOffset;
+            const error = validateResetOffset(proposedOffset);
+            if (error) {
+                throw new Error(`${entry.topic}[${entry.partition}]: ${error}`);
+            }
+            return { ...entry, proposedOffset, resultingLag: calculateLag(proposedOffset, entry.logEndOffset) };
+        });
+    }
+
+    private async apply(overrides: Array<{ topic: string; partition: number; proposedOffset: string }>): Promise<void> {
+        if (!this.plan || !this.handlers) {
+            return;
+        }
+
+        let entries: OffsetResetPlanEntry[];
+        try {
+            entries = this.mergeOverrides(overrides);
+        } catch (error: any) {
+            this.panel?.webview.postMessage({ command: 'error', error: error.message });
+            return;
+        }
+
+        const topics = new Set(entries.map(entry => entry.topic)).size;
+        const confirm = await vscode.window.showWarningMessage(
+            `Commit new offsets for ${entries.length} partition(s) across ${topics} topic(s) for consumer group "${this.plan.groupId}"?`,
+            { modal: true },
+            'Apply'
+        );
+        if (confirm !== 'Apply') {
+            return;
+        }
+
+        const applied = await this.handlers.apply(entries);
+        if (applied) {
+            this.panel?.webview.postMessage({ command: 'applied', appliedAt: new Date().toISOString() });
+        }
+    }
+
+    private async exportPlan(overrides: Array<{ topic: string; partition: number; proposedOffset: string }>): Promise<void> {
+        if (!this.plan) {
+            return;
+        }
+
+        try {
+            const plan: OffsetResetPlan = { ...this.plan, entries: this.mergeOverrides(overrides) };
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(`${plan.groupId}-offset-reset-${Date.now()}.json`),
+                filters: {
+                    'JSON': ['json'],
+                    'All Files': ['*']
+                }
+            });
+
+            if (uri) {
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(plan, null, 2), 'utf8'));
+                vscode.window.showInformationMessage(`Exported offset reset plan to ${uri.fsPath}`);
+            }
+        } catch (error: any) {
+            this.logger.error('Failed to export offset reset plan', error);
+            this.panel?.webview.postMessage({ command: 'error', error: error.message });
+        }
+    }
+
+    private async refresh(): Promise<void> {
+        if (!this.handlers) {
+            return;
+        }
+
+        try {
+            const plan = await this.handlers.refresh();
+            this.plan = plan;
+            this.panel?.webview.postMessage({ command: 'plan', plan });
+        } catch (error: any) {
+            this.logger.error('Failed to refresh offset reset preview', error);
+            this.panel?.webview.postMessage({ command: 'error', error: error.message });
+        }
+    }
+
+    private getHtmlContent(plan: OffsetResetPlan): string {
+        // SEC-3.7-1: Escape HTML to prevent XSS
+        const escapeHtml = (unsafe: string): string => {
+            return unsafe
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        };
+
+        const strategy = plan.argument ? `${plan.strategy} ${plan.argument}` : plan.strategy;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Reset Offsets: ${escapeHtml(plan.groupId)}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+
+        .header {
+            margin-bottom: 20px;
+            padding-bottom: 15px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .title {
+            font-size: 20px;
+            font-weight: 600;
+        }
+
+        .stats {
+            margin-top: 6px;
+            font-size: 14px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .dry-run {
+            margin-bottom: 15px;
+            padding: 10px 15px;
+            border-left: 4px solid var(--vscode-editorWarning-foreground);
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+
+        .plan-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 20px;
+        }
+
+        .plan-table th {
+            text-align: left;
+            padding: 8px 10px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            border-bottom: 2px solid var(--vscode-panel-border);
+            font-weight: 600;
+            position: sticky;
+            top: 0;
+        }
+
+        .plan-table td {
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            font-family: 'Courier New', monospace;
+        }
+
+        .plan-table tr.changed td {
+            background-color: rgba(255, 165, 0, 0.08);
+        }
+
+        .plan-table input {
+            width: 140px;
+            padding: 3px 6px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 3px;
+            font-family: 'Courier New', monospace;
+        }
+
+        .plan-table input.invalid {
+            border-color: var(--vscode-inputValidation-errorBorder);
+        }
+
+        .warning {
+            color: var(--vscode-editorWarning-foreground);
+            font-family: var(--vscode-font-family);
+            font-size: 11px;
+        }
+
+        .lag-delta-up {
+            color: #ffa500;
+        }
+
+        .lag-delta-down {
+            color: #00c853;
+        }
+
+        .actions {
+            display: flex;
+            gap: 8px;
+        }
+
+        .btn {
+            padding: 6px 14px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+
+        .btn-primary {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+
+        .btn:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+        }
+
+        .alert {
+            margin-bottom: 15px;
+            padding: 10px 15px;
+            border-radius: 3px;
+            display: none;
+        }
+
+        .alert-error {
+            background-color: rgba(220, 53, 69, 0.2);
+            color: #dc3545;
+        }
+
+        .alert-success {
+            background-color: rgba(40, 167, 69, 0.2);
+            color: #28a745;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div class="title">⏮️ Reset Offsets: ${escapeHtml(plan.groupId)}</div>
+        <div class="stats">
+            Cluster ${escapeHtml(plan.clusterName)} · Strategy: ${escapeHtml(strategy)} ·
+            <span id="summary"></span>
+        </div>
+    </div>
+
+    <div class="dry-run" id="dryRun">
+        🔍 <strong>Dry run</strong> — nothing has been committed. Review the proposed offsets, override any row, then click Apply.
+    </div>
+
+    <div id="alert" class="alert"></div>
+
+    <table class="plan-table">
+        <thead>
+            <tr>
+                <th>Topic</th>
+                <th>Partition</th>
+                <th>Committed</th>
+                <th>Proposed</th>
+                <th>Log Start</th>
+                <th>Log End</th>
+                <th>Current Lag</th>
+                <th>Resulting Lag</th>
+            </tr>
+        </thead>
+        <tbody id="planBody"></tbody>
+    </table>
+
+    <div class="actions">
+        <button class="btn btn-primary" id="applyBtn" onclick="applyPlan()">✅ Apply</button>
+        <button class="btn" onclick="exportPlan()">💾 Export JSON</button>
+        <button class="btn" id="refreshBtn" onclick="refreshPlan()">🔄 Refresh</button>
+        <button class="btn" onclick="cancel()">Cancel</button>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let entries = ${JSON.stringify(plan.entries).replace(/</g, '\\u003c')};
+        let applied = false;
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.command) {
+                case 'plan':
+                    entries = message.plan.entries;
+                    applied = false;
+                    document.getElementById('dryRun').style.display = 'block';
+                    render();
+                    showAlert('success', 'Offsets refreshed');
+                    break;
+                case 'applied':
+                    applied = true;
+                    document.getElementById('dryRun').style.display = 'none';
+                    render();
+                    showAlert('success', 'Offsets committed at ' + message.appliedAt);
+                    break;
+                case 'error':
+                    showAlert('error', message.error);
+                    break;
+            }
+        });
+
+        function escapeHtml(unsafe) {
+            return String(unsafe)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        }
+
+        function isValidOffset(value) {
+            return /^\\d+$/.test(String(value).trim());
+        }
+
+        function lagFor(offset, logEnd) {
+            const lag = BigInt(logEnd) - BigInt(offset);
+            return lag > 0n ? lag : 0n;
+        }
+
+        function describeRow(entry) {
+            if (!isValidOffset(entry.proposedOffset)) {
+                return { lag: '-', warning: 'Not a valid offset' };
+            }
+            const offset = BigInt(entry.proposedOffset);
+            let warning = '';
+            if (offset < BigInt(entry.logStartOffset)) {
+                warning = 'Before log start: consumers will fall back to auto.offset.reset';
+            } else if (offset > BigInt(entry.logEndOffset)) {
+                warning = 'Past log end: consumers will fall back to auto.offset.reset';
+            }
+            return { lag: lagFor(entry.proposedOffset, entry.logEndOffset).toString(), warning };
+        }
+
+        function renderSummary() {
+            let current = 0n;
+            let resulting = 0n;
+            entries.forEach(entry => {
+                if (entry.currentOffset !== null) {
+                    current += BigInt(entry.currentLag);
+                }
+                if (isValidOffset(entry.proposedOffset)) {
+                    resulting += lagFor(entry.proposedOffset, entry.logEndOffset);
+                }
+            });
+            const topics = new Set(entries.map(entry => entry.topic)).size;
+            document.getElementById('summary').textContent =
+                \`\${entries.length} partitions in \${topics} topics · total lag \${current} → \${resulting}\`;
+        }
+
+        function render() {
+            document.getElementById('planBody').innerHTML = entries.map((entry, index) => {
+                const row = describeRow(entry);
+                const changed = entry.currentOffset !== entry.proposedOffset;
+                const delta = entry.currentLag === null || row.lag === '-'
+                    ? ''
+                    : (BigInt(row.lag) > BigInt(entry.currentLag) ? 'lag-delta-up' : BigInt(row.lag) < BigInt(entry.currentLag) ? 'lag-delta-down' : '');
+                return \`
+                    <tr class="\${changed ? 'changed' : ''}">
+                        <td>\${escapeHtml(entry.topic)}</td>
+                        <td>\${entry.partition}</td>
+                        <td>\${entry.currentOffset === null ? '<em>none</em>' : escapeHtml(entry.currentOffset)}</td>
+                        <td>
+                            <input type="text" value="\${escapeHtml(entry.proposedOffset)}" data-index="\${index}"
+                                class="\${isValidOffset(entry.proposedOffset) ? '' : 'invalid'}"
+                                onchange="overrideOffset(this)" \${applied ? 'disabled' : ''}>
+                            \${row.warning ? \`<div class="warning">⚠️ \${escapeHtml(row.warning)}</div>\` : ''}
+                        </td>
+                        <td>\${escapeHtml(entry.logStartOffset)}</td>
+                        <td>\${escapeHtml(entry.logEndOffset)}</td>
+                        <td>\${entry.currentLag === null ? '-' : entry.currentLag}</td>
+                        <td class="\${delta}">\${row.lag}</td>
+                    </tr>
+                \`;
+            }).join('');
+
+            document.getElementById('applyBtn').disabled = applied || entries.some(entry => !isValidOffset(entry.proposedOffset));
+            renderSummary();
+        }
+
+        function overrideOffset(input) {
+            entries[Number(input.dataset.index)].proposedOffset = input.value.trim();
+            render();
+        }
+
+        function planOverrides() {
+            return entries.map(entry => ({
+                topic: entry.topic,
+                partition: entry.partition,
+                proposedOffset: entry.proposedOffset
+            }));
+        }
+
+        function applyPlan() {
+            vscode.postMessage({ command: 'apply', entries: planOverrides() });
+        }
+
+        function exportPlan() {
+            vscode.postMessage({ command: 'export', entries: planOverrides() });
+        }
+
+        function refreshPlan() {
+            vscode.postMessage({ command: 'refresh' });
+        }
+
+        function cancel() {
+            vscode.postMessage({ command: 'cancel' });
+        }
+
+        function showAlert(type, message) {
+            const alert = document.getElementById('alert');
+            alert.className = 'alert alert-' + type;
+            alert.textContent = message;
+            alert.style.display = 'block';
+        }
+
+        render();
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        if (OffsetResetPreviewWebview.instance?.panel) {
+            OffsetResetPreviewWebview.instance.panel.dispose();
+        }
+        OffsetResetPreviewWebview.instance = null;
+    }
+}
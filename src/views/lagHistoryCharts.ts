@@ -0,0 +1,161 @@
+import { GroupLagPoint, LagTrend, LagTrendStatus } from '../services/LagHistoryStore';
+
+export const LAG_TREND_LABELS: Record<LagTrendStatus, string> = {
+    'unknown': 'Not enough history',
+    'caught-up': 'Caught up',
+    'catching-up': 'Catching up',
+    'falling-behind': 'Falling behind',
+    'stuck': 'Stuck'
+};
+
+export const LAG_TREND_BADGES: Record<LagTrendStatus, 'success' | 'warning' | 'danger' | 'info'> = {
+    'unknown': 'info',
+    'caught-up': 'success',
+    'catching-up': 'info',
+    'falling-behind': 'warning',
+    'stuck': 'danger'
+};
+
+const PRODUCE_COLOR = '#ff9800';
+const CONSUME_COLOR = '#4caf50';
+const LAG_COLOR = 'var(--vscode-textLink-foreground, #3794ff)';
+
+/**
+ * Format a drain estimate, e.g. "45s", "12m", "3h 5m", "2d 4h"
+ */
+export function formatDrainTime(seconds: number): string {
+    if (!Number.isFinite(seconds)) {
+        return 'never';
+    }
+    if (seconds < 60) {
+        return `${Math.max(1, Math.round(seconds))}s`;
+    }
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) {
+        return `${minutes}m`;
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) {
+        return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+    }
+    const days = Math.floor(hours / 24);
+    return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+/**
+ * Format a rate in messages per second
+ */
+export function formatRate(rate: number): string {
+    return `${rate >= 100 ? Math.round(rate).toLocaleString() : rate.toFixed(rate >= 10 ? 1 : 2)} msg/s`;
+}
+
+/**
+ * One-line description of a trend, e.g. "Catching up, drained in ~12m"
+ */
+export function describeLagTrend(trend: LagTrend): string {
+    switch (trend.status) {
+        case 'catching-up':
+            return `Catching up, drained in ~${formatDrainTime(trend.secondsToDrain!)}`;
+        case 'stuck':
+            return `Stuck, no commits in the last ${formatDrainTime(trend.windowSeconds)}`;
+        default:
+            return LAG_TREND_LABELS[trend.status];
+    }
+}
+
+/**
+ * Small lag line for table rows
+ */
+export function renderLagSparkline(points: GroupLagPoint[], width: number = 120, height: number = 24): string {
+    if (points.length < 2) {
+        return '';
+    }
+    const line = toPolyline(points.map(p => p.timestamp), points.map(p => p.lag), width, height, maxOf(points.map(p => p.lag)));
+    return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Lag trend">`
+        + `<polyline points="${line}" fill="none" style="stroke: ${LAG_COLOR}; stroke-width: 1.5;"/></svg>`;
+}
+
+/**
+ * Charts of total lag and of produce vs consume rate between polls, for the consumer group details view
+ */
+export function renderLagHistoryCharts(points: GroupLagPoint[]): string {
+    if (points.length < 2) {
+        return '<div class="empty-state">Lag history needs at least two samples. '
+            + 'Enable "kafka.lagHistory.enabled" to record samples in the background, or reopen this view later.</div>';
+    }
+
+    const timestamps = points.map(p => p.timestamp);
+    const lags = points.map(p => p.lag);
+
+    const rateTimestamps = timestamps.slice(1);
+    const produceRates: number[] = [];
+    const consumeRates: number[] = [];
+    for (let i = 1; i < points.length; i++) {
+        const seconds = Math.max(1, (points[i].timestamp - points[i - 1].timestamp) / 1000);
+        produceRates.push(Math.max(0, (points[i].logEndOffset - points[i - 1].logEndOffset) / seconds));
+        consumeRates.push(Math.max(0, (points[i].committedOffset - points[i - 1].committedOffset) / seconds));
+    }
+    const maxRate = maxOf([...produceRates, ...consumeRates]);
+
+    const from = new Date(timestamps[0]).toLocaleString();
+    const to = new Date(timestamps[timestamps.length - 1]).toLocaleString();
+
+    return `
+        <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 16px;">
+            ${renderChart('Total lag (messages)', timestamps, [
+                { label: 'Lag', color: LAG_COLOR, values: lags }
+            ], maxOf(lags), from, to)}
+            ${renderChart('Produce vs consume rate (msg/s)', rateTimestamps, [
+                { label: 'Produced', color: PRODUCE_COLOR, values: produceRates },
+                { label: 'Consumed', color: CONSUME_COLOR, values: consumeRates }
+            ], maxRate, from, to)}
+        </div>
+    `;
+}
+
+interface ChartSeries {
+    label: string;
+    color: string;
+    values: number[];
+}
+
+function renderChart(title: string, timestamps: number[], series: ChartSeries[], maxY: number, from: string, to: string): string {
+    const width = 480;
+    const height = 140;
+    const lines = series
+        .map(s => `<polyline points="${toPolyline(timestamps, s.values, width, height, maxY)}" fill="none" style="stroke: ${s.color}; stroke-width: 2;"/>`)
+        .join('');
+    const legend = series
+        .map(s => `<span style="margin-right: 12px;"><span style="display: inline-block; width: 10px; height: 10px; background: ${s.color}; margin-right: 4px;"></span>${s.label}</span>`)
+        .join('');
+
+    return `
+        <div>
+            <div style="font-weight: 600; margin-bottom: 6px;">${title}</div>
+            <svg width="100%" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none" style="height: ${height}px; border: 1px solid var(--border-color);">
+                ${lines}
+            </svg>
+            <div style="display: flex; justify-content: space-between; font-size: 11px; color: var(--secondary-text);">
+                <span>${from}</span><span>max ${Math.round(maxY).toLocaleString()}</span><span>${to}</span>
+            </div>
+            <div style="font-size: 12px; margin-top: 4px;">${legend}</div>
+        </div>
+    `;
+}
+
+function toPolyline(timestamps: number[], values: number[], width: number, height: number, maxY: number): string {
+    const start = timestamps[0];
+    const span = Math.max(1, timestamps[timestamps.length - 1] - start);
+    const top = Math.max(1, maxY);
+    return values
+        .map((value, i) => {
+            const x = ((timestamps[i] - start) / span) * width;
+            const y = height - (value / top) * (height - 2) - 1;
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+        })
+        .join(' ');
+}
+
+function maxOf(values: number[]): number {
+    return values.reduce((max, value) => Math.max(max, value), 0);
+}